@@ -0,0 +1,162 @@
+import { ZeroAddress, getAddress, isAddress } from "ethers";
+
+/**
+ * External contract addresses the App modules depend on, per network.
+ */
+export interface NetworkAddresses {
+    WETH_ADDRESS: string;
+    USDT_ADDRESS: string;
+    USDETH_AGGREGATOR: string;
+    UNISWAP_V3_ROUTER: string;
+    // USDT priced in ETH, used by PriceFetcher for gas fees
+    USDTETH_AGGREGATOR?: string;
+    // No FEXSE/USD feed exists yet, leave unset until one is deployed
+    USDFEXSE_AGGREGATOR?: string;
+    // Account granted GUARDIAN_ROLE to cancel DAO proposals, a deployment opting into RWA_DAO fails up front without it
+    GUARDIAN?: string;
+}
+
+export interface NetworkConfig {
+    name: string;
+    chainId: number;
+    addresses: NetworkAddresses;
+}
+
+export type NetworkAddressKey = keyof NetworkAddresses;
+
+const REQUIRED_ADDRESSES: NetworkAddressKey[] = [
+    "WETH_ADDRESS",
+    "USDT_ADDRESS",
+    "USDETH_AGGREGATOR",
+    "UNISWAP_V3_ROUTER",
+];
+
+// Values that were used as stand-ins for addresses we did not have yet
+const PLACEHOLDER_ADDRESSES = [
+    ZeroAddress,
+    "0x0000000000000000000000000000000000000001",
+];
+
+const UNISWAP_V3_ROUTER = "0xE592427A0AEce92De3Edee1F18E0157C05861564";
+
+/**
+ * Known networks. To support a new chain (Base, Optimism ...) add an entry here;
+ * the deploy script and the tests look networks up by name only.
+ */
+export const NETWORKS: { [name: string]: NetworkConfig } = {
+    ethereum: {
+        name: "ethereum",
+        chainId: 1,
+        addresses: {
+            WETH_ADDRESS: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+            USDT_ADDRESS: "0xdAC17F958D2ee523a2206206994597C13D831ec7",
+            USDETH_AGGREGATOR: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419",
+            USDTETH_AGGREGATOR: "0xEe9F2375b4bdF6387aa8265dD4FB8F16512A1d46",
+            UNISWAP_V3_ROUTER,
+        },
+    },
+    polygon: {
+        name: "polygon",
+        chainId: 137,
+        addresses: {
+            WETH_ADDRESS: "0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619",
+            USDT_ADDRESS: "0xc2132D05D31c914a87C6611C10748AEb04B58e8F",
+            USDETH_AGGREGATOR: "0xF9680D99D6C9589e2a93a78A04A279e509205945",
+            UNISWAP_V3_ROUTER,
+        },
+    },
+    arbitrum: {
+        name: "arbitrum",
+        chainId: 42161,
+        addresses: {
+            WETH_ADDRESS: "0x82aF49447D8a07e3bd95BD0d56f35241523fBab1",
+            USDT_ADDRESS: "0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9",
+            USDETH_AGGREGATOR: "0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612",
+            UNISWAP_V3_ROUTER,
+        },
+    },
+    sepolia: {
+        name: "sepolia",
+        chainId: 11155111,
+        addresses: {
+            WETH_ADDRESS: "0x7b79995e5f793A07Bc00c21412e50Ecae098E7f9",
+            USDT_ADDRESS: "0xaA8E23Fb1079EA71e0a56F48a2aA51851D8433D0",
+            USDETH_AGGREGATOR: "0x694AA1769357215DE4FAC081bf1f309aDC325306",
+            UNISWAP_V3_ROUTER,
+        },
+    },
+};
+
+/**
+ * Checks that every required address is set and that every configured address is a
+ * valid, checksummed, non placeholder address.
+ *
+ * @param config - The network entry to validate.
+ *
+ * Throws an error listing every invalid entry, so a broken registry entry fails
+ * before anything is deployed or tested against it.
+ */
+export function validateNetworkConfig(config: NetworkConfig): void {
+    const errors: string[] = [];
+
+    for (const key of REQUIRED_ADDRESSES) {
+        if (!config.addresses[key]) {
+            errors.push(`${key} is missing`);
+        }
+    }
+
+    for (const [key, value] of Object.entries(config.addresses)) {
+        if (value === undefined) {
+            continue;
+        }
+        if (!isAddress(value)) {
+            errors.push(`${key} is not a valid address: ${value}`);
+        } else if (PLACEHOLDER_ADDRESSES.includes(getAddress(value))) {
+            errors.push(`${key} is a placeholder address: ${value}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        throw new Error(`Invalid network config for ${config.name}:\n  ${errors.join("\n  ")}`);
+    }
+}
+
+/**
+ * Returns the validated registry entry of a network.
+ *
+ * @param name - Network name, usually the NETWORK or TEST_CHAIN setting.
+ */
+export function getNetworkConfig(name: string | undefined): NetworkConfig {
+    if (!name) {
+        throw new Error(`Network name is not set. Known networks: ${Object.keys(NETWORKS).join(", ")}`);
+    }
+
+    const config = NETWORKS[name];
+    if (!config) {
+        throw new Error(`Unknown network "${name}". Known networks: ${Object.keys(NETWORKS).join(", ")}`);
+    }
+
+    validateNetworkConfig(config);
+    return config;
+}
+
+/**
+ * Returns an address of a network, failing if it is not configured.
+ */
+export function requireAddress(config: NetworkConfig, key: NetworkAddressKey): string {
+    const address = config.addresses[key];
+    if (!address) {
+        throw new Error(`${key} is not configured for ${config.name}`);
+    }
+    return address;
+}
+
+/**
+ * Fails if the connected chain is not the chain the registry entry describes,
+ * e.g. NETWORK=polygon with an Ethereum RPC_URL.
+ */
+export function assertChainId(config: NetworkConfig, chainId: bigint | number): void {
+    if (BigInt(chainId) !== BigInt(config.chainId)) {
+        throw new Error(`NETWORK is ${config.name} (chain ${config.chainId}) but the provider is on chain ${chainId}`);
+    }
+}
@@ -44,9 +44,26 @@ library AppStorage {
         mapping(uint256 => bytes32) selectorSlots; // Mapping to store function selector slots, enabling modular function upgrades
         mapping(uint256 => Asset) assets; // A mapping of asset IDs to their corresponding asset details
         mapping(uint256 => Proposal) proposals; // A mapping of proposal IDs to their corresponding proposal details
-        mapping(address => Stake) stakes;   // A mapping of addresses to their corresponding stake details
+        mapping(address => Stake) stakes;   // Abandoned: single stake per address of the first StakingService, never migrated to stakePositions
         mapping(address => bool) isWhitelisted; // Tracks addresses that are allowed specific privileges in the system
         mapping(address => bool) isBlacklisted; // Tracks addresses that are restricted from certain actions
+        FexseOracle fexseOracle; // Source and sanity bounds of the FEXSE price read by PriceFetcher
+        mapping(address => uint256) gasFeeCaps; // Maximum settlement gas fee charged per sale currency, zero for no cap
+        mapping(uint256 => mapping(address => FeeRate)) feeRates; // Service fee per asset and currency, asset 0 holds the currency defaults
+        address feeTreasury; // Receives the service fees, the App or the deployer keep them while unset
+        mapping(address => address) payoutAddresses; // Address receiving a seller's sale proceeds instead of the seller
+        uint256 issuanceRoundCount; // Number of primary issuance rounds created, also the id of the latest one
+        mapping(uint256 => IssuanceRound) issuanceRounds; // A mapping of round IDs to their primary issuance rounds
+        mapping(uint256 => TransferRestrictionMode) transferRestrictions; // Restriction AssetToken applies to peer-to-peer transfers of each asset
+        mapping(address => InvestorIdentity) investorIdentities; // KYC registry of investor country, accreditation and expiry
+        mapping(uint256 => AssetComplianceRules) assetComplianceRules; // Per-asset country, accreditation and holder count rules
+        uint256 timelockDelay; // Delay between queueing and executing a passed DAO proposal, DEFAULT_TIMELOCK_DELAY while unset
+        mapping(uint256 => StakingPool) stakingPools; // The StakingService pool under STAKING_POOL_ID, in a mapping so StakingPool can grow
+        StakingTier[] stakingTiers; // Lock tiers offered to stakers, indexed by tier id
+        mapping(address => StakePosition[]) stakePositions; // Stake positions of each staker, indexed by position id
+        mapping(uint256 => uint256) issuanceReserved; // Deployer tokens per asset held back for open rounds and unclaimed purchases
+        mapping(uint256 => mapping(address => IssuanceBuyer)) issuanceBuyers; // Unsettled issuance purchases of each investor per asset
+        mapping(uint256 => uint256) issuancePendingHolders; // Issuance buyers per asset without tokens yet, counted toward the maximum holder count
     }
 
     /**
@@ -32,6 +32,31 @@ bytes32 constant COMPLIANCE_OFFICER_ROLE = keccak256("COMPLIANCE_OFFICER_ROLE");
  */
 bytes32 constant PAYMENT_MANAGER_ROLE = keccak256("PAYMENT_MANAGER_ROLE");
 
+/**
+ * @dev Role identifier for the guardian role, which can cancel DAO proposals.
+ */
+bytes32 constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+
+/**
+ * @dev Denominator of rates expressed in basis points.
+ */
+uint256 constant BPS_DENOMINATOR = 10000;
+
+/**
+ * @dev Delay between queueing and executing a passed DAO proposal while none is configured.
+ */
+uint256 constant DEFAULT_TIMELOCK_DELAY = 2 days;
+
+/**
+ * @dev Scale of the reward per weighted token accumulated by the staking pool.
+ */
+uint256 constant STAKING_REWARD_PRECISION = 1e18;
+
+/**
+ * @dev Key of the StakingService pool in `AppStorage.Layout.stakingPools`.
+ */
+uint256 constant STAKING_POOL_ID = 0;
+
 
 // Asset struct
 /**
@@ -76,6 +101,46 @@ struct UserTokenInfo {
     uint256 salePrices;
 }
 
+/**
+ * @dev Call executed by the App diamond when a DAO proposal is executed.
+ * @param target The contract called, usually the App itself.
+ * @param value The ETH sent with the call, paid from the App balance.
+ * @param data The calldata, e.g. an encoded `updateAsset` or `diamondCut`.
+ */
+struct ProposalAction {
+    address target;
+    uint256 value;
+    bytes data;
+}
+
+/**
+ * @dev Lifecycle of a DAO proposal.
+ * ACTIVE: the voting period is running.
+ * DEFEATED: voting ended below the quorum or with more votes against.
+ * SUCCEEDED: voting ended with the proposal passed, it can be queued.
+ * QUEUED: waiting for the timelock to expire before execution.
+ * EXECUTED: the actions were executed.
+ * CANCELLED: cancelled by the proposer or a guardian before execution.
+ */
+enum ProposalState {
+    ACTIVE,
+    DEFEATED,
+    SUCCEEDED,
+    QUEUED,
+    EXECUTED,
+    CANCELLED
+}
+
+/**
+ * @dev What weights the votes of a DAO proposal.
+ * GOVERNANCE_TOKEN: the delegated votes of the governance token holders.
+ * ASSET_HOLDINGS: the AssetToken balances of the holders of one asset, for asset-specific decisions.
+ */
+enum VotingWeight {
+    GOVERNANCE_TOKEN,
+    ASSET_HOLDINGS
+}
+
 // Proposal struct
 /**
  * @dev Struct to store information about a governance proposal.
@@ -84,10 +149,21 @@ struct UserTokenInfo {
  * @param description Description of the proposal.
  * @param forVotes Number of votes in favor of the proposal.
  * @param againstVotes Number of votes against the proposal.
- * @param minimumQuorum Minimum number of votes required for the proposal to be valid.
+ * @param minimumQuorum Votes for required for the proposal to pass, as a raw vote count. Only set on
+ * proposals created before `quorumBps`, which keep this meaning, zero on newer ones.
  * @param executed Whether the proposal has been executed.
  * @param deadline Deadline for voting on the proposal.
  * @param voters Mapping of voter addresses to their voting status.
+ * @param proposer The account that created the proposal.
+ * @param actions The calls executed when the proposal is executed.
+ * @param actionSucceeded Whether the action at each index succeeded on execution.
+ * @param eta Timestamp from which a queued proposal can be executed, zero until queued.
+ * @param cancelled Whether the proposal was cancelled.
+ * @param snapshot Block whose balances weight the votes, the block before the proposal was created.
+ * @param votingWeight Whether the governance token or the asset holdings weight the votes.
+ * @param assetId The asset whose holders vote on an ASSET_HOLDINGS proposal.
+ * @param quorumBps Votes for required for the proposal to pass, in basis points of the total supply
+ * at the snapshot. Zero on proposals created before it, whose quorum is `minimumQuorum`.
  */
 struct Proposal {
     uint256 id;
@@ -99,10 +175,20 @@ struct Proposal {
     bool executed;
     uint256 deadline;
     mapping(address => bool) voters;
+    address proposer;
+    ProposalAction[] actions;
+    mapping(uint256 => bool) actionSucceeded;
+    uint256 eta;
+    bool cancelled;
+    uint256 snapshot;
+    VotingWeight votingWeight;
+    uint256 assetId;
+    uint256 quorumBps;
 }
 
 /**
- * @dev Represents a stake in the system.
+ * @dev Represents a stake of the first StakingService. Abandoned: the StakingService now keeps
+ * StakePosition entries in `stakePositions`, stakes left in this struct are not migrated.
  * @param amount The amount of tokens staked.
  * @param rewardDebt The amount of rewards debt associated with the stake.
  * @param lockTime The time until which the stake is locked.
@@ -113,6 +199,58 @@ struct Stake {
     uint256 lockTime;
 }
 
+/**
+ * @dev A lock tier stakers choose when staking.
+ * @param lockDuration The time a stake of this tier stays locked.
+ * @param multiplierBps The reward weight of the staked tokens in basis points, 10000 for 1x.
+ */
+struct StakingTier {
+    uint64 lockDuration;
+    uint32 multiplierBps;
+}
+
+/**
+ * @dev A stake position. Each stake opens its own position, so staking again does not extend
+ * the lock of earlier positions.
+ * @param amount The amount of tokens staked and not yet withdrawn.
+ * @param weightedAmount The amount weighted by the tier multiplier, the share of the rewards.
+ * @param rewardDebt `weightedAmount` times the pool's reward per weighted token when the
+ * position was last settled, the rewards accrued since are computed from it.
+ * @param unlockTime The time from which the position can be unstaked.
+ * @param tier The lock tier chosen when staking.
+ */
+struct StakePosition {
+    uint256 amount;
+    uint256 weightedAmount;
+    uint256 rewardDebt;
+    uint64 unlockTime;
+    uint8 tier;
+}
+
+/**
+ * @dev The staking pool. Rewards accrue per second at `rewardRate` and are shared by the
+ * weighted stakes, as long as the funded reserve covers them.
+ * @param rewardRate The reward tokens accrued per second.
+ * @param rewardPerWeight The rewards accrued per weighted token, scaled by STAKING_REWARD_PRECISION.
+ * @param lastUpdate The time rewards were last accrued.
+ * @param totalStaked The tokens staked in all positions.
+ * @param totalWeighted The weighted amount of all positions.
+ * @param rewardReserve The funded rewards not accrued yet.
+ * @param rewardsOwed The rewards accrued to positions and not paid yet.
+ * @param balance The tokens transferred in by stakes and funding and not paid out yet, the
+ * share of the App's staking token balance that belongs to the pool.
+ */
+struct StakingPool {
+    uint256 rewardRate;
+    uint256 rewardPerWeight;
+    uint64 lastUpdate;
+    uint256 totalStaked;
+    uint256 totalWeighted;
+    uint256 rewardReserve;
+    uint256 rewardsOwed;
+    uint256 balance;
+}
+
 /**
  * @dev Struct to store information about profit distribution.
  * @param holder The address of the profit holder.
@@ -122,3 +260,224 @@ struct ProfitInfo {
     address holder;
     uint256 profitAmount;
 }
+
+/**
+ * @dev Sources the FEXSE price can be read from.
+ * FIXED: the configured reference price.
+ * UNISWAP_V3_TWAP: the time weighted average tick of a Uniswap V3 FEXSE/USDT pool.
+ * CHAINLINK: a FEXSE/USD Chainlink aggregator.
+ */
+enum PriceSource {
+    FIXED,
+    UNISWAP_V3_TWAP,
+    CHAINLINK
+}
+
+/**
+ * @dev Struct to store the configuration of the FEXSE price oracle.
+ * @param source The source the price is read from.
+ * @param feed The Uniswap V3 pool or the Chainlink aggregator, unused by FIXED.
+ * @param twapWindow Number of seconds the pool tick is averaged over.
+ * @param maxStaleness Number of seconds a Chainlink answer stays valid.
+ * @param maxDeviationBps Maximum deviation from `referencePrice` in basis points, zero disables the check.
+ * @param referencePrice Price in USDT (6 decimals) per FEXSE, returned by FIXED and anchoring the deviation check.
+ */
+struct FexseOracle {
+    PriceSource source;
+    address feed;
+    uint32 twapWindow;
+    uint32 maxStaleness;
+    uint16 maxDeviationBps;
+    uint256 referencePrice;
+}
+
+/**
+ * @dev Struct to store a service fee rate.
+ * @param isSet Whether the rate was configured, an unset rate falls back to the next level.
+ * @param feeBps The fee in basis points of the traded amount.
+ */
+struct FeeRate {
+    bool isSet;
+    uint16 feeBps;
+}
+
+/**
+ * @dev Lifecycle of a primary issuance round.
+ * PENDING: created, the sale window has not opened yet.
+ * ACTIVE: investors can buy.
+ * ENDED: the window closed or the hard cap sold out, the round awaits finalization.
+ * SUCCEEDED: finalized with the soft cap reached, investors claim their tokens.
+ * FAILED: finalized below the soft cap, investors claim refunds.
+ * CANCELLED: cancelled by an admin before finalization, investors claim refunds.
+ */
+enum IssuanceState {
+    PENDING,
+    ACTIVE,
+    ENDED,
+    SUCCEEDED,
+    FAILED,
+    CANCELLED
+}
+
+/**
+ * @dev Struct to store the terms of a primary issuance round.
+ * @param assetId The asset whose tokens are sold, delivered from the deployer.
+ * @param tokenPrice Price per token in USDT.
+ * @param startTime Timestamp the sale window opens.
+ * @param endTime Timestamp the sale window closes.
+ * @param softCap Tokens that must be sold for the round to succeed.
+ * @param hardCap Maximum number of tokens sold.
+ * @param minPerInvestor Minimum total tokens an investor buys.
+ * @param maxPerInvestor Maximum total tokens an investor buys, zero for no limit.
+ * @param whitelistOnly Whether only whitelisted addresses can buy.
+ */
+struct IssuanceConfig {
+    uint256 assetId;
+    uint256 tokenPrice;
+    uint64 startTime;
+    uint64 endTime;
+    uint256 softCap;
+    uint256 hardCap;
+    uint256 minPerInvestor;
+    uint256 maxPerInvestor;
+    bool whitelistOnly;
+}
+
+/**
+ * @dev Struct to store a primary issuance round and its escrow.
+ * @param config The terms of the round.
+ * @param tokensSold Number of tokens bought so far.
+ * @param raised USDT escrowed for the tokens, paid to the issuer as the tokens are claimed.
+ * @param fees USDT escrowed for the service fee, paid to the treasury as the tokens are claimed.
+ * @param finalized Whether the round was finalized.
+ * @param cancelled Whether the round was cancelled.
+ * @param purchased Mapping of investors to the tokens they bought and not yet claimed.
+ * @param paid Mapping of investors to the USDT they escrowed and not yet claimed.
+ */
+struct IssuanceRound {
+    IssuanceConfig config;
+    uint256 tokensSold;
+    uint256 raised;
+    uint256 fees;
+    bool finalized;
+    bool cancelled;
+    mapping(address => uint256) purchased;
+    mapping(address => uint256) paid;
+}
+
+/**
+ * @dev Struct to store the unsettled issuance purchases of an investor in one asset.
+ * @param openRounds Number of rounds the investor bought in and has not claimed from yet.
+ * @param newHolder Whether the investor held none of the asset's tokens at the first of these
+ * purchases, and so takes a holder slot of the asset until the last of them is settled.
+ */
+struct IssuanceBuyer {
+    uint256 openRounds;
+    bool newHolder;
+}
+
+/**
+ * @dev Transfer restriction applied by an AssetToken to peer-to-peer transfers.
+ * BLACKLIST_ONLY: neither party may be blacklisted, the mode of an asset until configured.
+ * WHITELIST_REQUIRED: both parties must be whitelisted and not blacklisted.
+ * OPEN: no restriction.
+ */
+enum TransferRestrictionMode {
+    BLACKLIST_ONLY,
+    WHITELIST_REQUIRED,
+    OPEN
+}
+
+// ERC-1404 transfer restriction codes
+/**
+ * @dev The transfer is allowed.
+ */
+uint8 constant TRANSFER_ALLOWED = 0;
+
+/**
+ * @dev The sender is blacklisted.
+ */
+uint8 constant SENDER_BLACKLISTED = 1;
+
+/**
+ * @dev The recipient is blacklisted.
+ */
+uint8 constant RECIPIENT_BLACKLISTED = 2;
+
+/**
+ * @dev The sender is not whitelisted.
+ */
+uint8 constant SENDER_NOT_WHITELISTED = 3;
+
+/**
+ * @dev The recipient is not whitelisted.
+ */
+uint8 constant RECIPIENT_NOT_WHITELISTED = 4;
+
+/**
+ * @dev The investor is not allowed to receive tokens until their KYC is renewed.
+ */
+uint8 constant RECIPIENT_KYC_EXPIRED = 5;
+
+/**
+ * @dev The investor's country is blocked for the asset.
+ */
+uint8 constant RECIPIENT_COUNTRY_BLOCKED = 6;
+
+/**
+ * @dev The asset only accepts accredited or institutional investors.
+ */
+uint8 constant RECIPIENT_NOT_ACCREDITED = 7;
+
+/**
+ * @dev The transfer would add a holder beyond the asset's maximum holder count.
+ */
+uint8 constant MAX_HOLDERS_REACHED = 8;
+
+/**
+ * @dev Accreditation class of an investor, reported by the KYC provider.
+ */
+enum InvestorClass {
+    NONE,
+    RETAIL,
+    ACCREDITED,
+    INSTITUTIONAL
+}
+
+/**
+ * @dev Struct to store the identity of an investor in the KYC registry.
+ * @param country ISO 3166-1 alpha-2 country code, e.g. "US".
+ * @param investorClass The accreditation class of the investor.
+ * @param kycExpiry Timestamp the KYC check expires, zero if it does not expire.
+ */
+struct InvestorIdentity {
+    bytes2 country;
+    InvestorClass investorClass;
+    uint64 kycExpiry;
+}
+
+/**
+ * @dev Struct to store the compliance rules of an asset, checked on every restricted transfer.
+ * @param accreditedOnly Whether recipients must be accredited or institutional investors.
+ * @param maxHolders Maximum number of holders of the asset, zero for no limit.
+ * @param blockedCountries Mapping of country codes whose investors cannot receive the asset.
+ */
+struct AssetComplianceRules {
+    bool accreditedOnly;
+    uint32 maxHolders;
+    mapping(bytes2 => bool) blockedCountries;
+}
+
+/**
+ * @dev Reason recorded with a forced transfer for the audit trail.
+ * LOST_WALLET: the holder lost access to the wallet and was recovered to a new one.
+ * COURT_ORDER: the transfer executes a court order.
+ * SANCTIONS: the holder is sanctioned, the tokens are moved to the issuer's custody.
+ * OTHER: any other regulatory reason, documented off chain.
+ */
+enum ForcedTransferReason {
+    LOST_WALLET,
+    COURT_ORDER,
+    SANCTIONS,
+    OTHER
+}
@@ -14,6 +14,37 @@ interface IAssetToken is IERC1155 {
 
     function burn(address account, uint256 assetId, uint256 amount) external;
 
+    function forceTransfer(
+        address from,
+        address to,
+        uint256 id,
+        uint256 amount
+    ) external;
+
+    function detectTransferRestriction(
+        address from,
+        address to,
+        uint256 id,
+        uint256 amount
+    ) external view returns (uint8);
+
+    function messageForTransferRestriction(
+        uint8 restrictionCode
+    ) external view returns (string memory);
+
+    function clock() external view returns (uint48);
+
+    function getPastBalance(
+        address account,
+        uint256 id,
+        uint256 timepoint
+    ) external view returns (uint256);
+
+    function getPastTotalSupply(
+        uint256 id,
+        uint256 timepoint
+    ) external view returns (uint256);
+
     function setURI(string memory newuri) external;
 
     function pause() external;
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface ICompliance {
+    function detectTransferRestriction(
+        uint256 assetId,
+        address from,
+        address to,
+        uint256 amount
+    ) external view returns (uint8);
+
+    function messageForTransferRestriction(
+        uint8 restrictionCode
+    ) external pure returns (string memory);
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+interface IFeeModule {
+    event FeeCollected(
+        uint256 assetId,
+        address currency,
+        address payer,
+        address recipient,
+        uint256 amount
+    );
+
+    function getFeeRate(uint256 assetId, address currency) external view returns (uint16 feeBps);
+    function getTreasury() external view returns (address);
+    function getPayoutAddress(address seller) external view returns (address);
+}
@@ -0,0 +1,82 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title MockAggregator
+ * @dev Chainlink AggregatorV3Interface stand-in for local tests. The answer and its
+ * timestamp are set by the test instead of an oracle network.
+ */
+contract MockAggregator {
+    uint8 public immutable decimals;
+    string public description;
+    uint256 public constant version = 4;
+
+    uint80 private _roundId;
+    int256 private _answer;
+    uint256 private _updatedAt;
+
+    /**
+     * @dev Initializes the feed with its decimals and a first answer.
+     * @param decimals_ Number of decimals of the answer
+     * @param answer_ Initial answer
+     */
+    constructor(uint8 decimals_, int256 answer_) {
+        decimals = decimals_;
+        description = "Mock aggregator";
+        _setAnswer(answer_, block.timestamp);
+    }
+
+    /**
+     * @dev Publishes a new answer as a new round, timestamped with the current block.
+     * @param answer_ The new answer
+     */
+    function setAnswer(int256 answer_) external {
+        _setAnswer(answer_, block.timestamp);
+    }
+
+    /**
+     * @dev Publishes a new answer with an explicit update time, to simulate stale feeds.
+     * @param answer_ The new answer
+     * @param updatedAt_ Timestamp reported as the round update time
+     */
+    function setAnswerWithTimestamp(int256 answer_, uint256 updatedAt_) external {
+        _setAnswer(answer_, updatedAt_);
+    }
+
+    function getRoundData(
+        uint80 roundId_
+    )
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        require(roundId_ == _roundId, "MockAggregator: unknown round");
+        return (_roundId, _answer, _updatedAt, _updatedAt, _roundId);
+    }
+
+    function latestRoundData()
+        external
+        view
+        returns (
+            uint80 roundId,
+            int256 answer,
+            uint256 startedAt,
+            uint256 updatedAt,
+            uint80 answeredInRound
+        )
+    {
+        return (_roundId, _answer, _updatedAt, _updatedAt, _roundId);
+    }
+
+    function _setAnswer(int256 answer_, uint256 updatedAt_) private {
+        _roundId++;
+        _answer = answer_;
+        _updatedAt = updatedAt_;
+    }
+}
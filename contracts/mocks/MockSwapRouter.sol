@@ -0,0 +1,76 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@uniswap/v3-periphery/contracts/interfaces/ISwapRouter.sol";
+import "../token/ERC20/IERC20.sol";
+
+/**
+ * @title MockSwapRouter
+ * @dev Uniswap V3 SwapRouter stand-in for local tests. Only `exactInputSingle` is
+ * supported; it swaps at a fixed rate per token pair out of the router's own balance,
+ * so tests must fund the router with the output token.
+ */
+contract MockSwapRouter is ISwapRouter {
+    // tokenIn => tokenOut => amount of tokenOut paid per 1e18 units of tokenIn
+    mapping(address => mapping(address => uint256)) public rates;
+
+    /**
+     * @dev Sets the exchange rate of a token pair.
+     * @param tokenIn Token sold to the router
+     * @param tokenOut Token bought from the router
+     * @param rate Amount of tokenOut per 1e18 units of tokenIn
+     */
+    function setRate(address tokenIn, address tokenOut, uint256 rate) external {
+        rates[tokenIn][tokenOut] = rate;
+    }
+
+    function exactInputSingle(
+        ExactInputSingleParams calldata params
+    ) external payable returns (uint256 amountOut) {
+        require(block.timestamp <= params.deadline, "MockSwapRouter: expired");
+
+        uint256 rate = rates[params.tokenIn][params.tokenOut];
+        require(rate > 0, "MockSwapRouter: no rate");
+
+        amountOut = (params.amountIn * rate) / 10 ** 18;
+        require(
+            amountOut >= params.amountOutMinimum,
+            "MockSwapRouter: too little received"
+        );
+
+        require(
+            IERC20(params.tokenIn).transferFrom(
+                msg.sender,
+                address(this),
+                params.amountIn
+            ),
+            "MockSwapRouter: transferFrom failed"
+        );
+        require(
+            IERC20(params.tokenOut).transfer(params.recipient, amountOut),
+            "MockSwapRouter: transfer failed"
+        );
+    }
+
+    function exactInput(
+        ExactInputParams calldata
+    ) external payable returns (uint256) {
+        revert("MockSwapRouter: not supported");
+    }
+
+    function exactOutputSingle(
+        ExactOutputSingleParams calldata
+    ) external payable returns (uint256) {
+        revert("MockSwapRouter: not supported");
+    }
+
+    function exactOutput(
+        ExactOutputParams calldata
+    ) external payable returns (uint256) {
+        revert("MockSwapRouter: not supported");
+    }
+
+    function uniswapV3SwapCallback(int256, int256, bytes calldata) external pure {
+        revert("MockSwapRouter: not supported");
+    }
+}
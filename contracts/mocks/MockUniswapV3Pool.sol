@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @title MockUniswapV3Pool
+ * @dev Uniswap V3 pool stand-in for local tests. Only the oracle is simulated: the test
+ * sets the current tick and `observe` returns the tick cumulatives that tick history
+ * produces, without any liquidity or swaps behind it.
+ */
+contract MockUniswapV3Pool {
+    address public immutable token0;
+    address public immutable token1;
+
+    struct Checkpoint {
+        uint32 timestamp;
+        int56 tickCumulative;
+        int24 tick;
+    }
+
+    Checkpoint[] private _checkpoints;
+
+    /**
+     * @dev Initializes the pool with its sorted tokens and a first tick.
+     * @param tokenA One token of the pair
+     * @param tokenB The other token of the pair
+     * @param tick_ Tick of the pool from the deployment block on
+     */
+    constructor(address tokenA, address tokenB, int24 tick_) {
+        (token0, token1) = tokenA < tokenB ? (tokenA, tokenB) : (tokenB, tokenA);
+        _checkpoints.push(Checkpoint(uint32(block.timestamp), 0, tick_));
+    }
+
+    /**
+     * @dev Moves the pool to a new tick from the current block on.
+     * @param tick_ The new tick
+     */
+    function setTick(int24 tick_) external {
+        Checkpoint memory last = _checkpoints[_checkpoints.length - 1];
+        _checkpoints.push(Checkpoint(uint32(block.timestamp), _cumulativeAt(last, uint32(block.timestamp)), tick_));
+    }
+
+    function slot0()
+        external
+        view
+        returns (uint160 sqrtPriceX96, int24 tick, uint16, uint16, uint16, uint8, bool)
+    {
+        return (0, _checkpoints[_checkpoints.length - 1].tick, 0, 0, 0, 0, true);
+    }
+
+    function observe(
+        uint32[] calldata secondsAgos
+    ) external view returns (int56[] memory tickCumulatives, uint160[] memory secondsPerLiquidityCumulativeX128s) {
+        tickCumulatives = new int56[](secondsAgos.length);
+        secondsPerLiquidityCumulativeX128s = new uint160[](secondsAgos.length);
+
+        for (uint256 i = 0; i < secondsAgos.length; i++) {
+            uint32 target = uint32(block.timestamp) - secondsAgos[i];
+            require(target >= _checkpoints[0].timestamp, "OLD");
+
+            uint256 index = _checkpoints.length - 1;
+            while (_checkpoints[index].timestamp > target) {
+                index--;
+            }
+            tickCumulatives[i] = _cumulativeAt(_checkpoints[index], target);
+        }
+    }
+
+    function _cumulativeAt(Checkpoint memory checkpoint, uint32 time) private pure returns (int56) {
+        return checkpoint.tickCumulative + int56(checkpoint.tick) * int56(uint56(time - checkpoint.timestamp));
+    }
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../core/AppStorage.sol";
+
+/**
+ * @title StorageLayoutHarness
+ * @dev Never deployed. Declares `AppStorage.Layout` as a state variable so the compiler
+ * emits its storage layout, including every struct reachable from it (Asset,
+ * UserTokenInfo, Proposal, Stake). The storage layout guard (`storage:check`) compares
+ * that output with the committed baseline.
+ */
+contract StorageLayoutHarness {
+    AppStorage.Layout internal layout;
+}
@@ -19,6 +19,11 @@ contract Compliance is ModularInternal {
     event AddressWhitelisted(address indexed account);
     event AddressBlacklisted(address indexed account);
     event AddressRemovedFromBlacklist(address indexed account);
+    event AddressRemovedFromWhitelist(address indexed account);
+    event TransferRestrictionModeUpdated(
+        uint256 indexed assetId,
+        TransferRestrictionMode mode
+    );
 
     address immutable _this;
 
@@ -44,14 +49,19 @@ contract Compliance is ModularInternal {
      */
     function moduleFacets() external view returns (FacetCut[] memory) {
         uint256 selectorIndex = 0;
-        bytes4[] memory selectors = new bytes4[](5);
+        bytes4[] memory selectors = new bytes4[](10);
 
         // Add function selectors to the array
         selectors[selectorIndex++] = this.whitelistAddress.selector;
         selectors[selectorIndex++] = this.blacklistAddress.selector;
         selectors[selectorIndex++] = this.removeFromBlacklist.selector;
+        selectors[selectorIndex++] = this.removeFromWhitelist.selector;
         selectors[selectorIndex++] = this.preTransferCheck.selector;
         selectors[selectorIndex++] = this.isAddressBlacklisted.selector;
+        selectors[selectorIndex++] = this.setTransferRestrictionMode.selector;
+        selectors[selectorIndex++] = this.getTransferRestrictionMode.selector;
+        selectors[selectorIndex++] = this.detectTransferRestriction.selector;
+        selectors[selectorIndex++] = this.messageForTransferRestriction.selector;
 
         // Create a FacetCut array with a single element
         FacetCut[] memory facetCuts = new FacetCut[](1);
@@ -115,6 +125,24 @@ contract Compliance is ModularInternal {
         emit AddressRemovedFromBlacklist(account);
     }
 
+    /**
+     * @notice Removes an address from the whitelist.
+     * @dev This function can only be called by an account with the COMPLIANCE_OFFICER_ROLE.
+     * The identity registered in the IdentityRegistry module is kept.
+     * @param account The address to be removed from the whitelist.
+     * @dev Requirements: The address must be currently whitelisted.
+     * @dev Emits: AddressRemovedFromWhitelist event upon successful removal.
+     */
+    function removeFromWhitelist(
+        address account
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(data.isWhitelisted[account], "Address is not whitelisted");
+        data.isWhitelisted[account] = false;
+        emit AddressRemovedFromWhitelist(account);
+    }
+
     /**
      * @notice Performs checks before a token transfer is allowed.
      * @dev This function checks if the seller and recipient addresses are blacklisted or whitelisted.
@@ -146,4 +174,165 @@ contract Compliance is ModularInternal {
 
         return data.isBlacklisted[account];
     }
+
+    /**
+     * @notice Sets the restriction AssetToken applies to peer-to-peer transfers of an asset.
+     * @dev This function can only be called by an account with the COMPLIANCE_OFFICER_ROLE.
+     * Mint, burn and admin recovery transfers are never restricted.
+     * @param assetId The ID of the asset.
+     * @param mode The restriction mode, BLACKLIST_ONLY until configured.
+     * @dev Requirements: The asset must exist.
+     * @dev Emits: TransferRestrictionModeUpdated.
+     */
+    function setTransferRestrictionMode(
+        uint256 assetId,
+        TransferRestrictionMode mode
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(data.assets[assetId].id != 0, "Asset does not exist");
+        data.transferRestrictions[assetId] = mode;
+        emit TransferRestrictionModeUpdated(assetId, mode);
+    }
+
+    /**
+     * @notice Returns the transfer restriction mode of an asset.
+     * @param assetId The ID of the asset.
+     * @return TransferRestrictionMode The mode AssetToken enforces for the asset.
+     */
+    function getTransferRestrictionMode(
+        uint256 assetId
+    ) external view returns (TransferRestrictionMode) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        return data.transferRestrictions[assetId];
+    }
+
+    /**
+     * @notice Detects whether a transfer of an asset between two addresses is restricted.
+     * @dev ERC-1404 style check called by AssetToken on every peer-to-peer transfer.
+     * Blacklisting is checked before whitelisting, the sender before the recipient, then the
+     * recipient's KYC expiry and the rules of the asset.
+     * @param assetId The ID of the transferred asset.
+     * @param from The address of the sender.
+     * @param to The address of the recipient.
+     * @param amount The amount transferred.
+     * @return uint8 TRANSFER_ALLOWED, or the code of the first restriction found.
+     */
+    function detectTransferRestriction(
+        uint256 assetId,
+        address from,
+        address to,
+        uint256 amount
+    ) external view returns (uint8) {
+        AppStorage.Layout storage data = AppStorage.layout();
+        TransferRestrictionMode mode = data.transferRestrictions[assetId];
+
+        if (mode == TransferRestrictionMode.OPEN) {
+            return TRANSFER_ALLOWED;
+        }
+        if (data.isBlacklisted[from]) {
+            return SENDER_BLACKLISTED;
+        }
+        if (data.isBlacklisted[to]) {
+            return RECIPIENT_BLACKLISTED;
+        }
+        if (mode == TransferRestrictionMode.WHITELIST_REQUIRED) {
+            if (!data.isWhitelisted[from]) {
+                return SENDER_NOT_WHITELISTED;
+            }
+            if (!data.isWhitelisted[to]) {
+                return RECIPIENT_NOT_WHITELISTED;
+            }
+        }
+        uint64 kycExpiry = data.investorIdentities[to].kycExpiry;
+        if (kycExpiry != 0 && kycExpiry <= block.timestamp) {
+            return RECIPIENT_KYC_EXPIRED;
+        }
+        return _detectRuleRestriction(data, assetId, from, to, amount);
+    }
+
+    /**
+     * @notice Returns the human readable message of a transfer restriction code.
+     * @dev The messages match the revert strings of preTransferCheck.
+     * @param restrictionCode A code returned by detectTransferRestriction.
+     * @return string The message describing the restriction.
+     */
+    function messageForTransferRestriction(
+        uint8 restrictionCode
+    ) external pure returns (string memory) {
+        if (restrictionCode == TRANSFER_ALLOWED) {
+            return "No restriction";
+        }
+        if (restrictionCode == SENDER_BLACKLISTED) {
+            return "Sender address is blacklisted";
+        }
+        if (restrictionCode == RECIPIENT_BLACKLISTED) {
+            return "Recipient address is blacklisted";
+        }
+        if (restrictionCode == SENDER_NOT_WHITELISTED) {
+            return "Sender is not whitelisted";
+        }
+        if (restrictionCode == RECIPIENT_NOT_WHITELISTED) {
+            return "Recipient is not whitelisted";
+        }
+        if (restrictionCode == RECIPIENT_KYC_EXPIRED) {
+            return "Recipient KYC has expired";
+        }
+        if (restrictionCode == RECIPIENT_COUNTRY_BLOCKED) {
+            return "Recipient country is blocked";
+        }
+        if (restrictionCode == RECIPIENT_NOT_ACCREDITED) {
+            return "Recipient is not accredited";
+        }
+        if (restrictionCode == MAX_HOLDERS_REACHED) {
+            return "Maximum holder count reached";
+        }
+        return "Unknown restriction code";
+    }
+
+    /**
+     * @dev Checks the recipient of a transfer against the compliance rules of the asset.
+     * @param data The application storage.
+     * @param assetId The ID of the transferred asset.
+     * @param from The address of the sender.
+     * @param to The address of the recipient.
+     * @param amount The amount transferred.
+     * @return uint8 TRANSFER_ALLOWED, or the code of the first rule the recipient breaks.
+     */
+    function _detectRuleRestriction(
+        AppStorage.Layout storage data,
+        uint256 assetId,
+        address from,
+        address to,
+        uint256 amount
+    ) private view returns (uint8) {
+        AssetComplianceRules storage rules = data.assetComplianceRules[assetId];
+        InvestorIdentity storage identity = data.investorIdentities[to];
+
+        if (rules.blockedCountries[identity.country]) {
+            return RECIPIENT_COUNTRY_BLOCKED;
+        }
+        if (
+            rules.accreditedOnly &&
+            identity.investorClass < InvestorClass.ACCREDITED
+        ) {
+            return RECIPIENT_NOT_ACCREDITED;
+        }
+
+        // Only a recipient without tokens adds a holder, unless the sender leaves with its whole balance.
+        // Issuance buyers waiting for their tokens already hold a slot, so they count as holders
+        Asset storage asset = data.assets[assetId];
+        if (
+            rules.maxHolders != 0 &&
+            asset.userTokenInfo[to].holdings == 0 &&
+            !data.issuanceBuyers[assetId][to].newHolder &&
+            amount != asset.userTokenInfo[from].holdings &&
+            asset.tokenHolders.length + data.issuancePendingHolders[assetId] >=
+            rules.maxHolders
+        ) {
+            return MAX_HOLDERS_REACHED;
+        }
+        return TRANSFER_ALLOWED;
+    }
 }
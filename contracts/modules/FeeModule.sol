@@ -0,0 +1,205 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @file FeeModule.sol
+ * @notice This file contains the implementation of the FeeModule module.
+ * @dev This module stores the service fee schedule and the addresses fees and sale proceeds are paid to.
+ *
+ * @import ModularInternal.sol - Provides internal modular functionalities.
+ */
+import "../core/abstracts/ModularInternal.sol";
+
+/**
+ * @title FeeModule
+ * @dev This contract is a module holding the service fee rates charged by MarketPlace and SalesModule,
+ * the treasury collecting them and the payout addresses of sellers. It inherits from the ModularInternal contract.
+ */
+contract FeeModule is ModularInternal {
+    using AppStorage for AppStorage.Layout;
+
+    // Service fee while neither the asset nor the currency has a rate, the historical 0.5%
+    uint16 constant DEFAULT_FEE_BPS = 50;
+
+    // Highest rate a payment manager can set, 10%
+    uint16 constant MAX_FEE_BPS = 1000;
+
+    event FeeCollected(
+        uint256 assetId,
+        address currency,
+        address payer,
+        address recipient,
+        uint256 amount
+    );
+
+    event FeeRateUpdated(uint256 assetId, address currency, uint16 feeBps);
+
+    event FeeRateCleared(uint256 assetId, address currency);
+
+    event TreasuryUpdated(address treasury);
+
+    event PayoutAddressUpdated(address seller, address payout);
+
+    address immutable _this;
+
+    /**
+     * @dev Constructor for the FeeModule contract.
+     * Sets the contract's address to `_this` and grants the `ADMIN_ROLE` to the deployer of the contract.
+     */
+    constructor() {
+        _this = address(this);
+        _grantRole(ADMIN_ROLE, msg.sender);
+    }
+
+    /**
+     * @notice Returns an array of FacetCut structs representing the module facets.
+     * @dev This function constructs an array of FacetCut structs with a single element.
+     *      It sets the function selectors of the fee getters and of the fee administration.
+     * @return facetCuts An array of FacetCut structs containing the module facets.
+     */
+    function moduleFacets() external view returns (FacetCut[] memory) {
+        uint256 selectorIndex = 0;
+        bytes4[] memory selectors = new bytes4[](7);
+
+        // Add function selectors to the array
+        selectors[selectorIndex++] = this.getFeeRate.selector;
+        selectors[selectorIndex++] = this.getTreasury.selector;
+        selectors[selectorIndex++] = this.getPayoutAddress.selector;
+        selectors[selectorIndex++] = this.setFeeRate.selector;
+        selectors[selectorIndex++] = this.clearFeeRate.selector;
+        selectors[selectorIndex++] = this.setTreasury.selector;
+        selectors[selectorIndex++] = this.setPayoutAddress.selector;
+
+        // Create a FacetCut array with a single element
+        FacetCut[] memory facetCuts = new FacetCut[](1);
+
+        // Set the facetCut target, action, and selectors
+        facetCuts[0] = FacetCut({
+            target: _this,
+            action: FacetCutAction.ADD,
+            selectors: selectors
+        });
+        return facetCuts;
+    }
+
+    /**
+     * @notice Returns the service fee charged on sales of `assetId` paid in `currency`.
+     * @dev The rate of the asset and currency applies when set, then the default of the
+     * currency (asset id 0), then 50 basis points.
+     * @param assetId The ID of the asset being sold.
+     * @param currency The currency the sale is paid in.
+     * @return feeBps The fee in basis points of the sale amount.
+     */
+    function getFeeRate(
+        uint256 assetId,
+        address currency
+    ) external view returns (uint16 feeBps) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        FeeRate storage rate = data.feeRates[assetId][currency];
+        if (rate.isSet) {
+            return rate.feeBps;
+        }
+
+        rate = data.feeRates[0][currency];
+        if (rate.isSet) {
+            return rate.feeBps;
+        }
+
+        return DEFAULT_FEE_BPS;
+    }
+
+    /**
+     * @notice Returns the treasury receiving the service fees, the zero address while unset.
+     */
+    function getTreasury() external view returns (address) {
+        return AppStorage.layout().feeTreasury;
+    }
+
+    /**
+     * @notice Returns the address the sale proceeds of `seller` are paid to.
+     * @param seller The selling account.
+     * @return The payout address set by the seller, or the seller itself.
+     */
+    function getPayoutAddress(address seller) external view returns (address) {
+        address payout = AppStorage.layout().payoutAddresses[seller];
+        return payout == address(0) ? seller : payout;
+    }
+
+    /**
+     * @notice Sets the service fee rate of an asset and currency.
+     * @dev Only callable by PAYMENT_MANAGER_ROLE.
+     * @param assetId The ID of the asset, or 0 to set the default of the currency.
+     * @param currency The sale currency the rate applies to.
+     * @param feeBps The fee in basis points, at most 1000 (10%).
+     *
+     * Emits a {FeeRateUpdated} event.
+     */
+    function setFeeRate(
+        uint256 assetId,
+        address currency,
+        uint16 feeBps
+    ) external onlyRole(PAYMENT_MANAGER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(currency != address(0), "Invalid currency address");
+        require(feeBps <= MAX_FEE_BPS, "Fee rate too high");
+        require(
+            assetId == 0 || data.assets[assetId].id != 0,
+            "Asset does not exist"
+        );
+
+        data.feeRates[assetId][currency] = FeeRate(true, feeBps);
+
+        emit FeeRateUpdated(assetId, currency, feeBps);
+    }
+
+    /**
+     * @notice Removes the rate of an asset and currency, so the next level applies again.
+     * @dev Only callable by PAYMENT_MANAGER_ROLE.
+     * @param assetId The ID of the asset, or 0 for the default of the currency.
+     * @param currency The sale currency the rate applied to.
+     *
+     * Emits a {FeeRateCleared} event.
+     */
+    function clearFeeRate(
+        uint256 assetId,
+        address currency
+    ) external onlyRole(PAYMENT_MANAGER_ROLE) {
+        delete AppStorage.layout().feeRates[assetId][currency];
+
+        emit FeeRateCleared(assetId, currency);
+    }
+
+    /**
+     * @notice Sets the treasury receiving the service fees.
+     * @dev Only callable by PAYMENT_MANAGER_ROLE. With the zero address MarketPlace keeps the
+     * fees in the App and SalesModule pays them to the deployer.
+     * @param treasury The new treasury.
+     *
+     * Emits a {TreasuryUpdated} event.
+     */
+    function setTreasury(
+        address treasury
+    ) external onlyRole(PAYMENT_MANAGER_ROLE) {
+        AppStorage.layout().feeTreasury = treasury;
+
+        emit TreasuryUpdated(treasury);
+    }
+
+    /**
+     * @notice Sets the address the sale proceeds of the caller are paid to.
+     * @param payout The payout address, or the zero address to be paid directly.
+     *
+     * Emits a {PayoutAddressUpdated} event.
+     */
+    function setPayoutAddress(address payout) external {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(!data.isBlacklisted[payout], "Payout address is blacklisted");
+
+        data.payoutAddresses[msg.sender] = payout;
+
+        emit PayoutAddressUpdated(msg.sender, payout);
+    }
+}
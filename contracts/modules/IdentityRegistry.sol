@@ -0,0 +1,247 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @file IdentityRegistry.sol
+ * @notice This file contains the implementation of the IdentityRegistry module.
+ * @dev This module stores the KYC identity of investors and the compliance rules of each asset.
+ *
+ * @import ModularInternal.sol - Provides internal modular functionalities.
+ */
+import "../core/abstracts/ModularInternal.sol";
+
+/**
+ * @title IdentityRegistry
+ * @dev This contract is a module holding the country, accreditation class and KYC expiry of investors,
+ * and the blocked countries, accreditation requirement and holder limit of assets. The Compliance module
+ * applies them in detectTransferRestriction. It inherits from the ModularInternal contract.
+ */
+contract IdentityRegistry is ModularInternal {
+    using AppStorage for AppStorage.Layout;
+
+    event AddressWhitelisted(address indexed account);
+
+    event InvestorIdentityUpdated(
+        address indexed account,
+        bytes2 country,
+        InvestorClass investorClass,
+        uint64 kycExpiry
+    );
+
+    event InvestorIdentityRemoved(address indexed account);
+
+    event AssetComplianceRulesUpdated(
+        uint256 indexed assetId,
+        bool accreditedOnly,
+        uint32 maxHolders
+    );
+
+    event CountryBlockUpdated(
+        uint256 indexed assetId,
+        bytes2 country,
+        bool blocked
+    );
+
+    address immutable _this;
+
+    /**
+     * @dev Constructor for the IdentityRegistry contract.
+     * Sets the contract's address to `_this` and grants the `ADMIN_ROLE` to the deployer of the contract.
+     */
+    constructor() {
+        _this = address(this);
+        _grantRole(ADMIN_ROLE, msg.sender);
+    }
+
+    /**
+     * @notice Returns an array of FacetCut structs representing the module facets.
+     * @dev This function constructs an array of FacetCut structs with a single element.
+     *      It sets the function selectors of the investor registry and of the asset rules.
+     * @return facetCuts An array of FacetCut structs containing the module facets.
+     */
+    function moduleFacets() external view returns (FacetCut[] memory) {
+        uint256 selectorIndex = 0;
+        bytes4[] memory selectors = new bytes4[](8);
+
+        // Add function selectors to the array
+        selectors[selectorIndex++] = this.setInvestorIdentities.selector;
+        selectors[selectorIndex++] = this.removeInvestorIdentities.selector;
+        selectors[selectorIndex++] = this.getInvestorIdentity.selector;
+        selectors[selectorIndex++] = this.isKycValid.selector;
+        selectors[selectorIndex++] = this.setAssetComplianceRules.selector;
+        selectors[selectorIndex++] = this.setBlockedCountries.selector;
+        selectors[selectorIndex++] = this.getAssetComplianceRules.selector;
+        selectors[selectorIndex++] = this.isCountryBlocked.selector;
+
+        // Create a FacetCut array with a single element
+        FacetCut[] memory facetCuts = new FacetCut[](1);
+
+        // Set the facetCut target, action, and selectors
+        facetCuts[0] = FacetCut({
+            target: _this,
+            action: FacetCutAction.ADD,
+            selectors: selectors
+        });
+        return facetCuts;
+    }
+
+    /**
+     * @notice Adds or updates the identity of investors and whitelists them.
+     * @dev Only callable by COMPLIANCE_OFFICER_ROLE. Identities are written in order, the whole
+     * batch reverts if any entry is invalid.
+     * @param accounts The investor addresses.
+     * @param identities The identity of each investor, at the same index as its address.
+     *
+     * Emits an {InvestorIdentityUpdated} and an {AddressWhitelisted} event per investor.
+     */
+    function setInvestorIdentities(
+        address[] calldata accounts,
+        InvestorIdentity[] calldata identities
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(accounts.length == identities.length, "Array length mismatch");
+
+        for (uint256 i = 0; i < accounts.length; i++) {
+            address account = accounts[i];
+            InvestorIdentity calldata identity = identities[i];
+
+            require(account != address(0), "Invalid investor address");
+            require(identity.country != bytes2(0), "Invalid country code");
+            require(!data.isBlacklisted[account], "Address is blacklisted");
+
+            data.investorIdentities[account] = identity;
+            data.isWhitelisted[account] = true;
+
+            emit InvestorIdentityUpdated(
+                account,
+                identity.country,
+                identity.investorClass,
+                identity.kycExpiry
+            );
+            emit AddressWhitelisted(account);
+        }
+    }
+
+    /**
+     * @notice Deletes the identity of investors.
+     * @dev Only callable by COMPLIANCE_OFFICER_ROLE. The investors stay whitelisted until
+     * removed with removeFromWhitelist.
+     * @param accounts The investor addresses.
+     *
+     * Emits an {InvestorIdentityRemoved} event per investor.
+     */
+    function removeInvestorIdentities(
+        address[] calldata accounts
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        for (uint256 i = 0; i < accounts.length; i++) {
+            require(
+                data.investorIdentities[accounts[i]].country != bytes2(0),
+                "Investor is not registered"
+            );
+            delete data.investorIdentities[accounts[i]];
+            emit InvestorIdentityRemoved(accounts[i]);
+        }
+    }
+
+    /**
+     * @notice Returns the registered identity of an investor, zero values if not registered.
+     * @param account The investor address.
+     */
+    function getInvestorIdentity(
+        address account
+    ) external view returns (InvestorIdentity memory) {
+        return AppStorage.layout().investorIdentities[account];
+    }
+
+    /**
+     * @notice Checks whether an investor is registered with a KYC that has not expired.
+     * @param account The investor address.
+     * @return bool True if the investor is registered and their KYC is valid.
+     */
+    function isKycValid(address account) external view returns (bool) {
+        InvestorIdentity storage identity = AppStorage.layout().investorIdentities[account];
+
+        return
+            identity.country != bytes2(0) &&
+            (identity.kycExpiry == 0 || identity.kycExpiry > block.timestamp);
+    }
+
+    /**
+     * @notice Sets the accreditation requirement and the holder limit of an asset.
+     * @dev Only callable by COMPLIANCE_OFFICER_ROLE.
+     * @param assetId The ID of the asset.
+     * @param accreditedOnly Whether recipients must be accredited or institutional investors.
+     * @param maxHolders Maximum number of holders, zero for no limit.
+     *
+     * Emits an {AssetComplianceRulesUpdated} event.
+     */
+    function setAssetComplianceRules(
+        uint256 assetId,
+        bool accreditedOnly,
+        uint32 maxHolders
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(data.assets[assetId].id != 0, "Asset does not exist");
+
+        AssetComplianceRules storage rules = data.assetComplianceRules[assetId];
+        rules.accreditedOnly = accreditedOnly;
+        rules.maxHolders = maxHolders;
+
+        emit AssetComplianceRulesUpdated(assetId, accreditedOnly, maxHolders);
+    }
+
+    /**
+     * @notice Blocks or unblocks investors of the given countries from receiving an asset.
+     * @dev Only callable by COMPLIANCE_OFFICER_ROLE.
+     * @param assetId The ID of the asset.
+     * @param countries ISO 3166-1 alpha-2 country codes.
+     * @param blocked Whether the countries are blocked.
+     *
+     * Emits a {CountryBlockUpdated} event per country.
+     */
+    function setBlockedCountries(
+        uint256 assetId,
+        bytes2[] calldata countries,
+        bool blocked
+    ) external onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(data.assets[assetId].id != 0, "Asset does not exist");
+
+        AssetComplianceRules storage rules = data.assetComplianceRules[assetId];
+        for (uint256 i = 0; i < countries.length; i++) {
+            require(countries[i] != bytes2(0), "Invalid country code");
+            rules.blockedCountries[countries[i]] = blocked;
+            emit CountryBlockUpdated(assetId, countries[i], blocked);
+        }
+    }
+
+    /**
+     * @notice Returns the accreditation requirement and the holder limit of an asset.
+     * @param assetId The ID of the asset.
+     * @return accreditedOnly Whether recipients must be accredited or institutional investors.
+     * @return maxHolders Maximum number of holders, zero for no limit.
+     */
+    function getAssetComplianceRules(
+        uint256 assetId
+    ) external view returns (bool accreditedOnly, uint32 maxHolders) {
+        AssetComplianceRules storage rules = AppStorage.layout().assetComplianceRules[assetId];
+        return (rules.accreditedOnly, rules.maxHolders);
+    }
+
+    /**
+     * @notice Checks whether investors of a country are blocked from receiving an asset.
+     * @param assetId The ID of the asset.
+     * @param country ISO 3166-1 alpha-2 country code.
+     */
+    function isCountryBlocked(
+        uint256 assetId,
+        bytes2 country
+    ) external view returns (bool) {
+        return AppStorage.layout().assetComplianceRules[assetId].blockedCountries[country];
+    }
+}
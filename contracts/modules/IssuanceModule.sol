@@ -0,0 +1,524 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @file IssuanceModule.sol
+ * @dev This file is part of the RWATokenization project and contains the IssuanceModule contract.
+ *
+ * Imports:
+ * - ModularInternal: Abstract contract providing internal modular functionality.
+ * - IERC20: Interface for the ERC20 standard as defined in the EIP.
+ * - ICompliance: Interface for the transfer restrictions of the Compliance module.
+ * - IFeeModule: Interface for the service fee schedule.
+ * - SafeERC20: Library for safe operations with ERC20 tokens.
+ */
+import "../core/abstracts/ModularInternal.sol";
+import "../token/ERC20/IERC20.sol";
+import {ICompliance} from "../interfaces/ICompliance.sol";
+import {IFeeModule} from "../interfaces/IFeeModule.sol";
+import {SafeERC20} from "../token/ERC20/utils/SafeERC20.sol";
+
+/**
+ * @title IssuanceModule
+ * @dev This contract is a module running primary offerings of asset tokens in rounds. A round
+ * sells up to a hard cap during a sale window and keeps the USDT of its investors in escrow in
+ * the App. Once finalized above the soft cap investors claim their tokens and each claim pays
+ * its escrow to the issuer, otherwise investors claim refunds. The hard cap of a round stays
+ * reserved in the deployer's balance until it is claimed or released, so no other sale can spend it.
+ */
+contract IssuanceModule is ModularInternal {
+    using AppStorage for AppStorage.Layout;
+
+    address public immutable usdtToken;
+
+    event IssuanceRoundCreated(
+        uint256 roundId,
+        uint256 assetId,
+        uint256 tokenPrice,
+        uint64 startTime,
+        uint64 endTime,
+        uint256 softCap,
+        uint256 hardCap
+    );
+
+    event IssuancePurchased(
+        uint256 roundId,
+        address investor,
+        uint256 tokenAmount,
+        uint256 paid
+    );
+
+    event IssuanceRoundFinalized(
+        uint256 roundId,
+        bool succeeded,
+        uint256 tokensSold,
+        uint256 raised
+    );
+
+    event IssuanceRoundCancelled(uint256 roundId);
+
+    event IssuanceClaimed(uint256 roundId, address investor, uint256 tokenAmount);
+
+    event IssuanceRefunded(uint256 roundId, address investor, uint256 amount);
+
+    address immutable _this;
+
+    /**
+     * @dev Constructor function that initializes the contract.
+     * Sets the contract's address to `_this` and grants the `ADMIN_ROLE` to the deployer of the contract.
+     * @param _usdtToken The currency rounds are sold in.
+     */
+    constructor(address _usdtToken) {
+        _this = address(this);
+        _grantRole(ADMIN_ROLE, msg.sender);
+        usdtToken = _usdtToken;
+    }
+
+    /**
+     * @notice Returns an array of FacetCut structs representing the module facets.
+     * @dev This function creates an array of function selectors and a FacetCut array with a single element.
+     *      The FacetCut array is populated with the target, action, and selectors.
+     * @return facetCuts An array of FacetCut structs.
+     */
+    function moduleFacets() external view returns (FacetCut[] memory) {
+        uint256 selectorIndex = 0;
+        bytes4[] memory selectors = new bytes4[](11);
+
+        // Add function selectors to the array
+        selectors[selectorIndex++] = this.createIssuanceRound.selector;
+        selectors[selectorIndex++] = this.buyIssuance.selector;
+        selectors[selectorIndex++] = this.finalizeIssuanceRound.selector;
+        selectors[selectorIndex++] = this.cancelIssuanceRound.selector;
+        selectors[selectorIndex++] = this.claimIssuance.selector;
+        selectors[selectorIndex++] = this.settleIssuance.selector;
+        selectors[selectorIndex++] = this.getIssuanceRound.selector;
+        selectors[selectorIndex++] = this.getIssuancePurchase.selector;
+        selectors[selectorIndex++] = this.getIssuanceRoundCount.selector;
+        selectors[selectorIndex++] = this.getIssuanceCurrency.selector;
+        selectors[selectorIndex++] = this.getIssuanceReserved.selector;
+
+        // Create a FacetCut array with a single element
+        FacetCut[] memory facetCuts = new FacetCut[](1);
+
+        // Set the facetCut target, action, and selectors
+        facetCuts[0] = FacetCut({
+            target: _this,
+            action: FacetCutAction.ADD,
+            selectors: selectors
+        });
+        return facetCuts;
+    }
+
+    /**
+     * @notice Opens a primary issuance round for an asset.
+     * @dev Only callable by ADMIN_ROLE. The tokens stay with the deployer until investors claim them,
+     * the hard cap is reserved there until then.
+     * @param config The asset, price, sale window, caps and investor limits of the round.
+     * @return roundId The ID of the new round.
+     *
+     * Requirements:
+     * - The asset must exist and the deployer must hold the hard cap outside the reservations of
+     *   other rounds.
+     * - The window must close in the future and the soft cap be at most the hard cap.
+     *
+     * Emits an {IssuanceRoundCreated} event.
+     */
+    function createIssuanceRound(
+        IssuanceConfig calldata config
+    ) external onlyRole(ADMIN_ROLE) returns (uint256 roundId) {
+        AppStorage.Layout storage data = AppStorage.layout();
+        Asset storage asset = data.assets[config.assetId];
+
+        require(asset.id != 0, "Asset does not exist");
+        require(config.tokenPrice > 0, "Token price must be greater than zero");
+        require(config.startTime < config.endTime, "Invalid sale window");
+        require(config.endTime > block.timestamp, "Sale window already closed");
+        require(config.hardCap > 0, "Hard cap must be greater than zero");
+        require(config.softCap <= config.hardCap, "Soft cap exceeds hard cap");
+        require(
+            config.maxPerInvestor == 0 ||
+                config.minPerInvestor <= config.maxPerInvestor,
+            "Invalid investor limits"
+        );
+        require(
+            asset.tokenContract.balanceOf(data.deployer, config.assetId) >=
+                data.issuanceReserved[config.assetId] + config.hardCap,
+            "Issuer does not hold the hard cap"
+        );
+
+        data.issuanceReserved[config.assetId] += config.hardCap;
+        roundId = ++data.issuanceRoundCount;
+        data.issuanceRounds[roundId].config = config;
+
+        emit IssuanceRoundCreated(
+            roundId,
+            config.assetId,
+            config.tokenPrice,
+            config.startTime,
+            config.endTime,
+            config.softCap,
+            config.hardCap
+        );
+    }
+
+    /**
+     * @notice Buys `tokenAmount` tokens of an active round, escrowing their price plus the service fee.
+     * @param roundId The ID of the round.
+     * @param tokenAmount The number of tokens to buy.
+     *
+     * Requirements:
+     * - The round must be active and the buyer whitelisted if the round requires it.
+     * - The transfer restrictions of the asset must allow a transfer from the deployer to the
+     *   buyer. A buyer without tokens of the asset takes a slot of its maximum holder count
+     *   until the purchase is settled.
+     * - The hard cap and the investor's minimum and maximum must hold after the purchase.
+     *
+     * Emits an {IssuancePurchased} event.
+     */
+    function buyIssuance(
+        uint256 roundId,
+        uint256 tokenAmount
+    ) external nonReentrant {
+        AppStorage.Layout storage data = AppStorage.layout();
+        IssuanceRound storage round = _round(roundId);
+        IssuanceConfig storage config = round.config;
+        address investor = msg.sender;
+
+        require(
+            _state(round) == IssuanceState.ACTIVE,
+            "Round is not active"
+        );
+        require(
+            !config.whitelistOnly || data.isWhitelisted[investor],
+            "Investor is not whitelisted"
+        );
+        require(!data.isBlacklisted[investor], "Investor is in blacklist");
+        require(tokenAmount > 0, "Token amount must be greater than zero");
+
+        ICompliance compliance = ICompliance(address(this));
+        uint8 restriction = compliance.detectTransferRestriction(
+            config.assetId,
+            data.deployer,
+            investor,
+            tokenAmount
+        );
+        if (restriction != TRANSFER_ALLOWED) {
+            revert(compliance.messageForTransferRestriction(restriction));
+        }
+        require(
+            round.tokensSold + tokenAmount <= config.hardCap,
+            "Hard cap exceeded"
+        );
+
+        uint256 purchased = round.purchased[investor] + tokenAmount;
+        require(purchased >= config.minPerInvestor, "Below minimum investment");
+        require(
+            config.maxPerInvestor == 0 || purchased <= config.maxPerInvestor,
+            "Above maximum investment"
+        );
+
+        uint256 cost = config.tokenPrice * tokenAmount;
+        uint256 fee = (cost *
+            IFeeModule(address(this)).getFeeRate(config.assetId, usdtToken)) /
+            BPS_DENOMINATOR;
+
+        require(
+            IERC20(usdtToken).allowance(investor, address(this)) >= cost + fee,
+            "USDT allowance too low"
+        );
+        require(
+            IERC20(usdtToken).balanceOf(investor) >= cost + fee,
+            "Insufficient USDT balance"
+        );
+
+        if (round.purchased[investor] == 0) {
+            IssuanceBuyer storage buyer = data.issuanceBuyers[config.assetId][investor];
+            if (
+                buyer.openRounds++ == 0 &&
+                data.assets[config.assetId].userTokenInfo[investor].holdings == 0
+            ) {
+                buyer.newHolder = true;
+                data.issuancePendingHolders[config.assetId]++;
+            }
+        }
+
+        round.tokensSold += tokenAmount;
+        round.raised += cost;
+        round.fees += fee;
+        round.purchased[investor] = purchased;
+        round.paid[investor] += cost + fee;
+
+        SafeERC20.safeTransferFrom(
+            IERC20(usdtToken),
+            investor,
+            address(this),
+            cost + fee
+        );
+
+        emit IssuancePurchased(roundId, investor, tokenAmount, cost + fee);
+    }
+
+    /**
+     * @notice Settles a round once its window closed or its hard cap sold out.
+     * @dev Callable by anyone, so investors can get their refunds without an admin. On success the
+     * unsold part of the hard cap is released and the escrow stays in the App until the tokens
+     * are claimed. On failure the whole hard cap is released.
+     * @param roundId The ID of the round.
+     *
+     * Emits an {IssuanceRoundFinalized} event.
+     */
+    function finalizeIssuanceRound(uint256 roundId) external nonReentrant {
+        AppStorage.Layout storage data = AppStorage.layout();
+        IssuanceRound storage round = _round(roundId);
+
+        require(_state(round) == IssuanceState.ENDED, "Round is not ended");
+
+        round.finalized = true;
+        bool succeeded = round.tokensSold >= round.config.softCap;
+
+        data.issuanceReserved[round.config.assetId] -= succeeded
+            ? round.config.hardCap - round.tokensSold
+            : round.config.hardCap;
+
+        emit IssuanceRoundFinalized(
+            roundId,
+            succeeded,
+            round.tokensSold,
+            round.raised
+        );
+    }
+
+    /**
+     * @notice Cancels a round that was not finalized yet, every investor can claim a refund.
+     * @dev Only callable by ADMIN_ROLE. Releases the reserved hard cap.
+     * @param roundId The ID of the round.
+     *
+     * Emits an {IssuanceRoundCancelled} event.
+     */
+    function cancelIssuanceRound(
+        uint256 roundId
+    ) external onlyRole(ADMIN_ROLE) {
+        IssuanceRound storage round = _round(roundId);
+
+        require(
+            !round.finalized && !round.cancelled,
+            "Round already settled"
+        );
+
+        round.cancelled = true;
+        AppStorage.layout().issuanceReserved[round.config.assetId] -= round
+            .config
+            .hardCap;
+
+        emit IssuanceRoundCancelled(roundId);
+    }
+
+    /**
+     * @notice Delivers the caller's tokens of a succeeded round, or refunds the caller's escrow
+     * of a failed or cancelled round.
+     * @dev See {settleIssuance}.
+     * @param roundId The ID of the round.
+     *
+     * Emits an {IssuanceClaimed} or an {IssuanceRefunded} event.
+     */
+    function claimIssuance(uint256 roundId) external nonReentrant {
+        _settle(roundId, msg.sender);
+    }
+
+    /**
+     * @notice Settles the purchase of `investor` in a settled round, on the investor's behalf.
+     * @dev Callable by anyone, so the issuer can collect the escrow of investors who do not claim.
+     * In a succeeded round the tokens go to the investor, the escrowed price to the deployer's
+     * payout address and the fee to the treasury. If the transfer restrictions of the asset now
+     * block the delivery, e.g. the investor was blacklisted after buying, the investor is
+     * refunded and the tokens are released instead. Failed and cancelled rounds refund.
+     * @param roundId The ID of the round.
+     * @param investor The investor whose purchase is settled.
+     *
+     * Emits an {IssuanceClaimed} or an {IssuanceRefunded} event.
+     */
+    function settleIssuance(
+        uint256 roundId,
+        address investor
+    ) external nonReentrant {
+        _settle(roundId, investor);
+    }
+
+    /**
+     * @notice Returns the terms, progress and state of a round.
+     * @param roundId The ID of the round.
+     */
+    function getIssuanceRound(
+        uint256 roundId
+    )
+        external
+        view
+        returns (
+            IssuanceConfig memory config,
+            uint256 tokensSold,
+            uint256 raised,
+            uint256 fees,
+            IssuanceState state
+        )
+    {
+        IssuanceRound storage round = _round(roundId);
+        return (round.config, round.tokensSold, round.raised, round.fees, _state(round));
+    }
+
+    /**
+     * @notice Returns the tokens an investor bought in a round and the USDT escrowed for them,
+     * both zero once claimed.
+     */
+    function getIssuancePurchase(
+        uint256 roundId,
+        address investor
+    ) external view returns (uint256 tokenAmount, uint256 paid) {
+        IssuanceRound storage round = _round(roundId);
+        return (round.purchased[investor], round.paid[investor]);
+    }
+
+    /**
+     * @notice Returns the number of rounds created, round IDs run from 1 to this number.
+     */
+    function getIssuanceRoundCount() external view returns (uint256) {
+        return AppStorage.layout().issuanceRoundCount;
+    }
+
+    /**
+     * @notice Returns the currency rounds are paid in.
+     */
+    function getIssuanceCurrency() external view returns (address) {
+        return usdtToken;
+    }
+
+    /**
+     * @notice Returns the deployer tokens of an asset reserved for open rounds and unclaimed
+     * purchases of succeeded rounds. Transfers may not take the deployer's balance below it.
+     */
+    function getIssuanceReserved(
+        uint256 assetId
+    ) external view returns (uint256) {
+        return AppStorage.layout().issuanceReserved[assetId];
+    }
+
+    function _settle(uint256 roundId, address investor) private {
+        AppStorage.Layout storage data = AppStorage.layout();
+        IssuanceRound storage round = _round(roundId);
+        IssuanceState state = _state(round);
+        uint256 assetId = round.config.assetId;
+
+        uint256 tokenAmount = round.purchased[investor];
+        uint256 paid = round.paid[investor];
+
+        require(
+            state == IssuanceState.SUCCEEDED ||
+                state == IssuanceState.FAILED ||
+                state == IssuanceState.CANCELLED,
+            "Round is not settled"
+        );
+        require(tokenAmount > 0, "Nothing to claim");
+
+        round.purchased[investor] = 0;
+        round.paid[investor] = 0;
+
+        // Frees the holder slot of a new holder with the last of its purchases, before the
+        // delivery is checked against the maximum holder count
+        IssuanceBuyer storage buyer = data.issuanceBuyers[assetId][investor];
+        if (--buyer.openRounds == 0 && buyer.newHolder) {
+            buyer.newHolder = false;
+            data.issuancePendingHolders[assetId]--;
+        }
+
+        if (state != IssuanceState.SUCCEEDED) {
+            SafeERC20.safeTransfer(IERC20(usdtToken), investor, paid);
+
+            emit IssuanceRefunded(roundId, investor, paid);
+            return;
+        }
+
+        data.issuanceReserved[assetId] -= tokenAmount;
+
+        if (
+            ICompliance(address(this)).detectTransferRestriction(
+                assetId,
+                data.deployer,
+                investor,
+                tokenAmount
+            ) != TRANSFER_ALLOWED
+        ) {
+            SafeERC20.safeTransfer(IERC20(usdtToken), investor, paid);
+
+            emit IssuanceRefunded(roundId, investor, paid);
+            return;
+        }
+
+        data.assets[assetId].tokenContract.safeTransferFrom(
+            data.deployer,
+            investor,
+            assetId,
+            tokenAmount,
+            ""
+        );
+
+        uint256 cost = round.config.tokenPrice * tokenAmount;
+        SafeERC20.safeTransfer(
+            IERC20(usdtToken),
+            IFeeModule(address(this)).getPayoutAddress(data.deployer),
+            cost
+        );
+
+        if (paid > cost) {
+            address treasury = IFeeModule(address(this)).getTreasury();
+            if (treasury == address(0)) {
+                treasury = data.deployer;
+            }
+
+            SafeERC20.safeTransfer(IERC20(usdtToken), treasury, paid - cost);
+
+            emit IFeeModule.FeeCollected(
+                assetId,
+                usdtToken,
+                address(this),
+                treasury,
+                paid - cost
+            );
+        }
+
+        emit IssuanceClaimed(roundId, investor, tokenAmount);
+    }
+
+    function _round(
+        uint256 roundId
+    ) private view returns (IssuanceRound storage round) {
+        AppStorage.Layout storage data = AppStorage.layout();
+        require(
+            roundId != 0 && roundId <= data.issuanceRoundCount,
+            "Round does not exist"
+        );
+        return data.issuanceRounds[roundId];
+    }
+
+    function _state(
+        IssuanceRound storage round
+    ) private view returns (IssuanceState) {
+        if (round.cancelled) {
+            return IssuanceState.CANCELLED;
+        }
+        if (round.finalized) {
+            return
+                round.tokensSold >= round.config.softCap
+                    ? IssuanceState.SUCCEEDED
+                    : IssuanceState.FAILED;
+        }
+        if (block.timestamp < round.config.startTime) {
+            return IssuanceState.PENDING;
+        }
+        if (
+            block.timestamp >= round.config.endTime ||
+            round.tokensSold == round.config.hardCap
+        ) {
+            return IssuanceState.ENDED;
+        }
+        return IssuanceState.ACTIVE;
+    }
+}
@@ -16,6 +16,7 @@ pragma solidity ^0.8.24;
 import "../core/abstracts/ModularInternal.sol";
 import "../utils/Strings.sol";
 import "../interfaces/IPriceFetcher.sol";
+import {IFeeModule} from "../interfaces/IFeeModule.sol";
 import {AssetToken} from "../token/AssetToken.sol";
 import {IAssetToken} from "../interfaces/IAssetToken.sol";
 import {IMarketPlace} from "../interfaces/IMarketPlace.sol";
@@ -43,6 +44,16 @@ contract MarketPlace is ModularInternal {
         address salecurrency
     );
 
+    event GasFeeCharged(
+        uint256 orderId,
+        address buyer,
+        address saleCurrency,
+        uint256 gasUsed,
+        uint256 gasFee
+    );
+
+    event GasFeeCapUpdated(address saleCurrency, uint256 cap);
+
     address immutable _this;
     address public immutable usdtToken;
 
@@ -67,11 +78,13 @@ contract MarketPlace is ModularInternal {
      */
     function moduleFacets() external view returns (FacetCut[] memory) {
         uint256 selectorIndex = 0;
-        bytes4[] memory selectors = new bytes4[](2);
+        bytes4[] memory selectors = new bytes4[](4);
 
         // Add function selectors to the array
         selectors[selectorIndex++] = this.transferAsset.selector;
         selectors[selectorIndex++] = this.calculateGasFee.selector;
+        selectors[selectorIndex++] = this.setGasFeeCap.selector;
+        selectors[selectorIndex++] = this.getGasFeeCap.selector;
 
         // Create a FacetCut array with a single element
         FacetCut[] memory facetCuts = new FacetCut[](1);
@@ -89,9 +102,11 @@ contract MarketPlace is ModularInternal {
      * @notice Transfers an asset from the seller to the buyer.
      * @dev This function can only be called by an account with the ADMIN_ROLE.
      * It ensures that the seller and buyer addresses are valid, and that the token amount and price are greater than zero.
-     * It checks the FEXSE token allowance and balance of the buyer, and the asset token approval and balance of the seller.
+     * It checks the asset token approval and balance of the seller, and the sale currency allowance and balance of the buyer
+     * for the price, the service fee and the gas fee cap of the currency. The gas fee is checked again once it is known.
      * It then transfers the FEXSE tokens from the buyer to the seller, and the asset tokens from the seller to the buyer.
      * Finally, it updates the asset's user token information and emits a TransferExecuted event.
+     * The service fee rate, the treasury and the seller's payout address are read from FeeModule.
      * @param seller The address of the asset seller.
      * @param buyer The address of the asset buyer.
      * @param assetId The ID of the asset being transferred.
@@ -129,13 +144,9 @@ contract MarketPlace is ModularInternal {
         //uint256 fexsePrice = IPriceFetcher(address(this)).getFexsePrice();
 
         uint256 amount = tokenPrice * tokenAmount;
-        uint256 servideFeeAmount = (amount * 5) / 1000;
-
-        require(
-            IERC20(saleCurrency).allowance(buyer, address(this)) >=
-                (amount + servideFeeAmount),
-            "FEXSE allowance too low"
-        );
+        uint256 servideFeeAmount = (amount *
+            IFeeModule(address(this)).getFeeRate(assetId, saleCurrency)) /
+            BPS_DENOMINATOR;
 
         require(
             IAssetToken(asset.tokenContract).isApprovedForAll(
@@ -145,9 +156,13 @@ contract MarketPlace is ModularInternal {
             "asset is not approved"
         );
 
-        require(
-            IERC20(saleCurrency).balanceOf(buyer) >=
-                (amount + servideFeeAmount)
+        // The gas fee is only known at the end, the cap is the most it can be
+        _requireFunds(
+            saleCurrency,
+            buyer,
+            amount +
+                servideFeeAmount +
+                _chargedGasFee(data.gasFeeCaps[saleCurrency], servideFeeAmount)
         );
 
         require(
@@ -156,12 +171,7 @@ contract MarketPlace is ModularInternal {
             "sender does not have enough asset "
         );
 
-        SafeERC20.safeTransferFrom(
-            IERC20(saleCurrency),
-            buyer,
-            seller,
-            (amount - servideFeeAmount)
-        );
+        _paySeller(saleCurrency, buyer, seller, amount - servideFeeAmount);
 
         IAssetToken(asset.tokenContract).safeTransferFrom(
             seller,
@@ -184,7 +194,54 @@ contract MarketPlace is ModularInternal {
         uint256 gasUsed = gasBefore - gasleft();
         uint256 gasFee = calculateGasFee(saleCurrency,gasUsed);
 
-        if (gasFee >= ((servideFeeAmount * 30) / 100)) {
+        _collectFees(
+            orderId,
+            assetId,
+            buyer,
+            saleCurrency,
+            servideFeeAmount,
+            gasUsed,
+            gasFee
+        );
+    }
+
+    /**
+     * @dev Pays the seller's proceeds from the buyer to the payout address the seller set in FeeModule.
+     */
+    function _paySeller(
+        address saleCurrency,
+        address buyer,
+        address seller,
+        uint256 proceeds
+    ) private {
+        SafeERC20.safeTransferFrom(
+            IERC20(saleCurrency),
+            buyer,
+            IFeeModule(address(this)).getPayoutAddress(seller),
+            proceeds
+        );
+    }
+
+    /**
+     * @dev Pulls the service fee of both sides and the gas fee of a settlement from the buyer.
+     * The gas fee is waived below 30% of the service fee. Service fees go to the FeeModule
+     * treasury once one is set, the gas fee always stays in the App.
+     */
+    function _collectFees(
+        uint256 orderId,
+        uint256 assetId,
+        address buyer,
+        address saleCurrency,
+        uint256 servideFeeAmount,
+        uint256 gasUsed,
+        uint256 gasFee
+    ) private {
+        gasFee = _chargedGasFee(gasFee, servideFeeAmount);
+        _requireFunds(saleCurrency, buyer, (servideFeeAmount * 2) + gasFee);
+
+        address treasury = IFeeModule(address(this)).getTreasury();
+        if (treasury == address(0)) {
+            treasury = address(this);
             SafeERC20.safeTransferFrom(
                 IERC20(saleCurrency),
                 buyer,
@@ -192,34 +249,126 @@ contract MarketPlace is ModularInternal {
                 (servideFeeAmount * 2) + gasFee
             );
         } else {
-            SafeERC20.safeTransferFrom(
-                IERC20(saleCurrency),
+            if (servideFeeAmount > 0) {
+                SafeERC20.safeTransferFrom(
+                    IERC20(saleCurrency),
+                    buyer,
+                    treasury,
+                    servideFeeAmount * 2
+                );
+            }
+            if (gasFee > 0) {
+                SafeERC20.safeTransferFrom(
+                    IERC20(saleCurrency),
+                    buyer,
+                    address(this),
+                    gasFee
+                );
+            }
+        }
+
+        if (servideFeeAmount > 0) {
+            emit IFeeModule.FeeCollected(
+                assetId,
+                saleCurrency,
                 buyer,
-                address(this),
+                treasury,
                 servideFeeAmount * 2
             );
         }
+        if (gasFee > 0) {
+            emit GasFeeCharged(orderId, buyer, saleCurrency, gasUsed, gasFee);
+        }
     }
 
     /**
-     * @dev Calculates the gas fee in FEXSE tokens based on the gas used.
+     * @dev Returns the gas fee actually charged, zero below 30% of the service fee.
+     */
+    function _chargedGasFee(
+        uint256 gasFee,
+        uint256 servideFeeAmount
+    ) private pure returns (uint256) {
+        return gasFee < ((servideFeeAmount * 30) / 100) ? 0 : gasFee;
+    }
+
+    /**
+     * @dev Checks that the buyer approved and holds `required` of the sale currency, with
+     * revert messages naming the currency.
+     */
+    function _requireFunds(
+        address saleCurrency,
+        address buyer,
+        uint256 required
+    ) private view {
+        bool isUsdt = saleCurrency == usdtToken;
+        require(
+            IERC20(saleCurrency).allowance(buyer, address(this)) >= required,
+            isUsdt ? "USDT allowance too low" : "FEXSE allowance too low"
+        );
+        require(
+            IERC20(saleCurrency).balanceOf(buyer) >= required,
+            isUsdt ? "Insufficient USDT balance" : "Insufficient FEXSE balance"
+        );
+    }
+
+    /**
+     * @dev Calculates the gas fee charged to the buyer for the gas used by a settlement.
+     * The gas cost at `tx.gasprice` is converted to USDT with `PriceFetcher.getGasPriceInUSDT`
+     * and, for FEXSE settlements, to FEXSE at the oracle price. The result is limited to the
+     * cap configured for the sale currency.
+     * @param saleCurrency The currency the settlement is paid in, USDT or FEXSE.
      * @param gasUsed The amount of gas used for the transaction.
-     * @return The calculated gas fee in FEXSE tokens.
+     * @return The calculated gas fee in the sale currency.
      */
     function calculateGasFee(
         address saleCurrency,
         uint256 gasUsed
     ) public view returns (uint256) {
-        // uint256 gasPriceinUSDT = IPriceFetcher(address(this)).getGasPriceInUSDT(
-        //     gasUsed
-        // );
-
-        // if (saleCurrency == usdtToken) {
-        //     return gasPriceinUSDT;
-        // } else {
-        //     uint256 gasFee = ((gasPriceinUSDT * 10 ** 18) /
-        //         (45 * 10 ** 3));
-        //     return gasFee;
-        // }
+        uint256 gasPriceinUSDT = IPriceFetcher(address(this)).getGasPriceInUSDT(
+            gasUsed
+        );
+
+        uint256 gasFee;
+        if (saleCurrency == usdtToken) {
+            gasFee = gasPriceinUSDT;
+        } else {
+            gasFee = ((gasPriceinUSDT * 10 ** 18) /
+                IPriceFetcher(address(this)).getFexsePrice());
+        }
+
+        uint256 cap = AppStorage.layout().gasFeeCaps[saleCurrency];
+        if (cap > 0 && gasFee > cap) {
+            gasFee = cap;
+        }
+        return gasFee;
+    }
+
+    /**
+     * @notice Sets the maximum gas fee `transferAsset` charges in a sale currency.
+     * @dev Only callable by ADMIN_ROLE.
+     * @param saleCurrency The sale currency, USDT or FEXSE.
+     * @param cap The maximum gas fee in units of the sale currency, zero for no cap.
+     */
+    function setGasFeeCap(
+        address saleCurrency,
+        uint256 cap
+    ) external onlyRole(ADMIN_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+        require(
+            (saleCurrency == usdtToken) ||
+                (saleCurrency == address(data.fexseToken)),
+            "setGasFeeCap: Invalid sale currency"
+        );
+
+        data.gasFeeCaps[saleCurrency] = cap;
+
+        emit GasFeeCapUpdated(saleCurrency, cap);
+    }
+
+    /**
+     * @notice Returns the maximum gas fee charged in `saleCurrency`, zero when uncapped.
+     */
+    function getGasFeeCap(address saleCurrency) external view returns (uint256) {
+        return AppStorage.layout().gasFeeCaps[saleCurrency];
     }
 }
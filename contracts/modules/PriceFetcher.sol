@@ -11,6 +11,7 @@ pragma solidity ^0.8.24;
  */
 import "../core/abstracts/ModularInternal.sol";
 import "../interfaces/IPriceFetcher.sol";
+import {Math} from "../utils/Math.sol";
 
 interface AggregatorV3Interface {
     function decimals() external view returns (uint8);
@@ -54,25 +55,54 @@ contract PriceFetcher is ModularInternal {
     address public immutable fexseToken;
     address public immutable token1;
     uint24 public immutable fee;
+    address public immutable usdtEthAggregator;
 
-    address immutable _this;
+    // Chainlink USDT/ETH feed on Ethereum mainnet
+    address constant DEFAULT_USDT_ETH_AGGREGATOR =
+        0xEe9F2375b4bdF6387aa8265dD4FB8F16512A1d46;
+
+    // FEXSE price in USDT (6 decimals) of the FIXED source while no reference price is set
+    uint256 constant DEFAULT_FEXSE_PRICE = 45 * 10 ** 3;
 
+    // Largest tick of a Uniswap V3 pool and 1.0001, the price step of one tick, in Q96
+    uint256 constant MAX_TICK = 887272;
+    uint256 constant Q96 = 1 << 96;
+    uint256 constant TICK_BASE_Q96 = (Q96 * 10001) / 10000;
 
+    event FexsePriceSourceUpdated(
+        PriceSource source,
+        address feed,
+        uint32 twapWindow,
+        uint32 maxStaleness
+    );
+
+    event FexsePriceBoundsUpdated(
+        uint256 referencePrice,
+        uint16 maxDeviationBps
+    );
+
+    address immutable _this;
 
     /**
      * @dev Constructor for the PriceFetcher contract.
      * @param _fexseToken The address of the Fexse token.
      * @param _token1 The address of the first token.
      * @param _fee The fee associated with the token pair.
+     * @param _usdtEthAggregator The USDT/ETH price feed, or the zero address for the mainnet feed.
      *
      * Requirements:
      * - `_fexseToken` cannot be the zero address.
      * - `_token1` cannot be the zero address.
      *
-     * Initializes the contract by setting the Fexse token address, the first token address, and the fee.
-     * Grants the `ADMIN_ROLE` to the deployer of the contract.
+     * Initializes the contract by setting the Fexse token address, the first token address, the fee
+     * and the USDT/ETH price feed. Grants the `ADMIN_ROLE` to the deployer of the contract.
      */
-    constructor(address _fexseToken, address _token1, uint24 _fee) {
+    constructor(
+        address _fexseToken,
+        address _token1,
+        uint24 _fee,
+        address _usdtEthAggregator
+    ) {
         require(_fexseToken != address(0), "Invalid _fexseToken address");
         require(_token1 != address(0), "Invalid token1 token address");
 
@@ -82,21 +112,27 @@ contract PriceFetcher is ModularInternal {
         fexseToken = _fexseToken;
         token1 = _token1;
         fee = _fee;
+        usdtEthAggregator = _usdtEthAggregator == address(0)
+            ? DEFAULT_USDT_ETH_AGGREGATOR
+            : _usdtEthAggregator;
     }
 
     /**
      * @notice Returns an array of FacetCut structs representing the module facets.
      * @dev This function constructs an array of FacetCut structs with a single element.
-     *      It sets the function selector for `getFexsePrice` and assigns it to the FacetCut.
+     *      It sets the function selectors of the price getters and of the oracle administration.
      * @return facetCuts An array of FacetCut structs containing the module facets.
      */
     function moduleFacets() external view returns (FacetCut[] memory) {
         uint256 selectorIndex = 0;
-        bytes4[] memory selectors = new bytes4[](2);
+        bytes4[] memory selectors = new bytes4[](5);
 
         // Add function selectors to the array
         selectors[selectorIndex++] = this.getFexsePrice.selector;
         selectors[selectorIndex++] = this.getGasPriceInUSDT.selector;
+        selectors[selectorIndex++] = this.getFexseOracle.selector;
+        selectors[selectorIndex++] = this.setFexsePriceSource.selector;
+        selectors[selectorIndex++] = this.setFexsePriceBounds.selector;
         // Create a FacetCut array with a single element
         FacetCut[] memory facetCuts = new FacetCut[](1);
 
@@ -109,35 +145,107 @@ contract PriceFetcher is ModularInternal {
         return facetCuts;
     }
 
+    /**
+     * @notice Returns the FEXSE price in USDT (6 decimals) per FEXSE.
+     * @dev Reads the configured source: the reference price for FIXED (45,000 while none is set),
+     *      the average tick over `twapWindow` for UNISWAP_V3_TWAP, the latest answer for CHAINLINK.
+     *      Reverts with "Stale FEXSE price" when the Chainlink answer is older than `maxStaleness`, and
+     *      with "FEXSE price deviates from reference" when a pool or feed price is further than
+     *      `maxDeviationBps` from the reference price.
+     * @return price The FEXSE price.
+     */
     function getFexsePrice() external view returns (uint256 price) {
-        // Get the pool address
-        // address pool = IUniswapV3Factory(0x1F98431c8aD98523631AE4a59f267346ea31F984).getPool(
-        //     fexseToken,
-        //     token1,
-        //     fee
-        // );
-        // require(pool != address(0), "Pool does not exist");
-
-        // //console.log("Pool address: ", pool);
-
-        // // Get the slot0 data
-        // (uint160 sqrtPriceX96, , , , , , ) = IUniswapV3Pool(pool).slot0();
-        // require(sqrtPriceX96 > 0, "Uninitialized pool or no liquidity");
-
-        // // Calculate the price
-        // unchecked {
-        //     price = (((uint256(sqrtPriceX96) * uint256(sqrtPriceX96)) *
-        //         10 ** 18) / (1 << 192));
-        // }
-
-        // //console.log(" price", price);
-
-        // // If token1 is token0, invert the price
-        // if (IUniswapV3Pool(pool).token0() == token1) {
-        //     price = (1e18 * 1e18) / price; // Adjust decimals
-        // }
-
-        price = (45 * 10 ** 3);
+        FexseOracle storage oracle = AppStorage.layout().fexseOracle;
+
+        if (oracle.source == PriceSource.UNISWAP_V3_TWAP) {
+            price = _twapPrice(oracle);
+        } else if (oracle.source == PriceSource.CHAINLINK) {
+            price = _chainlinkPrice(oracle);
+        } else {
+            return oracle.referencePrice == 0 ? DEFAULT_FEXSE_PRICE : oracle.referencePrice;
+        }
+
+        require(price > 0, "Invalid FEXSE price");
+
+        if (oracle.maxDeviationBps > 0) {
+            uint256 referencePrice = oracle.referencePrice;
+            uint256 deviation = price > referencePrice ? price - referencePrice : referencePrice - price;
+            require(
+                deviation * 10000 <= referencePrice * oracle.maxDeviationBps,
+                "FEXSE price deviates from reference"
+            );
+        }
+    }
+
+    /**
+     * @notice Returns the configuration of the FEXSE price oracle.
+     */
+    function getFexseOracle() external view returns (FexseOracle memory) {
+        return AppStorage.layout().fexseOracle;
+    }
+
+    /**
+     * @notice Switches the source of the FEXSE price.
+     * @dev Only callable by ADMIN_ROLE. The new source must answer within the configured bounds,
+     *      so a misconfigured pool or feed is rejected instead of breaking every sale.
+     * @param source The new price source.
+     * @param feed The FEXSE/USDT Uniswap V3 pool or the FEXSE/USD Chainlink aggregator, ignored for FIXED.
+     * @param twapWindow Number of seconds the pool tick is averaged over, UNISWAP_V3_TWAP only.
+     * @param maxStaleness Number of seconds a Chainlink answer stays valid, CHAINLINK only.
+     */
+    function setFexsePriceSource(
+        PriceSource source,
+        address feed,
+        uint32 twapWindow,
+        uint32 maxStaleness
+    ) external onlyRole(ADMIN_ROLE) {
+        FexseOracle storage oracle = AppStorage.layout().fexseOracle;
+
+        if (source == PriceSource.UNISWAP_V3_TWAP) {
+            require(feed != address(0), "Invalid pool address");
+            require(twapWindow > 0, "TWAP window must be greater than zero");
+            address poolToken0 = IUniswapV3Pool(feed).token0();
+            address poolToken1 = IUniswapV3Pool(feed).token1();
+            require(
+                (poolToken0 == fexseToken && poolToken1 == token1) ||
+                    (poolToken0 == token1 && poolToken1 == fexseToken),
+                "Pool is not a FEXSE pool"
+            );
+        } else if (source == PriceSource.CHAINLINK) {
+            require(feed != address(0), "Invalid feed address");
+            require(maxStaleness > 0, "Max staleness must be greater than zero");
+        } else {
+            feed = address(0);
+        }
+
+        oracle.source = source;
+        oracle.feed = feed;
+        oracle.twapWindow = source == PriceSource.UNISWAP_V3_TWAP ? twapWindow : 0;
+        oracle.maxStaleness = source == PriceSource.CHAINLINK ? maxStaleness : 0;
+
+        IPriceFetcher(address(this)).getFexsePrice();
+
+        emit FexsePriceSourceUpdated(source, feed, oracle.twapWindow, oracle.maxStaleness);
+    }
+
+    /**
+     * @notice Sets the reference price and the deviation the pool or feed price may have from it.
+     * @dev Only callable by ADMIN_ROLE. The reference price is also the price of the FIXED source.
+     * @param referencePrice Price in USDT (6 decimals) per FEXSE, zero falls back to 45,000 for FIXED.
+     * @param maxDeviationBps Maximum deviation in basis points, zero disables the check.
+     */
+    function setFexsePriceBounds(
+        uint256 referencePrice,
+        uint16 maxDeviationBps
+    ) external onlyRole(ADMIN_ROLE) {
+        require(maxDeviationBps <= 10000, "Deviation must not exceed 10000 bps");
+        require(maxDeviationBps == 0 || referencePrice > 0, "Deviation check needs a reference price");
+
+        FexseOracle storage oracle = AppStorage.layout().fexseOracle;
+        oracle.referencePrice = referencePrice;
+        oracle.maxDeviationBps = maxDeviationBps;
+
+        emit FexsePriceBoundsUpdated(referencePrice, maxDeviationBps);
     }
 
     function getGasPriceInUSDT(uint256 gasUsed) external view returns (uint256) {
@@ -145,11 +253,78 @@ contract PriceFetcher is ModularInternal {
 
         uint256 gasFeeinETH = gasPrice * gasUsed;
 
-        (, int256 Price, , , ) = AggregatorV3Interface(0xEe9F2375b4bdF6387aa8265dD4FB8F16512A1d46).latestRoundData();
+        (, int256 Price, , , ) = AggregatorV3Interface(usdtEthAggregator).latestRoundData();
         require(Price > 0, "Invalid ETH price");
 
         uint256 gasPriceInUSDT = (gasFeeinETH * 10 ** 6) / uint256(Price);
 
         return gasPriceInUSDT;
     }
-}
\ No newline at end of file
+
+    /**
+     * @dev Prices 1 FEXSE at the arithmetic mean tick of the pool over the TWAP window, rounded
+     *      towards negative infinity like the Uniswap oracle library.
+     */
+    function _twapPrice(FexseOracle storage oracle) internal view returns (uint256) {
+        IUniswapV3Pool pool = IUniswapV3Pool(oracle.feed);
+
+        uint32[] memory secondsAgos = new uint32[](2);
+        secondsAgos[0] = oracle.twapWindow;
+        (int56[] memory tickCumulatives, ) = pool.observe(secondsAgos);
+
+        int56 delta = tickCumulatives[1] - tickCumulatives[0];
+        int56 window = int56(uint56(oracle.twapWindow));
+        int56 meanTick = delta / window;
+        if (delta < 0 && delta % window != 0) {
+            meanTick--;
+        }
+
+        // The tick prices token0 in token1, flip it when FEXSE is token1
+        if (pool.token0() != fexseToken) {
+            meanTick = -meanTick;
+        }
+
+        return _quoteAtTick(meanTick, 10 ** 18);
+    }
+
+    /**
+     * @dev Converts `baseAmount` of the base token to the quote token at `tick`, that is
+     *      `baseAmount * 1.0001^tick`, by binary exponentiation in Q96 fixed point.
+     */
+    function _quoteAtTick(int56 tick, uint256 baseAmount) internal pure returns (uint256) {
+        uint256 absTick = tick < 0 ? uint256(-int256(tick)) : uint256(int256(tick));
+        require(absTick <= MAX_TICK, "Tick out of range");
+
+        uint256 ratio = Q96;
+        uint256 base = TICK_BASE_Q96;
+        while (absTick != 0) {
+            if (absTick & 1 == 1) {
+                ratio = Math.mulDiv(ratio, base, Q96);
+            }
+            absTick >>= 1;
+            if (absTick != 0) {
+                base = Math.mulDiv(base, base, Q96);
+            }
+        }
+
+        return tick < 0 ? Math.mulDiv(baseAmount, Q96, ratio) : Math.mulDiv(baseAmount, ratio, Q96);
+    }
+
+    /**
+     * @dev Reads the latest answer of the Chainlink feed and scales it to 6 decimals.
+     */
+    function _chainlinkPrice(FexseOracle storage oracle) internal view returns (uint256) {
+        AggregatorV3Interface feed = AggregatorV3Interface(oracle.feed);
+        (uint80 roundId, int256 answer, , uint256 updatedAt, uint80 answeredInRound) = feed.latestRoundData();
+
+        require(answer > 0, "Invalid FEXSE price");
+        require(
+            answeredInRound >= roundId &&
+                updatedAt <= block.timestamp &&
+                block.timestamp - updatedAt <= oracle.maxStaleness,
+            "Stale FEXSE price"
+        );
+
+        return (uint256(answer) * 10 ** 6) / 10 ** feed.decimals();
+    }
+}
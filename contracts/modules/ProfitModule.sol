@@ -61,13 +61,14 @@ contract ProfitModule is ModularInternal {
      */
     function moduleFacets() external view returns (FacetCut[] memory) {
         uint256 selectorIndex = 0;
-        bytes4[] memory selectors = new bytes4[](10);
+        bytes4[] memory selectors = new bytes4[](11);
 
         // Add function selectors to the array
         selectors[selectorIndex++] = this.getTotalProfit.selector;
         selectors[selectorIndex++] = this.getLastDistributed.selector;
         selectors[selectorIndex++] = this.getPendingProfits.selector;
         selectors[selectorIndex++] = this.getProfitPeriod.selector;
+        selectors[selectorIndex++] = this.getTokenLowerLimit.selector;
         selectors[selectorIndex++] = this.distributeProfit.selector;
         selectors[selectorIndex++] = this.updateAssetLowerLimit.selector;
         selectors[selectorIndex++] = this.updateProfitPeriod.selector;
@@ -151,6 +152,22 @@ contract ProfitModule is ModularInternal {
         return asset.profitPeriod;
     }
 
+    /**
+     * @notice Retrieves the minimum holding required to receive profits for a given asset.
+     * @param assetId The ID of the asset for which to retrieve the lower limit.
+     * @return The token lower limit of the specified asset.
+     * @dev Reverts if the asset does not exist.
+     */
+    function getTokenLowerLimit(
+        uint256 assetId
+    ) external view returns (uint256) {
+        AppStorage.Layout storage data = AppStorage.layout();
+        Asset storage asset = data.assets[assetId];
+
+        require(asset.id != 0, "Asset does not exist");
+        return asset.tokenLowerLimit;
+    }
+
     /**
      * @notice Distributes profits to asset holders.
      * @dev This function is protected by the `nonReentrant` and `onlyRole(ADMIN_ROLE)` modifiers.
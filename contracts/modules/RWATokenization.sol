@@ -45,6 +45,13 @@ contract RWATokenization is ModularInternal {
     );
     event fexseContractUpdated(address oldToken, address newToken);
 
+    // A holder left the asset with unclaimed profits, they stay claimable
+    event ProfitCarriedOver(
+        address holder,
+        uint256 assetId,
+        uint256 pendingProfits
+    );
+
     address immutable _this;
 
     /**
@@ -311,6 +318,7 @@ contract RWATokenization is ModularInternal {
      * @param assetId The ID of the asset for which the holdings are being updated.
      * @param balance The new balance of the account for the specified asset.
      * @dev The caller must be the token contract or the contract itself.
+     * @dev Reverts when the deployer's balance drops below the tokens reserved for issuance rounds.
      */
     function updateHoldings(
         address account,
@@ -321,6 +329,11 @@ contract RWATokenization is ModularInternal {
         Asset storage asset = data.assets[assetId];
 
         require((msg.sender == address(asset.tokenContract)), "Unauthorized");
+        require(
+            account != data.deployer ||
+                balance >= data.issuanceReserved[assetId],
+            "Tokens reserved for issuance"
+        );
 
         uint256 currentBalance = asset.userTokenInfo[account].holdings;
 
@@ -377,29 +390,24 @@ contract RWATokenization is ModularInternal {
     }
 
     /**
-     * @dev Internal function to remove pending profits for a specific asset holder.
-     * @param assetId The ID of the asset.
-     * @param holder The address of the asset holder.
-     */
-    function _removePendingProfits(uint256 assetId, address holder) internal {
-        AppStorage.Layout storage data = AppStorage.layout();
-        Asset storage asset = data.assets[assetId];
-
-        delete asset.userTokenInfo[holder].pendingProfits;
-    }
-
-    /**
-     * @dev Clears all data associated with a specific holder for a given asset.
-     * This includes removing the holder from the asset's holder list,
-     * removing their holdings, and removing any pending profits.
+     * @dev Clears the holding data of a holder leaving a given asset.
+     * This includes removing the holder from the asset's holder list and
+     * removing their holdings. Pending profits are kept so the holder can
+     * still claim them, a {ProfitCarriedOver} event records any left.
      *
      * @param assetId The ID of the asset for which the holder data is to be cleared.
      * @param holder The address of the holder whose data is to be cleared.
      */
     function clearHolderData(uint256 assetId, address holder) internal {
+        AppStorage.Layout storage data = AppStorage.layout();
+
         _removeHolder(assetId, holder);
         _removeHoldings(assetId, holder);
-        _removePendingProfits(assetId, holder);
+
+        uint256 pendingProfits = data.assets[assetId].userTokenInfo[holder].pendingProfits;
+        if (pendingProfits > 0) {
+            emit ProfitCarriedOver(holder, assetId, pendingProfits);
+        }
     }
 
     /**
@@ -7,6 +7,7 @@ pragma solidity ^0.8.24;
  * @dev This contract imports the ModularInternal abstract contract from the core/abstracts directory.
  */
 import "../core/abstracts/ModularInternal.sol";
+import {IERC5805} from "../interfaces/IERC5805.sol";
 
 /**
  * @title RWA_DAO
@@ -20,12 +21,28 @@ contract RWA_DAO is ModularInternal {
 
     event ProposalCreated(
         uint256 id,
+        address proposer,
         address governanceToken,
         string description,
-        uint256 deadline
+        uint256 deadline,
+        uint256 actionCount
+    );
+    event Voted(
+        uint256 proposalId,
+        address voter,
+        bool support,
+        uint256 weight
+    );
+    event ProposalQueued(uint256 id, uint256 eta);
+    event ProposalActionExecuted(
+        uint256 id,
+        uint256 index,
+        bool success,
+        bytes returnData
     );
-    event Voted(uint256 proposalId, address voter, bool support);
     event ProposalExecuted(uint256 id, bool success);
+    event ProposalCancelled(uint256 id, address canceller);
+    event TimelockDelayUpdated(uint256 oldDelay, uint256 newDelay);
     event GovernanceTokenUpdated(
         uint256 id,
         address oldToken,
@@ -60,16 +77,26 @@ contract RWA_DAO is ModularInternal {
      */
     function moduleFacets() external view returns (FacetCut[] memory) {
         uint256 selectorIndex = 0;
-        bytes4[] memory selectors = new bytes4[](7);
+        bytes4[] memory selectors = new bytes4[](17);
 
         // Add function selectors to the array
         selectors[selectorIndex++] = this.createProposal.selector;
+        selectors[selectorIndex++] = this.createAssetProposal.selector;
         selectors[selectorIndex++] = this.vote.selector;
+        selectors[selectorIndex++] = this.queueProposal.selector;
         selectors[selectorIndex++] = this.executeProposal.selector;
+        selectors[selectorIndex++] = this.cancelProposal.selector;
         selectors[selectorIndex++] = this.updateMinimumQuorum.selector;
         selectors[selectorIndex++] = this.updateProposalDuration.selector;
         selectors[selectorIndex++] = this.updateGovernanceToken.selector;
+        selectors[selectorIndex++] = this.updateTimelockDelay.selector;
         selectors[selectorIndex++] = this.getProposal.selector;
+        selectors[selectorIndex++] = this.getProposalActions.selector;
+        selectors[selectorIndex++] = this.getProposalState.selector;
+        selectors[selectorIndex++] = this.getProposalVoting.selector;
+        selectors[selectorIndex++] = this.getVotingPower.selector;
+        selectors[selectorIndex++] = this.hasVoted.selector;
+        selectors[selectorIndex++] = this.getTimelockDelay.selector;
 
         // Create a FacetCut array with a single element
         FacetCut[] memory facetCuts = new FacetCut[](1);
@@ -84,15 +111,19 @@ contract RWA_DAO is ModularInternal {
     }
 
     /**
-     * @notice Creates a new proposal.
+     * @notice Creates a new proposal voted on with the delegated votes of an ERC20Votes governance token.
      * @dev Only callable by an account with the ADMIN_ROLE. Uses nonReentrant modifier to prevent reentrancy attacks.
+     * Votes are weighted by `getPastVotes` at the block before creation, so holders delegate
+     * (to themselves or to another account) before the proposal is created.
      * @param proposalId The unique identifier for the proposal.
-     * @param governanceTokenAddress The address of the governance token contract.
+     * @param governanceTokenAddress The address of the governance token contract, implementing IERC5805.
      * @param proposalDuration The duration (in seconds) for which the proposal will be active.
-     * @param minimumQuorum The minimum number of votes required for the proposal to be considered valid.
+     * @param minimumQuorum The votes for required, in basis points of the token's total supply at the snapshot.
      * @param description A brief description of the proposal.
+     * @param actions The calls the App executes once the proposal passed and its timelock expired.
      * @dev governanceTokenAddress must not be the zero address.
      * @dev A proposal with the given proposalId must not already exist.
+     * @dev Every action must have a non-zero target. A proposal without actions only records the vote.
      * @dev Emits a ProposalCreated event when a new proposal is created.
      */
     function createProposal(
@@ -100,124 +131,213 @@ contract RWA_DAO is ModularInternal {
         address governanceTokenAddress,
         uint256 proposalDuration,
         uint256 minimumQuorum,
-        string memory description
+        string memory description,
+        ProposalAction[] calldata actions
     ) external nonReentrant onlyRole(ADMIN_ROLE) {
         require(governanceTokenAddress != address(0), "Invalid token address");
 
-        AppStorage.Layout storage data = AppStorage.layout();
-        require(
-            data.proposals[proposalId].id == 0,
-            "Proposal with this ID already exists"
+        Proposal storage newProposal = _createProposal(
+            proposalId,
+            governanceTokenAddress,
+            proposalDuration,
+            minimumQuorum,
+            description,
+            actions
         );
+        newProposal.snapshot = IERC5805(governanceTokenAddress).clock() - 1;
+    }
 
-        Proposal storage newProposal = data.proposals[proposalId];
-
-        newProposal.id = proposalId;
-        newProposal.governanceToken = IERC20(governanceTokenAddress);
-        newProposal.description = description;
-        newProposal.deadline = block.timestamp + proposalDuration;
-        newProposal.minimumQuorum = minimumQuorum;
+    /**
+     * @notice Creates a new proposal voted on by the holders of one asset, for asset-specific decisions.
+     * @dev Only callable by an account with the ADMIN_ROLE. Uses nonReentrant modifier to prevent reentrancy attacks.
+     * Votes are weighted by the AssetToken balance at the block before creation.
+     * @param proposalId The unique identifier for the proposal.
+     * @param assetId The ID of the asset whose holders vote.
+     * @param proposalDuration The duration (in seconds) for which the proposal will be active.
+     * @param minimumQuorum The votes for required, in basis points of the asset's token supply at the snapshot.
+     * @param description A brief description of the proposal.
+     * @param actions The calls the App executes once the proposal passed and its timelock expired.
+     * @dev The asset must exist.
+     * @dev Emits a ProposalCreated event with the asset token as governance token.
+     */
+    function createAssetProposal(
+        uint256 proposalId,
+        uint256 assetId,
+        uint256 proposalDuration,
+        uint256 minimumQuorum,
+        string memory description,
+        ProposalAction[] calldata actions
+    ) external nonReentrant onlyRole(ADMIN_ROLE) {
+        Asset storage asset = AppStorage.layout().assets[assetId];
+        require(asset.id != 0, "Asset does not exist");
 
-        emit ProposalCreated(
+        Proposal storage newProposal = _createProposal(
             proposalId,
-            governanceTokenAddress,
+            address(asset.tokenContract),
+            proposalDuration,
+            minimumQuorum,
             description,
-            newProposal.deadline
+            actions
         );
+        newProposal.snapshot = asset.tokenContract.clock() - 1;
+        newProposal.votingWeight = VotingWeight.ASSET_HOLDINGS;
+        newProposal.assetId = assetId;
     }
 
     /**
      * @notice Casts a vote on a proposal.
-     * @dev This function allows a governance token holder to vote on a proposal.
+     * @dev This function allows a holder to vote on a proposal with their voting power at the
+     *      proposal's snapshot. Tokens received after the snapshot do not count, so moving tokens
+     *      to another wallet does not allow voting twice.
      *      The voter can either support or oppose the proposal.
      * @param proposalId The ID of the proposal to vote on.
      * @param support A boolean indicating whether the voter supports the proposal (true) or opposes it (false).
-     * @dev The caller must hold governance tokens.
+     * @dev The caller must have voting power at the snapshot.
+     * @dev The proposal must exist and must not be cancelled.
      * @dev The voting period must not have ended.
      * @dev The caller must not have already voted on the proposal.
      * @dev Emits a Voted event when a vote is successfully cast.
      */
     function vote(uint256 proposalId, bool support) external nonReentrant {
-        AppStorage.Layout storage data = AppStorage.layout();
-        Proposal storage proposal = data.proposals[proposalId];
+        Proposal storage proposal = _proposal(proposalId);
 
-        require(
-            proposal.governanceToken.balanceOf(msg.sender) > 0,
-            "Not a governance token holder"
-        );
+        require(!proposal.cancelled, "Proposal is cancelled");
+
+        uint256 weight = _votingPower(proposal, msg.sender);
+        require(weight > 0, "Not a governance token holder");
 
         require(block.timestamp <= proposal.deadline, "Voting period ended");
         require(!proposal.voters[msg.sender], "Already voted");
 
-        uint256 voterBalance = proposal.governanceToken.balanceOf(msg.sender);
-
         if (support) {
-            proposal.forVotes += voterBalance;
+            proposal.forVotes += weight;
         } else {
-            proposal.againstVotes += voterBalance;
+            proposal.againstVotes += weight;
         }
 
         proposal.voters[msg.sender] = true;
-        emit Voted(proposalId, msg.sender, support);
+        emit Voted(proposalId, msg.sender, support, weight);
     }
 
     /**
-     * @notice Executes a proposal if it meets the required conditions.
-     * @dev This function can only be called by an account with the ADMIN_ROLE.
-     * It ensures the voting period has ended, the proposal has not been executed,
-     * and the proposal has met the minimum quorum.
-     * @param proposalId The ID of the proposal to execute.
-     * Emits a {ProposalExecuted} event indicating the success of the execution.
+     * @notice Queues a passed proposal for execution once the timelock delay has elapsed.
+     * @dev Callable by anyone. The voting period must have ended with the minimum quorum
+     * reached and more votes for than against.
+     * @param proposalId The ID of the proposal to queue.
+     * Emits a {ProposalQueued} event with the earliest execution time.
      */
-    function executeProposal(
-        uint256 proposalId
-    ) external nonReentrant onlyRole(ADMIN_ROLE) {
-        AppStorage.Layout storage data = AppStorage.layout();
-        Proposal storage proposal = data.proposals[proposalId];
-
-        require(block.timestamp > proposal.deadline, "Voting period not ended");
-        require(!proposal.executed, "Proposal already executed");
+    function queueProposal(uint256 proposalId) external nonReentrant {
+        Proposal storage proposal = _proposal(proposalId);
+        ProposalState state = _state(proposal);
+
+        require(state != ProposalState.ACTIVE, "Voting period not ended");
+        require(state != ProposalState.CANCELLED, "Proposal is cancelled");
+        require(state != ProposalState.EXECUTED, "Proposal already executed");
+        require(state != ProposalState.QUEUED, "Proposal already queued");
         require(
-            proposal.forVotes >= proposal.minimumQuorum,
+            proposal.forVotes >= _quorum(proposal),
             "Minimum quorum not reached"
         );
+        require(state == ProposalState.SUCCEEDED, "Proposal was defeated");
+
+        proposal.eta = block.timestamp + _timelockDelay();
+
+        emit ProposalQueued(proposalId, proposal.eta);
+    }
+
+    /**
+     * @notice Executes the actions of a queued proposal whose timelock has expired.
+     * @dev Callable by anyone. Each action is called from the App diamond, so calls back
+     * into the App pass role checks the App holds itself (e.g. ADMIN_ROLE for `updateAsset`,
+     * DEFAULT_ADMIN_ROLE for `diamondCut`). A failed action does not revert the others, its
+     * result is recorded and reported by {getProposalActions}.
+     * The function is not `nonReentrant` because the actions call `nonReentrant` functions of
+     * the App. The proposal is marked executed before any call, so it cannot run twice.
+     * @param proposalId The ID of the proposal to execute.
+     * Emits a {ProposalActionExecuted} event per action and a {ProposalExecuted} event,
+     * successful when every action succeeded.
+     */
+    function executeProposal(uint256 proposalId) external {
+        Proposal storage proposal = _proposal(proposalId);
+        ProposalState state = _state(proposal);
+
+        require(state != ProposalState.CANCELLED, "Proposal is cancelled");
+        require(state != ProposalState.EXECUTED, "Proposal already executed");
+        require(state == ProposalState.QUEUED, "Proposal is not queued");
+        require(block.timestamp >= proposal.eta, "Timelock not expired");
 
         proposal.executed = true;
 
-        // sample execute action on the RWA Tokenization contract
-        (bool success, ) = appAddress.call(
-            abi.encodeWithSignature(
-                "distributeProfit(uint256,uint256)",
-                1,
-                1000
-            )
-        );
+        bool success = true;
+        for (uint256 i = 0; i < proposal.actions.length; i++) {
+            ProposalAction storage action = proposal.actions[i];
+
+            (bool actionSuccess, bytes memory returnData) = action.target.call{
+                value: action.value
+            }(action.data);
+
+            proposal.actionSucceeded[i] = actionSuccess;
+            success = success && actionSuccess;
+
+            emit ProposalActionExecuted(proposalId, i, actionSuccess, returnData);
+        }
 
         emit ProposalExecuted(proposalId, success);
     }
 
+    /**
+     * @notice Cancels a proposal that was not executed yet.
+     * @dev Only callable by the proposer or an account with the GUARDIAN_ROLE.
+     * A cancelled proposal can no longer be voted on, queued or executed.
+     * @param proposalId The ID of the proposal to cancel.
+     * Emits a {ProposalCancelled} event.
+     */
+    function cancelProposal(uint256 proposalId) external nonReentrant {
+        Proposal storage proposal = _proposal(proposalId);
+
+        require(
+            msg.sender == proposal.proposer ||
+                hasRole(GUARDIAN_ROLE, msg.sender),
+            "Only the proposer or a guardian can cancel"
+        );
+        require(!proposal.cancelled, "Proposal is cancelled");
+        require(!proposal.executed, "Proposal already executed");
+
+        proposal.cancelled = true;
+
+        emit ProposalCancelled(proposalId, msg.sender);
+    }
+
     /**
      * @notice Updates the minimum quorum required for a specific proposal.
      * @dev This function can only be called by an account with the ADMIN_ROLE.
-     * It ensures that the new quorum is greater than zero.
+     * It ensures that the new quorum is greater than zero and at most the whole supply.
+     * Proposals created before `quorumBps` keep a raw vote count as their quorum.
      * @param proposalId The ID of the proposal to update.
-     * @param newQuorum The new minimum quorum value to set.
+     * @param newQuorum The new minimum quorum, in basis points of the total supply at the snapshot,
+     * or in votes for a proposal created before `quorumBps`.
      */
     function updateMinimumQuorum(
         uint256 proposalId,
         uint256 newQuorum
     ) external nonReentrant onlyRole(ADMIN_ROLE) {
-        AppStorage.Layout storage data = AppStorage.layout();
-        Proposal storage proposal = data.proposals[proposalId];
+        Proposal storage proposal = _proposal(proposalId);
 
         require(newQuorum > 0, "Quorum must be greater than zero");
-        proposal.minimumQuorum = newQuorum;
+        if (proposal.quorumBps == 0) {
+            proposal.minimumQuorum = newQuorum;
+            return;
+        }
+        require(newQuorum <= BPS_DENOMINATOR, "Invalid quorum");
+        proposal.quorumBps = newQuorum;
     }
 
     /**
      * @notice Updates the duration of an existing proposal.
      * @dev This function can only be called by an account with the ADMIN_ROLE.
      * It ensures the new duration is greater than zero and updates the proposal's deadline.
+     * The state of a proposal follows from its deadline, so only a proposal still open for
+     * voting can be updated. Moving the deadline of a passed or defeated one would reopen it.
      * The function is protected against reentrancy attacks.
      * @param proposalId The ID of the proposal to update.
      * @param newDuration The new duration for the proposal.
@@ -226,17 +346,23 @@ contract RWA_DAO is ModularInternal {
         uint256 proposalId,
         uint256 newDuration
     ) external nonReentrant onlyRole(ADMIN_ROLE) {
-        AppStorage.Layout storage data = AppStorage.layout();
-        Proposal storage proposal = data.proposals[proposalId];
+        Proposal storage proposal = _proposal(proposalId);
 
         require(newDuration > 0, "Duration must be greater than zero");
+        require(
+            _state(proposal) == ProposalState.ACTIVE,
+            "Voting period ended"
+        );
         proposal.deadline = newDuration;
     }
 
     /**
      * @notice Updates the governance token for a specific proposal.
      * @dev This function can only be called by an account with the ADMIN_ROLE.
-     * It ensures the new governance token address is not the zero address.
+     * It ensures the new governance token address is not the zero address. Asset-holder-weighted
+     * proposals keep voting with their asset token. Votes and quorum are counted in the token
+     * of the proposal, so it can only change while voting is open and before the first vote,
+     * and the snapshot is taken again on the clock of the new token.
      * Emits a {GovernanceTokenUpdated} event.
      * @param proposalId The ID of the proposal to update.
      * @param newGovernanceToken The address of the new governance token.
@@ -250,15 +376,45 @@ contract RWA_DAO is ModularInternal {
             "Invalid governance token address"
         );
 
-        AppStorage.Layout storage data = AppStorage.layout();
-        Proposal storage proposal = data.proposals[proposalId];
+        Proposal storage proposal = _proposal(proposalId);
+        require(
+            proposal.votingWeight == VotingWeight.GOVERNANCE_TOKEN,
+            "Asset proposals vote with the asset token"
+        );
+        require(
+            _state(proposal) == ProposalState.ACTIVE,
+            "Voting period ended"
+        );
+        require(
+            proposal.forVotes == 0 && proposal.againstVotes == 0,
+            "Votes already cast"
+        );
 
         address oldToken = address(proposal.governanceToken);
         proposal.governanceToken = IERC20(newGovernanceToken);
+        proposal.snapshot = IERC5805(newGovernanceToken).clock() - 1;
 
         emit GovernanceTokenUpdated(proposalId, oldToken, newGovernanceToken);
     }
 
+    /**
+     * @notice Updates the delay between queueing and executing a passed proposal.
+     * @dev This function can only be called by an account with the ADMIN_ROLE.
+     * Proposals queued earlier keep the execution time they were queued with.
+     * @param newDelay The new delay in seconds, must be greater than zero.
+     * Emits a {TimelockDelayUpdated} event.
+     */
+    function updateTimelockDelay(
+        uint256 newDelay
+    ) external nonReentrant onlyRole(ADMIN_ROLE) {
+        require(newDelay > 0, "Delay must be greater than zero");
+
+        uint256 oldDelay = _timelockDelay();
+        AppStorage.layout().timelockDelay = newDelay;
+
+        emit TimelockDelayUpdated(oldDelay, newDelay);
+    }
+
     /**
      * @notice Retrieves the details of a specific proposal by its ID.
      * @param proposalId The ID of the proposal to retrieve.
@@ -298,4 +454,219 @@ contract RWA_DAO is ModularInternal {
             proposal.deadline
         );
     }
+
+    /**
+     * @notice Retrieves the actions of a proposal and whether each succeeded.
+     * @param proposalId The ID of the proposal to retrieve.
+     * @return actions The calls executed with the proposal.
+     * @return succeeded Whether the action at the same index succeeded, false until executed.
+     */
+    function getProposalActions(
+        uint256 proposalId
+    )
+        external
+        view
+        returns (ProposalAction[] memory actions, bool[] memory succeeded)
+    {
+        Proposal storage proposal = _proposal(proposalId);
+
+        actions = proposal.actions;
+        succeeded = new bool[](actions.length);
+        for (uint256 i = 0; i < actions.length; i++) {
+            succeeded[i] = proposal.actionSucceeded[i];
+        }
+    }
+
+    /**
+     * @notice Retrieves how the votes of a proposal are weighted.
+     * @param proposalId The ID of the proposal to retrieve.
+     * @return snapshot The block whose balances weight the votes.
+     * @return votingWeight Whether the governance token or the asset holdings weight the votes.
+     * @return assetId The asset whose holders vote, zero for governance token proposals.
+     * @return quorumVotes The votes for required for the proposal to pass.
+     */
+    function getProposalVoting(
+        uint256 proposalId
+    )
+        external
+        view
+        returns (
+            uint256 snapshot,
+            VotingWeight votingWeight,
+            uint256 assetId,
+            uint256 quorumVotes
+        )
+    {
+        Proposal storage proposal = _proposal(proposalId);
+
+        return (
+            proposal.snapshot,
+            proposal.votingWeight,
+            proposal.assetId,
+            _quorum(proposal)
+        );
+    }
+
+    /**
+     * @notice Returns the weight a vote of `account` has on a proposal.
+     * @param proposalId The ID of the proposal.
+     * @param account The address of the voter.
+     * @return The voting power of the account at the proposal's snapshot.
+     */
+    function getVotingPower(
+        uint256 proposalId,
+        address account
+    ) external view returns (uint256) {
+        return _votingPower(_proposal(proposalId), account);
+    }
+
+    /**
+     * @notice Returns whether `account` has voted on a proposal.
+     * @param proposalId The ID of the proposal.
+     * @param account The address of the voter.
+     * @return True if the account has voted.
+     */
+    function hasVoted(
+        uint256 proposalId,
+        address account
+    ) external view returns (bool) {
+        return _proposal(proposalId).voters[account];
+    }
+
+    /**
+     * @notice Returns the lifecycle state of a proposal.
+     * @param proposalId The ID of the proposal.
+     * @return The current {ProposalState} of the proposal.
+     */
+    function getProposalState(
+        uint256 proposalId
+    ) external view returns (ProposalState) {
+        return _state(_proposal(proposalId));
+    }
+
+    /**
+     * @notice Returns the delay between queueing and executing a passed proposal.
+     * @return The delay in seconds.
+     */
+    function getTimelockDelay() external view returns (uint256) {
+        return _timelockDelay();
+    }
+
+    function _proposal(
+        uint256 proposalId
+    ) private view returns (Proposal storage proposal) {
+        proposal = AppStorage.layout().proposals[proposalId];
+        require(proposal.id != 0, "Proposal does not exist");
+    }
+
+    function _state(
+        Proposal storage proposal
+    ) private view returns (ProposalState) {
+        if (proposal.cancelled) {
+            return ProposalState.CANCELLED;
+        }
+        if (proposal.executed) {
+            return ProposalState.EXECUTED;
+        }
+        if (proposal.eta != 0) {
+            return ProposalState.QUEUED;
+        }
+        if (block.timestamp <= proposal.deadline) {
+            return ProposalState.ACTIVE;
+        }
+        if (
+            proposal.forVotes >= _quorum(proposal) &&
+            proposal.forVotes > proposal.againstVotes
+        ) {
+            return ProposalState.SUCCEEDED;
+        }
+        return ProposalState.DEFEATED;
+    }
+
+    /**
+     * @dev Creates the proposal shared by both voting weights, the caller sets the snapshot.
+     */
+    function _createProposal(
+        uint256 proposalId,
+        address governanceTokenAddress,
+        uint256 proposalDuration,
+        uint256 quorumBps,
+        string memory description,
+        ProposalAction[] calldata actions
+    ) private returns (Proposal storage newProposal) {
+        require(proposalId != 0, "Invalid proposal ID");
+        require(
+            quorumBps > 0 && quorumBps <= BPS_DENOMINATOR,
+            "Invalid quorum"
+        );
+
+        AppStorage.Layout storage data = AppStorage.layout();
+        require(
+            data.proposals[proposalId].id == 0,
+            "Proposal with this ID already exists"
+        );
+
+        newProposal = data.proposals[proposalId];
+
+        newProposal.id = proposalId;
+        newProposal.governanceToken = IERC20(governanceTokenAddress);
+        newProposal.description = description;
+        newProposal.deadline = block.timestamp + proposalDuration;
+        newProposal.quorumBps = quorumBps;
+        newProposal.proposer = msg.sender;
+
+        for (uint256 i = 0; i < actions.length; i++) {
+            require(actions[i].target != address(0), "Invalid action target");
+            newProposal.actions.push(actions[i]);
+        }
+
+        emit ProposalCreated(
+            proposalId,
+            msg.sender,
+            governanceTokenAddress,
+            description,
+            newProposal.deadline,
+            actions.length
+        );
+    }
+
+    function _votingPower(
+        Proposal storage proposal,
+        address account
+    ) private view returns (uint256) {
+        if (proposal.votingWeight == VotingWeight.ASSET_HOLDINGS) {
+            return
+                IAssetToken(address(proposal.governanceToken)).getPastBalance(
+                    account,
+                    proposal.assetId,
+                    proposal.snapshot
+                );
+        }
+        return
+            IERC5805(address(proposal.governanceToken)).getPastVotes(
+                account,
+                proposal.snapshot
+            );
+    }
+
+    function _quorum(
+        Proposal storage proposal
+    ) private view returns (uint256) {
+        if (proposal.quorumBps == 0) {
+            return proposal.minimumQuorum;
+        }
+
+        uint256 supply = proposal.votingWeight == VotingWeight.ASSET_HOLDINGS
+            ? IAssetToken(address(proposal.governanceToken))
+                .getPastTotalSupply(proposal.assetId, proposal.snapshot)
+            : IERC5805(address(proposal.governanceToken)).getPastTotalSupply(
+                proposal.snapshot
+            );
+        return (supply * proposal.quorumBps) / BPS_DENOMINATOR;
+    }
+
+    function _timelockDelay() private view returns (uint256) {
+        uint256 delay = AppStorage.layout().timelockDelay;
+        return delay == 0 ? DEFAULT_TIMELOCK_DELAY : delay;
+    }
 }
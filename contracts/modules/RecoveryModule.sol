@@ -0,0 +1,191 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/**
+ * @file RecoveryModule.sol
+ * @notice This file contains the implementation of the RecoveryModule module.
+ * @dev This module moves asset tokens out of lost or sanctioned wallets.
+ *
+ * @import ModularInternal.sol - Provides internal modular functionalities.
+ */
+import "../core/abstracts/ModularInternal.sol";
+
+/**
+ * @title RecoveryModule
+ * @dev This contract is a module letting compliance officers force transfers of asset tokens,
+ * bypassing holder approval and the transfer restrictions, and recover every asset of a lost
+ * wallet to a new one. Unclaimed profits follow the tokens. It inherits from the ModularInternal contract.
+ */
+contract RecoveryModule is ModularInternal {
+    using AppStorage for AppStorage.Layout;
+
+    event TokensForceTransferred(
+        uint256 indexed assetId,
+        address indexed from,
+        address indexed to,
+        uint256 amount,
+        uint256 pendingProfits,
+        ForcedTransferReason reason,
+        address officer
+    );
+
+    event WalletRecovered(
+        address indexed lostWallet,
+        address indexed newWallet,
+        uint256[] assetIds,
+        ForcedTransferReason reason
+    );
+
+    address immutable _this;
+
+    /**
+     * @dev Constructor for the RecoveryModule contract.
+     * Sets the contract's address to `_this` and grants the `ADMIN_ROLE` to the deployer of the contract.
+     */
+    constructor() {
+        _this = address(this);
+        _grantRole(ADMIN_ROLE, msg.sender);
+    }
+
+    /**
+     * @notice Returns an array of FacetCut structs representing the module facets.
+     * @dev This function constructs an array of FacetCut structs with a single element.
+     *      It sets the function selectors of the forced transfer and of the wallet recovery.
+     * @return facetCuts An array of FacetCut structs containing the module facets.
+     */
+    function moduleFacets() external view returns (FacetCut[] memory) {
+        uint256 selectorIndex = 0;
+        bytes4[] memory selectors = new bytes4[](2);
+
+        // Add function selectors to the array
+        selectors[selectorIndex++] = this.forceTransfer.selector;
+        selectors[selectorIndex++] = this.recoverWallet.selector;
+
+        // Create a FacetCut array with a single element
+        FacetCut[] memory facetCuts = new FacetCut[](1);
+
+        // Set the facetCut target, action, and selectors
+        facetCuts[0] = FacetCut({
+            target: _this,
+            action: FacetCutAction.ADD,
+            selectors: selectors
+        });
+        return facetCuts;
+    }
+
+    /**
+     * @notice Moves tokens of an asset from one holder to another without their approval.
+     * @dev Only callable by COMPLIANCE_OFFICER_ROLE. The transfer restrictions of the asset do not apply,
+     * the recipient must not be blacklisted. When the whole balance moves, the unclaimed profits of the
+     * holder move with it.
+     * @param assetId The ID of the asset.
+     * @param from The holder the tokens are taken from.
+     * @param to The address receiving the tokens.
+     * @param amount The amount of tokens to move.
+     * @param reason The reason recorded in the event.
+     *
+     * Emits a {TokensForceTransferred} event.
+     */
+    function forceTransfer(
+        uint256 assetId,
+        address from,
+        address to,
+        uint256 amount,
+        ForcedTransferReason reason
+    ) external nonReentrant onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        require(amount > 0, "Token amount must be greater than zero");
+        _validateRecipient(from, to);
+
+        _forceTransfer(assetId, from, to, amount, reason);
+    }
+
+    /**
+     * @notice Recovers the whole balance and the unclaimed profits of a wallet in the given assets to a new wallet.
+     * @dev Only callable by COMPLIANCE_OFFICER_ROLE. Assets the lost wallet does not hold are skipped.
+     * @param lostWallet The wallet the holder lost access to, or the sanctioned wallet.
+     * @param newWallet The wallet receiving the tokens and profits.
+     * @param assetIds The IDs of the assets to recover.
+     * @param reason The reason recorded in the events.
+     *
+     * Emits a {TokensForceTransferred} event per recovered asset and a {WalletRecovered} event.
+     */
+    function recoverWallet(
+        address lostWallet,
+        address newWallet,
+        uint256[] calldata assetIds,
+        ForcedTransferReason reason
+    ) external nonReentrant onlyRole(COMPLIANCE_OFFICER_ROLE) {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        _validateRecipient(lostWallet, newWallet);
+
+        for (uint256 i = 0; i < assetIds.length; i++) {
+            Asset storage asset = data.assets[assetIds[i]];
+            require(asset.id != 0, "Asset does not exist");
+
+            uint256 balance = asset.tokenContract.balanceOf(lostWallet, assetIds[i]);
+            if (balance > 0) {
+                _forceTransfer(assetIds[i], lostWallet, newWallet, balance, reason);
+            }
+        }
+
+        emit WalletRecovered(lostWallet, newWallet, assetIds, reason);
+    }
+
+    /**
+     * @dev Checks that `to` can receive the tokens of `from`.
+     * @param from The holder the tokens are taken from.
+     * @param to The address receiving the tokens.
+     */
+    function _validateRecipient(address from, address to) private view {
+        AppStorage.Layout storage data = AppStorage.layout();
+
+        require(to != address(0), "Invalid recipient address");
+        require(to != from, "Recipient is the holder");
+        require(!data.isBlacklisted[to], "Recipient address is blacklisted");
+    }
+
+    /**
+     * @dev Moves the pending profits when the whole balance moves, then the tokens.
+     * Profits outlive the holding, so a lost wallet would otherwise keep them.
+     * @param assetId The ID of the asset.
+     * @param from The holder the tokens are taken from.
+     * @param to The address receiving the tokens.
+     * @param amount The amount of tokens to move.
+     * @param reason The reason recorded in the event.
+     */
+    function _forceTransfer(
+        uint256 assetId,
+        address from,
+        address to,
+        uint256 amount,
+        ForcedTransferReason reason
+    ) private {
+        AppStorage.Layout storage data = AppStorage.layout();
+        Asset storage asset = data.assets[assetId];
+
+        require(asset.id != 0, "Asset does not exist");
+
+        uint256 balance = asset.tokenContract.balanceOf(from, assetId);
+        require(balance >= amount, "Insufficient token balance in sender");
+
+        uint256 profits;
+        if (amount == balance) {
+            profits = asset.userTokenInfo[from].pendingProfits;
+            asset.userTokenInfo[from].pendingProfits = 0;
+            asset.userTokenInfo[to].pendingProfits += profits;
+        }
+
+        asset.tokenContract.forceTransfer(from, to, assetId, amount);
+
+        emit TokensForceTransferred(
+            assetId,
+            from,
+            to,
+            amount,
+            profits,
+            reason,
+            msg.sender
+        );
+    }
+}
@@ -10,6 +10,7 @@ pragma solidity ^0.8.24;
  * - IERC20: Interface for the ERC20 standard as defined in the EIP.
  * - Strings: Utility library for string operations.
  * - IPriceFetcher: Interface for fetching price data.
+ * - IFeeModule: Interface for the service fee schedule.
  * - AssetToken: Contract representing an asset-backed token.
  * - IRWATokenization: Interface for the RWATokenization project.
  * - SafeERC20: Library for safe operations with ERC20 tokens.
@@ -18,6 +19,7 @@ import "../core/abstracts/ModularInternal.sol";
 import "../token/ERC20/IERC20.sol";
 import "../utils/Strings.sol";
 import "../interfaces/IPriceFetcher.sol";
+import {IFeeModule} from "../interfaces/IFeeModule.sol";
 import {AssetToken} from "../token/AssetToken.sol";
 import {IRWATokenization} from "../interfaces/IRWATokenization.sol";
 import {SafeERC20} from "../token/ERC20/utils/SafeERC20.sol";
@@ -91,6 +93,9 @@ contract SalesModule is ModularInternal {
      * - The buyer must have a sufficient balance of the sale currency.
      * - The buyer must have approved the contract to spend the sale currency.
      *
+     * The cost is paid to the deployer's payout address and the service fee of FeeModule to the
+     * treasury, or to the deployer while no treasury is set.
+     *
      * Emits a {TokensSold} event.
      */
     function buyTokens(
@@ -119,25 +124,56 @@ contract SalesModule is ModularInternal {
         uint256 servideFeeAmount;
         uint256 cost = asset.tokenPrice * tokenAmount;
 
-        //uint256 fexsePrice = IPriceFetcher(address(this)).getFexsePrice();
-
         if (saleCurrency == address(data.fexseToken)) {
-            cost = (cost * 10 ** 18) / (45 * 10 ** 3);
+            cost = (cost * 10 ** 18) / IPriceFetcher(address(this)).getFexsePrice();
         } else {
-            servideFeeAmount = (cost * 5) / 1000;
-            cost = cost + servideFeeAmount;
+            servideFeeAmount =
+                (cost *
+                    IFeeModule(address(this)).getFeeRate(
+                        assetId,
+                        saleCurrency
+                    )) /
+                BPS_DENOMINATOR;
         }
 
         require(
-            IERC20(saleCurrency).balanceOf(buyer) >= cost,
+            IERC20(saleCurrency).balanceOf(buyer) >= cost + servideFeeAmount,
             "Insufficient saleCurrency balance"
         );
         require(
-            IERC20(saleCurrency).allowance(buyer, address(this)) >= cost,
+            IERC20(saleCurrency).allowance(buyer, address(this)) >=
+                cost + servideFeeAmount,
             "Insufficient saleCurrency allowance"
         );
 
-        SafeERC20.safeTransferFrom(IERC20(saleCurrency), buyer, sender, cost);
+        SafeERC20.safeTransferFrom(
+            IERC20(saleCurrency),
+            buyer,
+            IFeeModule(address(this)).getPayoutAddress(sender),
+            cost
+        );
+
+        if (servideFeeAmount > 0) {
+            address treasury = IFeeModule(address(this)).getTreasury();
+            if (treasury == address(0)) {
+                treasury = sender;
+            }
+
+            SafeERC20.safeTransferFrom(
+                IERC20(saleCurrency),
+                buyer,
+                treasury,
+                servideFeeAmount
+            );
+
+            emit IFeeModule.FeeCollected(
+                assetId,
+                saleCurrency,
+                buyer,
+                treasury,
+                servideFeeAmount
+            );
+        }
 
         IAssetToken(asset.tokenContract).safeTransferFrom(
             sender,
@@ -179,9 +215,9 @@ contract SalesModule is ModularInternal {
 
         address sender = data.deployer;
 
-        //uint256 fexsePrice = IPriceFetcher(address(this)).getFexsePrice();
+        uint256 fexsePrice = IPriceFetcher(address(this)).getFexsePrice();
 
-        uint256 usdtAmount = (tokenAmount * 45 * 10 ** 3) /
+        uint256 usdtAmount = (tokenAmount * fexsePrice) /
             10 ** 18; // Total USDT required
 
         require(
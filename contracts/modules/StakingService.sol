@@ -6,71 +6,94 @@ pragma solidity ^0.8.24;
  *
  * The contract imports the following modules:
  * - IERC20: Interface for the ERC20 standard as defined in the EIP.
- * - ReentrancyGuard: Provides protection against reentrant calls.
- * - Ownable: Provides basic authorization control functions.
- * - AccessControl: Provides role-based access control mechanisms.
+ * - ModularInternal: Abstract contract providing internal modular functionality.
+ * - SafeERC20: Library for safe operations with ERC20 tokens.
  */
 
 import "../token/ERC20/IERC20.sol";
 import "../core/abstracts/ModularInternal.sol";
+import {SafeERC20} from "../token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title StakingService
- * @dev This contract provides staking services and inherits from AccessControl, ReentrancyGuard, and Ownable.
- * AccessControl: Provides role-based access control mechanisms.
- * ReentrancyGuard: Protects against reentrant calls.
- * Ownable: Provides basic authorization control functions.
+ * @dev This contract is a module staking the governance token in the App. Rewards accrue per
+ * second at the reward rate and are shared by the stakes in proportion to their amount weighted
+ * by the multiplier of their lock tier. Rewards are paid from a reserve funded separately from
+ * the staked principal and stop accruing when the reserve runs out.
  */
 contract StakingService is ModularInternal {
     using AppStorage for AppStorage.Layout;
 
-    IERC20 public governenceToken;
-    uint256 public rewardRate;
-    uint256 public totalStakedAmount;
+    IERC20 public immutable stakingToken;
 
-    event Staked(address indexed user, uint256 amount);
-    event Unstaked(address indexed user, uint256 amount);
-    event ProposalCreated(uint256 id, string description, uint256 deadline);
-    event Voted(uint256 proposalId, address voter, bool support);
-    event ProposalExecuted(uint256 id, bool success);
-    event governenceTokenUpdated(address oldToken, address newToken);
+    event Staked(
+        address indexed user,
+        uint256 positionId,
+        uint256 amount,
+        uint8 tier,
+        uint256 unlockTime
+    );
+    event Unstaked(
+        address indexed user,
+        uint256 positionId,
+        uint256 amount,
+        uint256 reward
+    );
+    event StakingRewardsClaimed(address indexed user, uint256 reward);
+    event EmergencyWithdrawn(
+        address indexed user,
+        uint256 positionId,
+        uint256 amount,
+        uint256 forfeitedReward
+    );
+    event StakingRewardsFunded(address funder, uint256 amount);
+    event StakingRewardsWithdrawn(address to, uint256 amount);
+    event StakingRewardRateUpdated(uint256 oldRate, uint256 newRate);
+    event StakingTiersUpdated(uint256 tierCount);
 
     address immutable _this;
 
     /**
      * @dev Constructor for the StakingService contract.
-     * @param _governenceToken The address of the governance token contract.
+     * @param _stakingToken The token staked and paid as reward, the governance token.
      *
      * Requirements:
-     * - `_governenceToken` must not be the zero address.
-     *
-     * Initializes the contract by setting the governance token address and
-     * transferring ownership to the deployer of the contract.
+     * - `_stakingToken` must not be the zero address.
      */
-    constructor(address _governenceToken) {
+    constructor(address _stakingToken) {
         require(
-            _governenceToken != address(0),
-            "Invalid _governenceToken token address"
+            _stakingToken != address(0),
+            "Invalid _stakingToken address"
         );
 
         _this = address(this);
-        governenceToken = IERC20(_governenceToken);
+        stakingToken = IERC20(_stakingToken);
     }
 
     /**
-     * @dev Returns an array of ⁠ FacetCut ⁠ structs, which define the functions (selectors)
+     * @dev Returns an array of ⁠ FacetCut ⁠ structs, which define the functions (selectors)
      *      provided by this module. This is used to register the module's functions
      *      with the modular system.
-     * @return FacetCut[] Array of ⁠ FacetCut ⁠ structs representing function selectors.
+     * @return FacetCut[] Array of ⁠ FacetCut ⁠ structs representing function selectors.
      */
     function moduleFacets() external view returns (FacetCut[] memory) {
         uint256 selectorIndex = 0;
-        bytes4[] memory selectors = new bytes4[](3);
+        bytes4[] memory selectors = new bytes4[](13);
 
         // Add function selectors to the array
         selectors[selectorIndex++] = this.stake.selector;
         selectors[selectorIndex++] = this.unstake.selector;
-        selectors[selectorIndex++] = this.setGovernenceToken.selector;
+        selectors[selectorIndex++] = this.claimStakingRewards.selector;
+        selectors[selectorIndex++] = this.emergencyWithdraw.selector;
+        selectors[selectorIndex++] = this.fundStakingRewards.selector;
+        selectors[selectorIndex++] = this.withdrawStakingRewards.selector;
+        selectors[selectorIndex++] = this.setStakingRewardRate.selector;
+        selectors[selectorIndex++] = this.setStakingTiers.selector;
+        selectors[selectorIndex++] = this.getStakingToken.selector;
+        selectors[selectorIndex++] = this.getStakingTiers.selector;
+        selectors[selectorIndex++] = this.getStakePositions.selector;
+        selectors[selectorIndex++] = this.getStakingPool.selector;
+        selectors[selectorIndex++] = this.getStakingSolvency.selector;
 
         // Create a FacetCut array with a single element
         FacetCut[] memory facetCuts = new FacetCut[](1);
@@ -85,90 +108,396 @@ contract StakingService is ModularInternal {
     }
 
     /**
-     * @notice Allows a user to stake a specified amount of tokens for a certain lock duration.
-     * @dev The function is non-reentrant to prevent reentrancy attacks.
+     * @notice Stakes `amount` tokens in a new position locked for the duration of `tier`.
+     * @dev Earlier positions of the caller keep their own lock.
      * @param amount The amount of tokens to stake. Must be greater than 0.
-     * @param _lockDuration The duration (in seconds) for which the tokens will be locked.
-     * @dev The amount must be greater than 0.
-     * @dev The transfer of tokens from the user to the contract must succeed.
-     * @dev Emits a {Staked} event when tokens are successfully staked.
+     * @param tier The lock tier, an index of `getStakingTiers`.
+     * @return positionId The index of the new position in `getStakePositions`.
+     *
+     * Emits a {Staked} event.
      */
     function stake(
         uint256 amount,
-        uint256 _lockDuration
+        uint8 tier
+    ) external nonReentrant returns (uint256 positionId) {
+        AppStorage.Layout storage data = AppStorage.layout();
+        StakingPool storage pool = _pool();
+
+        require(amount > 0, "Amount must be greater than 0");
+        require(tier < data.stakingTiers.length, "Invalid staking tier");
+
+        _accrue(pool);
+
+        StakingTier storage stakingTier = data.stakingTiers[tier];
+        uint256 weightedAmount = (amount * stakingTier.multiplierBps) /
+            BPS_DENOMINATOR;
+        uint64 unlockTime = uint64(block.timestamp) + stakingTier.lockDuration;
+
+        StakePosition[] storage positions = data.stakePositions[msg.sender];
+        positionId = positions.length;
+        positions.push(
+            StakePosition({
+                amount: amount,
+                weightedAmount: weightedAmount,
+                rewardDebt: weightedAmount * pool.rewardPerWeight,
+                unlockTime: unlockTime,
+                tier: tier
+            })
+        );
+
+        pool.totalStaked += amount;
+        pool.totalWeighted += weightedAmount;
+        pool.balance += amount;
+
+        SafeERC20.safeTransferFrom(stakingToken, msg.sender, address(this), amount);
+
+        emit Staked(msg.sender, positionId, amount, tier, unlockTime);
+    }
+
+    /**
+     * @notice Withdraws `amount` tokens of an unlocked position together with all its rewards.
+     * @dev The rest of the position keeps staking with its tier multiplier.
+     * @param positionId The index of the position.
+     * @param amount The amount of tokens to withdraw, at most the staked amount.
+     *
+     * Emits an {Unstaked} event.
+     */
+    function unstake(
+        uint256 positionId,
+        uint256 amount
     ) external nonReentrant {
+        StakingPool storage pool = _pool();
+        StakePosition storage position = _position(msg.sender, positionId);
+
         require(amount > 0, "Amount must be greater than 0");
+        require(amount <= position.amount, "Amount exceeds stake");
         require(
-            governenceToken.transferFrom(msg.sender, address(this), amount),
-            "Transfer failed"
+            block.timestamp >= position.unlockTime,
+            "Tokens are still locked"
         );
 
-        AppStorage.Layout storage data = AppStorage.layout();
-        Stake storage userStake = data.stakes[msg.sender];
+        _accrue(pool);
+        uint256 reward = _settle(pool, position);
+
+        uint256 weightedAmount = (position.weightedAmount * amount) /
+            position.amount;
+        position.amount -= amount;
+        position.weightedAmount -= weightedAmount;
+        position.rewardDebt = position.weightedAmount * pool.rewardPerWeight;
 
-        userStake.amount += amount;
-        userStake.rewardDebt += (amount * rewardRate) / 1000;
-        userStake.lockTime = block.timestamp + _lockDuration;
+        pool.totalStaked -= amount;
+        pool.totalWeighted -= weightedAmount;
+        pool.balance -= amount + reward;
 
-        totalStakedAmount += amount;
+        SafeERC20.safeTransfer(stakingToken, msg.sender, amount + reward);
 
-        emit Staked(msg.sender, amount);
+        emit Unstaked(msg.sender, positionId, amount, reward);
     }
 
     /**
-     * @notice Allows a user to unstake their tokens and claim any rewards.
-     * @dev This function is protected by the nonReentrant modifier to prevent reentrancy attacks.
-     * @dev The function checks if the user has staked tokens and if the lock time has passed.
-     * @dev It transfers the staked amount and any rewards to the user and emits an Unstaked event.
-     * @dev The user's stake is deleted from the stakes mapping and the total staked amount is updated.
-     * @dev The user must have staked tokens.
-     * @dev The current block timestamp must be greater than or equal to the user's lock time.
-     * @dev The transfer of tokens to the user must succeed.
-     * @dev Emits an {Unstaked} event when a user successfully unstakes their tokens.
+     * @notice Pays the rewards accrued to all positions of the caller, locked or not.
+     *
+     * Emits a {StakingRewardsClaimed} event.
      */
-    function unstake() external nonReentrant {
+    function claimStakingRewards() external nonReentrant {
         AppStorage.Layout storage data = AppStorage.layout();
-        Stake storage userStake = data.stakes[msg.sender];
+        StakingPool storage pool = _pool();
+        StakePosition[] storage positions = data.stakePositions[msg.sender];
 
-        require(userStake.amount > 0, "No tokens staked");
-        require(
-            block.timestamp >= userStake.lockTime,
-            "Tokens are still locked"
-        );
+        _accrue(pool);
 
-        uint256 amountToWithdraw = userStake.amount;
-        uint256 reward = userStake.rewardDebt;
+        uint256 reward;
+        for (uint256 i = 0; i < positions.length; i++) {
+            reward += _settle(pool, positions[i]);
+        }
+        require(reward > 0, "No rewards to claim");
+        pool.balance -= reward;
 
-        delete data.stakes[msg.sender];
-        totalStakedAmount -= amountToWithdraw;
+        SafeERC20.safeTransfer(stakingToken, msg.sender, reward);
 
-        require(
-            governenceToken.transfer(msg.sender, amountToWithdraw + reward),
-            "Transfer failed"
-        );
+        emit StakingRewardsClaimed(msg.sender, reward);
+    }
+
+    /**
+     * @notice Withdraws the whole position at once, even while locked, forfeiting its rewards.
+     * @dev The forfeited rewards go back to the reserve.
+     * @param positionId The index of the position.
+     *
+     * Emits an {EmergencyWithdrawn} event.
+     */
+    function emergencyWithdraw(uint256 positionId) external nonReentrant {
+        StakingPool storage pool = _pool();
+        StakePosition storage position = _position(msg.sender, positionId);
+        uint256 amount = position.amount;
+
+        require(amount > 0, "No tokens staked");
 
-        emit Unstaked(msg.sender, amountToWithdraw);
+        _accrue(pool);
+        uint256 forfeited = _pending(pool, position);
+
+        pool.rewardsOwed -= forfeited;
+        pool.rewardReserve += forfeited;
+        pool.totalStaked -= amount;
+        pool.totalWeighted -= position.weightedAmount;
+        pool.balance -= amount;
+
+        position.amount = 0;
+        position.weightedAmount = 0;
+        position.rewardDebt = 0;
+
+        SafeERC20.safeTransfer(stakingToken, msg.sender, amount);
+
+        emit EmergencyWithdrawn(msg.sender, positionId, amount, forfeited);
     }
 
     /**
-     * @notice Sets the governance token contract address.
-     * @dev This function can only be called by the owner and is protected against reentrancy.
-     * @param _governenceToken The address of the new governance token contract.
-     * Requirements:
-     * - `_governenceToken` must not be the zero address.
-     * Emits a {governenceTokenUpdated} event.
+     * @notice Adds `amount` tokens of the caller to the reward reserve.
+     * @dev Callable by anyone. Rewards accrued so far are settled with the previous reserve,
+     * so the new funds only pay rewards from now on.
+     * @param amount The amount of tokens to add.
+     *
+     * Emits a {StakingRewardsFunded} event.
+     */
+    function fundStakingRewards(uint256 amount) external nonReentrant {
+        StakingPool storage pool = _pool();
+
+        require(amount > 0, "Amount must be greater than 0");
+
+        _accrue(pool);
+        pool.rewardReserve += amount;
+        pool.balance += amount;
+
+        SafeERC20.safeTransferFrom(stakingToken, msg.sender, address(this), amount);
+
+        emit StakingRewardsFunded(msg.sender, amount);
+    }
+
+    /**
+     * @notice Takes back reward reserve that has not accrued to any position yet.
+     * @dev Only callable by an account with the ADMIN_ROLE. Principal and accrued rewards stay.
+     * @param to The address receiving the tokens.
+     * @param amount The amount of tokens to withdraw.
+     *
+     * Emits a {StakingRewardsWithdrawn} event.
      */
-    function setGovernenceToken(
-        IERC20 _governenceToken
+    function withdrawStakingRewards(
+        address to,
+        uint256 amount
     ) external nonReentrant onlyRole(ADMIN_ROLE) {
+        StakingPool storage pool = _pool();
+
+        require(to != address(0), "Invalid recipient address");
+
+        _accrue(pool);
+        require(amount <= pool.rewardReserve, "Amount exceeds reward reserve");
+        pool.rewardReserve -= amount;
+        pool.balance -= amount;
+
+        SafeERC20.safeTransfer(stakingToken, to, amount);
+
+        emit StakingRewardsWithdrawn(to, amount);
+    }
+
+    /**
+     * @notice Sets the reward tokens accrued per second, shared by all stakes.
+     * @dev Only callable by an account with the ADMIN_ROLE. Rewards up to now accrue at the old rate.
+     * @param newRate The new reward rate.
+     *
+     * Emits a {StakingRewardRateUpdated} event.
+     */
+    function setStakingRewardRate(
+        uint256 newRate
+    ) external nonReentrant onlyRole(ADMIN_ROLE) {
+        StakingPool storage pool = _pool();
+
+        _accrue(pool);
+
+        uint256 oldRate = pool.rewardRate;
+        pool.rewardRate = newRate;
+
+        emit StakingRewardRateUpdated(oldRate, newRate);
+    }
+
+    /**
+     * @notice Replaces the lock tiers offered to new stakes.
+     * @dev Only callable by an account with the ADMIN_ROLE. Existing positions keep the lock
+     * and multiplier of the tier they were staked with.
+     * @param tiers The tiers, their index is the tier passed to `stake`.
+     *
+     * Emits a {StakingTiersUpdated} event.
+     */
+    function setStakingTiers(
+        StakingTier[] calldata tiers
+    ) external nonReentrant onlyRole(ADMIN_ROLE) {
+        StakingTier[] storage stakingTiers = AppStorage.layout().stakingTiers;
+
         require(
-            address(_governenceToken) != address(0),
-            "Invalid _fexseToken address"
+            tiers.length > 0 && tiers.length <= uint256(type(uint8).max) + 1,
+            "Invalid staking tiers"
         );
 
-        address oldContract = address(governenceToken);
-        governenceToken = _governenceToken;
+        delete AppStorage.layout().stakingTiers;
+        for (uint256 i = 0; i < tiers.length; i++) {
+            require(
+                tiers[i].multiplierBps >= BPS_DENOMINATOR,
+                "Tier multiplier below 1x"
+            );
+            stakingTiers.push(tiers[i]);
+        }
+
+        emit StakingTiersUpdated(tiers.length);
+    }
+
+    /**
+     * @notice Returns the token staked and paid as reward.
+     */
+    function getStakingToken() external view returns (address) {
+        return address(stakingToken);
+    }
+
+    /**
+     * @notice Returns the lock tiers offered to new stakes.
+     */
+    function getStakingTiers() external view returns (StakingTier[] memory) {
+        return AppStorage.layout().stakingTiers;
+    }
+
+    /**
+     * @notice Returns the positions of an account and the rewards accrued to each of them so far.
+     * @dev Withdrawn positions stay with a zero amount, so position indexes never change.
+     * @param account The staker.
+     */
+    function getStakePositions(
+        address account
+    )
+        external
+        view
+        returns (StakePosition[] memory positions, uint256[] memory rewards)
+    {
+        AppStorage.Layout storage data = AppStorage.layout();
+        (uint256 rewardPerWeight, ) = _accrued(_pool());
+
+        positions = data.stakePositions[account];
+        rewards = new uint256[](positions.length);
+        for (uint256 i = 0; i < positions.length; i++) {
+            rewards[i] =
+                (positions[i].weightedAmount * rewardPerWeight -
+                    positions[i].rewardDebt) /
+                STAKING_REWARD_PRECISION;
+        }
+    }
+
+    /**
+     * @notice Returns the reward rate and the staked totals.
+     */
+    function getStakingPool()
+        external
+        view
+        returns (
+            uint256 rewardRate,
+            uint256 totalStaked,
+            uint256 totalWeighted,
+            uint256 rewardPerWeight
+        )
+    {
+        StakingPool storage pool = _pool();
+        (rewardPerWeight, ) = _accrued(pool);
+        return (pool.rewardRate, pool.totalStaked, pool.totalWeighted, rewardPerWeight);
+    }
+
+    /**
+     * @notice Returns the state of the reward reserve as of now.
+     * @return rewardReserve The funded rewards not accrued yet.
+     * @return rewardsOwed The rewards accrued to positions and not paid yet.
+     * @return fundedUntil The time the reserve runs out at the current rate, the maximum uint256
+     * when no rewards accrue.
+     * @return solvent Whether the tokens the pool holds cover the staked principal, the rewards
+     * owed and the reserve. Computed from the pool's own accounting, as the App's balance of the
+     * staking token also holds fees of other modules.
+     */
+    function getStakingSolvency()
+        external
+        view
+        returns (
+            uint256 rewardReserve,
+            uint256 rewardsOwed,
+            uint256 fundedUntil,
+            bool solvent
+        )
+    {
+        StakingPool storage pool = _pool();
+        (, uint256 accrued) = _accrued(pool);
+
+        rewardReserve = pool.rewardReserve - accrued;
+        rewardsOwed = pool.rewardsOwed + accrued;
+        fundedUntil = pool.rewardRate == 0
+            ? type(uint256).max
+            : block.timestamp + rewardReserve / pool.rewardRate;
+        solvent =
+            pool.balance >= pool.totalStaked + rewardReserve + rewardsOwed;
+    }
+
+    function _pool() private view returns (StakingPool storage) {
+        return AppStorage.layout().stakingPools[STAKING_POOL_ID];
+    }
+
+    function _position(
+        address account,
+        uint256 positionId
+    ) private view returns (StakePosition storage) {
+        StakePosition[] storage positions = AppStorage.layout().stakePositions[account];
+        require(positionId < positions.length, "Position does not exist");
+        return positions[positionId];
+    }
+
+    /**
+     * @dev Returns the reward per weighted token as of now and the rewards accrued since the last
+     * update, capped by the reserve. Nothing accrues while nothing is staked.
+     */
+    function _accrued(
+        StakingPool storage pool
+    ) private view returns (uint256 rewardPerWeight, uint256 accrued) {
+        rewardPerWeight = pool.rewardPerWeight;
+        if (block.timestamp <= pool.lastUpdate || pool.totalWeighted == 0) {
+            return (rewardPerWeight, 0);
+        }
+
+        accrued = pool.rewardRate * (block.timestamp - pool.lastUpdate);
+        if (accrued > pool.rewardReserve) {
+            accrued = pool.rewardReserve;
+        }
+        rewardPerWeight +=
+            (accrued * STAKING_REWARD_PRECISION) /
+            pool.totalWeighted;
+    }
+
+    function _accrue(StakingPool storage pool) private {
+        (uint256 rewardPerWeight, uint256 accrued) = _accrued(pool);
+
+        pool.rewardPerWeight = rewardPerWeight;
+        pool.rewardReserve -= accrued;
+        pool.rewardsOwed += accrued;
+        pool.lastUpdate = uint64(block.timestamp);
+    }
 
-        emit governenceTokenUpdated(oldContract, address(_governenceToken));
+    function _pending(
+        StakingPool storage pool,
+        StakePosition storage position
+    ) private view returns (uint256) {
+        return
+            (position.weightedAmount * pool.rewardPerWeight -
+                position.rewardDebt) / STAKING_REWARD_PRECISION;
+    }
+
+    /**
+     * @dev Moves the rewards accrued to `position` out of the rewards owed and returns them.
+     */
+    function _settle(
+        StakingPool storage pool,
+        StakePosition storage position
+    ) private returns (uint256 reward) {
+        reward = _pending(pool, position);
+        pool.rewardsOwed -= reward;
+        position.rewardDebt = position.weightedAmount * pool.rewardPerWeight;
     }
 }
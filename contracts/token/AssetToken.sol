@@ -15,6 +15,7 @@ pragma solidity ^0.8.24;
  * - IERC165: Interface for the ERC165 standard.
  * - IRWATokenization: Interface for the RWATokenization contract.
  * - IMarketPlace: Interface for the MarketPlace contract.
+ * - ICompliance: Interface of the Compliance module deciding transfer restrictions.
  */
 
 import "../utils/AccessControl.sol";
@@ -26,6 +27,10 @@ import {IERC1155} from "./ERC1155/IERC1155.sol";
 import {IERC165} from "../interfaces/IERC165.sol";
 import {IRWATokenization} from "../interfaces/IRWATokenization.sol";
 import {IMarketPlace} from "../interfaces/IMarketPlace.sol";
+import {ICompliance} from "../interfaces/ICompliance.sol";
+import {Checkpoints} from "../utils/Checkpoints.sol";
+import {SafeCast} from "../utils/SafeCast.sol";
+import {Time} from "../utils/Time.sol";
 
 /**
  * @title AssetToken
@@ -46,6 +51,8 @@ contract AssetToken is
     ERC1155Pausable,
     ERC1155Supply
 {
+    using Checkpoints for Checkpoints.Trace208;
+
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
 
     string public name;
@@ -53,6 +60,20 @@ contract AssetToken is
 
     IRWATokenization public rwaContract;
 
+    // Set while forceTransfer runs, exempts the transfer from the restriction check
+    bool private _restrictionExempt;
+
+    // Balance and supply history per token ID, read by asset-holder-weighted DAO votes
+    mapping(uint256 => mapping(address => Checkpoints.Trace208))
+        private _balanceCheckpoints;
+    mapping(uint256 => Checkpoints.Trace208) private _supplyCheckpoints;
+
+    event ForcedTransfer(
+        address indexed from,
+        address indexed to,
+        uint256 indexed id,
+        uint256 amount
+    );
 
     constructor(
         string memory _name,
@@ -115,6 +136,66 @@ contract AssetToken is
         _burn(account, id, amount);
     }
 
+    /**
+     * @notice Moves tokens between two accounts without their approval or the transfer restriction check.
+     * @dev This function can only be called by an account with the ADMIN_ROLE, the App, for recovery.
+     * @param from The address of the account the tokens are taken from.
+     * @param to The address of the account receiving the tokens.
+     * @param id The ID of the token type to move.
+     * @param amount The amount of tokens to move.
+     * @dev Emits: ForcedTransfer.
+     */
+    function forceTransfer(
+        address from,
+        address to,
+        uint256 id,
+        uint256 amount
+    ) external onlyRole(ADMIN_ROLE) {
+        _restrictionExempt = true;
+        _safeTransferFrom(from, to, id, amount, "");
+        _restrictionExempt = false;
+
+        emit ForcedTransfer(from, to, id, amount);
+    }
+
+    /**
+     * @notice ERC-1404 style check of a transfer of `id` from `from` to `to`.
+     * @dev Delegates to the Compliance module of the App, using the mode configured for the asset.
+     * @param from The address of the sender.
+     * @param to The address of the recipient.
+     * @param id The ID of the token type.
+     * @param amount The amount transferred.
+     * @return uint8 Zero if the transfer is allowed, a restriction code otherwise.
+     */
+    function detectTransferRestriction(
+        address from,
+        address to,
+        uint256 id,
+        uint256 amount
+    ) external view returns (uint8) {
+        return
+            ICompliance(address(rwaContract)).detectTransferRestriction(
+                id,
+                from,
+                to,
+                amount
+            );
+    }
+
+    /**
+     * @notice Returns the message of a restriction code of detectTransferRestriction.
+     * @param restrictionCode The restriction code.
+     * @return string The message describing the restriction.
+     */
+    function messageForTransferRestriction(
+        uint8 restrictionCode
+    ) external view returns (string memory) {
+        return
+            ICompliance(address(rwaContract)).messageForTransferRestriction(
+                restrictionCode
+            );
+    }
+
     /**
      * @dev Sets a new URI for the token.
      * Can only be called by an account with the `ADMIN_ROLE`.
@@ -147,6 +228,49 @@ contract AssetToken is
         _unpause();
     }
 
+    /**
+     * @notice Returns the current timepoint of the balance checkpoints, the block number.
+     */
+    function clock() public view returns (uint48) {
+        return Time.blockNumber();
+    }
+
+    /**
+     * @notice Returns the balance of `account` for token `id` at the end of block `timepoint`.
+     * @param account The address of the holder.
+     * @param id The ID of the token type.
+     * @param timepoint A past block number.
+     * @return The balance at that block.
+     */
+    function getPastBalance(
+        address account,
+        uint256 id,
+        uint256 timepoint
+    ) external view returns (uint256) {
+        require(timepoint < clock(), "Future lookup");
+        return
+            _balanceCheckpoints[id][account].upperLookupRecent(
+                SafeCast.toUint48(timepoint)
+            );
+    }
+
+    /**
+     * @notice Returns the total supply of token `id` at the end of block `timepoint`.
+     * @param id The ID of the token type.
+     * @param timepoint A past block number.
+     * @return The total supply at that block.
+     */
+    function getPastTotalSupply(
+        uint256 id,
+        uint256 timepoint
+    ) external view returns (uint256) {
+        require(timepoint < clock(), "Future lookup");
+        return
+            _supplyCheckpoints[id].upperLookupRecent(
+                SafeCast.toUint48(timepoint)
+            );
+    }
+
     /**
      * @dev Internal function to update token balances and notify external contracts.
      * Overrides the _update function from ERC1155, ERC1155Pausable, and ERC1155Supply.
@@ -161,7 +285,10 @@ contract AssetToken is
      * - `rwaContract` must be a valid contract address.
      *
      * This function performs the following actions:
+     * - Rejects transfers restricted by the Compliance module with the restriction message.
+     *   Mints, burns and forced transfers are not checked.
      * - Calls the parent `_update` function to update balances.
+     * - Checkpoints the new balances and total supply of each token ID.
      * - Notifies the `rwaContract` of balance changes for each token ID.
      * - If `from` is not the zero address, updates the holdings of `from` in `rwaContract`.
      * - If `to` is not the zero address, updates the holdings of `to` in `rwaContract`.
@@ -178,11 +305,18 @@ contract AssetToken is
             "Target address is not a contract"
         );
 
+        if (from != address(0) && to != address(0) && !_restrictionExempt) {
+            for (uint256 i = 0; i < ids.length; i++) {
+                _checkTransferRestriction(from, to, ids[i], values[i]);
+            }
+        }
+
         super._update(from, to, ids, values);
 
         // Notify external contracts of balance changes
         for (uint256 i = 0; i < ids.length; i++) {
             uint256 id = ids[i];
+            _checkpoint(from, to, id);
             if (from != address(0)) {
                 rwaContract.updateHoldings(from, id, balanceOf(from, id));
             }
@@ -191,4 +325,52 @@ contract AssetToken is
             }
         }
     }
+
+    /**
+     * @dev Records the current balances of `from` and `to` of `id` at the current block,
+     * and the total supply when a mint or burn changed it.
+     */
+    function _checkpoint(address from, address to, uint256 id) private {
+        uint48 timepoint = clock();
+
+        if (from != address(0)) {
+            _balanceCheckpoints[id][from].push(
+                timepoint,
+                SafeCast.toUint208(balanceOf(from, id))
+            );
+        }
+        if (to != address(0)) {
+            _balanceCheckpoints[id][to].push(
+                timepoint,
+                SafeCast.toUint208(balanceOf(to, id))
+            );
+        }
+        if (from == address(0) || to == address(0)) {
+            _supplyCheckpoints[id].push(
+                timepoint,
+                SafeCast.toUint208(totalSupply(id))
+            );
+        }
+    }
+
+    /**
+     * @dev Reverts with the restriction message if the Compliance module restricts the transfer.
+     * @param from The address of the sender.
+     * @param to The address of the recipient.
+     * @param id The ID of the token type.
+     * @param amount The amount transferred.
+     */
+    function _checkTransferRestriction(
+        address from,
+        address to,
+        uint256 id,
+        uint256 amount
+    ) private view {
+        ICompliance compliance = ICompliance(address(rwaContract));
+        uint8 code = compliance.detectTransferRestriction(id, from, to, amount);
+
+        if (code != 0) {
+            revert(compliance.messageForTransferRestriction(code));
+        }
+    }
 }
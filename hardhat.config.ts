@@ -5,6 +5,12 @@ import "@nomicfoundation/hardhat-toolbox";
 import "@typechain/hardhat";
 import * as dotenv from "dotenv";
 import path from "path";
+import "./tasks/assets";
+import "./tasks/dao";
+import "./tasks/diamond";
+import "./tasks/identity";
+import "./tasks/issuance";
+import "./tasks/storage";
 
 // .env dosyasındaki değerleri içe aktarır
 dotenv.config();
@@ -25,6 +31,12 @@ const config: HardhatUserConfig = {
         runs: 200,
       },
       evmVersion: "shanghai",  // Specify the EVM version for Cancun
+      // Read by the storage layout guard, see scripts/deployment/storageLayout.ts
+      outputSelection: {
+        "contracts/mocks/StorageLayoutHarness.sol": {
+          StorageLayoutHarness: ["storageLayout"],
+        },
+      },
     },
   },
   // typechain: {
@@ -34,14 +46,22 @@ const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
     hardhat: {
-      forking: {
-        url: RPC_URL || "",        
+      // Without RPC_URL the tests run offline against the mock fixture (test/fixtures.ts)
+      forking: RPC_URL ? {
+        url: RPC_URL,
         blockNumber: 21671501,// arb: 278070393 // sepolia: 7468704 // eth 21671501
-      },
+      } : undefined,
       accounts: {
         count: 32,
       },
     },
+    // The chain behind RPC_URL signed with PRIVATE_KEY, used by the admin tasks (tasks/)
+    ...(RPC_URL ? {
+      live: {
+        url: RPC_URL,
+        accounts: PRIVATE_KEY ? [PRIVATE_KEY] : [],
+      },
+    } : {}),
     // eth: {1137868631600000000000000
     //   url: process.env.RPC_URL, // Your eth RPC URL
     //   accounts: [process.env.PRIVATE_KEY!], // Your wallet private key
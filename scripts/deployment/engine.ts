@@ -0,0 +1,301 @@
+import hre from "hardhat";
+import type { Provider, Signer, TransactionReceipt } from "ethers";
+import { log } from "../../test/logger";
+import {
+    DeploymentManifest,
+    ManifestArg,
+    ManifestCall,
+    ModuleEntry,
+    callKey,
+    isModuleRef,
+    isParamRef,
+} from "./manifest";
+import { DeploymentState, ModuleState, loadState, saveState } from "./state";
+
+export interface DeploymentOptions {
+    network: string;
+    signer: Signer;
+    params: { [name: string]: string };
+    optIn?: string[];
+    verify?: boolean;
+    confirmations?: number;
+    stateDir?: string;
+}
+
+interface DeploymentContext {
+    manifest: DeploymentManifest;
+    options: DeploymentOptions;
+    provider: Provider;
+    state: DeploymentState;
+    confirmations: number;
+}
+
+/**
+ * Deploys every selected manifest entry, installs it on the App diamond and runs its
+ * follow-up calls, persisting the progress of each step to the network state file.
+ *
+ * @param manifest - The modules to deploy, in deployment and install order.
+ * @param options - Signer, network params, opt-in entries and verification flag.
+ * @returns The final deployment state holding every address and tx hash.
+ *
+ * Steps that are already recorded as done are skipped, and steps whose transaction
+ * was sent but not confirmed are resumed from the stored tx hash, so a failed run
+ * can simply be started again.
+ */
+export async function runDeployment(manifest: DeploymentManifest, options: DeploymentOptions): Promise<DeploymentState> {
+    const provider = options.signer.provider;
+    if (!provider) {
+        throw new Error("Deployment signer must be connected to a provider");
+    }
+
+    const { chainId } = await provider.getNetwork();
+    const deployer = await options.signer.getAddress();
+
+    const ctx: DeploymentContext = {
+        manifest,
+        options,
+        provider,
+        state: loadState(options.network, chainId, deployer, options.stateDir),
+        confirmations: options.confirmations ?? manifest.confirmations,
+    };
+
+    const entries = selectEntries(manifest, options.optIn ?? []);
+    entries.forEach(checkCallKeys);
+    checkParams(entries, options.params);
+
+    log('INFO', `Deploying ${entries.map(e => e.id).join(", ")} to ${options.network} (chain ${chainId})`);
+
+    for (const entry of entries) {
+        await deployEntry(ctx, entry);
+
+        if (entry.install) {
+            await installEntry(ctx, entry);
+        }
+
+        for (const call of entry.calls ?? []) {
+            await runCall(ctx, entry, call);
+        }
+    }
+
+    if (options.verify) {
+        for (const entry of entries.filter(e => e.verify)) {
+            await verifyEntry(ctx, entry);
+        }
+    }
+
+    return ctx.state;
+}
+
+/**
+ * Returns the manifest entries to deploy: every mandatory entry plus the optional
+ * ones named in `optIn`. Unknown opt-in ids are rejected to catch typos early.
+ */
+export function selectEntries(manifest: DeploymentManifest, optIn: string[]): ModuleEntry[] {
+    for (const id of optIn) {
+        const entry = manifest.modules.find(m => m.id === id);
+        if (!entry) {
+            throw new Error(`Unknown opt-in module: ${id}`);
+        }
+        if (!entry.optional) {
+            throw new Error(`Module ${id} is not optional, it is always deployed`);
+        }
+    }
+
+    return manifest.modules.filter(m => !m.optional || optIn.includes(m.id));
+}
+
+/**
+ * Fails on an entry with two calls under the same state key, the second one would be
+ * skipped as already executed.
+ */
+function checkCallKeys(entry: ModuleEntry) {
+    const keys = new Set<string>();
+
+    for (const call of entry.calls ?? []) {
+        const key = callKey(call);
+        if (keys.has(key)) {
+            throw new Error(`${entry.id} has two calls keyed ${key}, give one of them its own key`);
+        }
+        keys.add(key);
+    }
+}
+
+/**
+ * Fails before the first deployment when a selected entry uses a network param that is
+ * neither set nor defaulted, instead of after the entries before it were deployed.
+ */
+function checkParams(entries: ModuleEntry[], params: { [name: string]: string }) {
+    const missing = entries.flatMap(entry =>
+        [...entry.args, ...(entry.calls ?? []).flatMap(call => call.args)]
+            .filter(isParamRef)
+            .filter(arg => !(params[arg.param] ?? arg.default))
+            .map(arg => `${arg.param} (${entry.id})`),
+    );
+
+    if (missing.length > 0) {
+        throw new Error(`Missing network params: ${[...new Set(missing)].join(", ")}`);
+    }
+}
+
+function resolveArg(ctx: DeploymentContext, arg: ManifestArg): string | number | bigint | boolean {
+    if (isModuleRef(arg)) {
+        const address = ctx.state.modules[arg.ref]?.address;
+        if (!address) {
+            throw new Error(`Module ${arg.ref} is referenced before it is deployed`);
+        }
+        return address;
+    }
+
+    if (isParamRef(arg)) {
+        const value = ctx.options.params[arg.param] ?? arg.default;
+        if (!value) {
+            throw new Error(`Missing network param: ${arg.param}`);
+        }
+        return value;
+    }
+
+    return arg;
+}
+
+function appAddress(ctx: DeploymentContext): string {
+    const address = ctx.state.modules[ctx.manifest.app]?.address;
+    if (!address) {
+        throw new Error(`App entry ${ctx.manifest.app} is not deployed`);
+    }
+    return address;
+}
+
+function update(ctx: DeploymentContext, id: string, changes: Partial<ModuleState>) {
+    ctx.state.modules[id] = { ...ctx.state.modules[id], ...changes };
+    saveState(ctx.state, ctx.options.stateDir);
+}
+
+/**
+ * Waits for a previously sent transaction.
+ *
+ * @returns The receipt if the transaction was mined successfully, `null` if it was
+ * dropped from the mempool or reverted and has to be sent again.
+ */
+async function resumeTransaction(ctx: DeploymentContext, txHash: string): Promise<TransactionReceipt | null> {
+    const tx = await ctx.provider.getTransaction(txHash);
+    if (tx === null) {
+        log('WARN', `Transaction ${txHash} not found, sending it again`);
+        return null;
+    }
+
+    const receipt = await ctx.provider.waitForTransaction(txHash, ctx.confirmations);
+    if (receipt === null || receipt.status !== 1) {
+        log('WARN', `Transaction ${txHash} reverted, sending it again`);
+        return null;
+    }
+
+    return receipt;
+}
+
+async function deployEntry(ctx: DeploymentContext, entry: ModuleEntry) {
+    const args = entry.args.map(arg => resolveArg(ctx, arg));
+    const argStrings = args.map(arg => arg.toString());
+    const current = ctx.state.modules[entry.id];
+
+    if (current?.address) {
+        if (JSON.stringify(current.args) !== JSON.stringify(argStrings)) {
+            throw new Error(`${entry.id} is deployed with args [${current.args}], manifest resolves to [${argStrings}]. Remove it from the state file to redeploy.`);
+        }
+        if ((await ctx.provider.getCode(current.address)) === "0x") {
+            throw new Error(`${entry.id} is recorded at ${current.address} but there is no code at that address`);
+        }
+        log('INFO', `${entry.id} already deployed at ${current.address}, skipping`);
+        return;
+    }
+
+    if (current?.txHash) {
+        const receipt = await resumeTransaction(ctx, current.txHash);
+        if (receipt?.contractAddress) {
+            update(ctx, entry.id, { address: receipt.contractAddress });
+            log('INFO', `${entry.id} deployed at ${receipt.contractAddress} (resumed ${current.txHash})`);
+            return;
+        }
+    }
+
+    const factory = await hre.ethers.getContractFactory(entry.contract, ctx.options.signer);
+    const contract = await factory.deploy(...args);
+    const tx = contract.deploymentTransaction()!;
+
+    update(ctx, entry.id, { contract: entry.contract, args: argStrings, txHash: tx.hash });
+
+    await tx.wait(ctx.confirmations);
+    const address = await contract.getAddress();
+
+    update(ctx, entry.id, { address });
+    log('INFO', `${entry.id} deployed at ${address} (tx ${tx.hash})`);
+}
+
+async function installEntry(ctx: DeploymentContext, entry: ModuleEntry) {
+    const current = ctx.state.modules[entry.id];
+
+    if (current.installed) {
+        log('INFO', `${entry.id} already installed, skipping`);
+        return;
+    }
+
+    if (current.installTxHash && (await resumeTransaction(ctx, current.installTxHash))) {
+        update(ctx, entry.id, { installed: true });
+        log('INFO', `${entry.id} installed (resumed ${current.installTxHash})`);
+        return;
+    }
+
+    const app = await hre.ethers.getContractAt("App", appAddress(ctx), ctx.options.signer);
+    const tx = await app.installModule(current.address!);
+
+    update(ctx, entry.id, { installTxHash: tx.hash });
+    await tx.wait(ctx.confirmations);
+    update(ctx, entry.id, { installed: true });
+
+    log('INFO', `${entry.id} installed on App (tx ${tx.hash})`);
+}
+
+async function runCall(ctx: DeploymentContext, entry: ModuleEntry, call: ManifestCall) {
+    const key = callKey(call);
+    const calls = ctx.state.modules[entry.id].calls ?? {};
+    const current = calls[key];
+
+    if (current?.done) {
+        log('INFO', `${entry.id}: ${key} already executed, skipping`);
+        return;
+    }
+
+    if (current && (await resumeTransaction(ctx, current.txHash))) {
+        update(ctx, entry.id, { calls: { ...calls, [key]: { txHash: current.txHash, done: true } } });
+        return;
+    }
+
+    const args = call.args.map(arg => resolveArg(ctx, arg));
+    const facet = await hre.ethers.getContractAt(call.facet, appAddress(ctx), ctx.options.signer);
+    const tx = await facet.getFunction(call.method)(...args);
+
+    update(ctx, entry.id, { calls: { ...calls, [key]: { txHash: tx.hash, done: false } } });
+    await tx.wait(ctx.confirmations);
+    update(ctx, entry.id, { calls: { ...calls, [key]: { txHash: tx.hash, done: true } } });
+
+    log('INFO', `${entry.id}: ${key}(${args.join(", ")}) executed (tx ${tx.hash})`);
+}
+
+async function verifyEntry(ctx: DeploymentContext, entry: ModuleEntry) {
+    const current = ctx.state.modules[entry.id];
+
+    if (current.verified) {
+        return;
+    }
+
+    try {
+        console.log(`Verifying ${entry.id} at address: ${current.address}`);
+        await hre.run("verify:verify", {
+            address: current.address,
+            constructorArguments: current.args,
+        });
+        update(ctx, entry.id, { verified: true });
+        console.log(`${entry.id} at address ${current.address} verified successfully!`);
+    } catch (err: any) {
+        console.error(`Verification failed for ${entry.id} at ${current.address}:`, err.message);
+    }
+}
@@ -0,0 +1,140 @@
+import { ZeroAddress, id } from "ethers";
+
+/**
+ * Declarative description of an App diamond deployment.
+ *
+ * Every entry in `modules` is deployed in array order. Entries flagged with `install`
+ * are registered on the diamond through `App.installModule` right after they are
+ * deployed, so the array order is also the `installModule` order.
+ */
+
+/**
+ * Reference to the address of an entry deployed earlier in the same manifest.
+ */
+export interface ModuleRef {
+    ref: string;
+}
+
+/**
+ * Reference to a network specific value (token, router or aggregator address ...).
+ * `default` is used when the network does not define the param.
+ */
+export interface ParamRef {
+    param: string;
+    default?: string;
+}
+
+export type ManifestArg = string | number | bigint | boolean | ModuleRef | ParamRef;
+
+/**
+ * A call executed through the diamond once the owning entry is deployed,
+ * e.g. `setFexseAddress` on the RWATokenization facet after Fexse is deployed.
+ */
+export interface ManifestCall {
+    facet: string;
+    method: string;
+    args: ManifestArg[];
+    // Key of the call in the state file, `facet.method` by default. An entry calling
+    // the same method twice must give the other calls their own key
+    key?: string;
+}
+
+export interface ModuleEntry {
+    id: string;
+    contract: string;
+    args: ManifestArg[];
+    install?: boolean;
+    optional?: boolean;
+    verify?: boolean;
+    calls?: ManifestCall[];
+}
+
+export interface DeploymentManifest {
+    // Id of the entry that is the App diamond, every install and call goes through it
+    app: string;
+    confirmations: number;
+    modules: ModuleEntry[];
+}
+
+export const ref = (id: string): ModuleRef => ({ ref: id });
+export const param = (name: string, defaultValue?: string): ParamRef => ({ param: name, default: defaultValue });
+
+export const callKey = (call: ManifestCall): string => call.key ?? `${call.facet}.${call.method}`;
+
+export function isModuleRef(arg: ManifestArg): arg is ModuleRef {
+    return typeof arg === "object" && arg !== null && "ref" in arg;
+}
+
+export function isParamRef(arg: ManifestArg): arg is ParamRef {
+    return typeof arg === "object" && arg !== null && "param" in arg;
+}
+
+/**
+ * Default RWATokenization deployment. RWA_DAO and SwapModule are opt-in and only
+ * deployed when listed in the DEPLOY_OPT_IN environment variable.
+ */
+export const RWA_MANIFEST: DeploymentManifest = {
+    app: "App",
+    confirmations: 2,
+    modules: [
+        { id: "App", contract: "App", args: [], verify: true },
+        {
+            id: "MarketPlace",
+            contract: "MarketPlace",
+            args: [ref("App"), param("USDT_ADDRESS")],
+            install: true,
+            verify: true,
+        },
+        { id: "RWATokenization", contract: "RWATokenization", args: [ref("App")], install: true, verify: true },
+        { id: "ProfitModule", contract: "ProfitModule", args: [ref("App")], install: true, verify: true },
+        { id: "Compliance", contract: "Compliance", args: [ref("App")], install: true, verify: true },
+        { id: "IdentityRegistry", contract: "IdentityRegistry", args: [], install: true, verify: true },
+        { id: "RecoveryModule", contract: "RecoveryModule", args: [], install: true, verify: true },
+        {
+            id: "Fexse",
+            contract: "Fexse",
+            args: [],
+            verify: true,
+            calls: [{ facet: "RWATokenization", method: "setFexseAddress", args: [ref("Fexse")] }],
+        },
+        { id: "StakingService", contract: "StakingService", args: [ref("Fexse")], install: true, verify: true },
+        {
+            id: "RWA_DAO",
+            contract: "RWA_DAO",
+            args: [ref("App")],
+            install: true,
+            optional: true,
+            verify: true,
+            calls: [
+                // Executed proposals call the App from the App, which needs ADMIN_ROLE on itself
+                { facet: "App", method: "grantRole", args: [id("ADMIN_ROLE"), ref("App")] },
+                // The guardian can cancel proposals until they are executed
+                {
+                    facet: "App",
+                    method: "grantRole",
+                    key: "App.grantRole(GUARDIAN_ROLE)",
+                    args: [id("GUARDIAN_ROLE"), param("GUARDIAN")],
+                },
+            ],
+        },
+        {
+            id: "SwapModule",
+            contract: "SwapModule",
+            args: [param("UNISWAP_V3_ROUTER"), param("USDT_ADDRESS"), 3000],
+            install: true,
+            optional: true,
+            verify: true,
+        },
+        {
+            id: "PriceFetcher",
+            contract: "PriceFetcher",
+            // Without a configured feed PriceFetcher falls back to the mainnet USDT/ETH aggregator
+            args: [ref("Fexse"), param("USDT_ADDRESS"), 3000, param("USDTETH_AGGREGATOR", ZeroAddress)],
+            install: true,
+            verify: true,
+        },
+        { id: "FeeModule", contract: "FeeModule", args: [], install: true, verify: true },
+        { id: "SalesModule", contract: "SalesModule", args: [param("USDT_ADDRESS")], install: true, verify: true },
+        { id: "IssuanceModule", contract: "IssuanceModule", args: [param("USDT_ADDRESS")], install: true, verify: true },
+    ],
+};
@@ -0,0 +1,72 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+
+/**
+ * Progress of a single manifest entry. Transaction hashes are written as soon as a
+ * transaction is sent, so an interrupted run can look the receipt up instead of
+ * sending the same transaction twice.
+ */
+export interface ModuleState {
+    contract: string;
+    args: string[];
+    txHash?: string;
+    address?: string;
+    installTxHash?: string;
+    installed?: boolean;
+    calls?: { [key: string]: { txHash: string; done: boolean } };
+    verified?: boolean;
+}
+
+export interface DeploymentState {
+    network: string;
+    chainId: string;
+    deployer: string;
+    modules: { [id: string]: ModuleState };
+}
+
+export const DEPLOYMENTS_DIR = join(__dirname, "..", "..", "deployments");
+
+export function statePath(network: string, dir: string = DEPLOYMENTS_DIR): string {
+    return join(dir, `${network}.json`);
+}
+
+/**
+ * Loads the state file of a network, or returns an empty state if the network
+ * was never deployed to.
+ *
+ * @param network - Network name, used as the state file name.
+ * @param chainId - Chain id of the connected provider.
+ * @param deployer - Address of the deploying wallet.
+ * @param dir - Directory holding the state files.
+ *
+ * Throws if the stored chain id does not match, which usually means NETWORK and
+ * RPC_URL point at different chains.
+ */
+export function loadState(network: string, chainId: bigint, deployer: string, dir: string = DEPLOYMENTS_DIR): DeploymentState {
+    const path = statePath(network, dir);
+
+    if (!existsSync(path)) {
+        return { network, chainId: chainId.toString(), deployer, modules: {} };
+    }
+
+    const state = JSON.parse(readFileSync(path, "utf8")) as DeploymentState;
+
+    if (state.chainId !== chainId.toString()) {
+        throw new Error(`State file ${path} belongs to chain ${state.chainId}, connected to chain ${chainId}`);
+    }
+
+    return state;
+}
+
+/**
+ * Persists the state file. The file is written next to its final location and
+ * renamed, so a crash never leaves a truncated state behind.
+ */
+export function saveState(state: DeploymentState, dir: string = DEPLOYMENTS_DIR): void {
+    const path = statePath(state.network, dir);
+    const tmpPath = `${path}.tmp`;
+
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(tmpPath, JSON.stringify(state, null, 4) + "\n");
+    renameSync(tmpPath, path);
+}
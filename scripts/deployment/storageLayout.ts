@@ -0,0 +1,172 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+/**
+ * `storageLayout` compiler output, as documented in the Solidity docs.
+ */
+export interface SolcStorageLayout {
+    storage: SolcStorageItem[];
+    types: { [id: string]: SolcType };
+}
+
+interface SolcStorageItem {
+    label: string;
+    slot: string;
+    offset: number;
+    type: string;
+}
+
+interface SolcType {
+    encoding: "inplace" | "mapping" | "dynamic_array" | "bytes";
+    label: string;
+    numberOfBytes: string;
+    base?: string;
+    key?: string;
+    value?: string;
+    members?: SolcStorageItem[];
+}
+
+/**
+ * A struct member as stored in the baseline. Types are written as their Solidity label
+ * (`mapping(uint256 => struct Asset)`) because the compiler's type ids contain AST ids
+ * that change with every unrelated source edit.
+ */
+export interface MemberLayout {
+    label: string;
+    slot: string;
+    offset: number;
+    type: string;
+    bytes: string;
+}
+
+export interface StructLayout {
+    members: MemberLayout[];
+    // Structs embedding this one inline or in an array, appending a member to it moves
+    // the fields stored after it
+    embeddedIn: string[];
+}
+
+export interface LayoutSnapshot {
+    root: string;
+    structs: { [name: string]: StructLayout };
+}
+
+export type LayoutIssueKind = "removed" | "changed" | "unsafe_append" | "missing_struct";
+
+export interface LayoutIssue {
+    kind: LayoutIssueKind;
+    struct: string;
+    member?: string;
+    message: string;
+}
+
+// Compiled only for its storage layout, see contracts/mocks/StorageLayoutHarness.sol
+export const LAYOUT_HARNESS = "contracts/mocks/StorageLayoutHarness.sol:StorageLayoutHarness";
+
+export const LAYOUT_BASELINE_PATH = join(__dirname, "..", "..", "config", "storage-layout.json");
+
+const structName = (type: SolcType) => type.label.replace(/^struct /, "");
+
+/**
+ * Flattens the storage layout of the harness into the structs reachable from its first
+ * state variable, `AppStorage.Layout`.
+ */
+export function extractLayout(layout: SolcStorageLayout): LayoutSnapshot {
+    const structs: { [name: string]: StructLayout } = {};
+    const root = layout.types[layout.storage[0].type];
+
+    const visit = (typeId: string, parent?: string) => {
+        const type = layout.types[typeId];
+
+        if (type.members) {
+            const name = structName(type);
+            if (structs[name] === undefined) {
+                structs[name] = {
+                    members: type.members.map(m => ({
+                        label: m.label,
+                        slot: m.slot,
+                        offset: m.offset,
+                        type: layout.types[m.type].label,
+                        bytes: layout.types[m.type].numberOfBytes,
+                    })),
+                    embeddedIn: [],
+                };
+                for (const member of type.members) {
+                    visit(member.type, name);
+                }
+            }
+            if (parent !== undefined && !structs[name].embeddedIn.includes(parent)) {
+                structs[name].embeddedIn.push(parent);
+            }
+        } else if (type.encoding === "mapping") {
+            visit(type.value!);
+        } else if (type.base) {
+            visit(type.base, parent);
+        }
+    };
+
+    visit(layout.storage[0].type);
+    return { root: structName(root), structs };
+}
+
+/**
+ * Compares the current layout with the baseline.
+ *
+ * @param baseline - Layout committed in `config/storage-layout.json`.
+ * @param current - Layout of the current sources.
+ * @returns Every change that would make the new code read the existing storage wrong,
+ * an empty array when the layout is unchanged or only appended to.
+ *
+ * This function compares the members of every baseline struct position by position, so
+ * a removed, renamed, reordered, retyped or inserted member is reported at the first
+ * position it shifts. Members after the last baseline member are appends, which are
+ * safe unless the struct is embedded inline in another struct or in an array. Structs
+ * only reachable through mappings, and the root, have nothing stored after them.
+ */
+export function compareLayouts(baseline: LayoutSnapshot, current: LayoutSnapshot): LayoutIssue[] {
+    const issues: LayoutIssue[] = [];
+
+    for (const [name, before] of Object.entries(baseline.structs)) {
+        const after = current.structs[name];
+
+        if (after === undefined) {
+            issues.push({ kind: "missing_struct", struct: name, message: `${name} is no longer reachable from ${current.root}` });
+            continue;
+        }
+
+        before.members.forEach((old, i) => {
+            const now = after.members[i];
+
+            if (now === undefined) {
+                issues.push({ kind: "removed", struct: name, member: old.label, message: `${name}.${old.label} was removed` });
+            } else if (now.label !== old.label || now.type !== old.type || now.slot !== old.slot || now.offset !== old.offset || now.bytes !== old.bytes) {
+                issues.push({
+                    kind: "changed",
+                    struct: name,
+                    member: old.label,
+                    message: `${name} member ${i} changed from ${old.type} ${old.label} (slot ${old.slot}, offset ${old.offset}) `
+                        + `to ${now.type} ${now.label} (slot ${now.slot}, offset ${now.offset})`,
+                });
+            }
+        });
+
+        if (after.members.length > before.members.length && after.embeddedIn.length > 0) {
+            issues.push({
+                kind: "unsafe_append",
+                struct: name,
+                member: after.members[before.members.length].label,
+                message: `${name} grew but is stored inline in ${after.embeddedIn.join(", ")}, appending moves the fields after it`,
+            });
+        }
+    }
+
+    return issues;
+}
+
+export function loadBaseline(path: string = LAYOUT_BASELINE_PATH): LayoutSnapshot | undefined {
+    return existsSync(path) ? JSON.parse(readFileSync(path, "utf8")) as LayoutSnapshot : undefined;
+}
+
+export function saveBaseline(snapshot: LayoutSnapshot, path: string = LAYOUT_BASELINE_PATH): void {
+    writeFileSync(path, JSON.stringify(snapshot, null, 4) + "\n");
+}
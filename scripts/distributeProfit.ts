@@ -0,0 +1,71 @@
+const { ethers } = require("hardhat");
+import { log } from '../test/logger';
+import { RwaClient } from "../sdk";
+import {
+    calculateDistribution,
+    readBatch,
+    submitDistribution,
+    takeHolderSnapshot,
+    writeBatch,
+} from "../services/distribution";
+import * as dotenv from "dotenv";
+dotenv.config();
+
+/**
+ * Builds or submits a profit distribution batch.
+ *
+ * Build:  APP_ADDRESS=0x.. ASSET_ID=54 REVENUE=1000 [BLOCK=123] [EXCLUDE=0x..,0x..] npx hardhat run scripts/distributeProfit.ts
+ *         REVENUE is in FEXSE. Writes distributions/asset-<id>-block-<n>.{json,csv} for review.
+ * Submit: APP_ADDRESS=0x.. BATCH=distributions/asset-54-block-123.json [CHUNK_SIZE=200] [MAX_CHUNKS=5] npx hardhat run scripts/distributeProfit.ts
+ *         Progress is journaled next to the batch, run the same command again to resume.
+ */
+async function main() {
+    const PRIVATE_KEY = process.env.PRIVATE_KEY!;
+    const RPC_URL = process.env.RPC_URL!;
+    const APP_ADDRESS = process.env.APP_ADDRESS!;
+
+    if (!PRIVATE_KEY || !RPC_URL || !APP_ADDRESS) {
+        throw new Error("Please set PRIVATE_KEY, RPC_URL, and APP_ADDRESS in your .env file.");
+    }
+
+    const provider = new ethers.JsonRpcProvider(RPC_URL);
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+
+    if (process.env.BATCH) {
+        const batch = readBatch(process.env.BATCH);
+        const client = new RwaClient(APP_ADDRESS, wallet);
+        const result = await submitDistribution(client, batch, {
+            chunkSize: process.env.CHUNK_SIZE ? Number(process.env.CHUNK_SIZE) : undefined,
+            maxChunks: process.env.MAX_CHUNKS ? Number(process.env.MAX_CHUNKS) : undefined,
+        });
+
+        const confirmed = result.journal.chunks.filter(c => c.status === "confirmed").length;
+        console.log(result.complete
+            ? `Batch ${process.env.BATCH} submitted in ${confirmed} chunks`
+            : `${confirmed} of ${result.journal.chunks.length} chunks submitted, run again to continue`);
+        return;
+    }
+
+    if (!process.env.ASSET_ID || !process.env.REVENUE) {
+        throw new Error("Please set ASSET_ID and REVENUE to build a batch, or BATCH to submit one.");
+    }
+
+    const snapshot = await takeHolderSnapshot(
+        provider,
+        APP_ADDRESS,
+        BigInt(process.env.ASSET_ID),
+        process.env.BLOCK ? Number(process.env.BLOCK) : undefined,
+    );
+    const batch = calculateDistribution(snapshot, ethers.parseEther(process.env.REVENUE), {
+        exclude: (process.env.EXCLUDE || "").split(",").map(a => a.trim()).filter(a => a.length > 0),
+    });
+    const { jsonPath, csvPath } = writeBatch(batch);
+
+    log('INFO', `Distribution of asset ${batch.assetId} at block ${batch.blockNumber}: ${batch.entries.length} holders, ${batch.excluded.length} excluded, dust ${batch.dust}`);
+    console.log(`Batch written to ${jsonPath} and ${csvPath}, review it and submit with BATCH=${jsonPath}`);
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
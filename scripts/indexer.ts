@@ -0,0 +1,70 @@
+const { ethers } = require("hardhat");
+import { log } from '../test/logger';
+import { EventIndexer, IndexerDatabase } from "../services/indexer";
+import * as dotenv from "dotenv";
+dotenv.config();
+
+/**
+ * Indexes the App events into SQLite and answers queries from the index.
+ *
+ * Index:  APP_ADDRESS=0x.. [START_BLOCK=123] [DB_PATH=indexer.sqlite] [FOLLOW=1] [CONFIRMATIONS=2] npx hardhat run scripts/indexer.ts
+ *         Backfills from START_BLOCK (or the cursor of an existing database), FOLLOW keeps polling for new blocks.
+ * Query:  QUERY=cap-table:54 | trades:54 | claims:0x.. [DB_PATH=indexer.sqlite] npx hardhat run scripts/indexer.ts
+ */
+async function main() {
+    const DB_PATH = process.env.DB_PATH || "indexer.sqlite";
+    const db = new IndexerDatabase(DB_PATH);
+
+    if (process.env.QUERY) {
+        const [kind, arg] = process.env.QUERY.split(":");
+        const result =
+            kind === "cap-table" ? db.capTable(BigInt(arg)) :
+            kind === "trades" ? db.tradeHistory(BigInt(arg)) :
+            kind === "claims" ? db.claimHistory(arg) :
+            undefined;
+
+        if (result === undefined) {
+            throw new Error(`Unknown query ${kind}, expected cap-table, trades or claims.`);
+        }
+        console.log(JSON.stringify(result, (_, v) => (typeof v === "bigint" ? v.toString() : v), 4));
+        db.close();
+        return;
+    }
+
+    const RPC_URL = process.env.RPC_URL!;
+    const APP_ADDRESS = process.env.APP_ADDRESS!;
+
+    if (!RPC_URL || !APP_ADDRESS) {
+        throw new Error("Please set RPC_URL and APP_ADDRESS in your .env file.");
+    }
+
+    const provider = new ethers.JsonRpcProvider(RPC_URL);
+    const indexer = new EventIndexer(provider, APP_ADDRESS, db, {
+        startBlock: process.env.START_BLOCK ? Number(process.env.START_BLOCK) : undefined,
+        confirmations: process.env.CONFIRMATIONS ? Number(process.env.CONFIRMATIONS) : undefined,
+    });
+
+    const result = await indexer.sync();
+    log('INFO', `Indexed blocks ${result.fromBlock}..${result.toBlock}, ${result.logs} events`);
+
+    if (!process.env.FOLLOW) {
+        db.close();
+        return;
+    }
+
+    const stop = indexer.follow(
+        Number(process.env.POLL_MS || 4000),
+        r => log('INFO', `Indexed blocks ${r.fromBlock}..${r.toBlock}, ${r.logs} events${r.reorgedTo !== undefined ? `, reorg rolled back to ${r.reorgedTo}` : ""}`),
+        e => log('ERROR', `Indexer sync failed: ${e}`),
+    );
+
+    process.once("SIGINT", async () => {
+        await stop();
+        db.close();
+    });
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
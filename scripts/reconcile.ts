@@ -0,0 +1,48 @@
+const { ethers } = require("hardhat");
+import { writeFileSync } from "fs";
+import { log } from '../test/logger';
+import { reconcile, reportToJson } from "../services/reconciliation";
+import * as dotenv from "dotenv";
+dotenv.config();
+
+/**
+ * Checks that the holder bookkeeping of RWATokenization matches the AssetToken balances.
+ *
+ * APP_ADDRESS=0x.. [ASSET_IDS=54,55] [FROM_BLOCK=123] [BATCH_SIZE=2000] [BLOCK=456] [REPORT=report.json] npx hardhat run scripts/reconcile.ts
+ *
+ * Prints the JSON report (or writes it to REPORT) and exits with code 1 when any issue is found.
+ */
+async function main() {
+    const RPC_URL = process.env.RPC_URL!;
+    const APP_ADDRESS = process.env.APP_ADDRESS!;
+
+    if (!RPC_URL || !APP_ADDRESS) {
+        throw new Error("Please set RPC_URL and APP_ADDRESS in your .env file.");
+    }
+
+    const provider = new ethers.JsonRpcProvider(RPC_URL);
+    const report = await reconcile(provider, APP_ADDRESS, {
+        assetIds: process.env.ASSET_IDS ? process.env.ASSET_IDS.split(",").map(id => BigInt(id.trim())) : undefined,
+        fromBlock: process.env.FROM_BLOCK ? Number(process.env.FROM_BLOCK) : undefined,
+        batchSize: process.env.BATCH_SIZE ? Number(process.env.BATCH_SIZE) : undefined,
+        blockTag: process.env.BLOCK ? Number(process.env.BLOCK) : undefined,
+    });
+
+    if (process.env.REPORT) {
+        writeFileSync(process.env.REPORT, reportToJson(report));
+    } else {
+        process.stdout.write(reportToJson(report));
+    }
+
+    if (report.issueCount > 0) {
+        log('ERROR', `Reconciliation at block ${report.blockNumber} found ${report.issueCount} issues`);
+        process.exitCode = 1;
+    } else {
+        log('INFO', `Reconciliation at block ${report.blockNumber}: ${report.assets.length} assets consistent`);
+    }
+}
+
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,71 @@
+import type { Signer } from "ethers";
+import { AssetsApi } from "./api/assets";
+import { ComplianceApi } from "./api/compliance";
+import { DaoApi } from "./api/dao";
+import { FeesApi } from "./api/fees";
+import { IdentityApi } from "./api/identity";
+import { IssuanceApi } from "./api/issuance";
+import { MarketplaceApi } from "./api/marketplace";
+import { PricesApi } from "./api/prices";
+import { ProfitsApi } from "./api/profits";
+import { RecoveryApi } from "./api/recovery";
+import { SalesApi } from "./api/sales";
+import { StakingApi } from "./api/staking";
+import { ClientContext, RwaClientOptions } from "./context";
+
+/**
+ * Typed client for the App diamond. Every facet lives behind the same App address,
+ * the client groups them into namespaced APIs bound to one signer.
+ *
+ * @example
+ * const client = new RwaClient(appAddress, signer, { autoApprove: true });
+ * await client.sales.buyTokens(assetId, 5n, usdtAddress);
+ * await client.profits.claim([assetId]);
+ */
+export class RwaClient {
+    readonly assets: AssetsApi;
+    readonly profits: ProfitsApi;
+    readonly marketplace: MarketplaceApi;
+    readonly sales: SalesApi;
+    readonly compliance: ComplianceApi;
+    readonly identity: IdentityApi;
+    readonly recovery: RecoveryApi;
+    readonly dao: DaoApi;
+    readonly prices: PricesApi;
+    readonly fees: FeesApi;
+    readonly issuance: IssuanceApi;
+    readonly staking: StakingApi;
+
+    private readonly ctx: ClientContext;
+
+    constructor(appAddress: string, signer: Signer, options: RwaClientOptions = {}) {
+        this.ctx = new ClientContext(appAddress, signer, options);
+        this.assets = new AssetsApi(this.ctx);
+        this.profits = new ProfitsApi(this.ctx);
+        this.prices = new PricesApi(this.ctx);
+        this.fees = new FeesApi(this.ctx);
+        this.marketplace = new MarketplaceApi(this.ctx, this.assets, this.fees);
+        this.sales = new SalesApi(this.ctx, this.assets, this.prices, this.fees);
+        this.issuance = new IssuanceApi(this.ctx, this.fees);
+        this.compliance = new ComplianceApi(this.ctx);
+        this.identity = new IdentityApi(this.ctx);
+        this.recovery = new RecoveryApi(this.ctx, this.assets);
+        this.dao = new DaoApi(this.ctx);
+        this.staking = new StakingApi(this.ctx);
+    }
+
+    get appAddress(): string {
+        return this.ctx.appAddress;
+    }
+
+    get signer(): Signer {
+        return this.ctx.signer;
+    }
+
+    /**
+     * Returns a client for the same App and options that sends with `signer`.
+     */
+    connect(signer: Signer): RwaClient {
+        return new RwaClient(this.ctx.appAddress, signer, this.ctx.options);
+    }
+}
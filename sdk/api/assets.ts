@@ -0,0 +1,84 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { AssetToken, AssetToken__factory, RWATokenization, RWATokenization__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+
+export interface AssetInfo {
+    id: bigint;
+    totalTokens: bigint;
+    tokenPrice: bigint;
+    uri: string;
+    tokenContract: string;
+    holders: string[];
+}
+
+export interface CreateAssetParams {
+    assetId: BigNumberish;
+    totalTokens: BigNumberish;
+    tokenPrice: BigNumberish;
+    profitPeriod: BigNumberish;
+    tokenLowerLimit: BigNumberish;
+    uri: string;
+    name: string;
+    symbol: string;
+}
+
+/**
+ * Asset registry of the RWATokenization facet.
+ */
+export class AssetsApi {
+    readonly facet: RWATokenization;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = RWATokenization__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    /**
+     * Reads every stored field of an asset. Throws `AssetNotFoundError` for unknown ids.
+     */
+    async get(assetId: BigNumberish): Promise<AssetInfo> {
+        return this.ctx.call(async () => {
+            const [totalTokens, tokenPrice, uri, tokenContract, holders] = await Promise.all([
+                this.facet.getTotalTokens(assetId),
+                this.facet.getTokenPrice(assetId),
+                this.facet.getUri(assetId),
+                this.facet.getTokenContractAddress(assetId),
+                this.facet.getTokenHolders(assetId),
+            ]);
+            return { id: BigInt(assetId), totalTokens, tokenPrice, uri, tokenContract, holders: [...holders] };
+        });
+    }
+
+    async tokenContract(assetId: BigNumberish): Promise<AssetToken> {
+        const address = await this.ctx.call(() => this.facet.getTokenContractAddress(assetId));
+        return AssetToken__factory.connect(address, this.ctx.signer);
+    }
+
+    async holders(assetId: BigNumberish): Promise<string[]> {
+        return [...await this.ctx.call(() => this.facet.getTokenHolders(assetId))];
+    }
+
+    async holderBalance(assetId: BigNumberish, holder: string): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getHolderBalance(assetId, holder));
+    }
+
+    async create(params: CreateAssetParams): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.createAsset(
+            params.assetId,
+            params.totalTokens,
+            params.tokenPrice,
+            params.profitPeriod,
+            params.tokenLowerLimit,
+            params.uri,
+            params.name,
+            params.symbol,
+        ));
+    }
+
+    async updatePrice(assetId: BigNumberish, newTokenPrice: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.updateAsset(assetId, newTokenPrice));
+    }
+
+    async sendToTheRealWorld(account: string, assetId: BigNumberish, amount: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.sendToTheRealWorld(account, assetId, amount));
+    }
+}
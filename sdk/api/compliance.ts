@@ -0,0 +1,89 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { Compliance, Compliance__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+
+// Mirrors the TransferRestrictionMode enum of Constants.sol
+export enum TransferRestrictionMode {
+    BLACKLIST_ONLY,
+    WHITELIST_REQUIRED,
+    OPEN,
+}
+
+// ERC-1404 restriction codes returned by detectTransferRestriction, see Constants.sol
+export enum TransferRestrictionCode {
+    ALLOWED,
+    SENDER_BLACKLISTED,
+    RECIPIENT_BLACKLISTED,
+    SENDER_NOT_WHITELISTED,
+    RECIPIENT_NOT_WHITELISTED,
+    RECIPIENT_KYC_EXPIRED,
+    RECIPIENT_COUNTRY_BLOCKED,
+    RECIPIENT_NOT_ACCREDITED,
+    MAX_HOLDERS_REACHED,
+}
+
+export interface TransferRestriction {
+    code: TransferRestrictionCode;
+    message: string;
+}
+
+/**
+ * Whitelist and blacklist management through the Compliance facet.
+ */
+export class ComplianceApi {
+    readonly facet: Compliance;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = Compliance__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    async isBlacklisted(account: string): Promise<boolean> {
+        return this.ctx.call(() => this.facet.isAddressBlacklisted(account));
+    }
+
+    /**
+     * Runs `preTransferCheck` for a transfer from `from` to `to`, throwing the
+     * matching typed error if the transfer would not be allowed.
+     */
+    async checkTransfer(from: string, to: string): Promise<void> {
+        await this.ctx.call(() => this.facet.preTransferCheck(from, to));
+    }
+
+    async restrictionMode(assetId: BigNumberish): Promise<TransferRestrictionMode> {
+        return Number(await this.ctx.call(() => this.facet.getTransferRestrictionMode(assetId))) as TransferRestrictionMode;
+    }
+
+    /**
+     * Sets the restriction the asset token enforces on peer-to-peer transfers,
+     * compliance officer only.
+     */
+    async setRestrictionMode(assetId: BigNumberish, mode: TransferRestrictionMode): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setTransferRestrictionMode(assetId, mode));
+    }
+
+    /**
+     * Restriction the asset token would reject a transfer of `amount` from `from` to
+     * `to` with, `ALLOWED` if it goes through.
+     */
+    async detectRestriction(assetId: BigNumberish, from: string, to: string, amount: BigNumberish): Promise<TransferRestriction> {
+        const code = await this.ctx.call(() => this.facet.detectTransferRestriction(assetId, from, to, amount));
+        const message = await this.ctx.call(() => this.facet.messageForTransferRestriction(code));
+        return { code: Number(code) as TransferRestrictionCode, message };
+    }
+
+    async whitelist(account: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.whitelistAddress(account));
+    }
+
+    async blacklist(account: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.blacklistAddress(account));
+    }
+
+    async removeFromWhitelist(account: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.removeFromWhitelist(account));
+    }
+
+    async removeFromBlacklist(account: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.removeFromBlacklist(account));
+    }
+}
@@ -0,0 +1,232 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { IERC5805__factory, RWA_DAO, RWA_DAO__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+import { ProposalAction, ProposalBuilder } from "../proposals";
+
+// Mirrors the ProposalState enum of Constants.sol
+export enum ProposalState {
+    ACTIVE,
+    DEFEATED,
+    SUCCEEDED,
+    QUEUED,
+    EXECUTED,
+    CANCELLED,
+}
+
+// Mirrors the VotingWeight enum of Constants.sol
+export enum VotingWeight {
+    GOVERNANCE_TOKEN,
+    ASSET_HOLDINGS,
+}
+
+export interface ProposalInfo {
+    id: bigint;
+    governanceToken: string;
+    description: string;
+    forVotes: bigint;
+    againstVotes: bigint;
+    executed: boolean;
+    deadline: bigint;
+}
+
+export interface CreateProposalParams {
+    proposalId: BigNumberish;
+    // ERC20Votes token, holders vote with the votes delegated to them before creation
+    governanceToken: string;
+    duration: BigNumberish;
+    // Votes for required, in basis points of the total supply at the snapshot
+    minimumQuorum: BigNumberish;
+    description: string;
+    // Calls executed by the App when the proposal is executed, see ProposalBuilder
+    actions?: ProposalAction[];
+}
+
+export interface CreateAssetProposalParams extends Omit<CreateProposalParams, "governanceToken"> {
+    // Asset whose holders vote with their token balance before creation
+    assetId: BigNumberish;
+}
+
+export interface CastVote {
+    voter: string;
+    support: boolean;
+    weight: bigint;
+    blockNumber: number;
+    txHash: string;
+}
+
+export interface ProposalVoting {
+    // Block whose balances weight the votes
+    snapshot: bigint;
+    votingWeight: VotingWeight;
+    // Zero for governance token proposals
+    assetId: bigint;
+    quorumVotes: bigint;
+}
+
+export interface ProposalActionResult extends ProposalAction {
+    // False until the proposal is executed
+    succeeded: boolean;
+}
+
+/**
+ * Governance through the RWA_DAO facet. The facet is opt-in, calls fail with an
+ * `RwaRevertError` if it is not installed on the App.
+ */
+export class DaoApi {
+    readonly facet: RWA_DAO;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = RWA_DAO__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    async getProposal(proposalId: BigNumberish): Promise<ProposalInfo> {
+        const p = await this.ctx.call(() => this.facet.getProposal(proposalId));
+        return {
+            id: p.id,
+            governanceToken: p.governanceToken,
+            description: p.description,
+            forVotes: p.forVotes,
+            againstVotes: p.againstVotes,
+            executed: p.executed,
+            deadline: p.deadline,
+        };
+    }
+
+    async createProposal(params: CreateProposalParams): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.createProposal(
+            params.proposalId,
+            params.governanceToken,
+            params.duration,
+            params.minimumQuorum,
+            params.description,
+            params.actions ?? [],
+        ));
+    }
+
+    async createAssetProposal(params: CreateAssetProposalParams): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.createAssetProposal(
+            params.proposalId,
+            params.assetId,
+            params.duration,
+            params.minimumQuorum,
+            params.description,
+            params.actions ?? [],
+        ));
+    }
+
+    /**
+     * Returns a builder for the actions of a proposal against this App.
+     */
+    builder(): ProposalBuilder {
+        return new ProposalBuilder(this.ctx.appAddress);
+    }
+
+    async state(proposalId: BigNumberish): Promise<ProposalState> {
+        return Number(await this.ctx.call(() => this.facet.getProposalState(proposalId))) as ProposalState;
+    }
+
+    async actions(proposalId: BigNumberish): Promise<ProposalActionResult[]> {
+        const [actions, succeeded] = await this.ctx.call(() => this.facet.getProposalActions(proposalId));
+        return actions.map((action, i) => ({
+            target: action.target,
+            value: action.value,
+            data: action.data,
+            succeeded: succeeded[i],
+        }));
+    }
+
+    async voting(proposalId: BigNumberish): Promise<ProposalVoting> {
+        const v = await this.ctx.call(() => this.facet.getProposalVoting(proposalId));
+        return {
+            snapshot: v.snapshot,
+            votingWeight: Number(v.votingWeight) as VotingWeight,
+            assetId: v.assetId,
+            quorumVotes: v.quorumVotes,
+        };
+    }
+
+    /**
+     * Weight a vote of `account` has on the proposal, its votes or asset balance at the snapshot.
+     */
+    async votingPower(proposalId: BigNumberish, account: string): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getVotingPower(proposalId, account));
+    }
+
+    /**
+     * Rebuilds the votes cast on a proposal from the Voted events, in the order they were cast.
+     *
+     * @param proposalId - Proposal to list the votes of.
+     * @param fromBlock - First block scanned, pass the creation block on long chains.
+     */
+    async votes(proposalId: BigNumberish, fromBlock: number = 0): Promise<CastVote[]> {
+        const id = BigInt(proposalId);
+        const events = await this.facet.queryFilter(this.facet.filters.Voted(), fromBlock, "latest");
+
+        return events
+            .filter(event => event.args.proposalId === id)
+            .map(event => ({
+                voter: event.args.voter,
+                support: event.args.support,
+                weight: event.args.weight,
+                blockNumber: event.blockNumber,
+                txHash: event.transactionHash,
+            }));
+    }
+
+    async hasVoted(proposalId: BigNumberish, account: string): Promise<boolean> {
+        return this.ctx.call(() => this.facet.hasVoted(proposalId, account));
+    }
+
+    /**
+     * Delegates the signer's votes of an ERC20Votes governance token, to the signer itself
+     * unless `delegatee` says otherwise. Only votes delegated before a proposal is created
+     * count on it.
+     */
+    async delegate(governanceToken: string, delegatee?: string): Promise<ContractTransactionReceipt> {
+        const token = IERC5805__factory.connect(governanceToken, this.ctx.signer);
+        const to = delegatee ?? await this.ctx.signerAddress();
+        return this.ctx.send(() => token.delegate(to));
+    }
+
+    async timelockDelay(): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getTimelockDelay());
+    }
+
+    async vote(proposalId: BigNumberish, support: boolean): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.vote(proposalId, support));
+    }
+
+    /**
+     * Queues a passed proposal, it can be executed once the timelock delay has elapsed.
+     */
+    async queue(proposalId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.queueProposal(proposalId));
+    }
+
+    async execute(proposalId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.executeProposal(proposalId));
+    }
+
+    /**
+     * Cancels a proposal that was not executed yet, proposer or GUARDIAN_ROLE only.
+     */
+    async cancel(proposalId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.cancelProposal(proposalId));
+    }
+
+    async updateMinimumQuorum(proposalId: BigNumberish, newQuorum: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.updateMinimumQuorum(proposalId, newQuorum));
+    }
+
+    async updateProposalDuration(proposalId: BigNumberish, newDuration: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.updateProposalDuration(proposalId, newDuration));
+    }
+
+    async updateGovernanceToken(proposalId: BigNumberish, newGovernanceToken: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.updateGovernanceToken(proposalId, newGovernanceToken));
+    }
+
+    async updateTimelockDelay(newDelay: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.updateTimelockDelay(newDelay));
+    }
+}
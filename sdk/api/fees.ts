@@ -0,0 +1,108 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { FeeModule, FeeModule__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+
+export interface FeeRecord {
+    assetId: bigint;
+    currency: string;
+    payer: string;
+    recipient: string;
+    amount: bigint;
+    blockNumber: number;
+    txHash: string;
+}
+
+export interface FeeReport {
+    records: FeeRecord[];
+    // Sum of the collected fees per currency address
+    totals: Map<string, bigint>;
+}
+
+export interface FeeReportFilter {
+    fromBlock?: number;
+    toBlock?: number;
+    assetId?: BigNumberish;
+    currency?: string;
+}
+
+/**
+ * Service fee schedule, treasury and payout addresses of the FeeModule facet.
+ */
+export class FeesApi {
+    readonly facet: FeeModule;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = FeeModule__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    /**
+     * Service fee in basis points charged on sales of `assetId` in `currency`: the rate of
+     * the asset, else the default of the currency, else 50 (0.5%).
+     */
+    async rate(assetId: BigNumberish, currency: string): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getFeeRate(assetId, currency));
+    }
+
+    /**
+     * Sets the rate of `assetId` in `currency`, asset 0 sets the default of the currency.
+     * Needs PAYMENT_MANAGER_ROLE.
+     */
+    async setRate(assetId: BigNumberish, currency: string, feeBps: bigint): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setFeeRate(assetId, currency, feeBps));
+    }
+
+    async clearRate(assetId: BigNumberish, currency: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.clearFeeRate(assetId, currency));
+    }
+
+    /**
+     * Treasury receiving the service fees, the zero address while the App (trades) and
+     * the deployer (primary sales) keep them.
+     */
+    async treasury(): Promise<string> {
+        return this.ctx.call(() => this.facet.getTreasury());
+    }
+
+    async setTreasury(treasury: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setTreasury(treasury));
+    }
+
+    async payoutAddress(seller: string): Promise<string> {
+        return this.ctx.call(() => this.facet.getPayoutAddress(seller));
+    }
+
+    /**
+     * Sends the signer's sale proceeds to `payout`, the zero address pays the signer again.
+     */
+    async setPayoutAddress(payout: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setPayoutAddress(payout));
+    }
+
+    /**
+     * Collects the FeeCollected events of MarketPlace and SalesModule.
+     *
+     * @param filter - Block range, from the first block to the latest by default, and
+     *   optionally one asset or currency.
+     * @returns Every fee in block order and the total collected per currency.
+     */
+    async report(filter: FeeReportFilter = {}): Promise<FeeReport> {
+        const events = await this.facet.queryFilter(this.facet.filters.FeeCollected(), filter.fromBlock ?? 0, filter.toBlock ?? "latest");
+        const records: FeeRecord[] = [];
+        const totals = new Map<string, bigint>();
+
+        for (const event of events) {
+            const { assetId, currency, payer, recipient, amount } = event.args;
+            if (filter.assetId !== undefined && assetId !== BigInt(filter.assetId)) {
+                continue;
+            }
+            if (filter.currency !== undefined && currency.toLowerCase() !== filter.currency.toLowerCase()) {
+                continue;
+            }
+
+            records.push({ assetId, currency, payer, recipient, amount, blockNumber: event.blockNumber, txHash: event.transactionHash });
+            totals.set(currency, (totals.get(currency) ?? 0n) + amount);
+        }
+
+        return { records, totals };
+    }
+}
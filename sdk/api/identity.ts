@@ -0,0 +1,116 @@
+import { BigNumberish, ContractTransactionReceipt, hexlify, toUtf8Bytes, toUtf8String } from "ethers";
+import { IdentityRegistry, IdentityRegistry__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+
+// Mirrors the InvestorClass enum of Constants.sol
+export enum InvestorClass {
+    NONE,
+    RETAIL,
+    ACCREDITED,
+    INSTITUTIONAL,
+}
+
+export interface InvestorIdentity {
+    // ISO 3166-1 alpha-2 code, e.g. "US"
+    country: string;
+    investorClass: InvestorClass;
+    // Unix seconds, zero if the KYC does not expire
+    kycExpiry: bigint;
+}
+
+export interface InvestorRecord extends InvestorIdentity {
+    account: string;
+}
+
+export interface AssetComplianceRules {
+    accreditedOnly: boolean;
+    // Zero for no limit
+    maxHolders: bigint;
+}
+
+// Investors registered per setInvestorIdentities transaction by `register`
+export const DEFAULT_REGISTER_BATCH_SIZE = 100;
+
+/**
+ * Encodes an ISO 3166-1 alpha-2 country code as the bytes2 stored on chain.
+ */
+export function encodeCountry(country: string): string {
+    if (!/^[A-Z]{2}$/.test(country)) {
+        throw new Error(`Invalid country code "${country}", expected two upper case letters`);
+    }
+    return hexlify(toUtf8Bytes(country));
+}
+
+/**
+ * Decodes a bytes2 country code, the empty string for an unregistered investor.
+ */
+export function decodeCountry(country: string): string {
+    return BigInt(country) === 0n ? "" : toUtf8String(country);
+}
+
+/**
+ * KYC registry and per-asset compliance rules of the IdentityRegistry facet.
+ */
+export class IdentityApi {
+    readonly facet: IdentityRegistry;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = IdentityRegistry__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    async identity(account: string): Promise<InvestorIdentity> {
+        const identity = await this.ctx.call(() => this.facet.getInvestorIdentity(account));
+        return {
+            country: decodeCountry(identity.country),
+            investorClass: Number(identity.investorClass) as InvestorClass,
+            kycExpiry: identity.kycExpiry,
+        };
+    }
+
+    async isKycValid(account: string): Promise<boolean> {
+        return this.ctx.call(() => this.facet.isKycValid(account));
+    }
+
+    /**
+     * Adds or updates investor identities and whitelists the investors, compliance
+     * officer only. Records are sent in transactions of `batchSize` investors, in order.
+     *
+     * @returns One receipt per transaction.
+     */
+    async register(records: InvestorRecord[], batchSize: number = DEFAULT_REGISTER_BATCH_SIZE): Promise<ContractTransactionReceipt[]> {
+        const receipts: ContractTransactionReceipt[] = [];
+
+        for (let start = 0; start < records.length; start += batchSize) {
+            const batch = records.slice(start, start + batchSize);
+            const identities = batch.map(record => ({
+                country: encodeCountry(record.country),
+                investorClass: record.investorClass,
+                kycExpiry: record.kycExpiry,
+            }));
+            receipts.push(await this.ctx.send(() => this.facet.setInvestorIdentities(batch.map(r => r.account), identities)));
+        }
+
+        return receipts;
+    }
+
+    async remove(accounts: string[]): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.removeInvestorIdentities(accounts));
+    }
+
+    async rules(assetId: BigNumberish): Promise<AssetComplianceRules> {
+        const [accreditedOnly, maxHolders] = await this.ctx.call(() => this.facet.getAssetComplianceRules(assetId));
+        return { accreditedOnly, maxHolders };
+    }
+
+    async setRules(assetId: BigNumberish, rules: AssetComplianceRules): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setAssetComplianceRules(assetId, rules.accreditedOnly, rules.maxHolders));
+    }
+
+    async setBlockedCountries(assetId: BigNumberish, countries: string[], blocked: boolean): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setBlockedCountries(assetId, countries.map(encodeCountry), blocked));
+    }
+
+    async isCountryBlocked(assetId: BigNumberish, country: string): Promise<boolean> {
+        return this.ctx.call(() => this.facet.isCountryBlocked(assetId, encodeCountry(country)));
+    }
+}
@@ -0,0 +1,169 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { IssuanceModule, IssuanceModule__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+import { BuyTokensQuote, quoteBuyTokens } from "../quote";
+import { FeesApi } from "./fees";
+
+// Mirrors the IssuanceState enum of Constants.sol
+export enum IssuanceState {
+    PENDING,
+    ACTIVE,
+    ENDED,
+    SUCCEEDED,
+    FAILED,
+    CANCELLED,
+}
+
+/**
+ * Terms of a primary issuance round. Caps and investor limits count asset tokens, the
+ * price is in USDT and the window in unix seconds.
+ */
+export interface IssuanceRoundConfig {
+    assetId: bigint;
+    tokenPrice: bigint;
+    startTime: bigint;
+    endTime: bigint;
+    softCap: bigint;
+    hardCap: bigint;
+    minPerInvestor: bigint;
+    // Zero for no limit
+    maxPerInvestor: bigint;
+    whitelistOnly: boolean;
+}
+
+export interface IssuanceRoundInfo extends IssuanceRoundConfig {
+    roundId: bigint;
+    tokensSold: bigint;
+    // USDT escrowed for the tokens sold, paid to the issuer when the round succeeds
+    raised: bigint;
+    // USDT escrowed for the service fee, paid to the treasury when the round succeeds
+    fees: bigint;
+    state: IssuanceState;
+}
+
+export interface IssuancePurchase {
+    tokenAmount: bigint;
+    paid: bigint;
+}
+
+/**
+ * Primary issuance rounds of the IssuanceModule facet.
+ */
+export class IssuanceApi {
+    readonly facet: IssuanceModule;
+
+    constructor(private readonly ctx: ClientContext, private readonly fees: FeesApi) {
+        this.facet = IssuanceModule__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    /**
+     * Opens a round, admin only.
+     *
+     * @returns The id of the new round, read from its IssuanceRoundCreated event.
+     */
+    async create(config: IssuanceRoundConfig): Promise<{ roundId: bigint; receipt: ContractTransactionReceipt }> {
+        const receipt = await this.ctx.send(() => this.facet.createIssuanceRound(config));
+        const created = receipt.logs
+            .map(log => this.facet.interface.parseLog(log))
+            .find(event => event?.name === "IssuanceRoundCreated");
+        return { roundId: created!.args.roundId, receipt };
+    }
+
+    async round(roundId: BigNumberish): Promise<IssuanceRoundInfo> {
+        const [config, tokensSold, raised, fees, state] = await this.ctx.call(() => this.facet.getIssuanceRound(roundId));
+        return {
+            roundId: BigInt(roundId),
+            assetId: config.assetId,
+            tokenPrice: config.tokenPrice,
+            startTime: config.startTime,
+            endTime: config.endTime,
+            softCap: config.softCap,
+            hardCap: config.hardCap,
+            minPerInvestor: config.minPerInvestor,
+            maxPerInvestor: config.maxPerInvestor,
+            whitelistOnly: config.whitelistOnly,
+            tokensSold,
+            raised,
+            fees,
+            state: Number(state) as IssuanceState,
+        };
+    }
+
+    async roundCount(): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getIssuanceRoundCount());
+    }
+
+    /**
+     * Tokens `investor` bought in a round and the USDT escrowed for them, zero once claimed.
+     */
+    async purchase(roundId: BigNumberish, investor: string): Promise<IssuancePurchase> {
+        const [tokenAmount, paid] = await this.ctx.call(() => this.facet.getIssuancePurchase(roundId, investor));
+        return { tokenAmount, paid };
+    }
+
+    /**
+     * Quotes buying `tokenAmount` tokens of a round at its price and the fee rate of its
+     * asset, see `quoteBuyTokens`.
+     */
+    async quote(roundId: BigNumberish, tokenAmount: bigint): Promise<BuyTokensQuote> {
+        const round = await this.round(roundId);
+        const feeBps = await this.fees.rate(round.assetId, await this.currency());
+        return quoteBuyTokens(round.tokenPrice, tokenAmount, "USDT", undefined, feeBps);
+    }
+
+    /**
+     * Buys `tokenAmount` tokens of an active round for the signer. The price plus the
+     * service fee stays in escrow until the round is finalized.
+     *
+     * This function checks the signer's USDT balance and allowance before sending.
+     */
+    async buy(roundId: BigNumberish, tokenAmount: bigint): Promise<ContractTransactionReceipt> {
+        const investor = await this.ctx.signerAddress();
+        const currency = await this.currency();
+        const quote = await this.quote(roundId, tokenAmount);
+
+        await this.ctx.ensureBalance(currency, investor, quote.buyer.balance);
+        await this.ctx.ensureAllowance(currency, investor, quote.buyer.allowance);
+
+        return this.ctx.send(() => this.facet.buyIssuance(roundId, tokenAmount));
+    }
+
+    /**
+     * Settles a round whose window closed or whose hard cap sold out. Anyone can call it.
+     */
+    async finalize(roundId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.finalizeIssuanceRound(roundId));
+    }
+
+    async cancel(roundId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.cancelIssuanceRound(roundId));
+    }
+
+    /**
+     * Claims the signer's tokens of a succeeded round, or the refund of a failed or
+     * cancelled one. A claim the asset's transfer restrictions now block is refunded.
+     */
+    async claim(roundId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.claimIssuance(roundId));
+    }
+
+    /**
+     * Claims on behalf of `investor`, the tokens or refund still go to the investor. Lets
+     * the issuer collect the escrow of investors who do not claim.
+     */
+    async settle(roundId: BigNumberish, investor: string): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.settleIssuance(roundId, investor));
+    }
+
+    async currency(): Promise<string> {
+        return this.ctx.call(() => this.facet.getIssuanceCurrency());
+    }
+
+    /**
+     * Deployer tokens of `assetId` held back for open rounds and unclaimed purchases. No
+     * other sale or transfer can take the deployer's balance below it.
+     */
+    async reserved(assetId: BigNumberish): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getIssuanceReserved(assetId));
+    }
+}
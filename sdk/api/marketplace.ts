@@ -0,0 +1,105 @@
+import type { BigNumberish, ContractTransactionReceipt, ContractTransactionResponse } from "ethers";
+import { MarketPlace, MarketPlace__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+import { InsufficientBalanceError } from "../errors";
+import { TransferAssetQuote, quoteTransferAsset } from "../quote";
+import { AssetsApi } from "./assets";
+import { FeesApi } from "./fees";
+
+export interface TransferAssetParams {
+    orderId: BigNumberish;
+    seller: string;
+    buyer: string;
+    assetId: BigNumberish;
+    tokenAmount: bigint;
+    tokenPrice: bigint;
+    saleCurrency: string;
+}
+
+/**
+ * Secondary market settlement through the MarketPlace facet.
+ */
+export class MarketplaceApi {
+    readonly facet: MarketPlace;
+
+    constructor(private readonly ctx: ClientContext, private readonly assets: AssetsApi, private readonly fees: FeesApi) {
+        this.facet = MarketPlace__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    /**
+     * Quotes the transfers of a `transferAsset` call, see `quoteTransferAsset`. Without
+     * `feeBps` the default 0.5% rate is assumed, `fees.rate` returns the configured one.
+     */
+    quote(params: TransferAssetParams, gasFee?: bigint, feeBps?: bigint): TransferAssetQuote {
+        return quoteTransferAsset(params.tokenAmount, params.tokenPrice, gasFee, feeBps);
+    }
+
+    /**
+     * Gas fee `transferAsset` would charge in `saleCurrency` for `gasUsed` gas at the
+     * gas price of the call, capped like on chain.
+     */
+    async gasFee(saleCurrency: string, gasUsed: bigint): Promise<bigint> {
+        return this.ctx.call(() => this.facet.calculateGasFee(saleCurrency, gasUsed));
+    }
+
+    /**
+     * Maximum gas fee charged in `saleCurrency`, zero when uncapped.
+     */
+    async gasFeeCap(saleCurrency: string): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getGasFeeCap(saleCurrency));
+    }
+
+    /**
+     * Caps the gas fee charged in `saleCurrency` (USDT or FEXSE) at `cap` units of that
+     * currency, zero removes the cap. Admin only.
+     */
+    async setGasFeeCap(saleCurrency: string, cap: bigint): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setGasFeeCap(saleCurrency, cap));
+    }
+
+    /**
+     * Settles a trade: moves `tokenAmount` asset tokens from the seller to the buyer
+     * and `tokenAmount * tokenPrice` of the sale currency the other way.
+     *
+     * @param params - Order id, parties, asset, amount, unit price and sale currency.
+     * @param onSent - Receives the transaction once sent, before its receipt is awaited.
+     *
+     * This function checks, before sending, that the seller approved the App for the
+     * asset token and holds enough tokens, and that the buyer holds and approved the
+     * price plus the service fee of FeeModule. When the sale currency has a gas fee cap, the
+     * buyer must also cover the capped gas fee, the most the settlement can charge.
+     */
+    async transferAsset(
+        params: TransferAssetParams,
+        onSent?: (tx: ContractTransactionResponse) => void,
+    ): Promise<ContractTransactionReceipt> {
+        const feeBps = await this.fees.rate(params.assetId, params.saleCurrency);
+        const { buyer } = this.quote(params, await this.gasFeeCap(params.saleCurrency), feeBps);
+        const assetToken = await this.assets.tokenContract(params.assetId);
+        const assetTokenAddress = await assetToken.getAddress();
+
+        await this.ctx.ensureApprovalForAll(assetTokenAddress, params.seller);
+
+        const sellerBalance = await assetToken.balanceOf(params.seller, params.assetId);
+        if (sellerBalance < params.tokenAmount) {
+            throw new InsufficientBalanceError(
+                `Seller ${params.seller} holds ${sellerBalance} of asset ${params.assetId}, ${params.tokenAmount} required`,
+                undefined,
+                { token: assetTokenAddress, owner: params.seller, required: params.tokenAmount, actual: sellerBalance },
+            );
+        }
+
+        await this.ctx.ensureBalance(params.saleCurrency, params.buyer, buyer.balance);
+        await this.ctx.ensureAllowance(params.saleCurrency, params.buyer, buyer.allowance);
+
+        return this.ctx.send(() => this.facet.transferAsset(
+            params.orderId,
+            params.seller,
+            params.buyer,
+            params.assetId,
+            params.tokenAmount,
+            params.tokenPrice,
+            params.saleCurrency,
+        ), onSent);
+    }
+}
@@ -0,0 +1,76 @@
+import type { ContractTransactionReceipt } from "ethers";
+import { PriceFetcher, PriceFetcher__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+
+// Mirrors the PriceSource enum of Constants.sol
+export enum PriceSource {
+    FIXED,
+    UNISWAP_V3_TWAP,
+    CHAINLINK,
+}
+
+export interface FexseOracleConfig {
+    source: PriceSource;
+    feed: string;
+    twapWindow: bigint;
+    maxStaleness: bigint;
+    maxDeviationBps: bigint;
+    referencePrice: bigint;
+}
+
+/**
+ * FEXSE price oracle of the PriceFetcher facet.
+ */
+export class PricesApi {
+    readonly facet: PriceFetcher;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = PriceFetcher__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    /**
+     * Current FEXSE price in USDT (6 decimals) per FEXSE, as used by SalesModule.
+     * Throws `PriceOracleError` when the configured source is stale or out of bounds.
+     */
+    async fexsePrice(): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getFexsePrice());
+    }
+
+    async oracle(): Promise<FexseOracleConfig> {
+        const config = await this.ctx.call(() => this.facet.getFexseOracle());
+        return {
+            source: Number(config.source) as PriceSource,
+            feed: config.feed,
+            twapWindow: config.twapWindow,
+            maxStaleness: config.maxStaleness,
+            maxDeviationBps: config.maxDeviationBps,
+            referencePrice: config.referencePrice,
+        };
+    }
+
+    /**
+     * Switches the FEXSE price source, the App rejects a source that does not answer
+     * within the configured bounds.
+     *
+     * @param source - The new source.
+     * @param feed - FEXSE/USDT Uniswap V3 pool or FEXSE/USD Chainlink aggregator, unused for FIXED.
+     * @param twapWindow - Seconds the pool tick is averaged over, UNISWAP_V3_TWAP only.
+     * @param maxStaleness - Seconds a Chainlink answer stays valid, CHAINLINK only.
+     */
+    async setSource(
+        source: PriceSource,
+        feed: string,
+        twapWindow: bigint = 0n,
+        maxStaleness: bigint = 0n,
+    ): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setFexsePriceSource(source, feed, twapWindow, maxStaleness));
+    }
+
+    /**
+     * Sets the reference price (also the FIXED price) and the deviation in basis points
+     * the pool or feed price may have from it, 0 disables the check.
+     */
+    async setBounds(referencePrice: bigint, maxDeviationBps: bigint = 0n): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setFexsePriceBounds(referencePrice, maxDeviationBps));
+    }
+}
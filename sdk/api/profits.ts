@@ -0,0 +1,86 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { ProfitModule, ProfitModule__factory } from "../../typechain-types";
+import type { ProfitInfoStruct } from "../../typechain-types/contracts/modules/ProfitModule";
+import { ClientContext } from "../context";
+import { NoProfitToClaimError } from "../errors";
+
+/**
+ * Profit distribution and claiming through the ProfitModule facet.
+ */
+export class ProfitsApi {
+    readonly facet: ProfitModule;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = ProfitModule__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    async pending(assetId: BigNumberish, holder: string): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getPendingProfits(assetId, holder));
+    }
+
+    async totalProfit(assetId: BigNumberish): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getTotalProfit(assetId));
+    }
+
+    async lastDistributed(assetId: BigNumberish): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getLastDistributed(assetId));
+    }
+
+    async profitPeriod(assetId: BigNumberish): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getProfitPeriod(assetId));
+    }
+
+    async tokenLowerLimit(assetId: BigNumberish): Promise<bigint> {
+        return this.ctx.call(() => this.facet.getTokenLowerLimit(assetId));
+    }
+
+    async distribute(assetId: BigNumberish, profits: ProfitInfoStruct[]): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.distributeProfit(assetId, profits));
+    }
+
+    /**
+     * Claims the pending profits of the signer for every asset in `assetIds`.
+     *
+     * @param assetIds - Assets to claim, each one must have pending profits.
+     *
+     * This function checks the pending profits before sending, so a claim that would
+     * revert throws `NoProfitToClaimError` without spending gas. When the `issuer` and
+     * `fexse` options are set it also checks the FEXSE balance and allowance the App
+     * pays the profits from.
+     */
+    async claim(assetIds: BigNumberish[]): Promise<ContractTransactionReceipt> {
+        const holder = await this.ctx.signerAddress();
+        let total = 0n;
+
+        for (const assetId of assetIds) {
+            const pending = await this.pending(assetId, holder);
+            if (pending === 0n) {
+                throw new NoProfitToClaimError(`No pending profit for ${holder} on asset ${assetId}`);
+            }
+            total += pending;
+        }
+
+        if (this.ctx.options.issuer && this.ctx.options.fexse) {
+            await this.ctx.ensureBalance(this.ctx.options.fexse, this.ctx.options.issuer, total);
+            await this.ctx.ensureAllowance(this.ctx.options.fexse, this.ctx.options.issuer, total);
+        }
+
+        return this.ctx.send(() => this.facet.claimProfit(assetIds));
+    }
+
+    async pause(assetId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.pauseAsset(assetId));
+    }
+
+    async unpause(assetId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.unPauseAsset(assetId));
+    }
+
+    async updateLowerLimit(assetId: BigNumberish, newTokenLowerLimit: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.updateAssetLowerLimit(assetId, newTokenLowerLimit));
+    }
+
+    async updateProfitPeriod(assetId: BigNumberish, newProfitPeriod: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.updateProfitPeriod(assetId, newProfitPeriod));
+    }
+}
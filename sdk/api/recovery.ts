@@ -0,0 +1,60 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { RecoveryModule, RecoveryModule__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+import { InsufficientBalanceError } from "../errors";
+import { AssetsApi } from "./assets";
+
+// Mirrors the ForcedTransferReason enum of Constants.sol
+export enum ForcedTransferReason {
+    LOST_WALLET,
+    COURT_ORDER,
+    SANCTIONS,
+    OTHER,
+}
+
+export interface ForceTransferParams {
+    assetId: BigNumberish;
+    from: string;
+    to: string;
+    amount: bigint;
+    reason: ForcedTransferReason;
+}
+
+/**
+ * Forced transfers and wallet recovery of the RecoveryModule facet, compliance officer only.
+ */
+export class RecoveryApi {
+    readonly facet: RecoveryModule;
+
+    constructor(private readonly ctx: ClientContext, private readonly assets: AssetsApi) {
+        this.facet = RecoveryModule__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    /**
+     * Moves `amount` tokens from `from` to `to` without the holder's approval. The
+     * unclaimed profits of `from` move too when the whole balance moves.
+     *
+     * This function checks the holder's token balance before sending.
+     */
+    async forceTransfer(params: ForceTransferParams): Promise<ContractTransactionReceipt> {
+        const assetToken = await this.assets.tokenContract(params.assetId);
+        const balance = await assetToken.balanceOf(params.from, params.assetId);
+        if (balance < params.amount) {
+            throw new InsufficientBalanceError(
+                `Holder ${params.from} holds ${balance} of asset ${params.assetId}, ${params.amount} required`,
+                undefined,
+                { token: await assetToken.getAddress(), owner: params.from, required: params.amount, actual: balance },
+            );
+        }
+
+        return this.ctx.send(() => this.facet.forceTransfer(params.assetId, params.from, params.to, params.amount, params.reason));
+    }
+
+    /**
+     * Moves the whole balance and the unclaimed profits of `lostWallet` in each of
+     * `assetIds` to `newWallet`. Assets the lost wallet does not hold are skipped.
+     */
+    async recoverWallet(lostWallet: string, newWallet: string, assetIds: BigNumberish[], reason: ForcedTransferReason): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.recoverWallet(lostWallet, newWallet, assetIds, reason));
+    }
+}
@@ -0,0 +1,98 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { SalesModule, SalesModule__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+import { InsufficientBalanceError } from "../errors";
+import { BuyTokensQuote, SaleCurrency, quoteBuyFexse, quoteBuyTokens } from "../quote";
+import { AssetsApi } from "./assets";
+import { FeesApi } from "./fees";
+import { PricesApi } from "./prices";
+
+/**
+ * Primary sales of asset tokens and FEXSE through the SalesModule facet.
+ */
+export class SalesApi {
+    readonly facet: SalesModule;
+
+    constructor(
+        private readonly ctx: ClientContext,
+        private readonly assets: AssetsApi,
+        private readonly prices: PricesApi,
+        private readonly fees: FeesApi,
+    ) {
+        this.facet = SalesModule__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    /**
+     * Quotes a `buyTokens` call at the current price of the asset and of FEXSE and the
+     * fee rate of the asset, see `quoteBuyTokens`. `saleCurrency` is treated as FEXSE when it is the `fexse`
+     * option, as USDT otherwise.
+     */
+    async quote(assetId: BigNumberish, tokenAmount: bigint, saleCurrency: string): Promise<BuyTokensQuote> {
+        const asset = await this.assets.get(assetId);
+        const currency = this.currencyOf(saleCurrency);
+        const fexsePrice = currency === "FEXSE" ? await this.prices.fexsePrice() : undefined;
+        const feeBps = await this.fees.rate(assetId, saleCurrency);
+        return quoteBuyTokens(asset.tokenPrice, tokenAmount, currency, fexsePrice, feeBps);
+    }
+
+    /**
+     * Buys `tokenAmount` asset tokens from the issuer for the signer.
+     *
+     * @param assetId - The asset to buy.
+     * @param tokenAmount - Number of asset tokens, at most 1000 per call.
+     * @param saleCurrency - Address of the currency to pay with (USDT).
+     *
+     * This function checks the signer's balance and allowance for the token price plus
+     * the service fee of FeeModule. When the `issuer` option is set it also checks that the
+     * issuer holds the tokens and approved the App as operator.
+     */
+    async buyTokens(assetId: BigNumberish, tokenAmount: bigint, saleCurrency: string): Promise<ContractTransactionReceipt> {
+        const buyer = await this.ctx.signerAddress();
+        const quote = await this.quote(assetId, tokenAmount, saleCurrency);
+
+        await this.ctx.ensureBalance(saleCurrency, buyer, quote.buyer.balance);
+        await this.ctx.ensureAllowance(saleCurrency, buyer, quote.buyer.allowance);
+
+        if (this.ctx.options.issuer) {
+            const issuer = this.ctx.options.issuer;
+            const assetToken = await this.assets.tokenContract(assetId);
+            const available = await assetToken.balanceOf(issuer, assetId);
+
+            if (available < quote.issuer.assetTokens) {
+                throw new InsufficientBalanceError(
+                    `Issuer ${issuer} holds ${available} of asset ${assetId}, ${tokenAmount} required`,
+                    undefined,
+                    { token: await assetToken.getAddress(), owner: issuer, required: tokenAmount, actual: available },
+                );
+            }
+            await this.ctx.ensureApprovalForAll(await assetToken.getAddress(), issuer);
+        }
+
+        return this.ctx.send(() => this.facet.buyTokens(assetId, tokenAmount, saleCurrency));
+    }
+
+    /**
+     * Buys `tokenAmount` FEXSE (18 decimals) from the issuer at the oracle price.
+     *
+     * This function checks the signer's USDT balance and allowance and, when the
+     * `issuer` and `fexse` options are set, the issuer's FEXSE balance and allowance.
+     */
+    async buyFexse(tokenAmount: bigint, saleCurrency: string): Promise<ContractTransactionReceipt> {
+        const buyer = await this.ctx.signerAddress();
+        const quote = quoteBuyFexse(tokenAmount, await this.prices.fexsePrice());
+
+        await this.ctx.ensureBalance(saleCurrency, buyer, quote.buyer.balance);
+        await this.ctx.ensureAllowance(saleCurrency, buyer, quote.buyer.allowance);
+
+        if (this.ctx.options.issuer && this.ctx.options.fexse) {
+            await this.ctx.ensureBalance(this.ctx.options.fexse, this.ctx.options.issuer, quote.issuer.balance);
+            await this.ctx.ensureAllowance(this.ctx.options.fexse, this.ctx.options.issuer, quote.issuer.allowance);
+        }
+
+        return this.ctx.send(() => this.facet.buyFexse(tokenAmount, saleCurrency));
+    }
+
+    private currencyOf(saleCurrency: string): SaleCurrency {
+        return saleCurrency.toLowerCase() === this.ctx.options.fexse?.toLowerCase() ? "FEXSE" : "USDT";
+    }
+}
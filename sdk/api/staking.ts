@@ -0,0 +1,157 @@
+import type { BigNumberish, ContractTransactionReceipt } from "ethers";
+import { StakingService, StakingService__factory } from "../../typechain-types";
+import { ClientContext } from "../context";
+
+// Mirrors the StakingTier struct of Constants.sol
+export interface StakingTier {
+    // Seconds a stake of the tier stays locked
+    lockDuration: bigint;
+    // Reward weight in basis points, 10000 for 1x
+    multiplierBps: bigint;
+}
+
+export interface StakePositionInfo {
+    positionId: bigint;
+    amount: bigint;
+    weightedAmount: bigint;
+    unlockTime: bigint;
+    tier: bigint;
+    // Rewards accrued to the position and not paid yet
+    rewards: bigint;
+}
+
+export interface StakingPoolInfo {
+    // Reward tokens accrued per second, shared by the weighted stakes
+    rewardRate: bigint;
+    totalStaked: bigint;
+    totalWeighted: bigint;
+}
+
+export interface StakingSolvency {
+    // Funded rewards not accrued yet
+    rewardReserve: bigint;
+    // Rewards accrued to positions and not paid yet
+    rewardsOwed: bigint;
+    // Time the reserve runs out at the current rate, MaxUint256 while the rate is zero
+    fundedUntil: bigint;
+    // Whether the tokens held by the pool, not the App's whole balance, cover the principal, the rewards owed and the reserve
+    solvent: boolean;
+}
+
+/**
+ * Staking of the governance token through the StakingService facet. Rewards accrue per
+ * second from a separately funded reserve, in proportion to the stakes weighted by the
+ * multiplier of their lock tier.
+ */
+export class StakingApi {
+    readonly facet: StakingService;
+
+    constructor(private readonly ctx: ClientContext) {
+        this.facet = StakingService__factory.connect(ctx.appAddress, ctx.signer);
+    }
+
+    async token(): Promise<string> {
+        return this.ctx.call(() => this.facet.getStakingToken());
+    }
+
+    async tiers(): Promise<StakingTier[]> {
+        const tiers = await this.ctx.call(() => this.facet.getStakingTiers());
+        return tiers.map(tier => ({ lockDuration: tier.lockDuration, multiplierBps: tier.multiplierBps }));
+    }
+
+    /**
+     * Positions of `account`, withdrawn ones included with a zero amount so ids stay stable.
+     */
+    async positions(account: string): Promise<StakePositionInfo[]> {
+        const [positions, rewards] = await this.ctx.call(() => this.facet.getStakePositions(account));
+        return positions.map((position, i) => ({
+            positionId: BigInt(i),
+            amount: position.amount,
+            weightedAmount: position.weightedAmount,
+            unlockTime: position.unlockTime,
+            tier: position.tier,
+            rewards: rewards[i],
+        }));
+    }
+
+    /**
+     * Rewards accrued to all positions of `account`, what `claim` would pay now.
+     */
+    async pendingRewards(account: string): Promise<bigint> {
+        return (await this.positions(account)).reduce((sum, position) => sum + position.rewards, 0n);
+    }
+
+    async pool(): Promise<StakingPoolInfo> {
+        const [rewardRate, totalStaked, totalWeighted] = await this.ctx.call(() => this.facet.getStakingPool());
+        return { rewardRate, totalStaked, totalWeighted };
+    }
+
+    async solvency(): Promise<StakingSolvency> {
+        const [rewardReserve, rewardsOwed, fundedUntil, solvent] = await this.ctx.call(() => this.facet.getStakingSolvency());
+        return { rewardReserve, rewardsOwed, fundedUntil, solvent };
+    }
+
+    /**
+     * Stakes `amount` in a new position locked for the duration of `tier`.
+     *
+     * This function checks the signer's balance and allowance of the staking token before sending.
+     *
+     * @returns The id of the new position, read from its Staked event.
+     */
+    async stake(amount: bigint, tier: BigNumberish): Promise<{ positionId: bigint; receipt: ContractTransactionReceipt }> {
+        const staker = await this.ctx.signerAddress();
+        const token = await this.token();
+
+        await this.ctx.ensureBalance(token, staker, amount);
+        await this.ctx.ensureAllowance(token, staker, amount);
+
+        const receipt = await this.ctx.send(() => this.facet.stake(amount, tier));
+        const staked = receipt.logs
+            .map(log => this.facet.interface.parseLog(log))
+            .find(event => event?.name === "Staked");
+        return { positionId: staked!.args.positionId, receipt };
+    }
+
+    /**
+     * Withdraws `amount` of an unlocked position and pays all its rewards.
+     */
+    async unstake(positionId: BigNumberish, amount: bigint): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.unstake(positionId, amount));
+    }
+
+    async claim(): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.claimStakingRewards());
+    }
+
+    /**
+     * Withdraws a whole position, even while locked, forfeiting its rewards to the reserve.
+     */
+    async emergencyWithdraw(positionId: BigNumberish): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.emergencyWithdraw(positionId));
+    }
+
+    /**
+     * Adds `amount` of the signer's staking tokens to the reward reserve. Anyone can fund it.
+     */
+    async fund(amount: bigint): Promise<ContractTransactionReceipt> {
+        const funder = await this.ctx.signerAddress();
+        const token = await this.token();
+
+        await this.ctx.ensureBalance(token, funder, amount);
+        await this.ctx.ensureAllowance(token, funder, amount);
+
+        return this.ctx.send(() => this.facet.fundStakingRewards(amount));
+    }
+
+    async withdrawReserve(to: string, amount: bigint): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.withdrawStakingRewards(to, amount));
+    }
+
+    async setRewardRate(rewardRate: bigint): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setStakingRewardRate(rewardRate));
+    }
+
+    async setTiers(tiers: StakingTier[]): Promise<ContractTransactionReceipt> {
+        return this.ctx.send(() => this.facet.setStakingTiers(tiers));
+    }
+}
@@ -0,0 +1,8 @@
+// Service fee charged by MarketPlace.transferAsset and SalesModule.buyTokens while FeeModule
+// has no rate for the asset or currency, in basis points
+export const SERVICE_FEE_BPS = 50n;
+
+// FEXSE price of the FIXED oracle source while no reference price is set, in USDT with 6 decimals
+export const FEXSE_PRICE_USDT = 45000n;
+
+export const serviceFee = (amount: bigint, feeBps: bigint = SERVICE_FEE_BPS): bigint => (amount * feeBps) / 10000n;
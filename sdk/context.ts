@@ -0,0 +1,140 @@
+import type { ContractTransactionReceipt, ContractTransactionResponse, Signer } from "ethers";
+import { IAssetToken__factory, IERC20__factory } from "../typechain-types";
+import {
+    AssetNotApprovedError,
+    InsufficientAllowanceError,
+    InsufficientBalanceError,
+    decodeRwaError,
+} from "./errors";
+
+export interface RwaClientOptions {
+    // FEXSE token address, needed by the pre-flight checks of claimProfit and buyFexse
+    fexse?: string;
+    // Address the App sells asset tokens and FEXSE from and pays profits from (App deployer)
+    issuer?: string;
+    // Send the missing ERC20 approve / setApprovalForAll instead of throwing, only
+    // possible when the client signer is the owner of the tokens
+    autoApprove?: boolean;
+    // Confirmations to wait for before a write resolves
+    confirmations?: number;
+}
+
+/**
+ * State shared by the namespaced APIs of an `RwaClient`: the App address, the signer
+ * and the helpers that send transactions and run the pre-flight checks.
+ */
+export class ClientContext {
+    constructor(
+        readonly appAddress: string,
+        readonly signer: Signer,
+        readonly options: RwaClientOptions,
+    ) {}
+
+    async signerAddress(): Promise<string> {
+        return this.signer.getAddress();
+    }
+
+    /**
+     * Runs a read call and rethrows reverts as typed errors.
+     */
+    async call<T>(fn: () => Promise<T>): Promise<T> {
+        try {
+            return await fn();
+        } catch (err) {
+            throw decodeRwaError(err);
+        }
+    }
+
+    /**
+     * Sends a transaction and waits for its receipt, rethrowing reverts as typed errors.
+     *
+     * `onSent` receives the transaction before the wait, so callers still know its hash
+     * when waiting for the receipt fails.
+     */
+    async send(
+        fn: () => Promise<ContractTransactionResponse>,
+        onSent?: (tx: ContractTransactionResponse) => void,
+    ): Promise<ContractTransactionReceipt> {
+        try {
+            const tx = await fn();
+            onSent?.(tx);
+            return (await tx.wait(this.options.confirmations ?? 1))!;
+        } catch (err) {
+            throw decodeRwaError(err);
+        }
+    }
+
+    /**
+     * Makes sure `owner` allows the App to spend at least `required` of `token`.
+     *
+     * @param token - Address of the ERC20 token.
+     * @param owner - Address the App pulls the tokens from.
+     * @param required - Amount the App will transfer.
+     *
+     * This function approves the missing allowance when `autoApprove` is set and the
+     * client signer is the owner, and throws `InsufficientAllowanceError` otherwise.
+     */
+    async ensureAllowance(token: string, owner: string, required: bigint): Promise<void> {
+        const erc20 = IERC20__factory.connect(token, this.signer);
+        const actual = await erc20.allowance(owner, this.appAddress);
+
+        if (actual >= required) {
+            return;
+        }
+
+        if (this.options.autoApprove && await this.isSigner(owner)) {
+            await this.send(() => erc20.approve(this.appAddress, required));
+            return;
+        }
+
+        throw new InsufficientAllowanceError(
+            `Allowance of ${owner} for ${this.appAddress} is ${actual}, ${required} required`,
+            undefined,
+            { token, owner, spender: this.appAddress, required, actual },
+        );
+    }
+
+    /**
+     * Throws `InsufficientBalanceError` if `owner` holds less than `required` of `token`.
+     */
+    async ensureBalance(token: string, owner: string, required: bigint): Promise<void> {
+        const actual = await IERC20__factory.connect(token, this.signer).balanceOf(owner);
+
+        if (actual < required) {
+            throw new InsufficientBalanceError(
+                `Balance of ${owner} is ${actual}, ${required} required`,
+                undefined,
+                { token, owner, required, actual },
+            );
+        }
+    }
+
+    /**
+     * Makes sure `owner` approved the App as operator of its asset tokens.
+     *
+     * This function calls `setApprovalForAll` when `autoApprove` is set and the client
+     * signer is the owner, and throws `AssetNotApprovedError` otherwise.
+     */
+    async ensureApprovalForAll(assetToken: string, owner: string): Promise<void> {
+        const token = IAssetToken__factory.connect(assetToken, this.signer);
+
+        if (await token.isApprovedForAll(owner, this.appAddress)) {
+            return;
+        }
+
+        if (this.options.autoApprove && await this.isSigner(owner)) {
+            await this.send(() => token.setApprovalForAll(this.appAddress, true));
+            return;
+        }
+
+        throw new AssetNotApprovedError(
+            `${owner} has not approved ${this.appAddress} for asset token ${assetToken}`,
+            undefined,
+            { assetToken, owner, operator: this.appAddress },
+        );
+    }
+
+    private async isSigner(address: string): Promise<boolean> {
+        return (await this.signerAddress()).toLowerCase() === address.toLowerCase();
+    }
+}
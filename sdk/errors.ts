@@ -0,0 +1,307 @@
+import { AbiCoder, Interface, isHexString } from "ethers";
+
+/**
+ * Base class of every error thrown by the SDK. `reason` holds the revert string or
+ * custom error name reported by the App diamond, or the pre-flight check that failed.
+ */
+export class RwaError extends Error {
+    constructor(readonly reason: string, readonly cause?: unknown) {
+        super(reason);
+        this.name = new.target.name;
+    }
+}
+
+export interface AllowanceDetails {
+    token: string;
+    owner: string;
+    spender: string;
+    required: bigint;
+    actual: bigint;
+}
+
+export interface BalanceDetails {
+    token: string;
+    owner: string;
+    required: bigint;
+    actual: bigint;
+}
+
+export interface ApprovalDetails {
+    assetToken: string;
+    owner: string;
+    operator: string;
+}
+
+export class AssetNotFoundError extends RwaError {}
+
+export class AssetExistsError extends RwaError {}
+
+export class InsufficientAllowanceError extends RwaError {
+    constructor(reason: string, cause?: unknown, readonly details?: AllowanceDetails) {
+        super(reason, cause);
+    }
+}
+
+export class InsufficientBalanceError extends RwaError {
+    constructor(reason: string, cause?: unknown, readonly details?: BalanceDetails) {
+        super(reason, cause);
+    }
+}
+
+export class AssetNotApprovedError extends RwaError {
+    constructor(reason: string, cause?: unknown, readonly details?: ApprovalDetails) {
+        super(reason, cause);
+    }
+}
+
+export class BlacklistedError extends RwaError {}
+
+export class InvalidSaleCurrencyError extends RwaError {}
+
+export class UnauthorizedError extends RwaError {}
+
+export class AssetPausedError extends RwaError {}
+
+export class ProfitDistributionTooSoonError extends RwaError {}
+
+export class NoProfitToClaimError extends RwaError {}
+
+export class GovernanceError extends RwaError {}
+
+export class PriceOracleError extends RwaError {}
+
+export class FeeConfigurationError extends RwaError {}
+
+export class IssuanceError extends RwaError {}
+
+export class TransferRestrictedError extends RwaError {}
+
+export class IdentityError extends RwaError {}
+
+export class RecoveryError extends RwaError {}
+
+export class StakingError extends RwaError {}
+
+/**
+ * Revert that is not mapped to a more specific error class, `reason` still holds
+ * the decoded revert string when there is one.
+ */
+export class RwaRevertError extends RwaError {}
+
+type RwaErrorClass = new (reason: string, cause?: unknown) => RwaError;
+
+// Revert strings of the App modules, grouped by the error class they map to
+const REVERT_REASONS: [RwaErrorClass, string[]][] = [
+    [AssetNotFoundError, ["Asset does not exist"]],
+    [AssetExistsError, ["Asset already exists", "Proposal with this ID already exists"]],
+    [InsufficientAllowanceError, [
+        "Insufficient saleCurrency allowance",
+        "FEXSE allowance too low",
+        "USDT allowance too low",
+        "Fexse allowance too low",
+    ]],
+    [InsufficientBalanceError, [
+        "Insufficient saleCurrency balance",
+        "Insufficient USDT balance",
+        "Insufficient FEXSE balance",
+        "Insufficient token balance in sender",
+        "sender does not have enough asset ",
+    ]],
+    [AssetNotApprovedError, ["asset is not approved"]],
+    [BlacklistedError, [
+        "seller is in blacklist",
+        "buyer is in blacklist",
+        "Token buyer is in blacklist",
+        "Fexse buyer is in blacklist",
+        "Address is blacklisted",
+        "Sender address is blacklisted",
+        "Recipient address is blacklisted",
+        "Payout address is blacklisted",
+        "Investor is in blacklist",
+    ]],
+    [InvalidSaleCurrencyError, [
+        "buyTokens: Invalid sale currency",
+        "buyFexse: Invalid sale currency",
+        "setGasFeeCap: Invalid sale currency",
+    ]],
+    [UnauthorizedError, ["Unauthorized", "Only the proposer or a guardian can cancel"]],
+    [ProfitDistributionTooSoonError, ["Profit distribution too soon"]],
+    [NoProfitToClaimError, ["No profit to claim for one of the assets"]],
+    [GovernanceError, [
+        "Not a governance token holder",
+        "Voting period ended",
+        "Voting period not ended",
+        "Already voted",
+        "Proposal already executed",
+        "Minimum quorum not reached",
+        "Proposal does not exist",
+        "Proposal with this ID already exists",
+        "Proposal is cancelled",
+        "Proposal already queued",
+        "Proposal is not queued",
+        "Proposal was defeated",
+        "Timelock not expired",
+        "Invalid quorum",
+        "Quorum must be greater than zero",
+        "Duration must be greater than zero",
+        "Asset proposals vote with the asset token",
+        "Votes already cast",
+    ]],
+    [PriceOracleError, [
+        "Invalid FEXSE price",
+        "Stale FEXSE price",
+        "FEXSE price deviates from reference",
+        "Pool is not a FEXSE pool",
+        "Tick out of range",
+        "OLD",
+    ]],
+    [FeeConfigurationError, ["Fee rate too high", "Invalid currency address"]],
+    [IssuanceError, [
+        "Round does not exist",
+        "Round is not active",
+        "Round is not ended",
+        "Round is not settled",
+        "Round already settled",
+        "Investor is not whitelisted",
+        "Hard cap exceeded",
+        "Below minimum investment",
+        "Above maximum investment",
+        "Nothing to claim",
+        "Invalid sale window",
+        "Sale window already closed",
+        "Hard cap must be greater than zero",
+        "Soft cap exceeds hard cap",
+        "Invalid investor limits",
+        "Issuer does not hold the hard cap",
+        "Tokens reserved for issuance",
+    ]],
+    [TransferRestrictedError, [
+        "Sender is not whitelisted",
+        "Recipient is not whitelisted",
+        "Recipient KYC has expired",
+        "Recipient country is blocked",
+        "Recipient is not accredited",
+        "Maximum holder count reached",
+    ]],
+    [IdentityError, [
+        "Array length mismatch",
+        "Invalid investor address",
+        "Invalid country code",
+        "Investor is not registered",
+        "Address is not whitelisted",
+    ]],
+    [RecoveryError, ["Invalid recipient address", "Recipient is the holder"]],
+    [StakingError, [
+        "Invalid staking tier",
+        "Invalid staking tiers",
+        "Tier multiplier below 1x",
+        "Tokens are still locked",
+        "Amount exceeds stake",
+        "No tokens staked",
+        "No rewards to claim",
+        "Position does not exist",
+        "Amount exceeds reward reserve",
+    ]],
+];
+
+// Custom errors raised by AccessControl, Pausable and the OpenZeppelin token base contracts
+const CUSTOM_ERRORS = new Interface([
+    "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+    "error EnforcedPause()",
+    "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+    "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+    "error ERC1155MissingApprovalForAll(address operator, address owner)",
+    "error ERC1155InsufficientBalance(address sender, uint256 balance, uint256 needed, uint256 tokenId)",
+]);
+
+const CUSTOM_ERROR_CLASSES: { [name: string]: RwaErrorClass } = {
+    AccessControlUnauthorizedAccount: UnauthorizedError,
+    EnforcedPause: AssetPausedError,
+    ERC20InsufficientAllowance: InsufficientAllowanceError,
+    ERC20InsufficientBalance: InsufficientBalanceError,
+    ERC1155MissingApprovalForAll: AssetNotApprovedError,
+    ERC1155InsufficientBalance: InsufficientBalanceError,
+};
+
+// Selector of the solidity `Error(string)` revert
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+
+/**
+ * Finds the raw revert data in an ethers / hardhat error. Providers nest the
+ * JSON-RPC error differently, so the usual locations are searched a few levels deep.
+ */
+function findRevertData(err: any, depth: number = 0): string | undefined {
+    if (!err || typeof err !== "object" || depth > 4) {
+        return undefined;
+    }
+
+    if (isHexString(err.data) && err.data.length >= 10) {
+        return err.data;
+    }
+
+    for (const nested of [err.error, err.info?.error, err.cause]) {
+        const data = findRevertData(nested, depth + 1);
+        if (data) {
+            return data;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Decodes a revert into its reason string, or into the name of the custom error.
+ *
+ * @param err - The error thrown by a contract call or transaction.
+ * @returns The revert reason, or `undefined` if the error is not a revert.
+ */
+export function decodeRevertReason(err: unknown): string | undefined {
+    const data = findRevertData(err);
+
+    if (data?.startsWith(ERROR_STRING_SELECTOR)) {
+        return AbiCoder.defaultAbiCoder().decode(["string"], "0x" + data.slice(10))[0];
+    }
+
+    if (data) {
+        const parsed = CUSTOM_ERRORS.parseError(data);
+        if (parsed) {
+            return parsed.name;
+        }
+    }
+
+    const reason = (err as any)?.reason;
+    if (typeof reason === "string") {
+        return reason;
+    }
+
+    // `require(condition)` without a message reverts with empty data
+    return (err as any)?.code === "CALL_EXCEPTION" ? "execution reverted" : undefined;
+}
+
+/**
+ * Maps an error thrown by the App diamond to the matching typed SDK error.
+ *
+ * @param err - The error thrown by a contract call or transaction.
+ * @returns A subclass of `RwaError` for reverts, the original error otherwise.
+ *
+ * This function decodes the revert reason, looks it up in the known revert strings
+ * and custom errors of the modules, and falls back to `RwaRevertError` for reverts
+ * that have no dedicated class. Errors that are not reverts (network, nonce ...)
+ * are returned unchanged.
+ */
+export function decodeRwaError(err: unknown): unknown {
+    if (err instanceof RwaError) {
+        return err;
+    }
+
+    const reason = decodeRevertReason(err);
+    if (reason === undefined) {
+        return err;
+    }
+
+    const errorClass = CUSTOM_ERROR_CLASSES[reason]
+        ?? REVERT_REASONS.find(([, reasons]) => reasons.includes(reason))?.[0]
+        ?? RwaRevertError;
+
+    return new errorClass(reason, err);
+}
@@ -0,0 +1,23 @@
+export { RwaClient } from "./RwaClient";
+export type { RwaClientOptions } from "./context";
+export type { AssetInfo, CreateAssetParams } from "./api/assets";
+export type { TransferAssetParams } from "./api/marketplace";
+export { ProposalState, VotingWeight } from "./api/dao";
+export type { CastVote, CreateAssetProposalParams, CreateProposalParams, ProposalActionResult, ProposalInfo, ProposalVoting } from "./api/dao";
+export { ProposalBuilder } from "./proposals";
+export type { ProposalAction } from "./proposals";
+export { TransferRestrictionCode, TransferRestrictionMode } from "./api/compliance";
+export type { TransferRestriction } from "./api/compliance";
+export { DEFAULT_REGISTER_BATCH_SIZE, InvestorClass, decodeCountry, encodeCountry } from "./api/identity";
+export type { AssetComplianceRules, InvestorIdentity, InvestorRecord } from "./api/identity";
+export { ForcedTransferReason } from "./api/recovery";
+export type { ForceTransferParams } from "./api/recovery";
+export { PriceSource } from "./api/prices";
+export type { FexseOracleConfig } from "./api/prices";
+export type { FeeRecord, FeeReport, FeeReportFilter } from "./api/fees";
+export { IssuanceState } from "./api/issuance";
+export type { IssuancePurchase, IssuanceRoundConfig, IssuanceRoundInfo } from "./api/issuance";
+export type { StakePositionInfo, StakingPoolInfo, StakingSolvency, StakingTier } from "./api/staking";
+export * from "./constants";
+export * from "./quote";
+export * from "./errors";
@@ -0,0 +1,112 @@
+import { ZeroAddress, getAddress } from "ethers";
+import type { BigNumberish, BytesLike, Interface } from "ethers";
+import {
+    App__factory,
+    Compliance__factory,
+    FeeModule__factory,
+    IdentityRegistry__factory,
+    IssuanceModule__factory,
+    MarketPlace__factory,
+    PriceFetcher__factory,
+    ProfitModule__factory,
+    RWATokenization__factory,
+    RWA_DAO__factory,
+} from "../typechain-types";
+import type { IModularInternal } from "../typechain-types/contracts/core/App";
+
+// Mirrors the ProposalAction struct of Constants.sol
+export interface ProposalAction {
+    target: string;
+    value: bigint;
+    data: string;
+}
+
+const APP = App__factory.createInterface();
+const RWA_TOKENIZATION = RWATokenization__factory.createInterface();
+const PROFIT_MODULE = ProfitModule__factory.createInterface();
+
+// Facets searched by `facetCall`, the App first so its own functions win
+const FACETS: Interface[] = [
+    APP,
+    RWA_TOKENIZATION,
+    PROFIT_MODULE,
+    MarketPlace__factory.createInterface(),
+    Compliance__factory.createInterface(),
+    IdentityRegistry__factory.createInterface(),
+    FeeModule__factory.createInterface(),
+    PriceFetcher__factory.createInterface(),
+    IssuanceModule__factory.createInterface(),
+    RWA_DAO__factory.createInterface(),
+];
+
+/**
+ * Collects the actions of a DAO proposal. Calldata is encoded with the typechain
+ * interfaces of the facets, so a misspelled method or a wrong argument count fails
+ * to compile instead of failing on execution.
+ *
+ * @example
+ * const actions = new ProposalBuilder(appAddress)
+ *     .updateAsset(assetId, 1200n)
+ *     .updateProfitPeriod(assetId, 30n * 86400n)
+ *     .build();
+ * await client.dao.createProposal({ ...params, actions });
+ */
+export class ProposalBuilder {
+    private readonly actions: ProposalAction[] = [];
+
+    constructor(readonly appAddress: string) {}
+
+    updateAsset(assetId: BigNumberish, newTokenPrice: BigNumberish): this {
+        return this.call(RWA_TOKENIZATION.encodeFunctionData("updateAsset", [assetId, newTokenPrice]));
+    }
+
+    updateProfitPeriod(assetId: BigNumberish, newProfitPeriod: BigNumberish): this {
+        return this.call(PROFIT_MODULE.encodeFunctionData("updateProfitPeriod", [assetId, newProfitPeriod]));
+    }
+
+    updateAssetLowerLimit(assetId: BigNumberish, newTokenLowerLimit: BigNumberish): this {
+        return this.call(PROFIT_MODULE.encodeFunctionData("updateAssetLowerLimit", [assetId, newTokenLowerLimit]));
+    }
+
+    pauseAsset(assetId: BigNumberish): this {
+        return this.call(PROFIT_MODULE.encodeFunctionData("pauseAsset", [assetId]));
+    }
+
+    unpauseAsset(assetId: BigNumberish): this {
+        return this.call(PROFIT_MODULE.encodeFunctionData("unPauseAsset", [assetId]));
+    }
+
+    /**
+     * Adds a `diamondCut` of the App, e.g. the cuts planned by `diamond:plan`. The App
+     * must hold DEFAULT_ADMIN_ROLE on itself for the action to succeed.
+     */
+    diamondCut(cuts: IModularInternal.FacetCutStruct[], target: string = ZeroAddress, data: BytesLike = "0x"): this {
+        return this.call(APP.encodeFunctionData("diamondCut", [cuts, target, data]));
+    }
+
+    /**
+     * Adds a call to any App function by name or signature, e.g. `setGasFeeCap` or
+     * `updateAsset(uint256,uint256)`, for actions without a typed helper. The ABI is
+     * taken from the first facet that declares the function.
+     */
+    facetCall(method: string, args: ReadonlyArray<unknown>, value: BigNumberish = 0n): this {
+        const iface = FACETS.find(facet => facet.getFunction(method) !== null);
+        if (!iface) {
+            throw new Error(`No facet declares ${method}`);
+        }
+        return this.call(iface.encodeFunctionData(method, args), value);
+    }
+
+    /**
+     * Adds an action with calldata encoded by the caller, sent to the App unless
+     * `target` says otherwise.
+     */
+    call(data: string, value: BigNumberish = 0n, target: string = this.appAddress): this {
+        this.actions.push({ target: getAddress(target), value: BigInt(value), data });
+        return this;
+    }
+
+    build(): ProposalAction[] {
+        return [...this.actions];
+    }
+}
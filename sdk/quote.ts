@@ -0,0 +1,153 @@
+import { FEXSE_PRICE_USDT, SERVICE_FEE_BPS, serviceFee } from "./constants";
+
+export type SaleCurrency = "USDT" | "FEXSE";
+
+// Gas fee threshold of MarketPlace.transferAsset, in percent of the service fee
+export const GAS_FEE_THRESHOLD_PERCENT = 30n;
+
+/**
+ * What one party of a settlement must hold and have approved to the App. Amounts are
+ * in the smallest unit of the token they refer to.
+ */
+export interface PartyRequirement {
+    balance: bigint;
+    allowance: bigint;
+}
+
+export interface TransferAssetQuote {
+    // tokenAmount * tokenPrice, the `amount` of the TransferExecuted event
+    amount: bigint;
+    serviceFee: bigint;
+    // Gas fee actually charged, zero when it stays below the threshold
+    gasFee: bigint;
+    // Paid by the buyer in total: amount - serviceFee to the seller, the rest to the App or treasury
+    buyerPays: bigint;
+    sellerReceives: bigint;
+    appReceives: bigint;
+    // Sale currency the buyer needs. transferAsset only checks amount + serviceFee up
+    // front, a charged gas fee is pulled later and reverts the whole call if missing.
+    buyer: PartyRequirement;
+    // Asset tokens the seller needs, plus setApprovalForAll to the App
+    seller: { assetTokens: bigint };
+}
+
+export interface BuyTokensQuote {
+    // tokenPrice * tokenAmount in USDT
+    cost: bigint;
+    // Zero for FEXSE, which is converted without a fee
+    serviceFee: bigint;
+    // Paid by the buyer, cost to the issuer and serviceFee to the treasury, in the sale currency
+    buyerPays: bigint;
+    buyer: PartyRequirement;
+    // Asset tokens the issuer (App deployer) needs
+    issuer: { assetTokens: bigint };
+}
+
+export interface BuyFexseQuote {
+    // USDT (6 decimals) paid by the buyer to the issuer
+    buyerPays: bigint;
+    buyer: PartyRequirement;
+    // FEXSE (18 decimals) the issuer needs, as balance and as allowance to the App
+    issuer: PartyRequirement;
+}
+
+/**
+ * Converts a USDT amount (6 decimals) to FEXSE (18 decimals) at `fexsePrice` (USDT per
+ * FEXSE, see `getFexsePrice`), rounding down like SalesModule.
+ */
+export const usdtToFexse = (usdtAmount: bigint, fexsePrice: bigint = FEXSE_PRICE_USDT): bigint =>
+    (usdtAmount * 10n ** 18n) / fexsePrice;
+
+/**
+ * Converts a FEXSE amount (18 decimals) to USDT (6 decimals) at `fexsePrice`, rounding
+ * down like SalesModule.
+ */
+export const fexseToUsdt = (fexseAmount: bigint, fexsePrice: bigint = FEXSE_PRICE_USDT): bigint =>
+    (fexseAmount * fexsePrice) / 10n ** 18n;
+
+/**
+ * Quotes a `MarketPlace.transferAsset` settlement.
+ *
+ * @param tokenAmount - Asset tokens moved from the seller to the buyer.
+ * @param tokenPrice - Price per token in the smallest unit of the sale currency.
+ * @param gasFee - Result of `calculateGasFee` for the settlement, zero by default. Pass
+ *   the gas fee cap of the sale currency to quote the most a settlement can cost.
+ * @param feeBps - `FeeModule.getFeeRate` of the asset and currency, 50 (0.5%) by default.
+ * @returns Every transfer of the settlement and what each party must hold and approve.
+ *
+ * This function reproduces the contract arithmetic with the same rounding: the service
+ * fee is rounded down, the seller receives `amount - serviceFee` and the App (or the
+ * treasury) `2 * serviceFee`, so the buyer pays `amount + serviceFee` in total. The gas
+ * fee is only added to the App's share when it reaches 30% of the service fee.
+ */
+export function quoteTransferAsset(
+    tokenAmount: bigint,
+    tokenPrice: bigint,
+    gasFee: bigint = 0n,
+    feeBps: bigint = SERVICE_FEE_BPS,
+): TransferAssetQuote {
+    const amount = tokenPrice * tokenAmount;
+    const fee = serviceFee(amount, feeBps);
+    const chargedGasFee = gasFee >= (fee * GAS_FEE_THRESHOLD_PERCENT) / 100n ? gasFee : 0n;
+    const sellerReceives = amount - fee;
+    const appReceives = fee * 2n + chargedGasFee;
+    const buyerPays = sellerReceives + appReceives;
+
+    return {
+        amount,
+        serviceFee: fee,
+        gasFee: chargedGasFee,
+        buyerPays,
+        sellerReceives,
+        appReceives,
+        buyer: { balance: buyerPays, allowance: buyerPays },
+        seller: { assetTokens: tokenAmount },
+    };
+}
+
+/**
+ * Quotes a `SalesModule.buyTokens` purchase.
+ *
+ * @param tokenPrice - Asset token price in USDT, as stored on the asset.
+ * @param tokenAmount - Asset tokens bought.
+ * @param currency - Currency the buyer pays with.
+ * @param fexsePrice - `getFexsePrice` of the App, the default fixed price when omitted.
+ * @param feeBps - `FeeModule.getFeeRate` of the asset and currency, 50 (0.5%) by default.
+ *
+ * This function adds the service fee, rounded down, for USDT. FEXSE is converted
+ * at the oracle price without a fee, note that the deployed SalesModule only accepts
+ * USDT and reverts with "buyTokens: Invalid sale currency" before that branch.
+ */
+export function quoteBuyTokens(
+    tokenPrice: bigint,
+    tokenAmount: bigint,
+    currency: SaleCurrency,
+    fexsePrice: bigint = FEXSE_PRICE_USDT,
+    feeBps: bigint = SERVICE_FEE_BPS,
+): BuyTokensQuote {
+    const cost = tokenPrice * tokenAmount;
+    const fee = currency === "USDT" ? serviceFee(cost, feeBps) : 0n;
+    const buyerPays = currency === "USDT" ? cost + fee : usdtToFexse(cost, fexsePrice);
+
+    return {
+        cost,
+        serviceFee: fee,
+        buyerPays,
+        buyer: { balance: buyerPays, allowance: buyerPays },
+        issuer: { assetTokens: tokenAmount },
+    };
+}
+
+/**
+ * Quotes a `SalesModule.buyFexse` purchase of `fexseAmount` FEXSE (18 decimals) paid in
+ * USDT at `fexsePrice`, without a service fee.
+ */
+export function quoteBuyFexse(fexseAmount: bigint, fexsePrice: bigint = FEXSE_PRICE_USDT): BuyFexseQuote {
+    const buyerPays = fexseToUsdt(fexseAmount, fexsePrice);
+
+    return {
+        buyerPays,
+        buyer: { balance: buyerPays, allowance: buyerPays },
+        issuer: { balance: fexseAmount, allowance: fexseAmount },
+    };
+}
@@ -0,0 +1,2 @@
+export * from "./inspector";
+export * from "./planner";
@@ -0,0 +1,159 @@
+import { Interface, ZeroAddress } from "ethers";
+import type { ContractRunner, InterfaceAbi } from "ethers";
+import { App__factory } from "../../typechain-types";
+
+// Every module exposes `moduleFacets()`, but no shared interface declares it
+const MODULE_FACETS = new Interface([
+    "function moduleFacets() view returns ((address target, uint8 action, bytes4[] selectors)[])",
+]);
+
+export interface FacetInfo {
+    target: string;
+    selectors: string[];
+}
+
+/**
+ * Selectors a module declares through `moduleFacets()`, the set `installModule` adds.
+ */
+export interface ModuleSelectors {
+    name: string;
+    // Facet the module is expected to be installed at, unset for modules not deployed yet
+    address?: string;
+    selectors: string[];
+}
+
+export interface SelectorCollision {
+    selector: string;
+    modules: string[];
+}
+
+export interface ModuleDiff {
+    name: string;
+    address: string;
+    // Declared by the module but not routed anywhere
+    missing: string[];
+    // Routed to the module's facet but no longer declared by it
+    unexpected: string[];
+    // Declared by the module but routed to another facet
+    misrouted: { selector: string; facet: string }[];
+}
+
+export interface TableDiff {
+    modules: ModuleDiff[];
+    // Facets of the diamond that belong to none of the compared modules
+    unknownFacets: FacetInfo[];
+}
+
+/**
+ * Maps selectors to `name(types)` signatures for readable reports.
+ */
+export class SignatureIndex {
+    private readonly signatures = new Map<string, string>();
+
+    constructor(abis: InterfaceAbi[] = []) {
+        for (const abi of abis) {
+            this.add(abi);
+        }
+    }
+
+    add(abi: InterfaceAbi): void {
+        new Interface(abi).forEachFunction(fragment => {
+            this.signatures.set(fragment.selector, fragment.format("sighash"));
+        });
+    }
+
+    /**
+     * Returns `selector name(types)`, or the bare selector when no known ABI has it.
+     */
+    describe(selector: string): string {
+        const signature = this.signatures.get(selector);
+        return signature ? `${selector} ${signature}` : selector;
+    }
+}
+
+/**
+ * Reads every facet of the diamond together with the selectors routed to it.
+ */
+export async function readFacets(runner: ContractRunner, appAddress: string): Promise<FacetInfo[]> {
+    const facets = await App__factory.connect(appAddress, runner).facets();
+    return facets.map(facet => ({ target: facet.target, selectors: [...facet.selectors] }));
+}
+
+/**
+ * Indexes the facets by selector.
+ */
+export function selectorTable(facets: FacetInfo[]): Map<string, string> {
+    const table = new Map<string, string>();
+    for (const facet of facets) {
+        for (const selector of facet.selectors) {
+            table.set(selector, facet.target);
+        }
+    }
+    return table;
+}
+
+/**
+ * Reads the selectors a deployed module contract declares, the first cut returned by
+ * its `moduleFacets()`.
+ */
+export async function declaredSelectors(runner: ContractRunner, moduleAddress: string): Promise<string[]> {
+    const data = await runner.provider!.call({ to: moduleAddress, data: MODULE_FACETS.encodeFunctionData("moduleFacets") });
+    const [cuts] = MODULE_FACETS.decodeFunctionResult("moduleFacets", data);
+    return [...cuts[0].selectors];
+}
+
+/**
+ * Lists the selectors declared by more than one module. Installing both modules would
+ * fail with `SelectorAlreadyAdded`, or route the selector to the wrong facet after a
+ * REPLACE.
+ */
+export function findCollisions(modules: ModuleSelectors[]): SelectorCollision[] {
+    const owners = new Map<string, string[]>();
+
+    for (const module of modules) {
+        for (const selector of module.selectors) {
+            owners.set(selector, [...(owners.get(selector) ?? []), module.name]);
+        }
+    }
+
+    return [...owners.entries()]
+        .filter(([, names]) => names.length > 1)
+        .map(([selector, names]) => ({ selector, modules: names }))
+        .sort((a, b) => a.selector.localeCompare(b.selector));
+}
+
+/**
+ * Compares the on-chain selector table with the selectors the modules declare.
+ *
+ * @param facets - Facets of the diamond, see {@link readFacets}.
+ * @param modules - Modules with the facet address they are installed at.
+ * @param appAddress - The diamond itself, whose immutable selectors are not reported
+ * as unknown.
+ * @returns Per module the missing, unexpected and misrouted selectors, and the facets
+ * that match no module.
+ */
+export function diffTable(facets: FacetInfo[], modules: ModuleSelectors[], appAddress: string): TableDiff {
+    const table = selectorTable(facets);
+    const known = new Set([appAddress.toLowerCase(), ...modules.filter(m => m.address).map(m => m.address!.toLowerCase())]);
+
+    const diffs = modules.filter(m => m.address).map(module => {
+        const address = module.address!;
+        const declared = new Set(module.selectors);
+        const routed = facets.find(f => f.target.toLowerCase() === address.toLowerCase())?.selectors ?? [];
+
+        return {
+            name: module.name,
+            address,
+            missing: module.selectors.filter(s => !table.has(s)),
+            unexpected: routed.filter(s => !declared.has(s)),
+            misrouted: module.selectors
+                .filter(s => table.has(s) && table.get(s)!.toLowerCase() !== address.toLowerCase())
+                .map(selector => ({ selector, facet: table.get(selector)! })),
+        };
+    });
+
+    return {
+        modules: diffs,
+        unknownFacets: facets.filter(f => !known.has(f.target.toLowerCase()) && f.target !== ZeroAddress),
+    };
+}
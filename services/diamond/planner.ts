@@ -0,0 +1,129 @@
+import { ZeroAddress } from "ethers";
+import type { ContractTransactionReceipt, Signer } from "ethers";
+import { App__factory } from "../../typechain-types";
+import { FacetInfo, readFacets, selectorTable } from "./inspector";
+
+// Same order as IModularInternal.FacetCutAction
+export enum FacetCutAction {
+    ADD = 0,
+    REPLACE = 1,
+    REMOVE = 2,
+}
+
+export interface FacetCut {
+    target: string;
+    action: FacetCutAction;
+    selectors: string[];
+}
+
+export interface PlanConflict {
+    selector: string;
+    owner: string;
+    // `immutable` selectors belong to the App itself and can never be cut
+    reason: "immutable" | "owned_by_other_facet";
+}
+
+export interface UpgradePlan {
+    cuts: FacetCut[];
+    conflicts: PlanConflict[];
+}
+
+export interface UpgradeReport {
+    before: FacetInfo[];
+    after: FacetInfo[];
+    added: string[];
+    replaced: string[];
+    removed: string[];
+}
+
+/**
+ * Plans the `diamondCut` that swaps the facet of a module for a new deployment.
+ *
+ * @param facets - Current facets of the diamond, see {@link readFacets}.
+ * @param appAddress - Address of the App diamond.
+ * @param currentFacet - Facet the module is installed at now, unset for a new module.
+ * @param newFacet - Address of the new module deployment.
+ * @param selectors - Selectors the new module declares.
+ * @returns The ADD, REPLACE and REMOVE cuts, and the selectors that cannot be cut.
+ *
+ * This function REPLACEs the selectors the current facet already routes, ADDs the
+ * new ones and REMOVEs the ones the new module dropped. A declared selector that is
+ * routed to any other facet is a conflict, the plan must not be executed while it
+ * has conflicts.
+ */
+export function planModuleUpgrade(
+    facets: FacetInfo[],
+    appAddress: string,
+    currentFacet: string | undefined,
+    newFacet: string,
+    selectors: string[],
+): UpgradePlan {
+    const table = selectorTable(facets);
+    const current = currentFacet?.toLowerCase();
+    const add: string[] = [];
+    const replace: string[] = [];
+    const conflicts: PlanConflict[] = [];
+
+    for (const selector of selectors) {
+        const owner = table.get(selector);
+
+        if (owner === undefined) {
+            add.push(selector);
+        } else if (owner.toLowerCase() === appAddress.toLowerCase()) {
+            conflicts.push({ selector, owner, reason: "immutable" });
+        } else if (owner.toLowerCase() === current) {
+            replace.push(selector);
+        } else {
+            conflicts.push({ selector, owner, reason: "owned_by_other_facet" });
+        }
+    }
+
+    const declared = new Set(selectors);
+    const remove = facets
+        .filter(f => current !== undefined && f.target.toLowerCase() === current)
+        .flatMap(f => f.selectors)
+        .filter(s => !declared.has(s));
+
+    const cuts: FacetCut[] = [
+        { target: newFacet, action: FacetCutAction.ADD, selectors: add },
+        { target: newFacet, action: FacetCutAction.REPLACE, selectors: replace },
+        { target: ZeroAddress, action: FacetCutAction.REMOVE, selectors: remove },
+    ].filter(cut => cut.selectors.length > 0);
+
+    return { cuts, conflicts };
+}
+
+/**
+ * Applies the cuts with `diamondCut` and reports the selector table before and after.
+ *
+ * @param admin - Holder of DEFAULT_ADMIN_ROLE on the App. Meant to be an impersonated
+ * account on a local fork, the cut is really executed.
+ * @param appAddress - Address of the App diamond.
+ * @param cuts - The cuts to apply, see {@link planModuleUpgrade}.
+ */
+export async function simulateUpgrade(
+    admin: Signer,
+    appAddress: string,
+    cuts: FacetCut[],
+): Promise<{ report: UpgradeReport; receipt: ContractTransactionReceipt }> {
+    const before = await readFacets(admin, appAddress);
+
+    const app = App__factory.connect(appAddress, admin);
+    const tx = await app.diamondCut(cuts, ZeroAddress, "0x");
+    const receipt = (await tx.wait())!;
+
+    const after = await readFacets(admin, appAddress);
+
+    const of = (action: FacetCutAction) => cuts.filter(c => c.action === action).flatMap(c => c.selectors);
+
+    return {
+        report: {
+            before,
+            after,
+            added: of(FacetCutAction.ADD),
+            replaced: of(FacetCutAction.REPLACE),
+            removed: of(FacetCutAction.REMOVE),
+        },
+        receipt,
+    };
+}
@@ -0,0 +1,87 @@
+import { mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { DistributionBatch, ExclusionReason } from "./calculator";
+
+interface SerializedBatch {
+    assetId: string;
+    blockNumber: number;
+    revenue: string;
+    tokenLowerLimit: string;
+    eligibleSupply: string;
+    dust: string;
+    entries: { holder: string; balance: string; profitAmount: string }[];
+    excluded: { holder: string; balance: string; reason: ExclusionReason }[];
+}
+
+export const DISTRIBUTIONS_DIR = join(__dirname, "..", "..", "distributions");
+
+/**
+ * Serializes a batch to JSON, bigints are written as decimal strings.
+ */
+export function batchToJson(batch: DistributionBatch): string {
+    const serialized: SerializedBatch = {
+        assetId: batch.assetId.toString(),
+        blockNumber: batch.blockNumber,
+        revenue: batch.revenue.toString(),
+        tokenLowerLimit: batch.tokenLowerLimit.toString(),
+        eligibleSupply: batch.eligibleSupply.toString(),
+        dust: batch.dust.toString(),
+        entries: batch.entries.map(e => ({
+            holder: e.holder,
+            balance: e.balance.toString(),
+            profitAmount: e.profitAmount.toString(),
+        })),
+        excluded: batch.excluded.map(e => ({ holder: e.holder, balance: e.balance.toString(), reason: e.reason })),
+    };
+    return JSON.stringify(serialized, null, 4) + "\n";
+}
+
+export function batchFromJson(json: string): DistributionBatch {
+    const s = JSON.parse(json) as SerializedBatch;
+    return {
+        assetId: BigInt(s.assetId),
+        blockNumber: s.blockNumber,
+        revenue: BigInt(s.revenue),
+        tokenLowerLimit: BigInt(s.tokenLowerLimit),
+        eligibleSupply: BigInt(s.eligibleSupply),
+        dust: BigInt(s.dust),
+        entries: s.entries.map(e => ({
+            holder: e.holder,
+            balance: BigInt(e.balance),
+            profitAmount: BigInt(e.profitAmount),
+        })),
+        excluded: s.excluded.map(e => ({ holder: e.holder, balance: BigInt(e.balance), reason: e.reason })),
+    };
+}
+
+/**
+ * Renders a batch as CSV for review, one row per holder of the snapshot. Excluded
+ * holders are listed with a zero amount and the exclusion reason as status.
+ */
+export function batchToCsv(batch: DistributionBatch): string {
+    const rows = [
+        "holder,balance,profitAmount,status",
+        ...batch.entries.map(e => `${e.holder},${e.balance},${e.profitAmount},included`),
+        ...batch.excluded.map(e => `${e.holder},${e.balance},0,${e.reason}`),
+    ];
+    return rows.join("\n") + "\n";
+}
+
+/**
+ * Writes the JSON and CSV files of a batch as `asset-<id>-block-<n>.{json,csv}`.
+ *
+ * @returns The paths of the written files. The JSON file is the input of the submitter.
+ */
+export function writeBatch(batch: DistributionBatch, dir: string = DISTRIBUTIONS_DIR): { jsonPath: string; csvPath: string } {
+    const base = join(dir, `asset-${batch.assetId}-block-${batch.blockNumber}`);
+
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(`${base}.json`, batchToJson(batch));
+    writeFileSync(`${base}.csv`, batchToCsv(batch));
+
+    return { jsonPath: `${base}.json`, csvPath: `${base}.csv` };
+}
+
+export function readBatch(path: string): DistributionBatch {
+    return batchFromJson(readFileSync(path, "utf8"));
+}
@@ -0,0 +1,109 @@
+import { AssetSnapshot } from "./snapshot";
+
+export type ExclusionReason = "below_lower_limit" | "blacklisted" | "excluded_address";
+
+export interface DistributionEntry {
+    holder: string;
+    balance: bigint;
+    profitAmount: bigint;
+}
+
+export interface ExcludedHolder {
+    holder: string;
+    balance: bigint;
+    reason: ExclusionReason;
+}
+
+export interface DistributionBatch {
+    assetId: bigint;
+    blockNumber: number;
+    revenue: bigint;
+    tokenLowerLimit: bigint;
+    eligibleSupply: bigint;
+    // Wei left over by the pro-rata floor division, handed out one by one (see calculateDistribution)
+    dust: bigint;
+    entries: DistributionEntry[];
+    excluded: ExcludedHolder[];
+}
+
+export interface DistributionOptions {
+    // Addresses that never receive profits, e.g. the issuer holding the unsold tokens
+    exclude?: string[];
+}
+
+const byAddress = (a: { holder: string }, b: { holder: string }) =>
+    a.holder.toLowerCase() < b.holder.toLowerCase() ? -1 : a.holder.toLowerCase() > b.holder.toLowerCase() ? 1 : 0;
+
+/**
+ * Splits `revenue` between the holders of a snapshot pro-rata to their balance.
+ *
+ * @param snapshot - Holder balances and blacklist flags at the snapshot block.
+ * @param revenue - Amount to distribute in FEXSE wei.
+ * @param options - Addresses to exclude on top of the on-chain rules.
+ * @returns The batch with one entry per eligible holder, sorted by address.
+ *
+ * Holders below `tokenLowerLimit`, blacklisted holders and the addresses in
+ * `options.exclude` get nothing and are listed in `excluded`. Every eligible holder
+ * gets `floor(revenue * balance / eligibleSupply)`. The few wei lost to the floor
+ * division (the dust, always less than the number of eligible holders) go one wei
+ * each to the holders with the largest remainders, ties broken by address, so the
+ * entries always add up to exactly `revenue` and the result does not depend on the
+ * order of the snapshot.
+ */
+export function calculateDistribution(
+    snapshot: AssetSnapshot,
+    revenue: bigint,
+    options: DistributionOptions = {},
+): DistributionBatch {
+    if (revenue <= 0n) {
+        throw new Error("Revenue must be greater than zero");
+    }
+
+    const exclude = new Set((options.exclude ?? []).map(a => a.toLowerCase()));
+    const eligible: { holder: string; balance: bigint }[] = [];
+    const excluded: ExcludedHolder[] = [];
+
+    for (const { holder, balance, blacklisted } of snapshot.holders) {
+        if (blacklisted) {
+            excluded.push({ holder, balance, reason: "blacklisted" });
+        } else if (exclude.has(holder.toLowerCase())) {
+            excluded.push({ holder, balance, reason: "excluded_address" });
+        } else if (balance < snapshot.tokenLowerLimit || balance === 0n) {
+            excluded.push({ holder, balance, reason: "below_lower_limit" });
+        } else {
+            eligible.push({ holder, balance });
+        }
+    }
+
+    const eligibleSupply = eligible.reduce((sum, h) => sum + h.balance, 0n);
+    if (eligibleSupply === 0n) {
+        throw new Error(`No eligible holders for asset ${snapshot.assetId} at block ${snapshot.blockNumber}`);
+    }
+
+    const shares = eligible.map(h => ({
+        ...h,
+        profitAmount: (revenue * h.balance) / eligibleSupply,
+        remainder: (revenue * h.balance) % eligibleSupply,
+    }));
+
+    const dust = revenue - shares.reduce((sum, s) => sum + s.profitAmount, 0n);
+
+    const byRemainder = [...shares].sort((a, b) =>
+        a.remainder === b.remainder ? byAddress(a, b) : (a.remainder > b.remainder ? -1 : 1));
+    for (let i = 0n; i < dust; i++) {
+        byRemainder[Number(i)].profitAmount += 1n;
+    }
+
+    return {
+        assetId: snapshot.assetId,
+        blockNumber: snapshot.blockNumber,
+        revenue,
+        tokenLowerLimit: snapshot.tokenLowerLimit,
+        eligibleSupply,
+        dust,
+        entries: shares
+            .map(({ holder, balance, profitAmount }) => ({ holder, balance, profitAmount }))
+            .sort(byAddress),
+        excluded: excluded.sort(byAddress),
+    };
+}
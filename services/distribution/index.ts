@@ -0,0 +1,5 @@
+export * from "./snapshot";
+export * from "./calculator";
+export * from "./batch";
+export * from "./submit";
+export * from "./journal";
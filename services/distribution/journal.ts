@@ -0,0 +1,70 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+import { DISTRIBUTIONS_DIR, batchToJson } from "./batch";
+import { DistributionBatch } from "./calculator";
+
+export type ChunkStatus = "pending" | "sent" | "confirmed";
+
+/**
+ * One `distributeProfit` call, covering `batch.entries[start:end]`. The nonce is
+ * written before the transaction is sent and the hash right after, so a crash at any
+ * point leaves enough information to find out whether the chunk landed.
+ */
+export interface ChunkRecord {
+    index: number;
+    start: number;
+    end: number;
+    status: ChunkStatus;
+    nonce?: number;
+    txHash?: string;
+    blockNumber?: number;
+}
+
+export interface DistributionJournal {
+    batchHash: string;
+    assetId: string;
+    submitter: string;
+    // Chain block when the journal was created, ProfitDistributed events are searched from here
+    startBlock: number;
+    pauseTxHash?: string;
+    unpauseTxHash?: string;
+    chunks: ChunkRecord[];
+}
+
+export const batchHash = (batch: DistributionBatch): string => keccak256(toUtf8Bytes(batchToJson(batch)));
+
+export function journalPath(batch: DistributionBatch, dir: string = DISTRIBUTIONS_DIR): string {
+    return join(dir, `asset-${batch.assetId}-block-${batch.blockNumber}.journal.json`);
+}
+
+/**
+ * Loads the journal of a batch, or returns `undefined` if the batch was never submitted.
+ * Throws if the journal was written for a different batch, which means the batch file
+ * was edited after the submission started.
+ */
+export function loadJournal(path: string, batch: DistributionBatch): DistributionJournal | undefined {
+    if (!existsSync(path)) {
+        return undefined;
+    }
+
+    const journal = JSON.parse(readFileSync(path, "utf8")) as DistributionJournal;
+
+    if (journal.batchHash !== batchHash(batch)) {
+        throw new Error(`Journal ${path} belongs to a different batch (hash ${journal.batchHash})`);
+    }
+
+    return journal;
+}
+
+/**
+ * Persists the journal through a temporary file and a rename, so a crash never leaves
+ * a truncated journal behind.
+ */
+export function saveJournal(path: string, journal: DistributionJournal): void {
+    const tmpPath = `${path}.tmp`;
+
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(tmpPath, JSON.stringify(journal, null, 4) + "\n");
+    renameSync(tmpPath, path);
+}
@@ -0,0 +1,60 @@
+import type { BlockTag, Provider } from "ethers";
+import { Compliance__factory, ProfitModule__factory, RWATokenization__factory } from "../../typechain-types";
+
+export interface HolderSnapshot {
+    holder: string;
+    balance: bigint;
+    blacklisted: boolean;
+}
+
+export interface AssetSnapshot {
+    assetId: bigint;
+    blockNumber: number;
+    tokenLowerLimit: bigint;
+    holders: HolderSnapshot[];
+}
+
+/**
+ * Reads the holder list of an asset, every holder's balance and blacklist flag and
+ * the asset's `tokenLowerLimit`, all at the same block.
+ *
+ * @param provider - Provider of the chain the App is deployed on, must serve
+ * historical state when `blockTag` is in the past.
+ * @param appAddress - Address of the App diamond.
+ * @param assetId - The asset to snapshot.
+ * @param blockTag - Block to read at, the latest block when omitted.
+ * @returns The snapshot, pinned to a concrete block number.
+ *
+ * This function resolves `blockTag` to a block number first, so every call of the
+ * snapshot reads the same state even if new blocks are mined while it runs.
+ */
+export async function takeHolderSnapshot(
+    provider: Provider,
+    appAddress: string,
+    assetId: bigint,
+    blockTag?: BlockTag,
+): Promise<AssetSnapshot> {
+    const block = await provider.getBlock(blockTag ?? "latest");
+    if (!block) {
+        throw new Error(`Block ${blockTag} not found`);
+    }
+
+    const overrides = { blockTag: block.number };
+    const rwaTokenization = RWATokenization__factory.connect(appAddress, provider);
+    const profitModule = ProfitModule__factory.connect(appAddress, provider);
+    const compliance = Compliance__factory.connect(appAddress, provider);
+
+    const tokenLowerLimit = await profitModule.getTokenLowerLimit(assetId, overrides);
+    const holderAddresses = await rwaTokenization.getTokenHolders(assetId, overrides);
+
+    const holders: HolderSnapshot[] = [];
+    for (const holder of holderAddresses) {
+        holders.push({
+            holder,
+            balance: await rwaTokenization.getHolderBalance(assetId, holder, overrides),
+            blacklisted: await compliance.isAddressBlacklisted(holder, overrides),
+        });
+    }
+
+    return { assetId, blockNumber: block.number, tokenLowerLimit, holders };
+}
@@ -0,0 +1,330 @@
+import type { Provider, TransactionReceipt } from "ethers";
+import { log } from "../../test/logger";
+import { ProfitDistributionTooSoonError, RwaClient, decodeRwaError } from "../../sdk";
+import { DistributionBatch } from "./calculator";
+import {
+    ChunkRecord,
+    DistributionJournal,
+    batchHash,
+    journalPath,
+    loadJournal,
+    saveJournal,
+} from "./journal";
+
+// Block gas limit share a single distributeProfit chunk may use by default
+export const DEFAULT_CHUNK_GAS_BUDGET = 10_000_000n;
+
+// Entries used to measure the gas cost per ProfitInfo when planning chunks
+const GAS_SAMPLE_SIZE = 10;
+
+export interface SubmitOptions {
+    // Where progress is recorded, defaults to the batch file name with `.journal.json`
+    journalPath?: string;
+    // Fixed number of entries per chunk, overrides `gasBudget`
+    chunkSize?: number;
+    // Gas a chunk may use, the chunk size is derived from an estimate of the first entries
+    gasBudget?: bigint;
+    // Stop after sending this many chunks, the next run continues where this one stopped
+    maxChunks?: number;
+    // Abort (and leave the asset paused) if holdings differ from the snapshot after pausing
+    requireUnchangedHoldings?: boolean;
+    confirmations?: number;
+}
+
+export interface SubmitResult {
+    journal: DistributionJournal;
+    chunksSent: number;
+    complete: boolean;
+}
+
+interface SubmitContext {
+    client: RwaClient;
+    provider: Provider;
+    batch: DistributionBatch;
+    journal: DistributionJournal;
+    path: string;
+    confirmations: number;
+}
+
+const profitsOf = (batch: DistributionBatch, chunk: ChunkRecord) =>
+    batch.entries.slice(chunk.start, chunk.end).map(e => ({ holder: e.holder, profitAmount: e.profitAmount }));
+
+/**
+ * Credits a distribution batch in gas-bounded `distributeProfit` chunks, between a
+ * `pauseAsset` and an `unPauseAsset`.
+ *
+ * @param client - Client whose signer holds ADMIN_ROLE on the App.
+ * @param batch - The reviewed batch, usually read back with `readBatch`.
+ * @param options - Journal location, chunk sizing and safety switches.
+ * @returns The journal and whether every chunk landed and the asset was unpaused.
+ *
+ * `distributeProfit` only adds to `pendingProfits`, so sending a chunk twice credits
+ * its holders twice. Every step is therefore recorded in a journal before and after
+ * its transaction is sent, and calling this function again with the same batch picks
+ * up where the previous run stopped:
+ * - chunks with a receipt carrying the `ProfitDistributed` event are done,
+ * - chunks whose transaction is unknown are looked up by the `ProfitDistributed`
+ *   events sent from the submitter with the recorded nonce,
+ * - chunks that provably never landed are sent again, reusing their nonce while it
+ *   is unused so at most one of the transactions can be mined.
+ *
+ * The "Profit distribution too soon" window (90% of `profitPeriod` after the last
+ * unpause) is checked before any gas estimate or transaction. `unPauseAsset`
+ * restarts that window, so on failure the asset is deliberately left paused: holdings
+ * stay frozen and a new snapshot of the paused asset can be submitted without
+ * waiting another period.
+ */
+export async function submitDistribution(
+    client: RwaClient,
+    batch: DistributionBatch,
+    options: SubmitOptions = {},
+): Promise<SubmitResult> {
+    const provider = client.signer.provider;
+    if (!provider) {
+        throw new Error("Submitter signer must be connected to a provider");
+    }
+
+    const path = options.journalPath ?? journalPath(batch);
+    const journal = loadJournal(path, batch);
+
+    if (journal?.unpauseTxHash) {
+        log('INFO', `Batch of asset ${batch.assetId} already submitted, nothing to do`);
+        return { journal, chunksSent: 0, complete: true };
+    }
+
+    // Before createJournal, whose gas estimates of distributeProfit revert in the window
+    await checkDistributionWindow(client, batch.assetId);
+
+    const ctx: SubmitContext = {
+        client,
+        provider,
+        batch,
+        path,
+        journal: journal ?? await createJournal(client, provider, batch, options),
+        confirmations: options.confirmations ?? 1,
+    };
+    saveJournal(path, ctx.journal);
+
+    await pause(ctx, options.requireUnchangedHoldings ?? true);
+
+    let chunksSent = 0;
+    for (const chunk of ctx.journal.chunks) {
+        if (chunk.status !== "confirmed") {
+            await resolveChunk(ctx, chunk);
+        }
+        if (chunk.status === "confirmed") {
+            continue;
+        }
+        if (options.maxChunks !== undefined && chunksSent >= options.maxChunks) {
+            log('INFO', `Stopping after ${chunksSent} chunks, run again to continue`);
+            return { journal: ctx.journal, chunksSent, complete: false };
+        }
+
+        await sendChunk(ctx, chunk);
+        chunksSent++;
+    }
+
+    const receipt = await client.profits.unpause(batch.assetId);
+    update(ctx, () => { ctx.journal.unpauseTxHash = receipt.hash; });
+    log('INFO', `Batch of asset ${batch.assetId} distributed in ${ctx.journal.chunks.length} chunks, asset unpaused (tx ${receipt.hash})`);
+
+    return { journal: ctx.journal, chunksSent, complete: true };
+}
+
+/**
+ * Throws `ProfitDistributionTooSoonError` if `distributeProfit` would revert with
+ * "Profit distribution too soon" at the current block.
+ */
+export async function checkDistributionWindow(client: RwaClient, assetId: bigint): Promise<void> {
+    const lastDistributed = await client.profits.lastDistributed(assetId);
+    const profitPeriod = await client.profits.profitPeriod(assetId);
+    const opensAt = lastDistributed + (profitPeriod * 86400n * 90n) / 100n;
+    const block = await client.signer.provider!.getBlock("latest");
+
+    if (BigInt(block!.timestamp) < opensAt) {
+        throw new ProfitDistributionTooSoonError(
+            `Profit distribution for asset ${assetId} opens at ${new Date(Number(opensAt) * 1000).toISOString()}`,
+        );
+    }
+}
+
+async function createJournal(
+    client: RwaClient,
+    provider: Provider,
+    batch: DistributionBatch,
+    options: SubmitOptions,
+): Promise<DistributionJournal> {
+    const chunkSize = options.chunkSize ?? await estimateChunkSize(client, batch, options.gasBudget ?? DEFAULT_CHUNK_GAS_BUDGET);
+    const chunks: ChunkRecord[] = [];
+
+    for (let start = 0; start < batch.entries.length; start += chunkSize) {
+        chunks.push({
+            index: chunks.length,
+            start,
+            end: Math.min(start + chunkSize, batch.entries.length),
+            status: "pending",
+        });
+    }
+
+    log('INFO', `Asset ${batch.assetId}: ${batch.entries.length} entries in ${chunks.length} chunks of up to ${chunkSize}`);
+
+    return {
+        batchHash: batchHash(batch),
+        assetId: batch.assetId.toString(),
+        submitter: await client.signer.getAddress(),
+        startBlock: await provider.getBlockNumber(),
+        chunks,
+    };
+}
+
+/**
+ * Derives how many ProfitInfo entries fit into `gasBudget` from a gas estimate of
+ * one entry and of the first few entries of the batch.
+ */
+export async function estimateChunkSize(client: RwaClient, batch: DistributionBatch, gasBudget: bigint): Promise<number> {
+    const facet = client.profits.facet;
+    const sample = batch.entries.slice(0, GAS_SAMPLE_SIZE).map(e => ({ holder: e.holder, profitAmount: e.profitAmount }));
+
+    if (sample.length < 2) {
+        return Math.max(batch.entries.length, 1);
+    }
+
+    const single = await facet.distributeProfit.estimateGas(batch.assetId, sample.slice(0, 1));
+    const many = await facet.distributeProfit.estimateGas(batch.assetId, sample);
+    const perEntry = (many - single) / BigInt(sample.length - 1);
+    const base = single - perEntry;
+
+    const size = Number((gasBudget - base) / perEntry);
+    if (size < 1) {
+        throw new Error(`Gas budget ${gasBudget} does not fit a single entry (${base} + ${perEntry})`);
+    }
+    return size;
+}
+
+function update(ctx: SubmitContext, change: () => void) {
+    change();
+    saveJournal(ctx.path, ctx.journal);
+}
+
+async function pause(ctx: SubmitContext, requireUnchangedHoldings: boolean) {
+    const { client, batch } = ctx;
+    const assetToken = await client.assets.tokenContract(batch.assetId);
+
+    if (!(await assetToken.paused())) {
+        const receipt = await client.profits.pause(batch.assetId);
+        update(ctx, () => { ctx.journal.pauseTxHash = receipt.hash; });
+        log('INFO', `Asset ${batch.assetId} paused (tx ${receipt.hash})`);
+    }
+
+    if (!requireUnchangedHoldings || ctx.journal.chunks.some(c => c.status === "confirmed")) {
+        return;
+    }
+
+    for (const entry of batch.entries) {
+        const balance = await client.assets.holderBalance(batch.assetId, entry.holder);
+        if (balance !== entry.balance) {
+            throw new Error(
+                `Holding of ${entry.holder} changed since block ${batch.blockNumber}: ${entry.balance} -> ${balance}. ` +
+                `Asset ${batch.assetId} is left paused, take a new snapshot and submit that batch instead.`);
+        }
+    }
+}
+
+/**
+ * Looks up whether a chunk that has a nonce recorded landed on chain, and marks it
+ * as confirmed or resets it to pending. A chunk whose transaction is still pending
+ * is waited for first.
+ */
+async function resolveChunk(ctx: SubmitContext, chunk: ChunkRecord) {
+    if (chunk.nonce === undefined) {
+        return;
+    }
+
+    if (chunk.txHash) {
+        const tx = await ctx.provider.getTransaction(chunk.txHash);
+        const receipt = tx ? await tx.wait(ctx.confirmations).catch(() => null) : null;
+        const landed = receipt ?? await ctx.provider.getTransactionReceipt(chunk.txHash);
+
+        if (landed && landed.status === 1 && distributedIn(ctx, landed)) {
+            confirm(ctx, chunk, landed.hash, landed.blockNumber);
+            return;
+        }
+    }
+
+    // The hash may be unknown (crash before it was recorded) or replaced, search the events
+    const found = await findDistributionByNonce(ctx, chunk.nonce);
+    if (found) {
+        confirm(ctx, chunk, found.hash, found.blockNumber);
+        return;
+    }
+
+    const accountNonce = await ctx.provider.getTransactionCount(ctx.journal.submitter, "latest");
+    update(ctx, () => {
+        // A consumed nonce without a ProfitDistributed event means the chunk never landed
+        if (accountNonce > chunk.nonce!) {
+            delete chunk.nonce;
+        }
+        delete chunk.txHash;
+        chunk.status = "pending";
+    });
+    log('WARN', `Chunk ${chunk.index} of asset ${ctx.batch.assetId} did not land, sending it again`);
+}
+
+function distributedIn(ctx: SubmitContext, receipt: TransactionReceipt): boolean {
+    const facet = ctx.client.profits.facet;
+
+    return receipt.logs.some(l => {
+        if (l.address.toLowerCase() !== ctx.client.appAddress.toLowerCase()) {
+            return false;
+        }
+        const parsed = facet.interface.parseLog(l);
+        return parsed?.name === "ProfitDistributed" && parsed.args.assetId === ctx.batch.assetId;
+    });
+}
+
+async function findDistributionByNonce(ctx: SubmitContext, nonce: number): Promise<{ hash: string; blockNumber: number } | undefined> {
+    const facet = ctx.client.profits.facet;
+    const events = await facet.queryFilter(facet.filters.ProfitDistributed(), ctx.journal.startBlock, "latest");
+
+    for (const event of events) {
+        if (event.args.assetId !== ctx.batch.assetId) {
+            continue;
+        }
+        const tx = await ctx.provider.getTransaction(event.transactionHash);
+        if (tx && tx.nonce === nonce && tx.from.toLowerCase() === ctx.journal.submitter.toLowerCase()) {
+            return { hash: event.transactionHash, blockNumber: event.blockNumber };
+        }
+    }
+
+    return undefined;
+}
+
+function confirm(ctx: SubmitContext, chunk: ChunkRecord, txHash: string, blockNumber: number) {
+    update(ctx, () => {
+        chunk.status = "confirmed";
+        chunk.txHash = txHash;
+        chunk.blockNumber = blockNumber;
+    });
+    log('INFO', `Chunk ${chunk.index} of asset ${ctx.batch.assetId} confirmed (tx ${txHash})`);
+}
+
+async function sendChunk(ctx: SubmitContext, chunk: ChunkRecord) {
+    const nonce = chunk.nonce ?? await ctx.provider.getTransactionCount(ctx.journal.submitter, "pending");
+    update(ctx, () => {
+        chunk.nonce = nonce;
+        chunk.status = "sent";
+    });
+
+    let receipt: TransactionReceipt | null;
+    try {
+        const tx = await ctx.client.profits.facet.distributeProfit(ctx.batch.assetId, profitsOf(ctx.batch, chunk), { nonce });
+        update(ctx, () => { chunk.txHash = tx.hash; });
+        receipt = await tx.wait(ctx.confirmations);
+    } catch (err) {
+        // A failed send may still have a transaction mined for this nonce ("nonce too low",
+        // "already known"), so the chunk stays sent and the next run resolves its nonce
+        throw decodeRwaError(err);
+    }
+
+    confirm(ctx, chunk, receipt!.hash, receipt!.blockNumber);
+}
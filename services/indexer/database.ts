@@ -0,0 +1,409 @@
+import Database from "better-sqlite3";
+
+/**
+ * Every table except `meta` is append-only and keyed by the position of the log it
+ * was written from, so replaying a block range is a no-op and a reorg is undone by
+ * deleting the rows above the common ancestor block.
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS blocks (
+    block_number INTEGER PRIMARY KEY,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS assets (
+    asset_id TEXT NOT NULL,
+    token_contract TEXT NOT NULL,
+    total_tokens TEXT NOT NULL,
+    token_price TEXT NOT NULL,
+    profit_period TEXT NOT NULL,
+    name TEXT NOT NULL,
+    symbol TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS holder_balances (
+    asset_id TEXT NOT NULL,
+    account TEXT NOT NULL,
+    balance TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS holder_balances_asset ON holder_balances (asset_id, account);
+
+CREATE TABLE IF NOT EXISTS trades (
+    kind TEXT NOT NULL,
+    order_id TEXT,
+    asset_id TEXT NOT NULL,
+    seller TEXT,
+    buyer TEXT NOT NULL,
+    token_amount TEXT NOT NULL,
+    token_price TEXT,
+    amount TEXT NOT NULL,
+    sale_currency TEXT,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS trades_asset ON trades (asset_id);
+
+CREATE TABLE IF NOT EXISTS distributions (
+    asset_id TEXT NOT NULL,
+    holder_count INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS claims (
+    account TEXT NOT NULL,
+    asset_ids TEXT NOT NULL,
+    total_amount TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+CREATE INDEX IF NOT EXISTS claims_account ON claims (account);
+
+CREATE TABLE IF NOT EXISTS compliance_events (
+    account TEXT NOT NULL,
+    action TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+
+CREATE TABLE IF NOT EXISTS installs (
+    facets TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+);
+`;
+
+const EVENT_TABLES = ["assets", "holder_balances", "trades", "distributions", "claims", "compliance_events", "installs"];
+
+export interface LogPosition {
+    blockNumber: number;
+    logIndex: number;
+    txHash: string;
+}
+
+export interface CapTableEntry {
+    account: string;
+    balance: bigint;
+    // Share of the indexed supply in basis points
+    shareBps: bigint;
+}
+
+export interface TradeRecord {
+    kind: "marketplace" | "primary";
+    orderId: bigint | null;
+    assetId: bigint;
+    seller: string | null;
+    buyer: string;
+    tokenAmount: bigint;
+    // Only known for primary sales, TokensSold carries the asset price at sale time
+    tokenPrice: bigint | null;
+    // Price paid for a marketplace settlement, `tokenPrice * tokenAmount` for a primary sale
+    amount: bigint;
+    saleCurrency: string | null;
+    blockNumber: number;
+    timestamp: number;
+    txHash: string;
+}
+
+export interface ClaimRecord {
+    account: string;
+    assetIds: bigint[];
+    totalAmount: bigint;
+    blockNumber: number;
+    timestamp: number;
+    txHash: string;
+}
+
+export interface AssetRecord {
+    assetId: bigint;
+    tokenContract: string;
+    totalTokens: bigint;
+    tokenPrice: bigint;
+    profitPeriod: bigint;
+    name: string;
+    symbol: string;
+    blockNumber: number;
+}
+
+// Rows as SQLite returns them, amounts and ids stored as decimal strings
+interface RowPosition {
+    block_number: number;
+    log_index: number;
+    tx_hash: string;
+}
+
+interface AssetRow extends RowPosition {
+    asset_id: string;
+    token_contract: string;
+    total_tokens: string;
+    token_price: string;
+    profit_period: string;
+    name: string;
+    symbol: string;
+}
+
+interface TradeRow extends RowPosition {
+    kind: TradeRecord["kind"];
+    order_id: string | null;
+    asset_id: string;
+    seller: string | null;
+    buyer: string;
+    token_amount: string;
+    token_price: string | null;
+    amount: string;
+    sale_currency: string | null;
+}
+
+interface ClaimRow extends RowPosition {
+    account: string;
+    // JSON array of decimal asset ids
+    asset_ids: string;
+    total_amount: string;
+}
+
+// Event rows joined with the timestamp of their block
+type Timestamped<T> = T & { timestamp: number };
+
+const position = (p: LogPosition) => ({ block_number: p.blockNumber, log_index: p.logIndex, tx_hash: p.txHash });
+
+/**
+ * SQLite store of the indexed App events together with the indexing cursor and the
+ * hashes of indexed blocks used to detect reorgs.
+ */
+export class IndexerDatabase {
+    private readonly db: Database.Database;
+
+    /**
+     * @param path - Database file, `:memory:` for a throwaway database.
+     */
+    constructor(path: string) {
+        this.db = new Database(path);
+        this.db.pragma("journal_mode = WAL");
+        this.db.exec(SCHEMA);
+    }
+
+    close(): void {
+        this.db.close();
+    }
+
+    /**
+     * Runs `fn` in a transaction, so a block range is either fully indexed or not at all.
+     */
+    transaction<T>(fn: () => T): T {
+        return this.db.transaction(fn)();
+    }
+
+    getCursor(): number | undefined {
+        const row = this.db.prepare("SELECT value FROM meta WHERE key = 'cursor'").get() as { value: string } | undefined;
+        return row ? Number(row.value) : undefined;
+    }
+
+    setCursor(blockNumber: number): void {
+        this.db.prepare("INSERT INTO meta (key, value) VALUES ('cursor', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+            .run(blockNumber.toString());
+    }
+
+    putBlock(blockNumber: number, blockHash: string, timestamp: number): void {
+        this.db.prepare("INSERT OR REPLACE INTO blocks (block_number, block_hash, timestamp) VALUES (?, ?, ?)")
+            .run(blockNumber, blockHash, timestamp);
+    }
+
+    getBlockHash(blockNumber: number): string | undefined {
+        const row = this.db.prepare("SELECT block_hash FROM blocks WHERE block_number = ?").get(blockNumber) as { block_hash: string } | undefined;
+        return row?.block_hash;
+    }
+
+    /**
+     * Stored block numbers below `blockNumber`, newest first. Used to walk back to the
+     * common ancestor after a reorg.
+     */
+    blocksBelow(blockNumber: number): number[] {
+        return (this.db.prepare("SELECT block_number FROM blocks WHERE block_number < ? ORDER BY block_number DESC")
+            .all(blockNumber) as { block_number: number }[]).map(r => r.block_number);
+    }
+
+    /**
+     * Deletes everything indexed above `blockNumber` and moves the cursor back to it.
+     */
+    rollback(blockNumber: number): void {
+        this.transaction(() => {
+            for (const table of [...EVENT_TABLES, "blocks"]) {
+                this.db.prepare(`DELETE FROM ${table} WHERE block_number > ?`).run(blockNumber);
+            }
+            this.setCursor(blockNumber);
+        });
+    }
+
+    insertAsset(asset: Omit<AssetRecord, "blockNumber">, at: LogPosition): void {
+        this.db.prepare(`INSERT OR IGNORE INTO assets
+            (asset_id, token_contract, total_tokens, token_price, profit_period, name, symbol, block_number, log_index, tx_hash)
+            VALUES (@asset_id, @token_contract, @total_tokens, @token_price, @profit_period, @name, @symbol, @block_number, @log_index, @tx_hash)`)
+            .run({
+                asset_id: asset.assetId.toString(),
+                token_contract: asset.tokenContract,
+                total_tokens: asset.totalTokens.toString(),
+                token_price: asset.tokenPrice.toString(),
+                profit_period: asset.profitPeriod.toString(),
+                name: asset.name,
+                symbol: asset.symbol,
+                ...position(at),
+            });
+    }
+
+    insertHolderBalance(assetId: bigint, account: string, balance: bigint, at: LogPosition): void {
+        this.db.prepare(`INSERT OR IGNORE INTO holder_balances (asset_id, account, balance, block_number, log_index, tx_hash)
+            VALUES (?, ?, ?, @block_number, @log_index, @tx_hash)`)
+            .run(assetId.toString(), account, balance.toString(), position(at));
+    }
+
+    insertTrade(trade: Omit<TradeRecord, "blockNumber" | "timestamp" | "txHash">, at: LogPosition): void {
+        this.db.prepare(`INSERT OR IGNORE INTO trades
+            (kind, order_id, asset_id, seller, buyer, token_amount, token_price, amount, sale_currency, block_number, log_index, tx_hash)
+            VALUES (@kind, @order_id, @asset_id, @seller, @buyer, @token_amount, @token_price, @amount, @sale_currency, @block_number, @log_index, @tx_hash)`)
+            .run({
+                kind: trade.kind,
+                order_id: trade.orderId?.toString() ?? null,
+                asset_id: trade.assetId.toString(),
+                seller: trade.seller,
+                buyer: trade.buyer,
+                token_amount: trade.tokenAmount.toString(),
+                token_price: trade.tokenPrice?.toString() ?? null,
+                amount: trade.amount.toString(),
+                sale_currency: trade.saleCurrency,
+                ...position(at),
+            });
+    }
+
+    insertDistribution(assetId: bigint, holderCount: bigint, at: LogPosition): void {
+        this.db.prepare(`INSERT OR IGNORE INTO distributions (asset_id, holder_count, block_number, log_index, tx_hash)
+            VALUES (?, ?, @block_number, @log_index, @tx_hash)`)
+            .run(assetId.toString(), Number(holderCount), position(at));
+    }
+
+    insertClaim(account: string, assetIds: bigint[], totalAmount: bigint, at: LogPosition): void {
+        this.db.prepare(`INSERT OR IGNORE INTO claims (account, asset_ids, total_amount, block_number, log_index, tx_hash)
+            VALUES (?, ?, ?, @block_number, @log_index, @tx_hash)`)
+            .run(account, JSON.stringify(assetIds.map(String)), totalAmount.toString(), position(at));
+    }
+
+    insertComplianceEvent(account: string, action: "whitelisted" | "blacklisted" | "unblacklisted", at: LogPosition): void {
+        this.db.prepare(`INSERT OR IGNORE INTO compliance_events (account, action, block_number, log_index, tx_hash)
+            VALUES (?, ?, @block_number, @log_index, @tx_hash)`)
+            .run(account, action, position(at));
+    }
+
+    insertInstall(facets: { target: string; action: number; selectors: string[] }[], at: LogPosition): void {
+        this.db.prepare(`INSERT OR IGNORE INTO installs (facets, block_number, log_index, tx_hash)
+            VALUES (?, @block_number, @log_index, @tx_hash)`)
+            .run(JSON.stringify(facets), position(at));
+    }
+
+    assets(): AssetRecord[] {
+        return (this.db.prepare("SELECT * FROM assets ORDER BY block_number, log_index").all() as AssetRow[]).map(r => ({
+            assetId: BigInt(r.asset_id),
+            tokenContract: r.token_contract,
+            totalTokens: BigInt(r.total_tokens),
+            tokenPrice: BigInt(r.token_price),
+            profitPeriod: BigInt(r.profit_period),
+            name: r.name,
+            symbol: r.symbol,
+            blockNumber: r.block_number,
+        }));
+    }
+
+    /**
+     * Current holders of an asset with their latest indexed balance, largest first.
+     */
+    capTable(assetId: bigint): CapTableEntry[] {
+        const rows = this.db.prepare(`
+            SELECT h.account, h.balance FROM holder_balances h
+            WHERE h.asset_id = @asset_id
+              AND (h.block_number, h.log_index) = (
+                  SELECT block_number, log_index FROM holder_balances
+                  WHERE asset_id = h.asset_id AND account = h.account
+                  ORDER BY block_number DESC, log_index DESC LIMIT 1)`)
+            .all({ asset_id: assetId.toString() }) as { account: string; balance: string }[];
+
+        const holders = rows.map(r => ({ account: r.account, balance: BigInt(r.balance) })).filter(r => r.balance > 0n);
+        const supply = holders.reduce((sum, h) => sum + h.balance, 0n);
+
+        return holders
+            .map(h => ({ ...h, shareBps: supply === 0n ? 0n : (h.balance * 10000n) / supply }))
+            .sort((a, b) => (a.balance === b.balance ? a.account.localeCompare(b.account) : (a.balance > b.balance ? -1 : 1)));
+    }
+
+    /**
+     * Marketplace settlements and primary sales of an asset, oldest first.
+     */
+    tradeHistory(assetId: bigint): TradeRecord[] {
+        return (this.db.prepare(`
+            SELECT t.*, b.timestamp FROM trades t JOIN blocks b ON b.block_number = t.block_number
+            WHERE t.asset_id = ? ORDER BY t.block_number, t.log_index`)
+            .all(assetId.toString()) as Timestamped<TradeRow>[]).map(r => ({
+                kind: r.kind,
+                orderId: r.order_id === null ? null : BigInt(r.order_id),
+                assetId: BigInt(r.asset_id),
+                seller: r.seller,
+                buyer: r.buyer,
+                tokenAmount: BigInt(r.token_amount),
+                tokenPrice: r.token_price === null ? null : BigInt(r.token_price),
+                amount: BigInt(r.amount),
+                saleCurrency: r.sale_currency,
+                blockNumber: r.block_number,
+                timestamp: r.timestamp,
+                txHash: r.tx_hash,
+            }));
+    }
+
+    /**
+     * Profit claims of a wallet, oldest first.
+     */
+    claimHistory(account: string): ClaimRecord[] {
+        return (this.db.prepare(`
+            SELECT c.*, b.timestamp FROM claims c JOIN blocks b ON b.block_number = c.block_number
+            WHERE lower(c.account) = lower(?) ORDER BY c.block_number, c.log_index`)
+            .all(account) as Timestamped<ClaimRow>[]).map(r => ({
+                account: r.account,
+                assetIds: (JSON.parse(r.asset_ids) as string[]).map(BigInt),
+                totalAmount: BigInt(r.total_amount),
+                blockNumber: r.block_number,
+                timestamp: r.timestamp,
+                txHash: r.tx_hash,
+            }));
+    }
+
+    /**
+     * Whether the latest indexed compliance event of `account` blacklisted it.
+     */
+    isBlacklisted(account: string): boolean {
+        const row = this.db.prepare(`
+            SELECT action FROM compliance_events WHERE lower(account) = lower(?) AND action != 'whitelisted'
+            ORDER BY block_number DESC, log_index DESC LIMIT 1`)
+            .get(account) as { action: string } | undefined;
+        return row?.action === "blacklisted";
+    }
+}
@@ -0,0 +1,279 @@
+import { Interface, JsonFragment, LogDescription, Provider } from "ethers";
+import {
+    App__factory,
+    Compliance__factory,
+    MarketPlace__factory,
+    ProfitModule__factory,
+    RWATokenization__factory,
+    SalesModule__factory,
+} from "../../typechain-types";
+import type { IModularInternal } from "../../typechain-types/contracts/core/App";
+import { IndexerDatabase, LogPosition } from "./database";
+
+export interface IndexerOptions {
+    // First block to index when the database is empty, usually the App deployment block
+    startBlock?: number;
+    // Blocks fetched per eth_getLogs call
+    batchSize?: number;
+    // Blocks behind the head that are left unindexed, 0 indexes up to the head
+    confirmations?: number;
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number;
+    logs: number;
+    // Block the index was rolled back to because of a reorg, if one was detected
+    reorgedTo?: number;
+}
+
+const INDEXED_EVENTS = [
+    "AssetCreated",
+    "AssetHolderBalanceUpdated",
+    "TransferExecuted",
+    "TokensSold",
+    "ProfitDistributed",
+    "Claimed",
+    "AddressWhitelisted",
+    "AddressBlacklisted",
+    "AddressRemovedFromBlacklist",
+    "Installer",
+];
+
+/**
+ * Every facet emits its events from the App address, so one interface holding the
+ * events of all modules decodes any log of the diamond.
+ */
+const APP_EVENTS = new Interface(
+    [App__factory, RWATokenization__factory, ProfitModule__factory, MarketPlace__factory, SalesModule__factory, Compliance__factory]
+        .flatMap(factory => (factory.abi as readonly JsonFragment[]).filter(f => f.type === "event" && INDEXED_EVENTS.includes(f.name!)))
+        // The same event can be declared by several modules
+        .filter((fragment, i, all) => all.findIndex(f => f.name === fragment.name) === i),
+);
+
+/**
+ * Indexes the events of an App diamond into an {@link IndexerDatabase}: backfills from
+ * a start block, then follows the chain and undoes blocks dropped by a reorg.
+ */
+export class EventIndexer {
+    private readonly batchSize: number;
+    private readonly confirmations: number;
+    private readonly startBlock: number;
+
+    constructor(
+        private readonly provider: Provider,
+        private readonly appAddress: string,
+        readonly db: IndexerDatabase,
+        options: IndexerOptions = {},
+    ) {
+        this.batchSize = options.batchSize ?? 2000;
+        this.confirmations = options.confirmations ?? 0;
+        this.startBlock = options.startBlock ?? 0;
+    }
+
+    /**
+     * Indexes every block between the cursor and the current head.
+     *
+     * @returns The indexed block range and the number of decoded logs.
+     *
+     * This function first checks that the last indexed block is still part of the
+     * chain and rolls the index back to the common ancestor when it is not. Each batch
+     * of blocks is written in one transaction together with the cursor, so an
+     * interrupted sync resumes from the last complete batch.
+     */
+    async sync(): Promise<SyncResult> {
+        const reorgedTo = await this.handleReorg();
+
+        const head = (await this.provider.getBlockNumber()) - this.confirmations;
+        const cursor = this.db.getCursor();
+        const fromBlock = cursor === undefined ? this.startBlock : cursor + 1;
+        let logs = 0;
+
+        for (let from = fromBlock; from <= head; from += this.batchSize) {
+            const to = Math.min(from + this.batchSize - 1, head);
+            logs += await this.indexRange(from, to);
+        }
+
+        return { fromBlock, toBlock: Math.max(head, fromBlock - 1), logs, reorgedTo };
+    }
+
+    /**
+     * Polls {@link sync} until the returned function is called.
+     *
+     * @param pollMs - Delay between two syncs.
+     * @param onSync - Called after every sync that indexed logs or rolled back a reorg.
+     * @param onError - Called when a sync fails, the next poll retries from the cursor.
+     * @returns A function stopping the loop, resolving once the running sync finished.
+     */
+    follow(pollMs: number, onSync?: (result: SyncResult) => void, onError?: (error: unknown) => void): () => Promise<void> {
+        let stopped = false;
+        let timer: NodeJS.Timeout | undefined;
+        let running: Promise<void> = Promise.resolve();
+
+        const tick = () => {
+            running = this.sync()
+                .then(result => {
+                    if (result.logs > 0 || result.reorgedTo !== undefined) {
+                        onSync?.(result);
+                    }
+                })
+                .catch(error => onError?.(error))
+                .finally(() => {
+                    if (!stopped) {
+                        timer = setTimeout(tick, pollMs);
+                    }
+                });
+        };
+        tick();
+
+        return async () => {
+            stopped = true;
+            clearTimeout(timer);
+            await running;
+        };
+    }
+
+    /**
+     * Rolls the index back to the newest stored block whose hash still matches the
+     * chain.
+     *
+     * @returns The block the index was rolled back to, `undefined` if the cursor block
+     * is still canonical.
+     */
+    private async handleReorg(): Promise<number | undefined> {
+        const cursor = this.db.getCursor();
+
+        if (cursor === undefined || await this.isCanonical(cursor)) {
+            return undefined;
+        }
+
+        let ancestor = this.startBlock - 1;
+        for (const blockNumber of this.db.blocksBelow(cursor)) {
+            if (await this.isCanonical(blockNumber)) {
+                ancestor = blockNumber;
+                break;
+            }
+        }
+
+        this.db.rollback(ancestor);
+        return ancestor;
+    }
+
+    /**
+     * Whether the stored hash of `blockNumber` matches the chain. Blocks without App
+     * logs are not stored, the cursor block always is.
+     */
+    private async isCanonical(blockNumber: number): Promise<boolean> {
+        const stored = this.db.getBlockHash(blockNumber);
+        if (stored === undefined) {
+            return true;
+        }
+        const block = await this.provider.getBlock(blockNumber);
+        return block?.hash === stored;
+    }
+
+    private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+        const logs = await this.provider.getLogs({ address: this.appAddress, fromBlock, toBlock });
+
+        const blocks = new Map<number, { hash: string; timestamp: number }>();
+        for (const blockNumber of new Set([...logs.map(l => l.blockNumber), toBlock])) {
+            const block = await this.provider.getBlock(blockNumber);
+            if (!block?.hash) {
+                throw new Error(`Block ${blockNumber} is not available`);
+            }
+            blocks.set(blockNumber, { hash: block.hash, timestamp: block.timestamp });
+        }
+
+        // A reorg between getLogs and getBlock, the next sync fetches the range again
+        const stale = logs.find(l => blocks.get(l.blockNumber)!.hash !== l.blockHash);
+        if (stale) {
+            throw new Error(`Block ${stale.blockNumber} changed while indexing`);
+        }
+
+        let decoded = 0;
+        this.db.transaction(() => {
+            for (const [blockNumber, block] of blocks) {
+                this.db.putBlock(blockNumber, block.hash, block.timestamp);
+            }
+            for (const log of logs) {
+                const event = APP_EVENTS.parseLog(log);
+                if (event) {
+                    this.store(event, { blockNumber: log.blockNumber, logIndex: log.index, txHash: log.transactionHash });
+                    decoded++;
+                }
+            }
+            this.db.setCursor(toBlock);
+        });
+
+        return decoded;
+    }
+
+    private store(event: LogDescription, at: LogPosition): void {
+        const a = event.args;
+
+        switch (event.name) {
+            case "AssetCreated":
+                this.db.insertAsset({
+                    assetId: a.assetId,
+                    tokenContract: a.tokenContract,
+                    totalTokens: a.totalTokens,
+                    tokenPrice: a.tokenPrice,
+                    profitPeriod: a.tokenProfitPeriod,
+                    name: a.name,
+                    symbol: a.symbol,
+                }, at);
+                break;
+            case "AssetHolderBalanceUpdated":
+                this.db.insertHolderBalance(a.assetId, a.account, a.balance, at);
+                break;
+            case "TransferExecuted":
+                this.db.insertTrade({
+                    kind: "marketplace",
+                    orderId: a.orderId,
+                    assetId: a.assetId,
+                    seller: a.seller,
+                    buyer: a.buyer,
+                    tokenAmount: a.tokenAmount,
+                    tokenPrice: null,
+                    amount: a.amount,
+                    saleCurrency: a.salecurrency,
+                }, at);
+                break;
+            case "TokensSold":
+                this.db.insertTrade({
+                    kind: "primary",
+                    orderId: null,
+                    assetId: a.assetId,
+                    seller: null,
+                    buyer: a.buyer,
+                    tokenAmount: a.totalTokens,
+                    tokenPrice: a.tokenPrice,
+                    amount: (a.totalTokens as bigint) * (a.tokenPrice as bigint),
+                    saleCurrency: null,
+                }, at);
+                break;
+            case "ProfitDistributed":
+                this.db.insertDistribution(a.assetId, a.ProfitInfoLength, at);
+                break;
+            case "Claimed":
+                this.db.insertClaim(a.user, [...a.assetIds], a.totalFexseAmount, at);
+                break;
+            case "AddressWhitelisted":
+                this.db.insertComplianceEvent(a.account, "whitelisted", at);
+                break;
+            case "AddressBlacklisted":
+                this.db.insertComplianceEvent(a.account, "blacklisted", at);
+                break;
+            case "AddressRemovedFromBlacklist":
+                this.db.insertComplianceEvent(a.account, "unblacklisted", at);
+                break;
+            case "Installer":
+                this.db.insertInstall(a.data.map((cut: IModularInternal.FacetCutStructOutput) => ({
+                    target: cut.target,
+                    action: Number(cut.action),
+                    selectors: [...cut.selectors],
+                })), at);
+                break;
+        }
+    }
+}
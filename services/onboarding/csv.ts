@@ -0,0 +1,146 @@
+import { getAddress } from "ethers";
+import { InvestorClass, InvestorRecord } from "../../sdk";
+
+// Columns of the KYC provider export, in any order, extra columns are ignored
+export const KYC_CSV_COLUMNS = ["address", "country", "class", "expiry"] as const;
+
+export interface KycCsvError {
+    // 1-based line of the file, the header is line 1
+    line: number;
+    message: string;
+}
+
+export interface KycCsvResult {
+    records: InvestorRecord[];
+    errors: KycCsvError[];
+}
+
+const INVESTOR_CLASSES: { [name: string]: InvestorClass } = {
+    none: InvestorClass.NONE,
+    retail: InvestorClass.RETAIL,
+    accredited: InvestorClass.ACCREDITED,
+    institutional: InvestorClass.INSTITUTIONAL,
+};
+
+/**
+ * Parses a KYC expiry, either unix seconds or an ISO 8601 date or datetime read as
+ * UTC unless it carries an offset. An empty value means the KYC does not expire.
+ */
+function parseExpiry(value: string): bigint {
+    if (value === "") {
+        return 0n;
+    }
+    if (/^\d+$/.test(value)) {
+        return BigInt(value);
+    }
+
+    // Date.parse reads a datetime without an offset as local time
+    const local = /^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2}(:\d{2}(\.\d+)?)?)$/.exec(value);
+    const time = Date.parse(local ? `${local[1]}T${local[2]}Z` : value);
+    if (isNaN(time)) {
+        throw new Error(`invalid expiry "${value}"`);
+    }
+    return BigInt(Math.floor(time / 1000));
+}
+
+/**
+ * Splits a CSV row into its cells. Cells in double quotes may contain commas, and a
+ * doubled quote inside them stands for one quote.
+ */
+function splitRow(row: string): string[] {
+    const cells: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    for (let i = 0; i < row.length; i++) {
+        const char = row[i];
+        if (quoted) {
+            if (char === '"' && row[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ",") {
+            cells.push(cell);
+            cell = "";
+        } else {
+            cell += char;
+        }
+    }
+
+    if (quoted) {
+        throw new Error("unterminated quoted cell");
+    }
+    cells.push(cell);
+    return cells;
+}
+
+/**
+ * Parses the investor export of the KYC provider: a header row naming the
+ * `address`, `country`, `class` and `expiry` columns, then one investor per row.
+ *
+ * @param text - Content of the CSV file.
+ * @returns The valid records, and one error per rejected row.
+ *
+ * This function validates every row instead of stopping at the first problem, so a
+ * file can be fixed in one pass. Country codes are upper-cased, classes are matched
+ * case-insensitively and an address listed twice rejects its second row. Quoted
+ * cells may contain commas but not line breaks.
+ */
+export function parseKycCsv(text: string): KycCsvResult {
+    const lines = text.split(/\r?\n/);
+    let header: string[];
+    try {
+        header = splitRow(lines[0]).map(name => name.trim().toLowerCase());
+    } catch (err) {
+        return { records: [], errors: [{ line: 1, message: (err as Error).message }] };
+    }
+
+    const missing = KYC_CSV_COLUMNS.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+        return { records: [], errors: [{ line: 1, message: `missing columns: ${missing.join(", ")}` }] };
+    }
+
+    const column = (cells: string[], name: typeof KYC_CSV_COLUMNS[number]) => (cells[header.indexOf(name)] ?? "").trim();
+    const records: InvestorRecord[] = [];
+    const errors: KycCsvError[] = [];
+    const seen = new Set<string>();
+
+    lines.slice(1).forEach((row, index) => {
+        const line = index + 2;
+        if (row.trim() === "") {
+            return;
+        }
+
+        try {
+            const cells = splitRow(row);
+            const account = getAddress(column(cells, "address").toLowerCase());
+            const country = column(cells, "country").toUpperCase();
+            const investorClass = INVESTOR_CLASSES[column(cells, "class").toLowerCase()];
+            const kycExpiry = parseExpiry(column(cells, "expiry"));
+
+            if (!/^[A-Z]{2}$/.test(country)) {
+                throw new Error(`invalid country "${country}"`);
+            }
+            if (investorClass === undefined) {
+                throw new Error(`unknown class "${column(cells, "class")}"`);
+            }
+            if (seen.has(account)) {
+                throw new Error(`duplicate address ${account}`);
+            }
+
+            seen.add(account);
+            records.push({ account, country, investorClass, kycExpiry });
+        } catch (err) {
+            const message = (err as Error).message.startsWith("invalid address") ? "invalid address" : (err as Error).message;
+            errors.push({ line, message });
+        }
+    });
+
+    return { records, errors };
+}
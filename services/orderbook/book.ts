@@ -0,0 +1,306 @@
+import type { TypedDataDomain } from "ethers";
+import { OrderSide, SignedOrder, orderHash, verifyOrder } from "./order";
+
+export type OrderStatus =
+    // Part of `amount` is neither filled nor matched yet
+    | "open"
+    // `amount` was settled on chain
+    | "filled"
+    | "cancelled"
+    | "expired"
+    // Failed a pre-settlement check, see `reason`
+    | "rejected";
+
+export interface BookOrder {
+    hash: string;
+    signed: SignedOrder;
+    // Arrival order, the time priority among orders of the same price
+    sequence: number;
+    // Settled on chain, confirmed by a TransferExecuted event
+    filled: bigint;
+    // Matched and waiting for its TransferExecuted event
+    reserved: bigint;
+    status: OrderStatus;
+    reason?: string;
+}
+
+/**
+ * A crossing of an ask and a bid, settled by one `MarketPlace.transferAsset` call
+ * with `orderId`.
+ */
+export interface Match {
+    orderId: bigint;
+    assetId: bigint;
+    saleCurrency: string;
+    ask: string;
+    bid: string;
+    seller: string;
+    buyer: string;
+    tokenAmount: bigint;
+    tokenPrice: bigint;
+    // Hash of the transferAsset transaction, set once it was sent
+    txHash?: string;
+}
+
+/**
+ * What a book must keep across restarts. The contract checks neither order signatures
+ * nor nonces, so only these records stop a settled order from being settled again.
+ */
+export interface OrderBookState {
+    nextOrderId: bigint;
+    // Amount settled on chain per order hash, also for orders no longer in the book
+    fills: Map<string, bigint>;
+    // Matches waiting for their TransferExecuted event
+    pending: Match[];
+}
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Available for matching: not filled, not matched and not closed.
+ */
+export const remaining = (order: BookOrder): bigint =>
+    order.status === "open" ? order.signed.order.amount - order.filled - order.reserved : 0n;
+
+/**
+ * In-memory limit order book of the secondary market, one book per asset and sale
+ * currency. Orders only leave `open` through `fill`, `cancel`, `reject` or expiry, a
+ * match reserves the traded amount on both orders until its settlement is either
+ * confirmed (`fill`) or given up (`release`). The settled amounts and pending matches
+ * are kept per order hash, see `state` and `restore`.
+ */
+export class OrderBook {
+    private readonly orders = new Map<string, BookOrder>();
+    private readonly pending = new Map<bigint, Match>();
+    private readonly fills = new Map<string, bigint>();
+    private sequence = 0;
+
+    /**
+     * @param domain - EIP-712 domain the orders must be signed for.
+     * @param nextOrderId - First `orderId` handed to a match.
+     */
+    constructor(readonly domain: TypedDataDomain, public nextOrderId: bigint = 1n) {}
+
+    /**
+     * Creates a book that continues from `state`. Orders submitted again start with
+     * their recorded fill and the amounts of their pending matches reserved.
+     */
+    static restore(domain: TypedDataDomain, state: OrderBookState): OrderBook {
+        const book = new OrderBook(domain, state.nextOrderId);
+        for (const [hash, amount] of state.fills) {
+            book.fills.set(hash, amount);
+        }
+        for (const match of state.pending) {
+            book.pending.set(match.orderId, match);
+        }
+        return book;
+    }
+
+    state(): OrderBookState {
+        return { nextOrderId: this.nextOrderId, fills: new Map(this.fills), pending: this.pendingMatches() };
+    }
+
+    /**
+     * Verifies a signed order and adds it to the book of its asset.
+     *
+     * @param signed - The order and the EIP-712 signature of its maker.
+     * @param now - Current chain time in unix seconds, used for the expiry check.
+     *
+     * This function refuses an order whose recorded fills already cover its amount, so
+     * a settled order cannot be traded again after a restart.
+     */
+    add(signed: SignedOrder, now: bigint): BookOrder {
+        const { order } = signed;
+        verifyOrder(this.domain, signed);
+
+        if (order.side !== OrderSide.ASK && order.side !== OrderSide.BID) {
+            throw new Error(`Unknown order side ${order.side}`);
+        }
+        if (order.amount <= 0n || order.price <= 0n) {
+            throw new Error("Order amount and price must be positive");
+        }
+        if (order.expiry <= now) {
+            throw new Error(`Order expired at ${order.expiry}`);
+        }
+
+        const hash = orderHash(this.domain, order);
+        if (this.orders.has(hash)) {
+            throw new Error(`Order ${hash} is already in the book`);
+        }
+        const filled = this.fills.get(hash) ?? 0n;
+        if (filled >= order.amount) {
+            throw new Error(`Order ${hash} is already filled`);
+        }
+
+        const reserved = this.pendingMatches()
+            .filter(m => m.ask === hash || m.bid === hash)
+            .reduce((sum, m) => sum + m.tokenAmount, 0n);
+        const entry: BookOrder = { hash, signed, sequence: this.sequence++, filled, reserved, status: "open" };
+        this.orders.set(hash, entry);
+        return entry;
+    }
+
+    get(hash: string): BookOrder | undefined {
+        return this.orders.get(hash);
+    }
+
+    /**
+     * Open orders of one side of an asset, best price first and oldest first among
+     * equal prices.
+     */
+    openOrders(assetId: bigint, side: OrderSide, saleCurrency?: string): BookOrder[] {
+        return [...this.orders.values()]
+            .filter(o => remaining(o) > 0n
+                && o.signed.order.assetId === assetId
+                && o.signed.order.side === side
+                && (saleCurrency === undefined || sameAddress(o.signed.order.saleCurrency, saleCurrency)))
+            .sort((a, b) => {
+                const [pa, pb] = [a.signed.order.price, b.signed.order.price];
+                if (pa !== pb) {
+                    return (side === OrderSide.ASK ? pa < pb : pa > pb) ? -1 : 1;
+                }
+                return a.sequence - b.sequence;
+            });
+    }
+
+    pendingMatches(): Match[] {
+        return [...this.pending.values()];
+    }
+
+    pendingMatch(orderId: bigint): Match | undefined {
+        return this.pending.get(orderId);
+    }
+
+    /**
+     * Matches the crossing orders of an asset in price-time priority.
+     *
+     * @param assetId - Asset whose books are matched, every sale currency separately.
+     * @param now - Current chain time in unix seconds, expired orders are closed first.
+     * @returns The new matches, each with a freshly allocated `orderId`.
+     *
+     * This function pairs the best ask with the best bid as long as the bid price is at
+     * least the ask price, trading the smaller remaining amount at the price of the
+     * older order. When both orders come from the same maker the newer one is
+     * cancelled instead of trading with itself.
+     */
+    match(assetId: bigint, now: bigint): Match[] {
+        for (const order of this.orders.values()) {
+            if (order.status === "open" && order.signed.order.assetId === assetId && order.signed.order.expiry <= now) {
+                this.close(order, "expired");
+            }
+        }
+
+        const currencies = new Set(this.openOrders(assetId, OrderSide.ASK).map(o => o.signed.order.saleCurrency.toLowerCase()));
+        const matches: Match[] = [];
+
+        for (const currency of currencies) {
+            for (;;) {
+                const [ask] = this.openOrders(assetId, OrderSide.ASK, currency);
+                const [bid] = this.openOrders(assetId, OrderSide.BID, currency);
+
+                if (!ask || !bid || bid.signed.order.price < ask.signed.order.price) {
+                    break;
+                }
+                if (sameAddress(ask.signed.order.maker, bid.signed.order.maker)) {
+                    this.close(ask.sequence > bid.sequence ? ask : bid, "cancelled", "self-trade");
+                    continue;
+                }
+
+                const tokenAmount = remaining(ask) < remaining(bid) ? remaining(ask) : remaining(bid);
+                const resting = ask.sequence < bid.sequence ? ask : bid;
+                const match: Match = {
+                    orderId: this.nextOrderId++,
+                    assetId,
+                    saleCurrency: ask.signed.order.saleCurrency,
+                    ask: ask.hash,
+                    bid: bid.hash,
+                    seller: ask.signed.order.maker,
+                    buyer: bid.signed.order.maker,
+                    tokenAmount,
+                    tokenPrice: resting.signed.order.price,
+                };
+
+                ask.reserved += tokenAmount;
+                bid.reserved += tokenAmount;
+                this.pending.set(match.orderId, match);
+                matches.push(match);
+            }
+        }
+
+        return matches;
+    }
+
+    /**
+     * Books the settlement of a match, called for its TransferExecuted event. Returns
+     * `undefined` for order ids this book did not allocate or already filled. An order
+     * closed while the match was pending keeps its status.
+     */
+    fill(orderId: bigint): Match | undefined {
+        const match = this.pending.get(orderId);
+        if (!match) {
+            return undefined;
+        }
+
+        this.pending.delete(orderId);
+        for (const hash of [match.ask, match.bid]) {
+            this.fills.set(hash, (this.fills.get(hash) ?? 0n) + match.tokenAmount);
+        }
+        for (const order of this.ordersOf(match)) {
+            order.reserved -= match.tokenAmount;
+            order.filled += match.tokenAmount;
+            if (order.status === "open" && order.filled === order.signed.order.amount) {
+                order.status = "filled";
+            }
+        }
+        return match;
+    }
+
+    /**
+     * Gives up a match that was not settled, its amount becomes available again on
+     * both orders that are still open.
+     */
+    release(orderId: bigint): Match | undefined {
+        const match = this.pending.get(orderId);
+        if (!match) {
+            return undefined;
+        }
+
+        this.pending.delete(orderId);
+        for (const order of this.ordersOf(match)) {
+            order.reserved -= match.tokenAmount;
+        }
+        return match;
+    }
+
+    /**
+     * Closes an order, settlements already matched against it are not affected.
+     */
+    cancel(hash: string, reason?: string): BookOrder {
+        return this.close(this.require(hash), "cancelled", reason);
+    }
+
+    reject(hash: string, reason: string): BookOrder {
+        return this.close(this.require(hash), "rejected", reason);
+    }
+
+    private close(order: BookOrder, status: OrderStatus, reason?: string): BookOrder {
+        if (order.status === "open") {
+            order.status = status;
+            order.reason = reason;
+        }
+        return order;
+    }
+
+    private require(hash: string): BookOrder {
+        const order = this.orders.get(hash);
+        if (!order) {
+            throw new Error(`Order ${hash} is not in the book`);
+        }
+        return order;
+    }
+
+    // A match restored from a saved state may refer to orders not submitted again
+    private ordersOf(match: Match): BookOrder[] {
+        return [match.ask, match.bid].map(hash => this.orders.get(hash)).filter((order): order is BookOrder => order !== undefined);
+    }
+}
@@ -0,0 +1,4 @@
+export * from "./order";
+export * from "./book";
+export * from "./settlement";
+export * from "./state";
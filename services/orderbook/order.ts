@@ -0,0 +1,69 @@
+import { TypedDataDomain, TypedDataEncoder, verifyTypedData } from "ethers";
+import type { Signer } from "ethers";
+
+export enum OrderSide {
+    ASK,
+    BID,
+}
+
+/**
+ * A limit order as signed by its maker. An ask sells up to `amount` asset tokens at
+ * `price` or more per token, a bid buys up to `amount` at `price` or less. Prices are
+ * in the smallest unit of `saleCurrency` (USDT or FEXSE), the service fee comes
+ * on top for the buyer. Orders are valid until `expiry` (unix seconds), `nonce` lets a
+ * maker sign the same order twice.
+ */
+export interface LimitOrder {
+    maker: string;
+    side: OrderSide;
+    assetId: bigint;
+    amount: bigint;
+    price: bigint;
+    saleCurrency: string;
+    nonce: bigint;
+    expiry: bigint;
+}
+
+export interface SignedOrder {
+    order: LimitOrder;
+    signature: string;
+}
+
+export const ORDER_TYPES = {
+    LimitOrder: [
+        { name: "maker", type: "address" },
+        { name: "side", type: "uint8" },
+        { name: "assetId", type: "uint256" },
+        { name: "amount", type: "uint256" },
+        { name: "price", type: "uint256" },
+        { name: "saleCurrency", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "expiry", type: "uint64" },
+    ],
+};
+
+/**
+ * EIP-712 domain of the orders of one App deployment. Nothing verifies the orders on
+ * chain, the App address only binds a signature to the diamond it was made for.
+ */
+export function orderDomain(chainId: bigint | number, appAddress: string): TypedDataDomain {
+    return { name: "RWA Marketplace", version: "1", chainId, verifyingContract: appAddress };
+}
+
+export const orderHash = (domain: TypedDataDomain, order: LimitOrder): string =>
+    TypedDataEncoder.hash(domain, ORDER_TYPES, order);
+
+export async function signOrder(signer: Signer, domain: TypedDataDomain, order: LimitOrder): Promise<SignedOrder> {
+    return { order, signature: await signer.signTypedData(domain, ORDER_TYPES, order) };
+}
+
+/**
+ * Throws if the signature of `signed` was not made by its maker for `domain`.
+ */
+export function verifyOrder(domain: TypedDataDomain, signed: SignedOrder): void {
+    const signer = verifyTypedData(domain, ORDER_TYPES, signed.order, signed.signature);
+
+    if (signer.toLowerCase() !== signed.order.maker.toLowerCase()) {
+        throw new Error(`Order signed by ${signer}, not by its maker ${signed.order.maker}`);
+    }
+}
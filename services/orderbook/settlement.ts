@@ -0,0 +1,316 @@
+import { IERC20__factory, MarketPlace, MarketPlace__factory } from "../../typechain-types";
+import { log } from "../../test/logger";
+import { RwaClient, TransferRestrictionCode, quoteTransferAsset } from "../../sdk";
+import { BookOrder, Match, OrderBook } from "./book";
+import { SignedOrder, orderDomain } from "./order";
+import { loadBookState, saveBookState } from "./state";
+
+export interface OrderBookServiceOptions {
+    // File the fills and pending matches are kept in, so a restarted service does not
+    // settle an order again
+    statePath: string;
+    // First block searched for TransferExecuted events, both for fills and for the
+    // order ids already used on chain. Ignored once a state was saved.
+    fromBlock?: number;
+}
+
+/**
+ * A pre-settlement check that failed, `order` is the hash of the order at fault.
+ */
+export interface SettlementProblem {
+    order: string;
+    reason: string;
+}
+
+export type SettlementStatus =
+    // transferAsset was mined, the match is filled once its TransferExecuted is synced
+    | "submitted"
+    // transferAsset was sent but its receipt could not be read, the match stays pending
+    // with its tx hash until a sync finds the receipt
+    | "unconfirmed"
+    // A pre-settlement check failed, the orders at fault are rejected
+    | "rejected"
+    // transferAsset reverted or could not be sent, the match was released
+    | "failed";
+
+// What the receipt of a sent transferAsset says about its match
+type SettlementOutcome = "executed" | "reverted" | "unknown";
+
+export interface SettlementResult {
+    match: Match;
+    status: SettlementStatus;
+    txHash?: string;
+    problems?: SettlementProblem[];
+    error?: string;
+}
+
+/**
+ * Runs the order book of one App: accepts signed orders, matches them, settles the
+ * matches through `MarketPlace.transferAsset` and marks them filled when their
+ * TransferExecuted event is synced. The client signer must hold ADMIN_ROLE.
+ */
+export class OrderBookService {
+    private constructor(
+        readonly client: RwaClient,
+        readonly book: OrderBook,
+        private readonly statePath: string,
+        private cursor: number,
+    ) {}
+
+    /**
+     * Creates the service for the App of `client`, with the book saved at
+     * `options.statePath` or an empty one.
+     *
+     * @param client - Client whose signer holds ADMIN_ROLE on the App.
+     * @param options - State file and first block of the TransferExecuted history.
+     *
+     * This function syncs the TransferExecuted history first, so the book hands out
+     * order ids above every id already settled on chain and fills the matches that
+     * were pending when the state was saved.
+     */
+    static async create(client: RwaClient, options: OrderBookServiceOptions): Promise<OrderBookService> {
+        const provider = client.signer.provider;
+        if (!provider) {
+            throw new Error("Order book signer must be connected to a provider");
+        }
+
+        const { chainId } = await provider.getNetwork();
+        const domain = orderDomain(chainId, client.appAddress);
+        const saved = loadBookState(options.statePath, client.appAddress);
+        const service = saved
+            ? new OrderBookService(client, OrderBook.restore(domain, saved.state), options.statePath, saved.cursor)
+            : new OrderBookService(client, new OrderBook(domain), options.statePath, (options.fromBlock ?? 0) - 1);
+        await service.sync();
+        return service;
+    }
+
+    async submit(signed: SignedOrder): Promise<BookOrder> {
+        const order = this.book.add(signed, await this.now());
+        log('INFO', `Order ${order.hash} of ${signed.order.maker} added to asset ${signed.order.assetId}`);
+        return order;
+    }
+
+    /**
+     * Matches the book of an asset and settles every new match.
+     *
+     * @param assetId - Asset whose book is matched.
+     * @returns One result per match, in the order they were settled.
+     *
+     * This function syncs the TransferExecuted events after settling, so the orders of
+     * submitted matches are already marked filled when it returns.
+     */
+    async matchAndSettle(assetId: bigint): Promise<SettlementResult[]> {
+        const results: SettlementResult[] = [];
+
+        const matches = this.book.match(assetId, await this.now());
+        this.save();
+
+        for (const match of matches) {
+            results.push(await this.settle(match));
+        }
+
+        await this.sync();
+        return results;
+    }
+
+    /**
+     * Checks that `transferAsset` would not revert for a match: neither party is
+     * blacklisted or restricted by the compliance rules of the asset, both orders are
+     * unexpired, the seller approved the App for the asset token and holds the tokens,
+     * and the buyer holds and approved the price plus the service fee of the asset and
+     * the gas fee cap.
+     */
+    async check(match: Match): Promise<SettlementProblem[]> {
+        const { assets, compliance, signer } = this.client;
+        const problems: SettlementProblem[] = [];
+        const now = await this.now();
+
+        for (const hash of [match.ask, match.bid]) {
+            if (this.book.get(hash)!.signed.order.expiry <= now) {
+                problems.push({ order: hash, reason: "order expired" });
+            }
+        }
+
+        if (await compliance.isBlacklisted(match.seller)) {
+            problems.push({ order: match.ask, reason: "seller is in blacklist" });
+        }
+        if (await compliance.isBlacklisted(match.buyer)) {
+            problems.push({ order: match.bid, reason: "buyer is in blacklist" });
+        }
+
+        // Blacklisted parties are reported above, every other restriction but the sender's whitelist is the buyer's
+        const { code, message } = await compliance.detectRestriction(match.assetId, match.seller, match.buyer, match.tokenAmount);
+        if (code === TransferRestrictionCode.SENDER_NOT_WHITELISTED) {
+            problems.push({ order: match.ask, reason: message });
+        } else if (code > TransferRestrictionCode.SENDER_NOT_WHITELISTED) {
+            problems.push({ order: match.bid, reason: message });
+        }
+
+        const assetToken = await assets.tokenContract(match.assetId);
+        if (!await assetToken.isApprovedForAll(match.seller, this.client.appAddress)) {
+            problems.push({ order: match.ask, reason: "asset is not approved" });
+        }
+        if (await assetToken.balanceOf(match.seller, match.assetId) < match.tokenAmount) {
+            problems.push({ order: match.ask, reason: "seller asset balance too low" });
+        }
+
+        const gasFeeCap = await this.client.marketplace.gasFeeCap(match.saleCurrency);
+        const feeBps = await this.client.fees.rate(match.assetId, match.saleCurrency);
+        const { buyer } = quoteTransferAsset(match.tokenAmount, match.tokenPrice, gasFeeCap, feeBps);
+        const currency = IERC20__factory.connect(match.saleCurrency, signer);
+        if (await currency.allowance(match.buyer, this.client.appAddress) < buyer.allowance) {
+            problems.push({ order: match.bid, reason: "allowance too low" });
+        }
+        if (await currency.balanceOf(match.buyer) < buyer.balance) {
+            problems.push({ order: match.bid, reason: "balance too low" });
+        }
+
+        return problems;
+    }
+
+    /**
+     * Settles a match with `transferAsset`, using its allocated order id.
+     *
+     * This function releases the match when it cannot be settled. Orders failing a
+     * pre-settlement check are rejected so they are not matched again, the other
+     * order goes back to the book. Once the transaction was sent, the match is only
+     * released when its receipt shows no TransferExecuted for it, so a failed wait for
+     * a mined transaction never puts the traded amount back on the book.
+     */
+    async settle(match: Match): Promise<SettlementResult> {
+        const problems = await this.check(match);
+
+        if (problems.length > 0) {
+            this.book.release(match.orderId);
+            this.save();
+            for (const problem of problems) {
+                this.book.reject(problem.order, problem.reason);
+                log('WARN', `Order ${problem.order} rejected: ${problem.reason}`);
+            }
+            return { match, status: "rejected", problems };
+        }
+
+        try {
+            const receipt = await this.client.marketplace.transferAsset({
+                orderId: match.orderId,
+                seller: match.seller,
+                buyer: match.buyer,
+                assetId: match.assetId,
+                tokenAmount: match.tokenAmount,
+                tokenPrice: match.tokenPrice,
+                saleCurrency: match.saleCurrency,
+            }, tx => {
+                match.txHash = tx.hash;
+                this.save();
+            });
+            log('INFO', `Order ${match.orderId} settled: ${match.tokenAmount} of asset ${match.assetId} at ${match.tokenPrice} (tx ${receipt.hash})`);
+            return { match, status: "submitted", txHash: receipt.hash };
+        } catch (err) {
+            const error = (err as Error).message;
+            const outcome = match.txHash ? await this.outcome(match) : "reverted";
+
+            if (outcome === "reverted") {
+                this.book.release(match.orderId);
+                this.save();
+                log('ERROR', `Order ${match.orderId} failed: ${error}`);
+                return { match, status: "failed", txHash: match.txHash, error };
+            }
+            if (outcome === "executed") {
+                log('INFO', `Order ${match.orderId} settled in tx ${match.txHash}, its receipt was read after: ${error}`);
+                return { match, status: "submitted", txHash: match.txHash };
+            }
+
+            log('WARN', `Order ${match.orderId} unconfirmed, kept pending with tx ${match.txHash}: ${error}`);
+            return { match, status: "unconfirmed", txHash: match.txHash, error };
+        }
+    }
+
+    /**
+     * Reads the TransferExecuted events since the last sync and fills the matches they
+     * settle.
+     *
+     * @returns The matches filled by this sync.
+     *
+     * This function also moves the next order id above every id seen on chain, so
+     * trades settled by other parties never share an id with a match of this book.
+     * Events whose parties or amount differ from the match of their id are ignored.
+     * Pending matches whose transaction was mined without settling them are released.
+     */
+    async sync(): Promise<Match[]> {
+        const marketPlace = this.marketPlace();
+        const toBlock = await this.client.signer.provider!.getBlockNumber();
+        const filled: Match[] = [];
+
+        if (toBlock <= this.cursor) {
+            return filled;
+        }
+
+        const events = await marketPlace.queryFilter(marketPlace.filters.TransferExecuted(), this.cursor + 1, toBlock);
+
+        for (const { args } of events) {
+            if (args.orderId >= this.book.nextOrderId) {
+                this.book.nextOrderId = args.orderId + 1n;
+            }
+
+            const match = this.book.pendingMatch(args.orderId);
+            if (!match) {
+                continue;
+            }
+            if (args.seller.toLowerCase() !== match.seller.toLowerCase() || args.buyer.toLowerCase() !== match.buyer.toLowerCase()
+                || args.assetId !== match.assetId || args.tokenAmount !== match.tokenAmount) {
+                log('WARN', `TransferExecuted of order ${args.orderId} does not match the book, ignored`);
+                continue;
+            }
+
+            filled.push(this.book.fill(args.orderId)!);
+        }
+
+        for (const match of this.book.pendingMatches()) {
+            if (match.txHash && await this.outcome(match) === "reverted") {
+                this.book.release(match.orderId);
+                log('WARN', `Order ${match.orderId} released, tx ${match.txHash} did not settle it`);
+            }
+        }
+
+        this.cursor = toBlock;
+        this.save();
+        return filled;
+    }
+
+    /**
+     * Reads the receipt of the transferAsset sent for a match. A mined transaction
+     * without a TransferExecuted event for the match's order id counts as reverted,
+     * a receipt that is missing or cannot be read leaves the outcome unknown.
+     */
+    private async outcome(match: Match): Promise<SettlementOutcome> {
+        const marketPlace = this.marketPlace();
+
+        try {
+            const receipt = await this.client.signer.provider!.getTransactionReceipt(match.txHash!);
+            if (!receipt) {
+                return "unknown";
+            }
+
+            const executed = receipt.status === 1 && receipt.logs
+                .map(log => marketPlace.interface.parseLog(log))
+                .some(event => event?.name === "TransferExecuted" && event.args.orderId === match.orderId);
+            return executed ? "executed" : "reverted";
+        } catch (err) {
+            log('WARN', `Receipt of tx ${match.txHash} unavailable: ${(err as Error).message}`);
+            return "unknown";
+        }
+    }
+
+    private save() {
+        saveBookState(this.statePath, this.client.appAddress, { state: this.book.state(), cursor: this.cursor });
+    }
+
+    private marketPlace(): MarketPlace {
+        return MarketPlace__factory.connect(this.client.appAddress, this.client.signer);
+    }
+
+    private async now(): Promise<bigint> {
+        const block = await this.client.signer.provider!.getBlock("latest");
+        return BigInt(block!.timestamp);
+    }
+}
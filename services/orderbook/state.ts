@@ -0,0 +1,82 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { Match, OrderBookState } from "./book";
+
+/**
+ * State of an order book service as written to disk, bigints as decimal strings.
+ */
+interface SerializedState {
+    appAddress: string;
+    // Last block whose TransferExecuted events were synced
+    cursor: number;
+    nextOrderId: string;
+    fills: Record<string, string>;
+    pending: (Omit<Match, "orderId" | "assetId" | "tokenAmount" | "tokenPrice"> & {
+        orderId: string;
+        assetId: string;
+        tokenAmount: string;
+        tokenPrice: string;
+    })[];
+}
+
+export interface SavedBookState {
+    state: OrderBookState;
+    cursor: number;
+}
+
+/**
+ * Loads the saved state of the order book of `appAddress`, or returns `undefined` if
+ * none was saved yet. Throws if the file belongs to another App.
+ */
+export function loadBookState(path: string, appAddress: string): SavedBookState | undefined {
+    if (!existsSync(path)) {
+        return undefined;
+    }
+
+    const saved = JSON.parse(readFileSync(path, "utf8")) as SerializedState;
+
+    if (saved.appAddress.toLowerCase() !== appAddress.toLowerCase()) {
+        throw new Error(`Order book state ${path} belongs to App ${saved.appAddress}`);
+    }
+
+    return {
+        cursor: saved.cursor,
+        state: {
+            nextOrderId: BigInt(saved.nextOrderId),
+            fills: new Map(Object.entries(saved.fills).map(([hash, amount]) => [hash, BigInt(amount)])),
+            pending: saved.pending.map(m => ({
+                ...m,
+                orderId: BigInt(m.orderId),
+                assetId: BigInt(m.assetId),
+                tokenAmount: BigInt(m.tokenAmount),
+                tokenPrice: BigInt(m.tokenPrice),
+            })),
+        },
+    };
+}
+
+/**
+ * Persists the state through a temporary file and a rename, so a crash never leaves
+ * a truncated file behind.
+ */
+export function saveBookState(path: string, appAddress: string, saved: SavedBookState): void {
+    const { state, cursor } = saved;
+    const serialized: SerializedState = {
+        appAddress,
+        cursor,
+        nextOrderId: state.nextOrderId.toString(),
+        fills: Object.fromEntries([...state.fills].map(([hash, amount]) => [hash, amount.toString()])),
+        pending: state.pending.map(m => ({
+            ...m,
+            orderId: m.orderId.toString(),
+            assetId: m.assetId.toString(),
+            tokenAmount: m.tokenAmount.toString(),
+            tokenPrice: m.tokenPrice.toString(),
+        })),
+    };
+    const tmpPath = `${path}.tmp`;
+
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(tmpPath, JSON.stringify(serialized, null, 4) + "\n");
+    renameSync(tmpPath, path);
+}
@@ -0,0 +1,220 @@
+import type { BlockTag, Provider } from "ethers";
+import { AssetToken__factory, RWATokenization__factory } from "../../typechain-types";
+
+export type IssueKind =
+    // `AssetToken.totalSupply(id)` differs from `getTotalTokens`
+    | "supply_drift"
+    // The `holdings` of the listed holders do not add up to `totalSupply(id)`
+    | "holdings_sum_drift"
+    // `getHolderBalance` differs from `AssetToken.balanceOf`
+    | "balance_drift"
+    // Listed in `getTokenHolders` more than once
+    | "duplicate_holder"
+    // Listed in `getTokenHolders` without holding any token
+    | "stale_holder"
+    // Holds tokens but is missing from `getTokenHolders`
+    | "missing_holder";
+
+export interface ReconciliationIssue {
+    kind: IssueKind;
+    account?: string;
+    expected: bigint;
+    actual: bigint;
+}
+
+export interface AssetReconciliation {
+    assetId: bigint;
+    tokenContract: string;
+    totalTokens: bigint;
+    totalSupply: bigint;
+    holderCount: number;
+    issues: ReconciliationIssue[];
+}
+
+export interface ReconciliationReport {
+    appAddress: string;
+    blockNumber: number;
+    assets: AssetReconciliation[];
+    issueCount: number;
+}
+
+export interface ReconcileOptions {
+    // Assets to check, every asset created since `fromBlock` when omitted
+    assetIds?: bigint[];
+    // First block searched for AssetCreated and token transfer events
+    fromBlock?: number;
+    // Blocks fetched per eth_getLogs call
+    batchSize?: number;
+    blockTag?: BlockTag;
+}
+
+const DEFAULT_BATCH_SIZE = 2000;
+
+/**
+ * Runs `query` over `fromBlock`..`toBlock` in ranges of `batchSize` blocks, so no single
+ * eth_getLogs call exceeds the block range limit of the RPC provider.
+ */
+async function queryInBatches<T>(
+    fromBlock: number,
+    toBlock: number,
+    batchSize: number,
+    query: (from: number, to: number) => Promise<T[]>,
+): Promise<T[]> {
+    const results: T[] = [];
+    for (let from = fromBlock; from <= toBlock; from += batchSize) {
+        results.push(...await query(from, Math.min(from + batchSize - 1, toBlock)));
+    }
+    return results;
+}
+
+/**
+ * Lists the ids of the assets created on the App between `fromBlock` and `toBlock`.
+ */
+export async function discoverAssets(
+    provider: Provider,
+    appAddress: string,
+    fromBlock: number,
+    toBlock: number,
+    batchSize = DEFAULT_BATCH_SIZE,
+): Promise<bigint[]> {
+    const rwaTokenization = RWATokenization__factory.connect(appAddress, provider);
+    const events = await queryInBatches(fromBlock, toBlock, batchSize,
+        (from, to) => rwaTokenization.queryFilter(rwaTokenization.filters.AssetCreated(), from, to));
+    return events.map(e => e.args.assetId);
+}
+
+/**
+ * Compares the holder bookkeeping of one asset in RWATokenization with the balances of
+ * its AssetToken.
+ *
+ * @param provider - Provider of the chain the App is deployed on.
+ * @param appAddress - Address of the App diamond.
+ * @param assetId - The asset to check.
+ * @param fromBlock - First block searched for transfers of the asset token.
+ * @param blockNumber - Block every value is read at.
+ * @param batchSize - Blocks fetched per eth_getLogs call.
+ * @returns The asset totals and every inconsistency found.
+ *
+ * This function checks the listed holders and also every account that appears in a
+ * TransferSingle or TransferBatch event of the token, so holders that dropped out of
+ * `getTokenHolders` while still holding tokens are reported as well.
+ */
+export async function reconcileAsset(
+    provider: Provider,
+    appAddress: string,
+    assetId: bigint,
+    fromBlock: number,
+    blockNumber: number,
+    batchSize = DEFAULT_BATCH_SIZE,
+): Promise<AssetReconciliation> {
+    const overrides = { blockTag: blockNumber };
+    const rwaTokenization = RWATokenization__factory.connect(appAddress, provider);
+
+    const tokenContract = await rwaTokenization.getTokenContractAddress(assetId, overrides);
+    const token = AssetToken__factory.connect(tokenContract, provider);
+
+    const totalTokens = await rwaTokenization.getTotalTokens(assetId, overrides);
+    const totalSupply = await token["totalSupply(uint256)"](assetId, overrides);
+    const listed = await rwaTokenization.getTokenHolders(assetId, overrides);
+
+    const issues: ReconciliationIssue[] = [];
+
+    if (totalSupply !== totalTokens) {
+        issues.push({ kind: "supply_drift", expected: totalSupply, actual: totalTokens });
+    }
+
+    const counts = new Map<string, number>();
+    for (const holder of listed) {
+        counts.set(holder, (counts.get(holder) ?? 0) + 1);
+    }
+    for (const [holder, count] of counts) {
+        if (count > 1) {
+            issues.push({ kind: "duplicate_holder", account: holder, expected: 1n, actual: BigInt(count) });
+        }
+    }
+
+    const accounts = new Set(listed);
+    const singles = await queryInBatches(fromBlock, blockNumber, batchSize,
+        (from, to) => token.queryFilter(token.filters.TransferSingle(), from, to));
+    for (const event of singles) {
+        if (event.args.id === assetId) {
+            accounts.add(event.args.from);
+            accounts.add(event.args.to);
+        }
+    }
+    const batches = await queryInBatches(fromBlock, blockNumber, batchSize,
+        (from, to) => token.queryFilter(token.filters.TransferBatch(), from, to));
+    for (const event of batches) {
+        if (event.args.ids.includes(assetId)) {
+            accounts.add(event.args.from);
+            accounts.add(event.args.to);
+        }
+    }
+    accounts.delete("0x0000000000000000000000000000000000000000");
+
+    let holdingsSum = 0n;
+    for (const account of [...accounts].sort()) {
+        const balance = await token.balanceOf(account, assetId, overrides);
+        const holdings = await rwaTokenization.getHolderBalance(assetId, account, overrides);
+        const isListed = counts.has(account);
+
+        if (isListed) {
+            holdingsSum += holdings * BigInt(counts.get(account)!);
+        }
+        if (holdings !== balance) {
+            issues.push({ kind: "balance_drift", account, expected: balance, actual: holdings });
+        }
+        if (isListed && balance === 0n) {
+            issues.push({ kind: "stale_holder", account, expected: 0n, actual: holdings });
+        }
+        if (!isListed && balance > 0n) {
+            issues.push({ kind: "missing_holder", account, expected: balance, actual: holdings });
+        }
+    }
+
+    if (holdingsSum !== totalSupply) {
+        issues.push({ kind: "holdings_sum_drift", expected: totalSupply, actual: holdingsSum });
+    }
+
+    return { assetId, tokenContract, totalTokens, totalSupply, holderCount: listed.length, issues };
+}
+
+/**
+ * Reconciles every asset of the App at one block.
+ *
+ * @param provider - Provider of the chain the App is deployed on, must serve historical
+ * state when `blockTag` is in the past.
+ * @param appAddress - Address of the App diamond.
+ * @param options - Assets to check, the first block to search events from, the blocks
+ * fetched per eth_getLogs call and the block to read at.
+ * @returns The report, `issueCount` is 0 when the bookkeeping matches the tokens.
+ */
+export async function reconcile(provider: Provider, appAddress: string, options: ReconcileOptions = {}): Promise<ReconciliationReport> {
+    const block = await provider.getBlock(options.blockTag ?? "latest");
+    if (!block) {
+        throw new Error(`Block ${options.blockTag} not found`);
+    }
+
+    const fromBlock = options.fromBlock ?? 0;
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const assetIds = options.assetIds ?? await discoverAssets(provider, appAddress, fromBlock, block.number, batchSize);
+
+    const assets: AssetReconciliation[] = [];
+    for (const assetId of assetIds) {
+        assets.push(await reconcileAsset(provider, appAddress, assetId, fromBlock, block.number, batchSize));
+    }
+
+    return {
+        appAddress,
+        blockNumber: block.number,
+        assets,
+        issueCount: assets.reduce((sum, a) => sum + a.issues.length, 0),
+    };
+}
+
+/**
+ * Serializes a report to JSON, bigints are written as decimal strings.
+ */
+export function reportToJson(report: ReconciliationReport): string {
+    return JSON.stringify(report, (_, value) => (typeof value === "bigint" ? value.toString() : value), 4) + "\n";
+}
@@ -0,0 +1,262 @@
+import { readFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import type { CreateAssetParams } from "../sdk";
+import { connectClient, dryRun, printReceipt, printSummary } from "./helpers";
+
+/**
+ * Asset metadata as stored in a JSON file, same keys as `test/test_parameters.json`.
+ * Keys missing from the file must be passed as task params.
+ */
+interface AssetMetadataFile {
+    ASSET_ID?: number | string;
+    TOTALTOKENS?: number | string;
+    TOKENPRICE?: number | string;
+    TOKENPROFITPERIOD?: number | string;
+    TOKENLOWERLIMIT?: number | string;
+    ASSETURI?: string;
+    NAME?: string;
+    SYMBOL?: string;
+}
+
+/**
+ * Merges the task params of `asset:create` over the metadata file, if one is given.
+ * Throws listing every field that is set in neither.
+ */
+export function loadAssetParams(args: any): CreateAssetParams {
+    const file: AssetMetadataFile = args.metadata ? JSON.parse(readFileSync(args.metadata, "utf8")) : {};
+
+    const merged = {
+        assetId: args.asset ?? file.ASSET_ID,
+        totalTokens: args.totalTokens ?? file.TOTALTOKENS,
+        tokenPrice: args.price ?? file.TOKENPRICE,
+        profitPeriod: args.profitPeriod ?? file.TOKENPROFITPERIOD,
+        tokenLowerLimit: args.lowerLimit ?? file.TOKENLOWERLIMIT,
+        uri: args.uri ?? file.ASSETURI,
+        name: args.name ?? file.NAME,
+        symbol: args.symbol ?? file.SYMBOL,
+    };
+
+    const missing = Object.entries(merged).filter(([, value]) => value === undefined).map(([key]) => key);
+    if (missing.length > 0) {
+        throw new Error(`Missing asset fields: ${missing.join(", ")}`);
+    }
+
+    return {
+        ...merged,
+        assetId: BigInt(merged.assetId!),
+        totalTokens: BigInt(merged.totalTokens!),
+        tokenPrice: BigInt(merged.tokenPrice!),
+        profitPeriod: BigInt(merged.profitPeriod!),
+        tokenLowerLimit: BigInt(merged.tokenLowerLimit!),
+    } as CreateAssetParams;
+}
+
+task("asset:create", "Creates an asset and deploys its AssetToken")
+    .addOptionalParam("metadata", "JSON file with the asset fields, e.g. test/test_parameters.json")
+    .addOptionalParam("asset", "Asset id", undefined, types.bigint)
+    .addOptionalParam("totalTokens", "Number of tokens minted to the deployer", undefined, types.bigint)
+    .addOptionalParam("price", "Token price", undefined, types.bigint)
+    .addOptionalParam("profitPeriod", "Profit period in days", undefined, types.bigint)
+    .addOptionalParam("lowerLimit", "Minimum balance that receives profits", undefined, types.bigint)
+    .addOptionalParam("uri", "Metadata URI of the token")
+    .addOptionalParam("name", "Token name")
+    .addOptionalParam("symbol", "Token symbol")
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const asset = loadAssetParams(args);
+        const facet = client.assets.facet;
+
+        printSummary("Create asset", { ...asset });
+        await dryRun(() => facet.createAsset.staticCall(
+            asset.assetId, asset.totalTokens, asset.tokenPrice, asset.profitPeriod,
+            asset.tokenLowerLimit, asset.uri, asset.name, asset.symbol));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.assets.create(asset);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("asset:update-price", "Updates the token price of an asset")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addParam("price", "New token price", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.assets.facet;
+
+        printSummary("Update price", {
+            asset: args.asset,
+            currentPrice: (await client.assets.get(args.asset)).tokenPrice,
+            newPrice: args.price,
+        });
+        await dryRun(() => facet.updateAsset.staticCall(args.asset, args.price));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.assets.updatePrice(args.asset, args.price);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("asset:lower-limit", "Updates the minimum balance that receives profits")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addParam("limit", "New lower limit", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.profits.facet;
+
+        printSummary("Update lower limit", {
+            asset: args.asset,
+            currentLimit: await client.profits.tokenLowerLimit(args.asset),
+            newLimit: args.limit,
+        });
+        await dryRun(() => facet.updateAssetLowerLimit.staticCall(args.asset, args.limit));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.profits.updateLowerLimit(args.asset, args.limit);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("asset:profit-period", "Updates the profit period of an asset")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addParam("days", "New profit period in days", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.profits.facet;
+
+        printSummary("Update profit period", {
+            asset: args.asset,
+            currentPeriod: await client.profits.profitPeriod(args.asset),
+            newPeriod: args.days,
+        });
+        await dryRun(() => facet.updateProfitPeriod.staticCall(args.asset, args.days));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.profits.updateProfitPeriod(args.asset, args.days);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("asset:pause", "Pauses the transfers of an asset token")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.profits.facet;
+
+        printSummary("Pause asset", { asset: args.asset, token: (await client.assets.get(args.asset)).tokenContract });
+        await dryRun(() => facet.pauseAsset.staticCall(args.asset));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.profits.pause(args.asset);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("asset:unpause", "Unpauses an asset token, restarting its profit period")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.profits.facet;
+
+        printSummary("Unpause asset", { asset: args.asset, token: (await client.assets.get(args.asset)).tokenContract });
+        await dryRun(() => facet.unPauseAsset.staticCall(args.asset));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.profits.unpause(args.asset);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("asset:redeem", "Burns tokens of a holder that redeemed them off-chain (sendToTheRealWorld)")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addParam("account", "Holder whose tokens are burned")
+    .addParam("amount", "Number of tokens to burn", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.assets.facet;
+        const info = await client.assets.get(args.asset);
+
+        printSummary("Redeem tokens", {
+            asset: args.asset,
+            account: args.account,
+            amount: args.amount,
+            holderBalance: await client.assets.holderBalance(args.asset, args.account),
+            totalTokensAfter: info.totalTokens - args.amount,
+        });
+        await dryRun(() => facet.sendToTheRealWorld.staticCall(args.account, args.asset, args.amount));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.assets.sendToTheRealWorld(args.account, args.asset, args.amount);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("asset:info", "Prints the stored fields and profit settings of an asset")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const info = await client.assets.get(args.asset);
+        const token = await client.assets.tokenContract(args.asset);
+
+        const summary = {
+            asset: info.id,
+            token: info.tokenContract,
+            name: await token.name(),
+            symbol: await token.symbol(),
+            uri: info.uri,
+            totalTokens: info.totalTokens,
+            tokenPrice: info.tokenPrice,
+            paused: await token.paused(),
+            profitPeriod: await client.profits.profitPeriod(args.asset),
+            tokenLowerLimit: await client.profits.tokenLowerLimit(args.asset),
+            lastDistributed: await client.profits.lastDistributed(args.asset),
+            totalProfit: await client.profits.totalProfit(args.asset),
+            holders: info.holders.length,
+        };
+
+        printSummary(`Asset ${info.id}`, summary);
+        return summary;
+    });
@@ -0,0 +1,289 @@
+import { readFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import type { ProposalAction } from "../sdk";
+import { connectClient, dryRun, printReceipt, printSummary } from "./helpers";
+
+/**
+ * Entry of a proposal actions file. Either `method` and `args`, encoded with the ABI of
+ * the facet declaring the method, or raw `data` sent to `target` (the App by default).
+ */
+interface ActionFileEntry {
+    method?: string;
+    args?: unknown[];
+    target?: string;
+    value?: string | number;
+    data?: string;
+}
+
+/**
+ * Reads the actions of `dao:propose` from a JSON array, e.g.
+ * `[{ "method": "updateAsset", "args": [54, 1200] }]`.
+ *
+ * @param path - JSON file with the action entries.
+ * @param appAddress - App diamond the `method` entries are sent to.
+ * @returns The encoded actions, in file order.
+ */
+export async function loadProposalActions(path: string, appAddress: string): Promise<ProposalAction[]> {
+    const { ProposalBuilder } = await import("../sdk");
+    const entries: ActionFileEntry[] = JSON.parse(readFileSync(path, "utf8"));
+    const builder = new ProposalBuilder(appAddress);
+
+    entries.forEach((entry, index) => {
+        if (entry.method) {
+            builder.facetCall(entry.method, entry.args ?? [], entry.value ?? 0);
+        } else if (entry.data) {
+            builder.call(entry.data, entry.value ?? 0, entry.target ?? appAddress);
+        } else {
+            throw new Error(`Action ${index} of ${path} has neither a method nor data`);
+        }
+    });
+    return builder.build();
+}
+
+/**
+ * Formats a number of seconds as days, hours, minutes and seconds, e.g. `1d 2h 0m 5s`.
+ */
+export function formatDuration(seconds: bigint): string {
+    const parts = [[86400n, "d"], [3600n, "h"], [60n, "m"]] as const;
+    let rest = seconds;
+    let text = "";
+
+    for (const [unit, suffix] of parts) {
+        if (text !== "" || rest >= unit) {
+            text += `${rest / unit}${suffix} `;
+            rest %= unit;
+        }
+    }
+    return `${text}${rest}s`;
+}
+
+task("dao:propose", "Creates a DAO proposal voted with a governance token or by the holders of an asset")
+    .addParam("id", "Proposal id", undefined, types.bigint)
+    .addParam("duration", "Voting period in seconds", undefined, types.bigint)
+    .addParam("quorum", "Votes for required, in basis points of the supply at the snapshot", undefined, types.bigint)
+    .addParam("description", "Description of the proposal")
+    .addOptionalParam("token", "ERC20Votes governance token, e.g. FEXSE")
+    .addOptionalParam("asset", "Asset whose holders vote, instead of a governance token", undefined, types.bigint)
+    .addOptionalParam("actions", "JSON file with the actions executed when the proposal passes")
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        if ((args.token === undefined) === (args.asset === undefined)) {
+            throw new Error("Pass either --token or --asset");
+        }
+
+        const client = await connectClient(hre, args.app);
+        const facet = client.dao.facet;
+        const actions = args.actions ? await loadProposalActions(args.actions, client.appAddress) : [];
+        const params = {
+            proposalId: args.id,
+            duration: args.duration,
+            minimumQuorum: args.quorum,
+            description: args.description,
+            actions,
+        };
+
+        printSummary("Create proposal", {
+            id: args.id,
+            voters: args.asset !== undefined ? `holders of asset ${args.asset}` : `delegates of ${args.token}`,
+            duration: formatDuration(args.duration),
+            quorum: `${Number(args.quorum) / 100}%`,
+            description: args.description,
+            actions: actions.map(a => `${a.target} ${a.data.slice(0, 10)}${a.value > 0n ? ` +${a.value} wei` : ""}`),
+        });
+
+        if (args.asset !== undefined) {
+            await dryRun(() => facet.createAssetProposal.staticCall(args.id, args.asset, args.duration, args.quorum, args.description, actions));
+        } else {
+            await dryRun(() => facet.createProposal.staticCall(args.id, args.token, args.duration, args.quorum, args.description, actions));
+        }
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = args.asset !== undefined
+            ? await client.dao.createAssetProposal({ ...params, assetId: args.asset })
+            : await client.dao.createProposal({ ...params, governanceToken: args.token });
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("dao:delegate", "Delegates the votes of a governance token, to the sender itself by default")
+    .addParam("token", "ERC20Votes governance token")
+    .addOptionalParam("to", "Delegatee address")
+    .addOptionalParam("from", "Account delegating, the first account by default")
+    .addOptionalParam("app", "App diamond address")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app, args.from);
+        const delegatee = args.to ?? await client.signer.getAddress();
+
+        printSummary("Delegate votes", { token: args.token, from: await client.signer.getAddress(), to: delegatee });
+        const receipt = await client.dao.delegate(args.token, delegatee);
+        printReceipt(receipt, client.dao.facet.interface);
+        return receipt;
+    });
+
+task("dao:vote", "Votes on a DAO proposal with the voting power at its snapshot")
+    .addParam("id", "Proposal id", undefined, types.bigint)
+    .addFlag("against", "Vote against the proposal")
+    .addOptionalParam("from", "Voting account, the first account by default")
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app, args.from);
+        const facet = client.dao.facet;
+        const voter = await client.signer.getAddress();
+
+        printSummary("Vote", {
+            proposal: args.id,
+            voter,
+            support: args.against ? "against" : "for",
+            weight: await client.dao.votingPower(args.id, voter),
+        });
+        await dryRun(() => facet.vote.staticCall(args.id, !args.against));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.dao.vote(args.id, !args.against);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("dao:status", "Prints the tally, quorum progress, remaining time and voters of a DAO proposal")
+    .addParam("id", "Proposal id", undefined, types.bigint)
+    .addOptionalParam("fromBlock", "First block scanned for votes", 0, types.int)
+    .addOptionalParam("app", "App diamond address")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const { ProposalState, VotingWeight } = await import("../sdk");
+
+        const proposal = await client.dao.getProposal(args.id);
+        const voting = await client.dao.voting(args.id);
+        const state = await client.dao.state(args.id);
+        const votes = await client.dao.votes(args.id, args.fromBlock);
+        const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+        const queued = await client.dao.facet.queryFilter(client.dao.facet.filters.ProposalQueued(), args.fromBlock, "latest");
+        const eta = state === ProposalState.QUEUED ? queued.filter(event => event.args.id === args.id).pop()?.args.eta : undefined;
+
+        const progress = voting.quorumVotes === 0n ? 1000n : (proposal.forVotes * 1000n) / voting.quorumVotes;
+        const summary = {
+            description: proposal.description,
+            state: ProposalState[state],
+            votingWeight: VotingWeight[voting.votingWeight],
+            governanceToken: proposal.governanceToken,
+            snapshot: voting.snapshot,
+            forVotes: proposal.forVotes,
+            againstVotes: proposal.againstVotes,
+            quorum: `${proposal.forVotes} / ${voting.quorumVotes} (${progress / 10n}.${progress % 10n}%)`,
+            quorumReached: proposal.forVotes >= voting.quorumVotes,
+            deadline: new Date(Number(proposal.deadline) * 1000).toISOString(),
+            timeRemaining: proposal.deadline >= now ? formatDuration(proposal.deadline - now) : "voting ended",
+            ...(eta !== undefined ? { executableIn: eta > now ? formatDuration(eta - now) : "now" } : {}),
+            voters: votes.length,
+        };
+
+        printSummary(`Proposal ${args.id}`, summary);
+        for (const vote of votes) {
+            console.log(`  ${vote.voter}  ${vote.support ? "for    " : "against"}  ${vote.weight}`);
+        }
+        return { ...summary, votes };
+    });
+
+task("dao:queue", "Queues a passed DAO proposal behind the timelock")
+    .addParam("id", "Proposal id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.dao.facet;
+
+        printSummary("Queue proposal", { id: args.id, timelockDelay: formatDuration(await client.dao.timelockDelay()) });
+        await dryRun(() => facet.queueProposal.staticCall(args.id));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.dao.queue(args.id);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("dao:execute", "Executes the actions of a queued DAO proposal whose timelock expired")
+    .addParam("id", "Proposal id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.dao.facet;
+
+        printSummary("Execute proposal", { id: args.id, actions: (await client.dao.actions(args.id)).length });
+        await dryRun(() => facet.executeProposal.staticCall(args.id));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.dao.execute(args.id);
+        printReceipt(receipt, facet.interface);
+        return client.dao.actions(args.id);
+    });
+
+task("dao:update-quorum", "Changes the quorum of a DAO proposal")
+    .addParam("id", "Proposal id", undefined, types.bigint)
+    .addParam("quorum", "Votes for required, in basis points of the supply at the snapshot", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.dao.facet;
+
+        printSummary("Update quorum", { id: args.id, quorum: `${Number(args.quorum) / 100}%` });
+        await dryRun(() => facet.updateMinimumQuorum.staticCall(args.id, args.quorum));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.dao.updateMinimumQuorum(args.id, args.quorum);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("dao:update-duration", "Moves the end of the voting period of a DAO proposal")
+    .addParam("id", "Proposal id", undefined, types.bigint)
+    .addParam("duration", "Remaining voting time in seconds, from the latest block", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.dao.facet;
+
+        // updateProposalDuration stores its argument as the deadline, a unix timestamp
+        const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+        const deadline = now + args.duration;
+
+        printSummary("Update voting period", {
+            id: args.id,
+            deadline: new Date(Number(deadline) * 1000).toISOString(),
+            remaining: formatDuration(args.duration),
+        });
+        await dryRun(() => facet.updateProposalDuration.staticCall(args.id, deadline));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.dao.updateProposalDuration(args.id, deadline);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
@@ -0,0 +1,187 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Signer } from "ethers";
+import type { ModuleSelectors, SignatureIndex } from "../services/diamond";
+import { DeploymentState, statePath } from "../scripts/deployment/state";
+import { printSummary, resolveAppAddress } from "./helpers";
+
+/**
+ * Loads the deployment state file given by `--state`, or the one of NETWORK (or the
+ * Hardhat network name).
+ */
+function loadDeployment(hre: HardhatRuntimeEnvironment, path?: string): DeploymentState {
+    const file = path ?? statePath(process.env.NETWORK || hre.network.name);
+    if (!existsSync(file)) {
+        throw new Error(`Deployment state ${file} not found, pass --state`);
+    }
+    return JSON.parse(readFileSync(file, "utf8")) as DeploymentState;
+}
+
+/**
+ * Resets the in-process Hardhat network to a fork of the latest RPC_URL block, so
+ * artifacts can be deployed and cuts executed next to the live diamond.
+ */
+async function forkLive(hre: HardhatRuntimeEnvironment): Promise<void> {
+    if (!process.env.RPC_URL) {
+        throw new Error("--fork needs RPC_URL");
+    }
+    await hre.network.provider.request({ method: "hardhat_reset", params: [{ forking: { jsonRpcUrl: process.env.RPC_URL } }] });
+}
+
+function requireLocalNetwork(hre: HardhatRuntimeEnvironment): void {
+    if (hre.network.name !== "hardhat") {
+        throw new Error("Artifacts are deployed and cuts executed on the in-process network, run without --network and use --fork");
+    }
+}
+
+/**
+ * Deploys a fresh instance of `contract` from the compiled artifacts on the local
+ * network and returns its address.
+ */
+async function deployArtifact(hre: HardhatRuntimeEnvironment, contract: string, args: unknown[], signer: Signer): Promise<string> {
+    const deployed = await hre.ethers.deployContract(contract, args, signer);
+    await deployed.waitForDeployment();
+    return deployed.getAddress();
+}
+
+/**
+ * Deploys every installed module of the deployment from the compiled artifacts, with
+ * the constructor args recorded in the state, and reads the selectors it declares.
+ * The returned `address` is the facet the module is installed at on the diamond.
+ */
+async function artifactModules(hre: HardhatRuntimeEnvironment, deployment: DeploymentState, signer: Signer): Promise<ModuleSelectors[]> {
+    const { declaredSelectors } = await import("../services/diamond");
+    const modules: ModuleSelectors[] = [];
+
+    for (const [id, module] of Object.entries(deployment.modules)) {
+        if (!module.installed) {
+            continue;
+        }
+        const local = await deployArtifact(hre, module.contract, module.args, signer);
+        modules.push({ name: id, address: module.address, selectors: await declaredSelectors(signer, local) });
+    }
+
+    return modules;
+}
+
+async function signatureIndex(hre: HardhatRuntimeEnvironment, deployment: DeploymentState): Promise<SignatureIndex> {
+    const { SignatureIndex } = await import("../services/diamond");
+    const index = new SignatureIndex();
+    for (const name of new Set(["App", ...Object.values(deployment.modules).map(m => m.contract)])) {
+        index.add((await hre.artifacts.readArtifact(name)).abi);
+    }
+    return index;
+}
+
+task("diamond:inspect", "Prints the selector table of the App and diffs it against the compiled modules")
+    .addOptionalParam("state", "Deployment state file, deployments/<NETWORK>.json by default")
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("fork", "Fork the latest block of RPC_URL first")
+    .setAction(async (args, hre) => {
+        const { diffTable, findCollisions, readFacets } = await import("../services/diamond");
+        requireLocalNetwork(hre);
+        if (args.fork) {
+            await forkLive(hre);
+        }
+
+        const deployment = loadDeployment(hre, args.state);
+        const appAddress = resolveAppAddress(hre, args.app ?? deployment.modules.App?.address);
+        const [signer] = await hre.ethers.getSigners();
+        const signatures = await signatureIndex(hre, deployment);
+        const labels = new Map(Object.entries(deployment.modules).map(([id, m]) => [m.address?.toLowerCase(), id]));
+        labels.set(appAddress.toLowerCase(), "App");
+
+        const facets = await readFacets(signer, appAddress);
+        for (const facet of facets) {
+            printSummary(`${labels.get(facet.target.toLowerCase()) ?? "unknown"} ${facet.target}`, Object.fromEntries(
+                facet.selectors.map(s => [s, signatures.describe(s).slice(s.length + 1) || "?"])));
+        }
+
+        const modules = await artifactModules(hre, deployment, signer);
+        const diff = diffTable(facets, modules, appAddress);
+        const collisions = findCollisions(modules);
+
+        for (const module of diff.modules) {
+            const drift = [
+                ...module.missing.map(s => `missing    ${signatures.describe(s)}`),
+                ...module.unexpected.map(s => `unexpected ${signatures.describe(s)}`),
+                ...module.misrouted.map(m => `misrouted  ${signatures.describe(m.selector)} -> ${labels.get(m.facet.toLowerCase()) ?? m.facet}`),
+            ];
+            console.log(drift.length === 0 ? `${module.name}: matches artifact` : `${module.name}:\n  ${drift.join("\n  ")}`);
+        }
+        for (const facet of diff.unknownFacets) {
+            console.log(`Unknown facet ${facet.target} with ${facet.selectors.length} selectors`);
+        }
+        for (const collision of collisions) {
+            console.log(`Collision ${signatures.describe(collision.selector)} declared by ${collision.modules.join(", ")}`);
+        }
+
+        return { facets, diff, collisions };
+    });
+
+task("diamond:plan", "Plans the diamondCut upgrading a module and simulates it on the local network")
+    .addParam("module", "Deployment id of the module, e.g. ProfitModule")
+    .addOptionalParam("contract", "Artifact to deploy, the recorded contract of the module by default")
+    .addOptionalParam("args", "Constructor args as a JSON array, the recorded args by default")
+    .addOptionalParam("facet", "Already deployed new module, skips deploying the artifact")
+    .addOptionalParam("admin", "DEFAULT_ADMIN_ROLE holder impersonated for the simulation, the deployer by default")
+    .addOptionalParam("out", "Writes the planned FacetCut[] as JSON to this file")
+    .addOptionalParam("state", "Deployment state file, deployments/<NETWORK>.json by default")
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("fork", "Fork the latest block of RPC_URL first")
+    .setAction(async (args, hre) => {
+        const { declaredSelectors, planModuleUpgrade, readFacets, simulateUpgrade, FacetCutAction } = await import("../services/diamond");
+        requireLocalNetwork(hre);
+
+        // Every facet shares AppStorage, a new module must not move existing fields
+        await hre.run("storage:check");
+
+        if (args.fork) {
+            await forkLive(hre);
+        }
+
+        const deployment = loadDeployment(hre, args.state);
+        const appAddress = resolveAppAddress(hre, args.app ?? deployment.modules.App?.address);
+        const recorded = deployment.modules[args.module];
+        const contract = args.contract ?? recorded?.contract ?? args.module;
+        const [signer] = await hre.ethers.getSigners();
+        const signatures = await signatureIndex(hre, deployment);
+        signatures.add((await hre.artifacts.readArtifact(contract)).abi);
+
+        const newFacet = args.facet ?? await deployArtifact(hre, contract, args.args ? JSON.parse(args.args) : recorded?.args ?? [], signer);
+        const selectors = await declaredSelectors(signer, newFacet);
+        const facets = await readFacets(signer, appAddress);
+        const plan = planModuleUpgrade(facets, appAddress, recorded?.address, newFacet, selectors);
+
+        for (const cut of plan.cuts) {
+            printSummary(`${FacetCutAction[cut.action]} ${cut.target}`, Object.fromEntries(
+                cut.selectors.map(s => [s, signatures.describe(s).slice(s.length + 1) || "?"])));
+        }
+        if (plan.conflicts.length > 0) {
+            throw new Error(`Upgrade of ${args.module} conflicts with the selector table:\n  ${
+                plan.conflicts.map(c => `${signatures.describe(c.selector)} owned by ${c.owner} (${c.reason})`).join("\n  ")}`);
+        }
+        if (args.out) {
+            writeFileSync(args.out, JSON.stringify({ app: appAddress, module: args.module, cuts: plan.cuts }, null, 4) + "\n");
+        }
+
+        const adminAddress = args.admin ?? deployment.deployer;
+        await hre.network.provider.request({ method: "hardhat_setBalance", params: [adminAddress, "0x56BC75E2D63100000"] });
+        const admin = await hre.ethers.getImpersonatedSigner(adminAddress);
+        const { report } = await simulateUpgrade(admin, appAddress, plan.cuts);
+
+        const count = (list: typeof facets, target: string) => list.find(f => f.target.toLowerCase() === target.toLowerCase())?.selectors.length ?? 0;
+        printSummary("Simulated upgrade", {
+            [`${args.module} (old) ${recorded?.address ?? "-"}`]: recorded?.address
+                ? `${count(report.before, recorded.address)} -> ${count(report.after, recorded.address)} selectors`
+                : "-",
+            [`${args.module} (new) ${newFacet}`]: `${count(report.before, newFacet)} -> ${count(report.after, newFacet)} selectors`,
+            facets: `${report.before.length} -> ${report.after.length}`,
+            added: report.added.length,
+            replaced: report.replaced.length,
+            removed: report.removed.length,
+        });
+
+        return { newFacet, plan, report };
+    });
@@ -0,0 +1,96 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import type { ContractTransactionReceipt, Interface } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { RwaClient } from "../sdk";
+
+const DEPLOYMENTS_DIR = join(__dirname, "..", "deployments");
+
+/**
+ * Resolves the App diamond address from, in order, the `--app` param, the APP_ADDRESS
+ * environment variable and the deployment state file of NETWORK (or the Hardhat
+ * network name).
+ */
+export function resolveAppAddress(hre: HardhatRuntimeEnvironment, app?: string): string {
+    if (app) {
+        return app;
+    }
+    if (process.env.APP_ADDRESS) {
+        return process.env.APP_ADDRESS;
+    }
+
+    const network = process.env.NETWORK || hre.network.name;
+    const path = join(DEPLOYMENTS_DIR, `${network}.json`);
+    const address = existsSync(path) ? JSON.parse(readFileSync(path, "utf8")).modules?.App?.address : undefined;
+
+    if (!address) {
+        throw new Error(`No App address: pass --app, set APP_ADDRESS or deploy to ${network} first.`);
+    }
+    return address;
+}
+
+/**
+ * Creates an `RwaClient` for the first account of the selected network, or for the
+ * `from` account when given, e.g. one of the unlocked accounts of a local node.
+ *
+ * The SDK is imported here rather than at the top of the file because it depends on
+ * the generated typechain types, which do not exist before the first compile.
+ */
+export async function connectClient(hre: HardhatRuntimeEnvironment, app?: string, from?: string): Promise<RwaClient> {
+    const { RwaClient } = await import("../sdk");
+    const signer = from ? await hre.ethers.getSigner(from) : (await hre.ethers.getSigners())[0];
+    return new RwaClient(resolveAppAddress(hre, app), signer);
+}
+
+/**
+ * Runs the `staticCall` of a write, so a transaction that would revert fails with the
+ * decoded reason before anything is sent.
+ */
+export async function dryRun(fn: () => Promise<unknown>): Promise<void> {
+    const { decodeRwaError } = await import("../sdk");
+    try {
+        await fn();
+    } catch (err) {
+        throw new Error(`Dry run failed: ${(decodeRwaError(err) as Error).message}`);
+    }
+}
+
+/**
+ * Prints a titled list of fields, one `name: value` line each.
+ */
+export function printSummary(title: string, fields: { [name: string]: unknown }): void {
+    const width = Math.max(...Object.keys(fields).map(name => name.length));
+
+    console.log(title);
+    for (const [name, value] of Object.entries(fields)) {
+        console.log(`  ${name.padEnd(width)}  ${Array.isArray(value) ? value.join(", ") : String(value)}`);
+    }
+}
+
+/**
+ * Prints the hash, block, gas used and the decoded events of a receipt.
+ *
+ * @param receipt - Receipt of the sent transaction.
+ * @param iface - Interface the App events are decoded with, logs it does not know
+ * are skipped.
+ */
+export function printReceipt(receipt: ContractTransactionReceipt, iface: Interface): void {
+    const events = receipt.logs
+        .map(log => {
+            try {
+                return iface.parseLog(log);
+            } catch {
+                return null;
+            }
+        })
+        .filter(event => event !== null)
+        .map(event => `${event!.name}(${event!.args.map(String).join(", ")})`);
+
+    printSummary("Receipt", {
+        tx: receipt.hash,
+        block: receipt.blockNumber,
+        gasUsed: receipt.gasUsed,
+        status: receipt.status === 1 ? "success" : "reverted",
+        events,
+    });
+}
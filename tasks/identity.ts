@@ -0,0 +1,68 @@
+import { readFileSync } from "fs";
+import { task, types } from "hardhat/config";
+import { connectClient, dryRun, printReceipt, printSummary } from "./helpers";
+
+task("identity:onboard", "Registers and whitelists the investors of a KYC provider CSV export")
+    .addParam("file", "CSV file with address, country, class and expiry columns")
+    .addOptionalParam("batch", "Investors registered per transaction", 100, types.int)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only validate the file and simulate the transactions")
+    .setAction(async (args, hre) => {
+        const { parseKycCsv } = await import("../services/onboarding");
+        const { InvestorClass, encodeCountry } = await import("../sdk");
+        const { records, errors } = parseKycCsv(readFileSync(args.file, "utf8"));
+
+        if (errors.length > 0) {
+            throw new Error(`Invalid KYC file ${args.file}:\n${errors.map(e => `  line ${e.line}: ${e.message}`).join("\n")}`);
+        }
+
+        const client = await connectClient(hre, args.app);
+        const facet = client.identity.facet;
+
+        printSummary("Onboard investors", {
+            file: args.file,
+            investors: records.length,
+            transactions: Math.ceil(records.length / args.batch),
+            ...Object.fromEntries(
+                [InvestorClass.RETAIL, InvestorClass.ACCREDITED, InvestorClass.INSTITUTIONAL]
+                    .map(c => [InvestorClass[c].toLowerCase(), records.filter(r => r.investorClass === c).length]),
+            ),
+        });
+
+        for (let start = 0; start < records.length; start += args.batch) {
+            const batch = records.slice(start, start + args.batch);
+            await dryRun(() => facet.setInvestorIdentities.staticCall(
+                batch.map(r => r.account),
+                batch.map(r => ({ country: encodeCountry(r.country), investorClass: r.investorClass, kycExpiry: r.kycExpiry })),
+            ));
+        }
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return records;
+        }
+
+        const receipts = await client.identity.register(records, args.batch);
+        receipts.forEach(receipt => printReceipt(receipt, facet.interface));
+        return records;
+    });
+
+task("identity:status", "Prints the KYC identity of an investor")
+    .addParam("account", "Investor address")
+    .addOptionalParam("app", "App diamond address")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const { InvestorClass } = await import("../sdk");
+        const identity = await client.identity.identity(args.account);
+
+        const summary = {
+            country: identity.country || "not registered",
+            investorClass: InvestorClass[identity.investorClass],
+            kycExpiry: identity.kycExpiry === 0n ? "never" : new Date(Number(identity.kycExpiry) * 1000).toISOString(),
+            kycValid: await client.identity.isKycValid(args.account),
+            blacklisted: await client.compliance.isBlacklisted(args.account),
+        };
+
+        printSummary(`Investor ${args.account}`, summary);
+        return summary;
+    });
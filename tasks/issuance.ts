@@ -0,0 +1,114 @@
+import { task, types } from "hardhat/config";
+import type { IssuanceRoundConfig } from "../sdk";
+import { connectClient, dryRun, printReceipt, printSummary } from "./helpers";
+
+task("issuance:create", "Opens a primary issuance round for an asset")
+    .addParam("asset", "Asset id", undefined, types.bigint)
+    .addParam("hardCap", "Maximum number of tokens sold", undefined, types.bigint)
+    .addParam("duration", "Length of the sale window in seconds", undefined, types.bigint)
+    .addOptionalParam("softCap", "Tokens to sell for the round to succeed, the hard cap by default", undefined, types.bigint)
+    .addOptionalParam("price", "Token price in USDT, the asset price by default", undefined, types.bigint)
+    .addOptionalParam("start", "Unix time the window opens, the latest block time by default", undefined, types.bigint)
+    .addOptionalParam("min", "Minimum tokens per investor", 0n, types.bigint)
+    .addOptionalParam("max", "Maximum tokens per investor, 0 for no limit", 0n, types.bigint)
+    .addFlag("whitelistOnly", "Only whitelisted addresses can buy")
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.issuance.facet;
+        const startTime: bigint = args.start ?? BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+
+        const config: IssuanceRoundConfig = {
+            assetId: args.asset,
+            tokenPrice: args.price ?? (await client.assets.get(args.asset)).tokenPrice,
+            startTime,
+            endTime: startTime + args.duration,
+            softCap: args.softCap ?? args.hardCap,
+            hardCap: args.hardCap,
+            minPerInvestor: args.min,
+            maxPerInvestor: args.max,
+            whitelistOnly: args.whitelistOnly,
+        };
+
+        printSummary("Create issuance round", { ...config });
+        await dryRun(() => facet.createIssuanceRound.staticCall(config));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const { roundId, receipt } = await client.issuance.create(config);
+        printReceipt(receipt, facet.interface);
+        return roundId;
+    });
+
+task("issuance:status", "Prints the terms, progress and state of an issuance round")
+    .addParam("round", "Round id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const { IssuanceState } = await import("../sdk");
+        const round = await client.issuance.round(args.round);
+
+        const summary = {
+            ...round,
+            state: IssuanceState[round.state],
+            start: new Date(Number(round.startTime) * 1000).toISOString(),
+            end: new Date(Number(round.endTime) * 1000).toISOString(),
+            softCapReached: round.tokensSold >= round.softCap,
+        };
+
+        printSummary(`Issuance round ${round.roundId}`, summary);
+        return summary;
+    });
+
+task("issuance:finalize", "Settles an issuance round once its window closed or its hard cap sold out")
+    .addParam("round", "Round id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.issuance.facet;
+        const round = await client.issuance.round(args.round);
+
+        printSummary("Finalize issuance round", {
+            round: args.round,
+            tokensSold: round.tokensSold,
+            softCap: round.softCap,
+            outcome: round.tokensSold >= round.softCap ? "escrow paid to the issuer as tokens are claimed" : "investors refunded",
+        });
+        await dryRun(() => facet.finalizeIssuanceRound.staticCall(args.round));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.issuance.finalize(args.round);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
+
+task("issuance:cancel", "Cancels an issuance round, every investor can claim a refund")
+    .addParam("round", "Round id", undefined, types.bigint)
+    .addOptionalParam("app", "App diamond address")
+    .addFlag("dryRun", "Only simulate the transaction")
+    .setAction(async (args, hre) => {
+        const client = await connectClient(hre, args.app);
+        const facet = client.issuance.facet;
+        const round = await client.issuance.round(args.round);
+
+        printSummary("Cancel issuance round", { round: args.round, tokensSold: round.tokensSold, escrow: round.raised + round.fees });
+        await dryRun(() => facet.cancelIssuanceRound.staticCall(args.round));
+
+        if (args.dryRun) {
+            console.log("Dry run succeeded, nothing sent");
+            return undefined;
+        }
+
+        const receipt = await client.issuance.cancel(args.round);
+        printReceipt(receipt, facet.interface);
+        return receipt;
+    });
@@ -0,0 +1,59 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+    LAYOUT_BASELINE_PATH,
+    LAYOUT_HARNESS,
+    LayoutSnapshot,
+    SolcStorageLayout,
+    compareLayouts,
+    extractLayout,
+    loadBaseline,
+    saveBaseline,
+} from "../scripts/deployment/storageLayout";
+
+/**
+ * Reads the `AppStorage.Layout` storage layout of the current sources from the build
+ * info of the layout harness.
+ */
+async function currentLayout(hre: HardhatRuntimeEnvironment): Promise<LayoutSnapshot> {
+    await hre.run("compile", { quiet: true });
+
+    const buildInfo = await hre.artifacts.getBuildInfo(LAYOUT_HARNESS);
+    const [file, name] = LAYOUT_HARNESS.split(":");
+    const layout = (buildInfo?.output.contracts[file]?.[name] as any)?.storageLayout as SolcStorageLayout | undefined;
+
+    if (!layout) {
+        throw new Error(`No storage layout for ${LAYOUT_HARNESS}, check outputSelection in hardhat.config.ts`);
+    }
+    return extractLayout(layout);
+}
+
+task("storage:check", "Fails if AppStorage.Layout changed other than by appending members")
+    .addOptionalParam("baseline", "Baseline file", LAYOUT_BASELINE_PATH)
+    .addFlag("update", "Write the current layout as the new baseline")
+    .setAction(async (args, hre) => {
+        const current = await currentLayout(hre);
+        const baseline = loadBaseline(args.baseline);
+
+        if (baseline === undefined && !args.update) {
+            throw new Error(`No baseline at ${args.baseline}, create it with --update`);
+        }
+
+        const issues = baseline ? compareLayouts(baseline, current) : [];
+
+        if (args.update) {
+            if (issues.length > 0) {
+                console.log(`Overwriting a baseline the current layout is incompatible with:\n  ${issues.map(i => i.message).join("\n  ")}`);
+            }
+            saveBaseline(current, args.baseline);
+            console.log(`Storage layout baseline written to ${args.baseline}`);
+            return [];
+        }
+
+        if (issues.length > 0) {
+            throw new Error(`Storage layout is incompatible with ${args.baseline}:\n  ${issues.map(i => i.message).join("\n  ")}`);
+        }
+
+        console.log(`Storage layout of ${current.root} matches ${args.baseline}`);
+        return issues;
+    });
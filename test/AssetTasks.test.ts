@@ -0,0 +1,89 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+
+describe("Asset Tasks Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+
+    let fixture: AppFixture;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+    });
+
+    it("  1  --------------> Should create an asset from a metadata file and print its info", async function () {
+
+        const metadata = join(mkdtempSync(join(tmpdir(), "rwa-tasks-")), "asset.json");
+        writeFileSync(metadata, JSON.stringify({ ...params, ASSET_ID: 77, NAME: "Villa", SYMBOL: "VL" }));
+
+        await hre.run("asset:create", { metadata, app: fixture.appAddress, dryRun: true });
+        const missing = await hre.run("asset:info", { asset: 77n, app: fixture.appAddress }).catch((e: Error) => e);
+        expect(missing.message).to.contain("Asset does not exist");
+
+        const receipt = await hre.run("asset:create", { metadata, app: fixture.appAddress, price: 2500n });
+        expect(receipt.status).to.equal(1);
+
+        const info = await hre.run("asset:info", { asset: 77n, app: fixture.appAddress });
+        expect(info).to.include({
+            asset: 77n,
+            name: "Villa",
+            symbol: "VL",
+            totalTokens: BigInt(params.TOTALTOKENS),
+            tokenPrice: 2500n,
+            tokenLowerLimit: BigInt(params.TOKENLOWERLIMIT),
+            paused: false,
+        });
+    });
+
+    it("  2  --------------> Should stop at the dry run when the transaction would revert", async function () {
+
+        const metadata = join(mkdtempSync(join(tmpdir(), "rwa-tasks-")), "asset.json");
+        writeFileSync(metadata, JSON.stringify({ ...params, NAME: "Otel", SYMBOL: "OT" }));
+
+        const error = await hre.run("asset:create", { metadata, app: fixture.appAddress }).catch((e: Error) => e);
+        expect(error.message).to.contain("Dry run failed: Asset already exists");
+
+        const holder = fixture.holders[1];
+        const redeem = await hre.run("asset:redeem", {
+            asset: ASSET_ID,
+            account: holder.address,
+            amount: 5n,
+            app: fixture.appAddress,
+        }).catch((e: Error) => e);
+        expect(redeem.message).to.contain("Dry run failed");
+        expect(await fixture.rwaTokenization.getTotalTokens(ASSET_ID)).to.equal(params.TOTALTOKENS);
+    });
+
+    it("  3  --------------> Should update settings, pause and redeem through the tasks", async function () {
+
+        const app = fixture.appAddress;
+        const holder = fixture.holders[1];
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, holder, ASSET_ID, 20, "0x");
+
+        await hre.run("asset:update-price", { asset: ASSET_ID, price: 1200n, app });
+        await hre.run("asset:lower-limit", { asset: ASSET_ID, limit: 3n, app });
+        await hre.run("asset:profit-period", { asset: ASSET_ID, days: 30n, app });
+        await hre.run("asset:pause", { asset: ASSET_ID, app });
+        expect(await fixture.assetToken.paused()).to.equal(true);
+        await hre.run("asset:unpause", { asset: ASSET_ID, app });
+
+        await hre.run("asset:redeem", { asset: ASSET_ID, account: holder.address, amount: 5n, app });
+
+        const info = await hre.run("asset:info", { asset: ASSET_ID, app });
+        expect(info).to.include({
+            tokenPrice: 1200n,
+            tokenLowerLimit: 3n,
+            profitPeriod: 30n,
+            paused: false,
+            totalTokens: BigInt(params.TOTALTOKENS) - 5n,
+        });
+        expect(await fixture.assetToken.balanceOf(holder, ASSET_ID)).to.equal(15);
+    });
+});
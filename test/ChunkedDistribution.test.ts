@@ -0,0 +1,204 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { ProfitDistributionTooSoonError, RwaClient } from "../sdk";
+import {
+    DEFAULT_CHUNK_GAS_BUDGET,
+    DistributionBatch,
+    DistributionJournal,
+    calculateDistribution,
+    submitDistribution,
+    takeHolderSnapshot,
+} from "../services/distribution";
+
+describe("Chunked Distribution Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const REVENUE = hre.ethers.parseEther("900");
+
+    let fixture: AppFixture;
+    let client: RwaClient;
+    let journalPath: string;
+    let batch: DistributionBatch;
+
+    /**
+     * Gives holders[1..9] between 10 and 50 asset tokens and builds a batch for them.
+     */
+    async function distributionFixture() {
+        const base = await deployAppFixture();
+
+        for (let i = 1; i < base.holders.length; i++) {
+            await base.assetToken.connect(base.owner).safeTransferFrom(base.owner, base.holders[i], ASSET_ID, 5 + i * 5, "0x");
+        }
+
+        const snapshot = await takeHolderSnapshot(hre.ethers.provider, base.appAddress, ASSET_ID);
+        return { base, batch: calculateDistribution(snapshot, REVENUE, { exclude: [base.owner.address] }) };
+    }
+
+    beforeEach(async function () {
+        const loaded = await loadFixture(distributionFixture);
+        fixture = loaded.base;
+        batch = loaded.batch;
+        client = new RwaClient(fixture.appAddress, fixture.owner);
+        journalPath = join(mkdtempSync(join(tmpdir(), "rwa-journal-")), "journal.json");
+    });
+
+    const readJournal = (): DistributionJournal => JSON.parse(readFileSync(journalPath, "utf8"));
+
+    /**
+     * Checks that every holder of the batch was credited exactly its entry once.
+     */
+    async function expectCreditedOnce() {
+        for (const entry of batch.entries) {
+            expect(await client.profits.pending(ASSET_ID, entry.holder)).to.equal(entry.profitAmount);
+        }
+    }
+
+    it("  1  --------------> Should submit the batch in chunks and do nothing when run again", async function () {
+
+        const result = await submitDistribution(client, batch, { journalPath, chunkSize: 4 });
+
+        expect(batch.entries.length).to.equal(9);
+        expect(result.complete).to.equal(true);
+        expect(result.chunksSent).to.equal(3);
+        expect(result.journal.chunks.map(c => c.status)).to.deep.equal(["confirmed", "confirmed", "confirmed"]);
+        await expectCreditedOnce();
+        expect(await fixture.assetToken.paused()).to.equal(false);
+
+        const blockBefore = await hre.ethers.provider.getBlockNumber();
+        const again = await submitDistribution(client, batch, { journalPath, chunkSize: 4 });
+
+        expect(again.chunksSent).to.equal(0);
+        expect(await hre.ethers.provider.getBlockNumber()).to.equal(blockBefore);
+        await expectCreditedOnce();
+    });
+
+    it("  2  --------------> Should resume an interrupted submission without re-crediting", async function () {
+
+        const first = await submitDistribution(client, batch, { journalPath, chunkSize: 2, maxChunks: 2 });
+
+        expect(first.complete).to.equal(false);
+        expect(first.journal.chunks.filter(c => c.status === "confirmed").length).to.equal(2);
+        expect(await fixture.assetToken.paused()).to.equal(true);
+
+        const second = await submitDistribution(client, batch, { journalPath, chunkSize: 2 });
+
+        expect(second.complete).to.equal(true);
+        expect(second.chunksSent).to.equal(3);
+        await expectCreditedOnce();
+    });
+
+    it("  3  --------------> Should find a chunk that landed before its tx hash was journaled", async function () {
+
+        await submitDistribution(client, batch, { journalPath, chunkSize: 5, maxChunks: 0 });
+
+        // Simulate a crash right after the first chunk was broadcast
+        const journal = readJournal();
+        const chunk = journal.chunks[0];
+        const nonce = await hre.ethers.provider.getTransactionCount(fixture.owner.address, "pending");
+        const profits = batch.entries.slice(chunk.start, chunk.end).map(e => ({ holder: e.holder, profitAmount: e.profitAmount }));
+        await client.profits.facet.distributeProfit(ASSET_ID, profits, { nonce });
+
+        chunk.status = "sent";
+        chunk.nonce = nonce;
+        writeFileSync(journalPath, JSON.stringify(journal));
+
+        const result = await submitDistribution(client, batch, { journalPath, chunkSize: 5 });
+
+        expect(result.chunksSent).to.equal(1);
+        expect(result.journal.chunks[0].txHash).to.not.equal(undefined);
+        await expectCreditedOnce();
+    });
+
+    it("  4  --------------> Should send a chunk again when its transaction was dropped", async function () {
+
+        await submitDistribution(client, batch, { journalPath, chunkSize: 5, maxChunks: 0 });
+
+        const journal = readJournal();
+        journal.chunks[0].status = "sent";
+        journal.chunks[0].nonce = await hre.ethers.provider.getTransactionCount(fixture.owner.address, "pending");
+        journal.chunks[0].txHash = hre.ethers.id("dropped transaction");
+        writeFileSync(journalPath, JSON.stringify(journal));
+
+        const result = await submitDistribution(client, batch, { journalPath, chunkSize: 5 });
+
+        expect(result.chunksSent).to.equal(2);
+        expect(result.journal.chunks[0].txHash).to.not.equal(hre.ethers.id("dropped transaction"));
+        await expectCreditedOnce();
+    });
+
+    it("  5  --------------> Should keep the nonce of a chunk whose send failed after its transaction was mined", async function () {
+
+        await submitDistribution(client, batch, { journalPath, chunkSize: 5, maxChunks: 0 });
+
+        // The transaction is mined, then the send reports the nonce as used
+        const facet = client.profits.facet;
+        const distributeProfit = facet.distributeProfit;
+        Object.assign(facet, {
+            distributeProfit: async (...args: Parameters<typeof distributeProfit>) => {
+                await distributeProfit(...args);
+                throw new Error("nonce too low");
+            },
+        });
+        const error = await submitDistribution(client, batch, { journalPath, chunkSize: 5 }).catch(e => e);
+        delete (facet as { distributeProfit?: unknown }).distributeProfit;
+
+        expect(error.message).to.contain("nonce too low");
+        const [chunk] = readJournal().chunks;
+        expect(chunk).to.include({ status: "sent", nonce: await hre.ethers.provider.getTransactionCount(fixture.owner.address) - 1 });
+        expect(chunk.txHash).to.equal(undefined);
+
+        const result = await submitDistribution(client, batch, { journalPath, chunkSize: 5 });
+
+        expect(result.chunksSent).to.equal(1);
+        expect(result.journal.chunks.map(c => c.status)).to.deep.equal(["confirmed", "confirmed"]);
+        await expectCreditedOnce();
+    });
+
+    it("  6  --------------> Should respect the profit period window", async function () {
+
+        await submitDistribution(client, batch, { journalPath, chunkSize: 5 });
+
+        const nextSnapshot = await takeHolderSnapshot(hre.ethers.provider, fixture.appAddress, ASSET_ID);
+        const next = calculateDistribution(nextSnapshot, REVENUE, { exclude: [fixture.owner.address] });
+        const nextJournal = join(mkdtempSync(join(tmpdir(), "rwa-journal-")), "journal.json");
+
+        const error = await submitDistribution(client, next, { journalPath: nextJournal, chunkSize: 5 }).catch(e => e);
+        expect(error).to.be.instanceOf(ProfitDistributionTooSoonError);
+        expect(await fixture.assetToken.paused()).to.equal(false);
+
+        // Sizing chunks by gas estimates distributeProfit, the window is checked first
+        const sized = await submitDistribution(client, next, { journalPath: nextJournal, gasBudget: DEFAULT_CHUNK_GAS_BUDGET }).catch(e => e);
+        expect(sized).to.be.instanceOf(ProfitDistributionTooSoonError);
+        expect(existsSync(nextJournal)).to.equal(false);
+
+        await time.increase((params.TOKENPROFITPERIOD * 86400 * 90) / 100);
+        await submitDistribution(client, next, { journalPath: nextJournal, chunkSize: 5 });
+
+        for (const entry of next.entries) {
+            expect(await client.profits.pending(ASSET_ID, entry.holder)).to.equal(entry.profitAmount * 2n);
+        }
+    });
+
+    it("  7  --------------> Should size chunks to the gas budget", async function () {
+
+        const gasBudget = 150000n;
+        const result = await submitDistribution(client, batch, { journalPath, gasBudget });
+
+        log('INFO', `gas budget ${gasBudget}: ${result.journal.chunks.length} chunks`);
+        expect(result.journal.chunks.length).to.be.greaterThan(1);
+
+        for (const chunk of result.journal.chunks) {
+            const receipt = await hre.ethers.provider.getTransactionReceipt(chunk.txHash!);
+            expect(receipt!.gasUsed).to.be.lessThanOrEqual(gasBudget);
+        }
+        await expectCreditedOnce();
+    });
+});
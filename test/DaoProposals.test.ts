@@ -0,0 +1,199 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { existsSync, mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { GovernanceError, ProposalAction, ProposalState, RwaClient, UnauthorizedError } from "../sdk";
+import { runDeployment } from "../scripts/deployment/engine";
+import { RWA_MANIFEST } from "../scripts/deployment/manifest";
+import { statePath } from "../scripts/deployment/state";
+
+describe("DAO Proposals Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const DURATION = 3600n;
+    const DELAY = 2n * 24n * 3600n;
+    // 0.01% of the FEXSE supply is 270,000 FEXSE, two of the voters below reach it
+    const QUORUM = 1n;
+    const VOTES = hre.ethers.parseEther("201000");
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+
+        const fexse = await fixture.fexse.getAddress();
+        await admin.dao.delegate(fexse);
+        for (const i of [1, 2, 3]) {
+            await fixture.fexse.transfer(fixture.holders[i], VOTES - hre.ethers.parseEther("1000"));
+            await admin.connect(fixture.holders[i]).dao.delegate(fexse);
+        }
+    });
+
+    async function propose(proposalId: bigint, actions: ProposalAction[]) {
+        await admin.dao.createProposal({
+            proposalId,
+            governanceToken: await fixture.fexse.getAddress(),
+            duration: DURATION,
+            minimumQuorum: QUORUM,
+            description: `Proposal ${proposalId}`,
+            actions,
+        });
+    }
+
+    async function vote(proposalId: bigint, voters: number[], support: boolean = true) {
+        for (const i of voters) {
+            await admin.connect(fixture.holders[i]).dao.vote(proposalId, support);
+        }
+    }
+
+    /**
+     * Votes the proposal through, waits for the end of the voting period and queues it.
+     */
+    async function pass(proposalId: bigint) {
+        await vote(proposalId, [1, 2]);
+        await time.increase(DURATION + 1n);
+        await admin.dao.queue(proposalId);
+    }
+
+    it("  1  --------------> Should execute the voted actions after the timelock", async function () {
+
+        const { rwaDAO, rwaTokenization, profitModule } = fixture;
+        const actions = admin.dao.builder()
+            .updateAsset(ASSET_ID, 1234n)
+            .updateProfitPeriod(ASSET_ID, 7n * 24n * 3600n)
+            .build();
+        expect(actions.map(a => a.target)).to.deep.equal([fixture.appAddress, fixture.appAddress]);
+
+        await propose(1n, actions);
+        expect(await admin.dao.state(1n)).to.equal(ProposalState.ACTIVE);
+        await vote(1n, [1, 2]);
+        expect(((await admin.dao.queue(1n).catch(e => e)) as GovernanceError).reason).to.equal("Voting period not ended");
+
+        await time.increase(DURATION + 1n);
+        expect(await admin.dao.state(1n)).to.equal(ProposalState.SUCCEEDED);
+        await expect(rwaDAO.queueProposal(1n)).to.emit(rwaDAO, "ProposalQueued");
+        expect(await admin.dao.state(1n)).to.equal(ProposalState.QUEUED);
+        expect(((await admin.dao.execute(1n).catch(e => e)) as GovernanceError).reason).to.equal("Timelock not expired");
+
+        // Anyone executes once the delay has elapsed
+        await time.increase(DELAY);
+        const tx = rwaDAO.connect(fixture.holders[3]).executeProposal(1n);
+        await expect(tx).to.emit(rwaDAO, "ProposalExecuted").withArgs(1n, true);
+        await expect(tx).to.emit(rwaTokenization, "AssetUpdated").withArgs(ASSET_ID, 1234n);
+        await expect(tx).to.emit(profitModule, "AssetProfitPeriodUpdated").withArgs(ASSET_ID, 7n * 24n * 3600n);
+
+        expect((await admin.assets.get(ASSET_ID)).tokenPrice).to.equal(1234n);
+        expect((await admin.dao.actions(1n)).map(a => a.succeeded)).to.deep.equal([true, true]);
+        expect(await admin.dao.state(1n)).to.equal(ProposalState.EXECUTED);
+        expect(((await admin.dao.execute(1n).catch(e => e)) as GovernanceError).reason).to.equal("Proposal already executed");
+    });
+
+    it("  2  --------------> Should record the result of each action and cut the diamond once allowed", async function () {
+
+        const { rwaDAO, app } = fixture;
+        const selector = rwaDAO.interface.getFunction("updateGovernanceToken").selector;
+        const cut = { target: hre.ethers.ZeroAddress, action: 2, selectors: [selector] };
+
+        // The App only holds ADMIN_ROLE on itself, the missing asset and the cut fail
+        await propose(1n, admin.dao.builder().updateAsset(ASSET_ID + 1n, 1n).pauseAsset(ASSET_ID).diamondCut([cut]).build());
+        await pass(1n);
+        await time.increase(DELAY);
+        const receipt = await admin.dao.execute(1n);
+
+        const results = receipt.logs.map(l => rwaDAO.interface.parseLog(l)).filter(e => e?.name === "ProposalActionExecuted");
+        expect(results.map(e => e!.args.success)).to.deep.equal([false, true, false]);
+        expect(rwaDAO.interface.parseError(results[0]!.args.returnData)!.args[0]).to.equal("Asset does not exist");
+        expect(app.interface.parseError(results[2]!.args.returnData)!.name).to.equal("AccessControlUnauthorizedAccount");
+        expect((await admin.dao.actions(1n)).map(a => a.succeeded)).to.deep.equal([false, true, false]);
+        expect(await fixture.assetToken.paused()).to.equal(true);
+
+        await app.grantRole(await app.DEFAULT_ADMIN_ROLE(), fixture.appAddress);
+        await propose(2n, admin.dao.builder().diamondCut([cut]).build());
+        await pass(2n);
+        await time.increase(DELAY);
+        await expect(rwaDAO.executeProposal(2n)).to.emit(rwaDAO, "ProposalExecuted").withArgs(2n, true);
+        expect(await app.facetAddress(selector)).to.equal(hre.ethers.ZeroAddress);
+        log('INFO', `Selector ${selector} removed by proposal 2`);
+    });
+
+    it("  3  --------------> Should let the proposer or a guardian cancel and reject defeated proposals", async function () {
+
+        const { rwaDAO } = fixture;
+        const actions = admin.dao.builder().updateAsset(ASSET_ID, 1n).build();
+        // The deployment grants GUARDIAN_ROLE to the GUARDIAN network param
+        const guardian = fixture.holders[4];
+        expect(await fixture.app.hasRole(hre.ethers.id("GUARDIAN_ROLE"), guardian.address)).to.equal(true);
+
+        await propose(1n, actions);
+        const stranger = admin.connect(fixture.holders[3]);
+        expect(await stranger.dao.cancel(1n).catch(e => e)).to.be.instanceOf(UnauthorizedError);
+        await expect(rwaDAO.cancelProposal(1n)).to.emit(rwaDAO, "ProposalCancelled").withArgs(1n, fixture.owner.address);
+        expect(((await admin.connect(fixture.holders[1]).dao.vote(1n, true).catch(e => e)) as GovernanceError).reason).to.equal("Proposal is cancelled");
+
+        // A guardian stops a queued proposal before its execution
+        await admin.dao.updateTimelockDelay(600n);
+        expect(await admin.dao.timelockDelay()).to.equal(600n);
+        await propose(2n, actions);
+        await pass(2n);
+        expect((await admin.dao.getProposal(2n)).forVotes).to.equal(2n * VOTES);
+        await admin.connect(guardian).dao.cancel(2n);
+        await time.increase(600n);
+        expect(await admin.dao.state(2n)).to.equal(ProposalState.CANCELLED);
+        expect(((await admin.dao.execute(2n).catch(e => e)) as GovernanceError).reason).to.equal("Proposal is cancelled");
+
+        // Below the quorum, then above it with more votes against
+        await propose(3n, actions);
+        await propose(4n, actions);
+        await vote(3n, [1]);
+        await vote(4n, [1, 2]);
+        await vote(4n, [0], false);
+        await time.increase(DURATION + 1n);
+        expect(((await admin.dao.queue(3n).catch(e => e)) as GovernanceError).reason).to.equal("Minimum quorum not reached");
+        expect(((await admin.dao.queue(4n).catch(e => e)) as GovernanceError).reason).to.equal("Proposal was defeated");
+        expect(await admin.dao.state(4n)).to.equal(ProposalState.DEFEATED);
+        expect((await admin.assets.get(ASSET_ID)).tokenPrice).to.equal(BigInt(params.TOKENPRICE));
+    });
+
+    it("  4  --------------> Should only move the deadline of an existing proposal still open for voting", async function () {
+
+        const reason = async (promise: Promise<unknown>) => ((await promise.catch(e => e)) as GovernanceError).reason;
+        const actions = admin.dao.builder().updateAsset(ASSET_ID, 1n).build();
+        expect(await reason(admin.dao.updateProposalDuration(1n, BigInt(await time.latest()) + DURATION))).to.equal("Proposal does not exist");
+        expect(await reason(admin.dao.updateMinimumQuorum(1n, QUORUM))).to.equal("Proposal does not exist");
+
+        await propose(1n, actions);
+        const deadline = BigInt(await time.latest()) + 2n * DURATION;
+        await admin.dao.updateProposalDuration(1n, deadline);
+        expect((await admin.dao.getProposal(1n)).deadline).to.equal(deadline);
+
+        // A passed proposal is not reopened for voting
+        await vote(1n, [1, 2]);
+        await time.increaseTo(deadline + 1n);
+        expect(await reason(admin.dao.updateProposalDuration(1n, deadline + DURATION))).to.equal("Voting period ended");
+        expect(await admin.dao.state(1n)).to.equal(ProposalState.SUCCEEDED);
+    });
+
+    it("  5  --------------> Should refuse to deploy the DAO without a guardian before deploying anything", async function () {
+
+        const stateDir = mkdtempSync(join(tmpdir(), "rwa-dao-deploy-"));
+        const error = await runDeployment(RWA_MANIFEST, {
+            network: "hardhat",
+            signer: fixture.owner,
+            params: { USDT_ADDRESS: await fixture.usdt.getAddress() },
+            optIn: ["RWA_DAO"],
+            confirmations: 1,
+            stateDir,
+        }).catch(e => e);
+
+        expect((error as Error).message).to.equal("Missing network params: GUARDIAN (RWA_DAO)");
+        expect(existsSync(statePath("hardhat", stateDir))).to.equal(false);
+    });
+});
@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { RwaClient } from "../sdk";
+
+describe("DAO Tasks Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const DURATION = 3600n;
+    // 0.01% of the FEXSE supply is 270,000 FEXSE
+    const VOTES = hre.ethers.parseEther("300000");
+
+    let fixture: AppFixture;
+    let fexse: string;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        fexse = await fixture.fexse.getAddress();
+    });
+
+    const address = (i: number) => fixture.holders[i].address;
+
+    function actionsFile(entries: unknown[]): string {
+        const path = join(mkdtempSync(join(tmpdir(), "rwa-dao-")), "actions.json");
+        writeFileSync(path, JSON.stringify(entries));
+        return path;
+    }
+
+    async function propose(id: bigint, actions?: string) {
+        return hre.run("dao:propose", {
+            id,
+            token: fexse,
+            duration: DURATION,
+            quorum: 1n,
+            description: `Proposal ${id}`,
+            actions,
+            app: fixture.appAddress,
+        });
+    }
+
+    it("  1  --------------> Should propose from an actions file, vote and report the status", async function () {
+
+        const { rwaDAO, profitModule } = fixture;
+        await fixture.fexse.transfer(address(1), VOTES);
+        await hre.run("dao:delegate", { token: fexse, from: address(1), app: fixture.appAddress });
+        await hre.run("dao:delegate", { token: fexse, from: address(2), app: fixture.appAddress });
+
+        const data = profitModule.interface.encodeFunctionData("pauseAsset", [ASSET_ID]);
+        const actions = actionsFile([{ method: "updateAsset", args: [ASSET_ID.toString(), 1500] }, { data }]);
+        await propose(1n, actions);
+        expect((await rwaDAO.getProposalActions(1n))[0].map(a => a.data)).to.deep.equal([
+            fixture.rwaTokenization.interface.encodeFunctionData("updateAsset", [ASSET_ID, 1500n]),
+            data,
+        ]);
+
+        await hre.run("dao:vote", { id: 1n, from: address(1), app: fixture.appAddress });
+        await hre.run("dao:vote", { id: 1n, from: address(2), against: true, app: fixture.appAddress });
+        const own = VOTES + hre.ethers.parseEther("1000");
+
+        const status = await hre.run("dao:status", { id: 1n, app: fixture.appAddress });
+        expect(status).to.include({
+            state: "ACTIVE",
+            votingWeight: "GOVERNANCE_TOKEN",
+            forVotes: own,
+            againstVotes: hre.ethers.parseEther("1000"),
+            quorum: `${own} / ${hre.ethers.parseEther("270000")} (111.4%)`,
+            quorumReached: true,
+            voters: 2,
+        });
+        expect(status.timeRemaining).to.match(/^5\dm \d+s$/);
+        expect(status.votes.map((v: { voter: string, support: boolean }) => [v.voter, v.support])).to.deep.equal([
+            [address(1), true],
+            [address(2), false],
+        ]);
+        log('INFO', `Proposal 1 status: ${status.quorum}, ${status.timeRemaining} left`);
+    });
+
+    it("  2  --------------> Should move the deadline and quorum, then queue and execute", async function () {
+
+        await fixture.fexse.transfer(address(1), VOTES);
+        await hre.run("dao:delegate", { token: fexse, from: address(1), app: fixture.appAddress });
+        await propose(1n, actionsFile([{ method: "updateAsset", args: [ASSET_ID.toString(), 1750] }]));
+
+        const now = BigInt(await time.latest());
+        await hre.run("dao:update-duration", { id: 1n, duration: 2n * 86400n, app: fixture.appAddress });
+        expect((await fixture.rwaDAO.getProposal(1n)).deadline).to.equal(now + 2n * 86400n);
+
+        // 2 bps is 540,000 FEXSE, out of reach of the single voter
+        await hre.run("dao:update-quorum", { id: 1n, quorum: 2n, app: fixture.appAddress });
+        await hre.run("dao:vote", { id: 1n, from: address(1), app: fixture.appAddress });
+        expect((await hre.run("dao:status", { id: 1n, app: fixture.appAddress })).quorumReached).to.equal(false);
+        await hre.run("dao:update-quorum", { id: 1n, quorum: 1n, app: fixture.appAddress });
+
+        await time.increase(2n * 86400n + 1n);
+        await hre.run("dao:queue", { id: 1n, app: fixture.appAddress });
+        const queued = await hre.run("dao:status", { id: 1n, app: fixture.appAddress });
+        expect(queued).to.include({ state: "QUEUED", timeRemaining: "voting ended", executableIn: "2d 0h 0m 0s" });
+
+        await time.increase(await fixture.rwaDAO.getTimelockDelay());
+        const results = await hre.run("dao:execute", { id: 1n, app: fixture.appAddress });
+        expect(results.map((r: { succeeded: boolean }) => r.succeeded)).to.deep.equal([true]);
+        expect((await hre.run("dao:status", { id: 1n, app: fixture.appAddress })).state).to.equal("EXECUTED");
+        expect((await new RwaClient(fixture.appAddress, fixture.owner).assets.get(ASSET_ID)).tokenPrice).to.equal(1750n);
+    });
+
+    it("  3  --------------> Should stop at the dry run or on invalid arguments", async function () {
+
+        const app = fixture.appAddress;
+        const both = await hre.run("dao:propose", { id: 1n, token: fexse, asset: ASSET_ID, duration: DURATION, quorum: 1n, description: "", app })
+            .catch((e: Error) => e);
+        expect(both.message).to.equal("Pass either --token or --asset");
+        const unknown = await propose(1n, actionsFile([{ method: "mintEverything", args: [] }])).catch((e: Error) => e);
+        expect(unknown.message).to.equal("No facet declares mintEverything");
+
+        // Nothing is sent by a dry run
+        await hre.run("dao:propose", { id: 1n, asset: ASSET_ID, duration: DURATION, quorum: 5000n, description: "", app, dryRun: true });
+        expect((await fixture.rwaDAO.getProposal(1n)).id).to.equal(0n);
+
+        await hre.run("dao:propose", { id: 1n, asset: ASSET_ID, duration: DURATION, quorum: 5000n, description: "Asset vote", app });
+        const vote = await hre.run("dao:vote", { id: 1n, from: address(1), app }).catch((e: Error) => e);
+        expect(vote.message).to.contain("Dry run failed: Not a governance token holder");
+        await hre.run("dao:vote", { id: 1n, app, dryRun: true });
+        expect(await fixture.rwaDAO.hasVoted(1n, fixture.owner.address)).to.equal(false);
+
+        const { deadline } = await fixture.rwaDAO.getProposal(1n);
+        await hre.run("dao:update-duration", { id: 1n, duration: 2n * DURATION, app, dryRun: true });
+        expect((await fixture.rwaDAO.getProposal(1n)).deadline).to.equal(deadline);
+
+        await time.increase(DURATION + 1n);
+        const execute = await hre.run("dao:execute", { id: 1n, app }).catch((e: Error) => e);
+        expect(execute.message).to.contain("Dry run failed: Proposal is not queued");
+    });
+});
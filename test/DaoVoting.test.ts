@@ -0,0 +1,140 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { GovernanceError, ProposalState, RwaClient, VotingWeight } from "../sdk";
+
+describe("DAO Voting Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const DURATION = 3600n;
+    const VOTES = hre.ethers.parseEther("300000");
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+    let fexse: string;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+        fexse = await fixture.fexse.getAddress();
+    });
+
+    const address = (i: number) => fixture.holders[i].address;
+    const client = (i: number) => admin.connect(fixture.holders[i]);
+
+    async function propose(proposalId: bigint, minimumQuorum: bigint = 1n) {
+        await admin.dao.createProposal({
+            proposalId,
+            governanceToken: fexse,
+            duration: DURATION,
+            minimumQuorum,
+            description: `Proposal ${proposalId}`,
+        });
+    }
+
+    async function reason(promise: Promise<unknown>): Promise<string> {
+        return ((await promise.catch(e => e)) as GovernanceError).reason;
+    }
+
+    it("  1  --------------> Should not let the same tokens vote twice from a second wallet", async function () {
+
+        const { rwaDAO, fexse: token } = fixture;
+        for (const i of [1, 2]) {
+            await token.transfer(address(i), VOTES);
+            await client(i).dao.delegate(fexse);
+        }
+        await propose(1n);
+        const own = VOTES + hre.ethers.parseEther("1000");
+
+        await expect(rwaDAO.connect(fixture.holders[1]).vote(1n, true))
+            .to.emit(rwaDAO, "Voted").withArgs(1n, address(1), true, own);
+        expect(await reason(client(1).dao.vote(1n, true))).to.equal("Already voted");
+
+        // The tokens moved after the snapshot keep their weight with the first wallet
+        await token.connect(fixture.holders[1]).transfer(address(2), own);
+        expect(await admin.dao.votingPower(1n, address(2))).to.equal(own);
+        await client(2).dao.vote(1n, true);
+
+        await token.connect(fixture.holders[2]).transfer(address(3), 2n * own);
+        await client(3).dao.delegate(fexse);
+        expect(await reason(client(3).dao.vote(1n, true))).to.equal("Not a governance token holder");
+
+        expect((await admin.dao.getProposal(1n)).forVotes).to.equal(2n * own);
+        expect(await admin.dao.hasVoted(1n, address(1))).to.equal(true);
+        expect(await admin.dao.hasVoted(1n, address(3))).to.equal(false);
+    });
+
+    it("  2  --------------> Should count delegated votes and a quorum of the past total supply", async function () {
+
+        const { fexse: token } = fixture;
+        await token.transfer(address(1), VOTES);
+        await token.transfer(address(2), VOTES);
+        await client(1).dao.delegate(fexse, address(2));
+        await client(2).dao.delegate(fexse);
+
+        // 0.02% of the 2.7 billion FEXSE at the snapshot
+        await propose(1n, 2n);
+        const supply = await token.totalSupply();
+        const voting = await admin.dao.voting(1n);
+        expect(voting).to.deep.equal({
+            snapshot: BigInt(await hre.ethers.provider.getBlockNumber()) - 1n,
+            votingWeight: VotingWeight.GOVERNANCE_TOKEN,
+            assetId: 0n,
+            quorumVotes: supply * 2n / 10000n,
+        });
+
+        // A holder who delegated away, or never delegated, has no vote
+        expect(await reason(client(1).dao.vote(1n, true))).to.equal("Not a governance token holder");
+        expect(await admin.dao.votingPower(1n, address(4))).to.equal(0n);
+        await client(2).dao.vote(1n, true);
+        expect((await admin.dao.getProposal(1n)).forVotes).to.equal(2n * VOTES + hre.ethers.parseEther("2000"));
+        expect(await reason(admin.dao.updateGovernanceToken(1n, fexse))).to.equal("Votes already cast");
+
+        // Burning after the snapshot does not lower the quorum
+        await token.burn(supply / 2n);
+        expect((await admin.dao.voting(1n)).quorumVotes).to.equal(voting.quorumVotes);
+        await time.increase(DURATION + 1n);
+        expect(await admin.dao.state(1n)).to.equal(ProposalState.SUCCEEDED);
+
+        await expect(admin.dao.createProposal({ proposalId: 2n, governanceToken: fexse, duration: DURATION, minimumQuorum: 10001n, description: "" }))
+            .to.be.rejectedWith(GovernanceError, "Invalid quorum");
+        expect(await reason(admin.dao.updateMinimumQuorum(1n, 10001n))).to.equal("Invalid quorum");
+    });
+
+    it("  3  --------------> Should weight asset proposals by the asset token balances at the snapshot", async function () {
+
+        const { rwaDAO, assetToken, owner } = fixture;
+        await assetToken.safeTransferFrom(owner, address(1), ASSET_ID, 300, "0x");
+        await assetToken.safeTransferFrom(owner, address(2), ASSET_ID, 100, "0x");
+
+        // 40% of the 700 tokens of the asset
+        const actions = admin.dao.builder().updateAsset(ASSET_ID, 2000n).build();
+        await admin.dao.createAssetProposal({ proposalId: 1n, assetId: ASSET_ID, duration: DURATION, minimumQuorum: 4000n, description: "Raise price", actions });
+        const voting = await admin.dao.voting(1n);
+        expect([voting.votingWeight, voting.assetId, voting.quorumVotes]).to.deep.equal([VotingWeight.ASSET_HOLDINGS, ASSET_ID, 280n]);
+        expect((await admin.dao.getProposal(1n)).governanceToken).to.equal(await assetToken.getAddress());
+
+        await expect(rwaDAO.connect(fixture.holders[1]).vote(1n, true))
+            .to.emit(rwaDAO, "Voted").withArgs(1n, address(1), true, 300n);
+        await assetToken.connect(fixture.holders[1]).safeTransferFrom(address(1), address(3), ASSET_ID, 300, "0x");
+        expect(await reason(client(3).dao.vote(1n, false))).to.equal("Not a governance token holder");
+        await client(2).dao.vote(1n, false);
+
+        expect(await assetToken.getPastBalance(address(1), ASSET_ID, voting.snapshot)).to.equal(300n);
+        expect(await assetToken.balanceOf(address(1), ASSET_ID)).to.equal(0n);
+        expect(await reason(admin.dao.updateGovernanceToken(1n, fexse))).to.equal("Asset proposals vote with the asset token");
+        await expect(admin.dao.createAssetProposal({ proposalId: 2n, assetId: ASSET_ID + 1n, duration: DURATION, minimumQuorum: 1n, description: "" }))
+            .to.be.rejectedWith("Asset does not exist");
+
+        await time.increase(DURATION + 1n);
+        await admin.dao.queue(1n);
+        await time.increase(await admin.dao.timelockDelay());
+        await admin.dao.execute(1n);
+        expect((await admin.assets.get(ASSET_ID)).tokenPrice).to.equal(2000n);
+        log('INFO', `Asset proposal passed with 300 of ${voting.quorumVotes} required votes`);
+    });
+});
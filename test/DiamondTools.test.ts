@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { FacetCutAction, FacetInfo, findCollisions, planModuleUpgrade, readFacets } from "../services/diamond";
+
+describe("Diamond Tools Test", function () {
+
+    this.timeout(200000);
+
+    let fixture: AppFixture;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+    });
+
+    it("  1  --------------> Should match the on-chain selector table against the artifacts", async function () {
+
+        const result = await hre.run("diamond:inspect", { state: fixture.deploymentPath });
+
+        const installed = Object.values(fixture.deployment.modules).filter(m => m.installed).length;
+        expect(result.facets).to.have.length(installed + 1);
+        for (const module of result.diff.modules) {
+            expect(module, module.name).to.deep.include({ missing: [], unexpected: [], misrouted: [] });
+        }
+        expect(result.diff.unknownFacets).to.deep.equal([]);
+        expect(result.collisions).to.deep.equal([]);
+    });
+
+    it("  2  --------------> Should plan and simulate a ProfitModule upgrade as a pure REPLACE", async function () {
+
+        const oldFacet = fixture.deployment.modules.ProfitModule.address!;
+        const result = await hre.run("diamond:plan", { module: "ProfitModule", state: fixture.deploymentPath });
+        log('INFO', `ProfitModule moved from ${oldFacet} to ${result.newFacet}`);
+
+        expect(result.plan.cuts).to.have.length(1);
+        expect(result.plan.cuts[0]).to.include({ target: result.newFacet, action: FacetCutAction.REPLACE });
+        expect(result.report.after.find((f: FacetInfo) => f.target === oldFacet)).to.equal(undefined);
+
+        // The diamond keeps serving the module through the new facet
+        expect(await fixture.profitModule.getTokenLowerLimit(params.ASSET_ID)).to.equal(params.TOKENLOWERLIMIT);
+        const facets = await readFacets(fixture.owner, fixture.appAddress);
+        expect(facets.find(f => f.target === result.newFacet)!.selectors).to.have.members(result.plan.cuts[0].selectors);
+    });
+
+    it("  3  --------------> Should add new selectors, remove dropped ones and report conflicts", async function () {
+
+        const app = fixture.appAddress;
+        const facets: FacetInfo[] = [
+            { target: app, selectors: ["0x01000000"] },
+            { target: "0x000000000000000000000000000000000000000A", selectors: ["0x0a000001", "0x0a000002"] },
+            { target: "0x000000000000000000000000000000000000000b", selectors: ["0x0b000001"] },
+        ];
+        const next = "0x000000000000000000000000000000000000000C";
+
+        const plan = planModuleUpgrade(facets, app, facets[1].target, next, ["0x0a000001", "0x0c000001", "0x0b000001", "0x01000000"]);
+
+        expect(plan.cuts).to.deep.equal([
+            { target: next, action: FacetCutAction.ADD, selectors: ["0x0c000001"] },
+            { target: next, action: FacetCutAction.REPLACE, selectors: ["0x0a000001"] },
+            { target: hre.ethers.ZeroAddress, action: FacetCutAction.REMOVE, selectors: ["0x0a000002"] },
+        ]);
+        expect(plan.conflicts).to.deep.equal([
+            { selector: "0x0b000001", owner: facets[2].target, reason: "owned_by_other_facet" },
+            { selector: "0x01000000", owner: app, reason: "immutable" },
+        ]);
+
+        expect(findCollisions([
+            { name: "A", selectors: ["0x0a000001", "0x0c000001"] },
+            { name: "C", selectors: ["0x0c000001"] },
+        ])).to.deep.equal([{ selector: "0x0c000001", modules: ["A", "C"] }]);
+    });
+});
@@ -0,0 +1,130 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { BlacklistedError, FeeConfigurationError, RwaClient, UnauthorizedError, quoteBuyTokens, quoteTransferAsset } from "../sdk";
+
+describe("Fee Module Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const PRICE = 1000000n;
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+    let treasury: HardhatEthersSigner;
+    let usdt: string;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+        treasury = fixture.holders[5];
+        usdt = await fixture.usdt.getAddress();
+        await fixture.app.grantRole(hre.ethers.id("PAYMENT_MANAGER_ROLE"), fixture.owner.address);
+        // Keeps the gas fee below the charging threshold, see GasFee.test.ts
+        await admin.marketplace.setGasFeeCap(usdt, 1n);
+    });
+
+    it("  1  --------------> Should resolve asset, currency and default rates and restrict changes to payment managers", async function () {
+
+        const fexse = await fixture.fexse.getAddress();
+        expect(await admin.fees.rate(ASSET_ID, usdt)).to.equal(50n);
+
+        await expect(fixture.feeModule.setFeeRate(0, usdt, 30))
+            .to.emit(fixture.feeModule, "FeeRateUpdated").withArgs(0, usdt, 30);
+        await admin.fees.setRate(ASSET_ID, usdt, 0n);
+
+        expect(await admin.fees.rate(ASSET_ID, usdt)).to.equal(0n);
+        expect(await admin.fees.rate(ASSET_ID, fexse)).to.equal(50n);
+        expect(await admin.fees.rate(ASSET_ID + 1n, usdt)).to.equal(30n);
+
+        await admin.fees.clearRate(ASSET_ID, usdt);
+        expect(await admin.fees.rate(ASSET_ID, usdt)).to.equal(30n);
+
+        const tooHigh = await admin.fees.setRate(0n, usdt, 1001n).catch(e => e);
+        expect(tooHigh).to.be.instanceOf(FeeConfigurationError);
+        expect((tooHigh as FeeConfigurationError).reason).to.equal("Fee rate too high");
+        await expect(fixture.feeModule.setFeeRate(ASSET_ID + 1n, usdt, 10)).to.be.revertedWith("Asset does not exist");
+
+        // ADMIN_ROLE alone does not manage fees
+        const stranger = admin.connect(fixture.buyer);
+        await fixture.app.grantRole(hre.ethers.id("ADMIN_ROLE"), fixture.buyer.address);
+        for (const call of [stranger.fees.setRate(0n, usdt, 10n), stranger.fees.setTreasury(treasury.address)]) {
+            expect(await call.catch(e => e)).to.be.instanceOf(UnauthorizedError);
+        }
+    });
+
+    it("  2  --------------> Should pay trade proceeds to the payout address and both fees to the treasury", async function () {
+
+        const { usdt: token, buyer, appAddress, assetToken } = fixture;
+        const seller = fixture.holders[1];
+        const payout = fixture.holders[2];
+        await assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, seller, ASSET_ID, 10, "0x");
+
+        await admin.fees.setRate(ASSET_ID, usdt, 120n);
+        await admin.fees.setTreasury(treasury.address);
+        await admin.connect(seller).fees.setPayoutAddress(payout.address);
+        expect(await admin.fees.payoutAddress(seller.address)).to.equal(payout.address);
+
+        const settlement = { orderId: 7, seller: seller.address, buyer: buyer.address, assetId: ASSET_ID, tokenAmount: 4n, tokenPrice: PRICE, saleCurrency: usdt };
+        const quote = admin.marketplace.quote(settlement, 0n, 120n);
+        expect(quote.serviceFee).to.equal(48000n);
+
+        const accounts = [buyer.address, seller.address, payout.address, treasury.address, appAddress];
+        const before = await Promise.all(accounts.map(a => token.balanceOf(a)));
+
+        const receipt = await admin.marketplace.transferAsset(settlement);
+        const after = await Promise.all(accounts.map(a => token.balanceOf(a)));
+        expect(after.map((b, i) => b - before[i])).to.deep.equal([-quote.buyerPays, 0n, quote.sellerReceives, quote.appReceives, 0n]);
+
+        const collected = receipt.logs.map(l => fixture.feeModule.interface.parseLog(l)).find(e => e?.name === "FeeCollected");
+        expect(collected!.args.toArray()).to.deep.equal([ASSET_ID, usdt, buyer.address, treasury.address, 96000n]);
+
+        // Without a treasury the App keeps the fees again, a seller can stop the redirect
+        await admin.fees.setTreasury(hre.ethers.ZeroAddress);
+        await admin.connect(seller).fees.setPayoutAddress(hre.ethers.ZeroAddress);
+        const appBefore = await token.balanceOf(appAddress);
+        await admin.marketplace.transferAsset({ ...settlement, orderId: 8 });
+        expect(await token.balanceOf(appAddress) - appBefore).to.equal(quote.appReceives);
+
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), fixture.owner.address);
+        await admin.compliance.blacklist(payout.address);
+        expect(await admin.connect(seller).fees.setPayoutAddress(payout.address).catch(e => e)).to.be.instanceOf(BlacklistedError);
+    });
+
+    it("  3  --------------> Should charge primary sales at the currency rate and report the collected fees", async function () {
+
+        const { salesModule, buyer, owner, usdt: token, marketPlace } = fixture;
+        const fromBlock = await hre.ethers.provider.getBlockNumber();
+        const issuerPayout = fixture.holders[3];
+
+        await admin.fees.setRate(0n, usdt, 200n);
+        await admin.fees.setTreasury(treasury.address);
+        await admin.fees.setPayoutAddress(issuerPayout.address);
+
+        const quote = await admin.connect(buyer).sales.quote(ASSET_ID, 6n, usdt);
+        expect(quote).to.deep.equal(quoteBuyTokens(BigInt(params.TOKENPRICE), 6n, "USDT", undefined, 200n));
+
+        const accounts = [buyer.address, owner.address, issuerPayout.address, treasury.address];
+        const before = await Promise.all(accounts.map(a => token.balanceOf(a)));
+        await expect(salesModule.connect(buyer).buyTokens(ASSET_ID, 6, usdt))
+            .to.emit(salesModule, "FeeCollected").withArgs(ASSET_ID, usdt, buyer.address, treasury.address, quote.serviceFee);
+        const after = await Promise.all(accounts.map(a => token.balanceOf(a)));
+        expect(after.map((b, i) => b - before[i])).to.deep.equal([-quote.buyerPays, 0n, quote.cost, quote.serviceFee]);
+
+        // A trade of the same asset adds to the report
+        const seller = fixture.holders[1];
+        await fixture.assetToken.connect(owner).safeTransferFrom(owner, seller, ASSET_ID, 5, "0x");
+        await marketPlace.transferAsset(1, seller, buyer, ASSET_ID, 5, PRICE, usdt);
+        const trade = quoteTransferAsset(5n, PRICE, 0n, 200n);
+
+        const report = await admin.fees.report({ fromBlock, assetId: ASSET_ID });
+        log('INFO', `Fees collected: ${report.records.map(r => `${r.amount} to ${r.recipient}`).join(", ")}`);
+        expect(report.records.map(r => r.amount)).to.deep.equal([quote.serviceFee, 2n * trade.serviceFee]);
+        expect(report.totals.get(usdt)).to.equal(quote.serviceFee + 2n * trade.serviceFee);
+        expect((await admin.fees.report({ fromBlock, currency: await fixture.fexse.getAddress() })).records).to.deep.equal([]);
+    });
+});
@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, setNextBlockBaseFeePerGas } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { ContractTransactionReceipt } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { log } from './logger';
+import { AppFixture, USDT_ETH_PRICE, deployAppFixture, params } from "./fixtures";
+import { IERC20 } from "../typechain-types";
+import { InsufficientAllowanceError, InvalidSaleCurrencyError, RwaClient, quoteTransferAsset, usdtToFexse } from "../sdk";
+
+describe("Gas Fee Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const TOKEN_AMOUNT = 5n;
+    const GWEI = 10n ** 9n;
+
+    let fixture: AppFixture;
+    let seller: HardhatEthersSigner;
+    let orderId = 0;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        seller = fixture.holders[1];
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, seller, ASSET_ID, 50, "0x");
+    });
+
+    interface Settlement {
+        gasPrice: bigint;
+        // Gas measured by transferAsset, from GasFeeCharged, zero when no gas fee was charged
+        gasUsed: bigint;
+        // Gas fee of the GasFeeCharged event, zero when none was emitted
+        gasFee: bigint;
+        buyerPaid: bigint;
+        appReceived: bigint;
+    }
+
+    /**
+     * Sends a legacy transferAsset transaction at `gasPrice` and reports what the buyer
+     * paid and the App received. The base fee is lowered first so any gas price is valid.
+     */
+    async function settle(token: IERC20, tokenPrice: bigint, gasPrice: bigint): Promise<Settlement> {
+        const { marketPlace, buyer, appAddress } = fixture;
+        const buyerBefore = await token.balanceOf(buyer);
+        const appBefore = await token.balanceOf(appAddress);
+
+        await setNextBlockBaseFeePerGas(1);
+        const tx = await marketPlace.transferAsset(orderId++, seller, buyer, ASSET_ID, TOKEN_AMOUNT, tokenPrice, token, { gasPrice, type: 0 });
+        const receipt = (await tx.wait()) as ContractTransactionReceipt;
+        expect(receipt.gasPrice).to.equal(gasPrice);
+
+        const charged = receipt.logs
+            .map(l => marketPlace.interface.parseLog(l))
+            .find(e => e?.name === "GasFeeCharged");
+
+        return {
+            gasPrice,
+            gasUsed: charged ? charged.args.gasUsed : 0n,
+            gasFee: charged ? charged.args.gasFee : 0n,
+            buyerPaid: buyerBefore - await token.balanceOf(buyer),
+            appReceived: await token.balanceOf(appAddress) - appBefore,
+        };
+    }
+
+    const usdtGasFee = (gasPrice: bigint, gasUsed: bigint) => (gasPrice * gasUsed * 10n ** 6n) / USDT_ETH_PRICE;
+
+    it("  1  --------------> Should charge the exact USDT gas cost once it reaches 30% of the service fee", async function () {
+
+        const tokenPrice = 1000000n;
+        // 5 USDT trade: 25,000 fee, gas fees below 7,500 are waived
+        const base = quoteTransferAsset(TOKEN_AMOUNT, tokenPrice);
+
+        const waived = await settle(fixture.usdt, tokenPrice, GWEI / 1000n);
+        expect(waived).to.include({ gasFee: 0n, buyerPaid: base.buyerPays, appReceived: base.appReceives });
+
+        for (const gasPrice of [GWEI, 3n * GWEI, 25n * GWEI]) {
+            const settlement = await settle(fixture.usdt, tokenPrice, gasPrice);
+            const quote = quoteTransferAsset(TOKEN_AMOUNT, tokenPrice, settlement.gasFee);
+            log('INFO', `${gasPrice} wei/gas: ${settlement.gasUsed} gas, ${settlement.gasFee} USDT units`);
+
+            expect(settlement.gasUsed).to.be.greaterThan(0n);
+            expect(settlement.gasFee).to.equal(usdtGasFee(gasPrice, settlement.gasUsed));
+            expect(settlement.buyerPaid).to.equal(quote.buyerPays);
+            expect(settlement.appReceived).to.equal(2n * base.serviceFee + settlement.gasFee);
+        }
+    });
+
+    it("  2  --------------> Should convert the gas fee to FEXSE at the oracle price", async function () {
+
+        const fexse = fixture.fexse as unknown as IERC20;
+        const tokenPrice = 10n ** 18n;
+        const base = quoteTransferAsset(TOKEN_AMOUNT, tokenPrice);
+
+        for (const fexsePrice of [45000n, 60000n]) {
+            await fixture.priceFetcher.setFexsePriceBounds(fexsePrice, 0);
+            const settlement = await settle(fexse, tokenPrice, 2n * GWEI);
+            log('INFO', `FEXSE at ${fexsePrice}: ${settlement.gasFee} FEXSE units for ${settlement.gasUsed} gas`);
+
+            expect(settlement.gasFee).to.equal(usdtToFexse(usdtGasFee(2n * GWEI, settlement.gasUsed), fexsePrice));
+            expect(settlement.buyerPaid).to.equal(base.buyerPays + settlement.gasFee);
+            expect(settlement.appReceived).to.equal(2n * base.serviceFee + settlement.gasFee);
+        }
+    });
+
+    it("  3  --------------> Should cap the gas fee per sale currency and let only admins set the cap", async function () {
+
+        const { marketPlace, usdt, buyer, appAddress } = fixture;
+        const tokenPrice = 1000000n;
+        const cap = 100000n;
+
+        await expect(marketPlace.setGasFeeCap(usdt, cap))
+            .to.emit(marketPlace, "GasFeeCapUpdated").withArgs(await usdt.getAddress(), cap);
+        expect(await marketPlace.getGasFeeCap(usdt)).to.equal(cap);
+
+        const capped = await settle(usdt, tokenPrice, 50n * GWEI);
+        expect(usdtGasFee(50n * GWEI, capped.gasUsed)).to.be.greaterThan(cap);
+        expect(capped).to.include({ gasFee: cap, appReceived: 2n * 25000n + cap });
+
+        // Below the cap the measured fee is charged unchanged
+        const uncapped = await settle(usdt, tokenPrice, GWEI / 10n);
+        expect(uncapped.gasFee).to.equal(usdtGasFee(GWEI / 10n, uncapped.gasUsed));
+
+        // The SDK requires the buyer to cover the cap before sending
+        const admin = new RwaClient(appAddress, fixture.owner);
+        const quote = quoteTransferAsset(TOKEN_AMOUNT, tokenPrice, cap);
+        await usdt.connect(buyer).approve(appAddress, quote.buyer.allowance - 1n);
+        const error = await admin.marketplace.transferAsset({
+            orderId: orderId++, seller: seller.address, buyer: buyer.address, assetId: ASSET_ID,
+            tokenAmount: TOKEN_AMOUNT, tokenPrice, saleCurrency: await usdt.getAddress(),
+        }).catch(e => e);
+        expect(error).to.be.instanceOf(InsufficientAllowanceError);
+
+        const stranger = admin.connect(buyer);
+        await expect(marketPlace.connect(buyer).setGasFeeCap(usdt, 0n)).to.be.reverted;
+        const invalid = await admin.marketplace.setGasFeeCap(await fixture.weth.getAddress(), cap).catch(e => e);
+        expect(invalid).to.be.instanceOf(InvalidSaleCurrencyError);
+        expect(await stranger.marketplace.gasFeeCap(await usdt.getAddress())).to.equal(cap);
+
+        await admin.marketplace.setGasFeeCap(await usdt.getAddress(), 0n);
+        expect(await admin.marketplace.gasFeeCap(await usdt.getAddress())).to.equal(0n);
+    });
+
+    it("  4  --------------> Should require the buyer to cover the gas fee and name the sale currency", async function () {
+
+        const { marketPlace, usdt, buyer, appAddress } = fixture;
+        const fexse = fixture.fexse as unknown as IERC20;
+        const base = quoteTransferAsset(TOKEN_AMOUNT, 1000000n);
+
+        // Uncapped, the measured gas fee is checked before it is pulled
+        await usdt.connect(buyer).approve(appAddress, base.buyer.allowance);
+        await setNextBlockBaseFeePerGas(1);
+        await expect(marketPlace.transferAsset(orderId++, seller, buyer, ASSET_ID, TOKEN_AMOUNT, 1000000n, usdt, { gasPrice: 25n * GWEI, type: 0 }))
+            .to.be.revertedWith("USDT allowance too low");
+
+        // Capped, the cap is checked before anything moves
+        const cap = 10n ** 16n;
+        await marketPlace.setGasFeeCap(fexse, cap);
+        const quote = quoteTransferAsset(TOKEN_AMOUNT, 10n ** 18n, cap);
+        await fexse.connect(buyer).approve(appAddress, quote.buyer.allowance - 1n);
+        await expect(marketPlace.transferAsset(orderId++, seller, buyer, ASSET_ID, TOKEN_AMOUNT, 10n ** 18n, fexse))
+            .to.be.revertedWith("FEXSE allowance too low");
+
+        await fexse.connect(buyer).approve(appAddress, quote.buyer.allowance);
+        await expect(marketPlace.transferAsset(orderId++, seller, buyer, ASSET_ID, TOKEN_AMOUNT, 10n ** 18n, fexse)).to.not.be.reverted;
+    });
+});
@@ -0,0 +1,190 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { parseKycCsv } from "../services/onboarding";
+import {
+    BlacklistedError,
+    IdentityError,
+    InvestorClass,
+    RwaClient,
+    TransferRestrictedError,
+    TransferRestrictionCode,
+    TransferRestrictionMode,
+    UnauthorizedError,
+} from "../sdk";
+
+describe("Identity Registry Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const YEAR = 365n * 24n * 3600n;
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), fixture.owner.address);
+    });
+
+    const address = (i: number) => fixture.holders[i].address;
+
+    const transfer = (from: number, to: number, amount: number = 1) =>
+        fixture.assetToken.connect(fixture.holders[from]).safeTransferFrom(fixture.holders[from], fixture.holders[to], ASSET_ID, amount, "0x");
+
+    async function register(i: number, country: string, investorClass: InvestorClass, kycExpiry: bigint = 0n) {
+        await admin.identity.register([{ account: address(i), country, investorClass, kycExpiry }]);
+    }
+
+    it("  1  --------------> Should onboard the investors of a KYC provider CSV in batches", async function () {
+
+        const dir = mkdtempSync(join(tmpdir(), "kyc-"));
+        const csv = (rows: string[]) => {
+            const file = join(dir, `kyc-${rows.length}.csv`);
+            writeFileSync(file, ["Address,Country,Class,Expiry,Provider Ref", ...rows].join("\n") + "\n");
+            return file;
+        };
+
+        const rejected = parseKycCsv(["address,country,class,expiry", `${address(1)},USA,retail,`, `${address(2)},de,pro,`, `0x12,DE,retail,`, `${address(3)},FR,retail,soon`, `${address(3).toLowerCase()},FR,retail,`, `${address(3)},FR,retail,`].join("\n"));
+        expect(rejected.errors).to.deep.equal([
+            { line: 2, message: `invalid country "USA"` },
+            { line: 3, message: `unknown class "pro"` },
+            { line: 4, message: "invalid address" },
+            { line: 5, message: `invalid expiry "soon"` },
+            { line: 7, message: `duplicate address ${address(3)}` },
+        ]);
+        expect(rejected.records.map(r => r.account)).to.deep.equal([address(3)]);
+        expect(parseKycCsv("address,country\n").errors).to.deep.equal([{ line: 1, message: "missing columns: class, expiry" }]);
+
+        // Quoted cells may hold commas, datetimes without an offset are UTC
+        const quoted = parseKycCsv([`address,"Name, Surname",country,class,expiry`, `${address(4)},"Doe, Jane",DE,retail,2030-01-01T00:00:00`, `${address(5)},"Bo ""B"", Li",FR,retail,"2030-01-01 12:00"`, `${address(6)},"Roe,FR,retail,`].join("\n"));
+        expect(quoted.errors).to.deep.equal([{ line: 4, message: "unterminated quoted cell" }]);
+        expect(quoted.records.map(r => [r.country, r.kycExpiry])).to.deep.equal([["DE", 1893456000n], ["FR", 1893456000n + 43200n]]);
+        await expect(hre.run("identity:onboard", { file: csv([`${address(1)},USA,retail,`]), batch: 100, app: fixture.appAddress }))
+            .to.be.rejectedWith(`line 2: invalid country "USA"`);
+
+        const file = csv([
+            `${address(1)},de,Retail,2030-01-01,A-1`,
+            `${address(2)},CH,accredited,,A-2`,
+            `${address(3)},US,institutional,1893456000,A-3`,
+        ]);
+        await hre.run("identity:onboard", { file, batch: 100, app: fixture.appAddress, dryRun: true });
+        expect((await admin.identity.identity(address(1))).country).to.equal("");
+
+        const records = await hre.run("identity:onboard", { file, batch: 2, app: fixture.appAddress });
+        const updates = await fixture.identityRegistry.queryFilter(fixture.identityRegistry.filters.InvestorIdentityUpdated());
+        expect(updates.map(e => e.blockNumber).filter((b, i, all) => all.indexOf(b) === i)).to.have.length(2);
+
+        expect(await admin.identity.identity(address(1))).to.deep.equal({ country: "DE", investorClass: InvestorClass.RETAIL, kycExpiry: 1893456000n });
+        expect(await admin.identity.identity(address(2))).to.deep.equal({ country: "CH", investorClass: InvestorClass.ACCREDITED, kycExpiry: 0n });
+        expect((await admin.identity.identity(address(3))).kycExpiry).to.equal(1893456000n);
+        for (const i of [1, 2, 3]) {
+            expect(await admin.identity.isKycValid(address(i))).to.equal(true);
+            await admin.compliance.checkTransfer(address(i), address(i % 3 + 1));
+        }
+
+        const status = await hre.run("identity:status", { account: address(2), app: fixture.appAddress });
+        expect(status).to.deep.equal({ country: "CH", investorClass: "ACCREDITED", kycExpiry: "never", kycValid: true, blacklisted: false });
+        log('INFO', `Onboarded ${records.length} investors from ${file}`);
+    });
+
+    it("  2  --------------> Should enforce blocked countries, accredited-only, holder limits and KYC expiry", async function () {
+
+        const { identityRegistry, owner } = fixture;
+        await fixture.assetToken.connect(owner).safeTransferFrom(owner, fixture.holders[1], ASSET_ID, 50, "0x");
+        await register(1, "DE", InvestorClass.RETAIL);
+        await register(2, "US", InvestorClass.RETAIL);
+        await register(3, "CH", InvestorClass.ACCREDITED);
+
+        await expect(identityRegistry.setBlockedCountries(ASSET_ID, [hre.ethers.hexlify(hre.ethers.toUtf8Bytes("US"))], true))
+            .to.emit(identityRegistry, "CountryBlockUpdated");
+        expect(await admin.identity.isCountryBlocked(ASSET_ID, "US")).to.equal(true);
+        await expect(transfer(1, 2)).to.be.revertedWith("Recipient country is blocked");
+        await transfer(1, 3);
+
+        await admin.identity.setRules(ASSET_ID, { accreditedOnly: true, maxHolders: 0n });
+        await expect(transfer(1, 4)).to.be.revertedWith("Recipient is not accredited");
+        await admin.identity.setBlockedCountries(ASSET_ID, ["US"], false);
+        await register(2, "US", InvestorClass.INSTITUTIONAL);
+        await transfer(1, 2);
+
+        // Owner, holders 1, 2 and 3 hold the asset, the limit only stops new holders
+        expect(await admin.assets.holders(ASSET_ID)).to.have.length(4);
+        await admin.identity.setRules(ASSET_ID, { accreditedOnly: false, maxHolders: 4n });
+        expect(await admin.identity.rules(ASSET_ID)).to.deep.equal({ accreditedOnly: false, maxHolders: 4n });
+        await expect(transfer(1, 5)).to.be.revertedWith("Maximum holder count reached");
+        await transfer(1, 3);
+        await transfer(3, 1, 2);
+        await transfer(1, 5);
+
+        // Moving a whole balance to a new wallet keeps the holder count
+        await expect(transfer(1, 3)).to.be.revertedWith("Maximum holder count reached");
+        await transfer(2, 4);
+        expect(await admin.assets.holders(ASSET_ID)).to.have.length(4);
+
+        // An expired KYC stops receiving in both modes, selling stays possible
+        const expiry = BigInt(await time.latest()) + YEAR;
+        await register(6, "FR", InvestorClass.RETAIL, expiry);
+        await admin.identity.setRules(ASSET_ID, { accreditedOnly: false, maxHolders: 0n });
+        await transfer(1, 6, 3);
+        await time.increaseTo(expiry);
+
+        expect(await admin.identity.isKycValid(address(6))).to.equal(false);
+        expect(await admin.compliance.detectRestriction(ASSET_ID, address(1), address(6), 1n))
+            .to.deep.equal({ code: TransferRestrictionCode.RECIPIENT_KYC_EXPIRED, message: "Recipient KYC has expired" });
+        await expect(transfer(1, 6)).to.be.revertedWith("Recipient KYC has expired");
+        await admin.compliance.setRestrictionMode(ASSET_ID, TransferRestrictionMode.WHITELIST_REQUIRED);
+        await expect(transfer(1, 6)).to.be.revertedWith("Recipient KYC has expired");
+        await transfer(6, 1, 3);
+
+        // Open mode skips the asset rules as well
+        await admin.compliance.setRestrictionMode(ASSET_ID, TransferRestrictionMode.OPEN);
+        await admin.identity.setBlockedCountries(ASSET_ID, ["DE"], true);
+        await transfer(5, 1);
+    });
+
+    it("  3  --------------> Should remove identities and whitelist entries and reject invalid batches", async function () {
+
+        const { identityRegistry, compliance } = fixture;
+        await register(1, "DE", InvestorClass.RETAIL);
+
+        await expect(compliance.removeFromWhitelist(address(1)))
+            .to.emit(compliance, "AddressRemovedFromWhitelist").withArgs(address(1));
+        expect(await admin.compliance.removeFromWhitelist(address(1)).catch(e => e)).to.be.instanceOf(IdentityError);
+        expect((await admin.identity.identity(address(1))).country).to.equal("DE");
+
+        await expect(identityRegistry.removeInvestorIdentities([address(1)]))
+            .to.emit(identityRegistry, "InvestorIdentityRemoved").withArgs(address(1));
+        expect(await admin.identity.identity(address(1))).to.deep.equal({ country: "", investorClass: InvestorClass.NONE, kycExpiry: 0n });
+        const notRegistered = await admin.identity.remove([address(1)]).catch(e => e);
+        expect((notRegistered as IdentityError).reason).to.equal("Investor is not registered");
+
+        const identity = { country: "0x4445", investorClass: InvestorClass.RETAIL, kycExpiry: 0n };
+        await expect(identityRegistry.setInvestorIdentities([address(2), address(3)], [identity])).to.be.revertedWith("Array length mismatch");
+        await expect(identityRegistry.setInvestorIdentities([address(2)], [{ ...identity, country: "0x0000" }])).to.be.revertedWith("Invalid country code");
+        const lowerCase = await admin.identity.register([{ account: address(2), country: "de", investorClass: InvestorClass.RETAIL, kycExpiry: 0n }]).catch(e => e);
+        expect((lowerCase as Error).message).to.contain(`Invalid country code "de"`);
+
+        // A blacklisted address in the batch reverts the whole batch
+        await admin.compliance.blacklist(address(3));
+        const records = [2, 3].map(i => ({ account: address(i), country: "DE", investorClass: InvestorClass.RETAIL, kycExpiry: 0n }));
+        expect(await admin.identity.register(records).catch(e => e)).to.be.instanceOf(BlacklistedError);
+        expect((await admin.identity.identity(address(2))).country).to.equal("");
+
+        const stranger = admin.connect(fixture.holders[4]);
+        expect(await stranger.identity.register(records.slice(0, 1)).catch(e => e)).to.be.instanceOf(UnauthorizedError);
+        expect(await stranger.identity.setRules(ASSET_ID, { accreditedOnly: true, maxHolders: 0n }).catch(e => e)).to.be.instanceOf(UnauthorizedError);
+        expect(await admin.identity.setRules(ASSET_ID + 1n, { accreditedOnly: true, maxHolders: 0n }).catch(e => e.name)).to.equal("AssetNotFoundError");
+
+        // Whitelist revert strings map to TransferRestrictedError
+        await admin.compliance.whitelist(fixture.owner.address);
+        expect(await admin.compliance.checkTransfer(fixture.owner.address, address(1)).catch(e => e)).to.be.instanceOf(TransferRestrictedError);
+    });
+});
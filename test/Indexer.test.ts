@@ -0,0 +1,139 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, mine, takeSnapshot } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { RwaClient } from "../sdk";
+import { EventIndexer, IndexerDatabase } from "../services/indexer";
+
+describe("Event Indexer Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+    let db: IndexerDatabase;
+    let indexer: EventIndexer;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+        db = new IndexerDatabase(":memory:");
+        indexer = new EventIndexer(hre.ethers.provider, fixture.appAddress, db, { batchSize: 50 });
+    });
+
+    afterEach(function () {
+        db.close();
+    });
+
+    /**
+     * Reads the cap table of the asset from the chain, in the order of the indexer.
+     */
+    async function onChainCapTable() {
+        const holders = await admin.assets.holders(ASSET_ID);
+        const rows = await Promise.all(holders.map(async account => ({
+            account,
+            balance: await fixture.assetToken.balanceOf(account, ASSET_ID),
+        })));
+        return rows
+            .filter(r => r.balance > 0n)
+            .sort((a, b) => (a.balance === b.balance ? a.account.localeCompare(b.account) : (a.balance > b.balance ? -1 : 1)));
+    }
+
+    it("  1  --------------> Should backfill assets, installs and a cap table matching the chain", async function () {
+
+        const [h1, h2] = fixture.holders.slice(1, 3);
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, h1, ASSET_ID, 25, "0x");
+        await fixture.assetToken.connect(h1).safeTransferFrom(h1, h2, ASSET_ID, 5, "0x");
+
+        const result = await indexer.sync();
+        log('INFO', `Indexed blocks ${result.fromBlock}..${result.toBlock}, ${result.logs} events`);
+
+        expect(db.assets().map(a => a.assetId)).to.include(ASSET_ID);
+        expect(db.assets().find(a => a.assetId === ASSET_ID)!.tokenContract).to.equal(await fixture.assetToken.getAddress());
+
+        const capTable = db.capTable(ASSET_ID);
+        expect(capTable.map(({ account, balance }) => ({ account, balance }))).to.deep.equal(await onChainCapTable());
+        expect(capTable.find(e => e.account === h2.address)!.balance).to.equal(5n);
+        expect(capTable.reduce((sum, e) => sum + e.shareBps, 0n)).to.be.lte(10000n);
+    });
+
+    it("  2  --------------> Should record marketplace and primary trades of an asset", async function () {
+
+        const seller = fixture.holders[1];
+        const buyer = fixture.buyer;
+        const usdt = await fixture.usdt.getAddress();
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, seller, ASSET_ID, 10, "0x");
+
+        await admin.marketplace.transferAsset({
+            orderId: 7,
+            seller: seller.address,
+            buyer: buyer.address,
+            assetId: ASSET_ID,
+            tokenAmount: 4n,
+            tokenPrice: 1000000n,
+            saleCurrency: usdt,
+        });
+        await admin.connect(buyer).sales.buyTokens(ASSET_ID, 3n, usdt);
+
+        await indexer.sync();
+        const trades = db.tradeHistory(ASSET_ID);
+
+        expect(trades.map(t => t.kind)).to.deep.equal(["marketplace", "primary"]);
+        expect(trades[0]).to.include({ orderId: 7n, seller: seller.address, buyer: buyer.address, tokenAmount: 4n, saleCurrency: usdt });
+        expect(trades[1]).to.include({ buyer: buyer.address, tokenAmount: 3n, tokenPrice: (await admin.assets.get(ASSET_ID)).tokenPrice });
+        expect(trades[1].amount).to.equal(trades[1].tokenPrice! * 3n);
+        expect(trades[1].timestamp).to.be.gt(0);
+
+        expect(db.capTable(ASSET_ID).find(e => e.account === buyer.address)!.balance).to.equal(7n);
+    });
+
+    it("  3  --------------> Should index claims incrementally without duplicating rows", async function () {
+
+        const holder = fixture.holders[1];
+        const profitAmount = hre.ethers.parseEther("10");
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, holder, ASSET_ID, 10, "0x");
+        await admin.profits.distribute(ASSET_ID, [{ holder: holder.address, profitAmount }]);
+
+        const first = await indexer.sync();
+        expect(db.claimHistory(holder.address)).to.deep.equal([]);
+
+        await admin.connect(holder).profits.claim([ASSET_ID]);
+        const second = await indexer.sync();
+        expect(second.fromBlock).to.equal(first.toBlock + 1);
+
+        const claims = db.claimHistory(holder.address.toLowerCase());
+        expect(claims).to.have.length(1);
+        expect(claims[0]).to.deep.include({ assetIds: [ASSET_ID], totalAmount: profitAmount });
+
+        // Indexing an already indexed range again is a no-op
+        db.setCursor(first.toBlock - 5);
+        await indexer.sync();
+        expect(db.claimHistory(holder.address)).to.have.length(1);
+    });
+
+    it("  4  --------------> Should roll back blocks dropped by a reorg", async function () {
+
+        const [h1, h2] = fixture.holders.slice(1, 3);
+        const fork = await takeSnapshot();
+
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, h1, ASSET_ID, 40, "0x");
+        await indexer.sync();
+        expect(db.capTable(ASSET_ID).find(e => e.account === h1.address)!.balance).to.equal(40n);
+
+        // Replace the indexed block with a different chain of the same height and longer
+        await fork.restore();
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, h2, ASSET_ID, 15, "0x");
+        await mine(2);
+
+        const result = await indexer.sync();
+        log('INFO', `Reorg rolled back to block ${result.reorgedTo}`);
+
+        expect(result.reorgedTo).to.be.lt(result.fromBlock);
+        expect(db.capTable(ASSET_ID).find(e => e.account === h1.address)).to.equal(undefined);
+        expect(db.capTable(ASSET_ID).find(e => e.account === h2.address)!.balance).to.equal(15n);
+        expect(db.capTable(ASSET_ID).map(({ account, balance }) => ({ account, balance }))).to.deep.equal(await onChainCapTable());
+    });
+});
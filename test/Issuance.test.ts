@@ -0,0 +1,258 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { BlacklistedError, IssuanceError, IssuanceRoundConfig, InvestorClass, IssuanceState, RwaClient, TransferRestrictedError, TransferRestrictionMode } from "../sdk";
+
+describe("Issuance Round Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const PRICE = 1000000n;
+    const HOUR = 3600n;
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+    });
+
+    const investor = (i: number) => admin.connect(fixture.holders[i]);
+
+    async function createRound(overrides: Partial<IssuanceRoundConfig> = {}): Promise<bigint> {
+        const now = BigInt(await time.latest());
+        const { roundId } = await admin.issuance.create({
+            assetId: ASSET_ID,
+            tokenPrice: PRICE,
+            startTime: now,
+            endTime: now + HOUR,
+            softCap: 40n,
+            hardCap: 100n,
+            minPerInvestor: 0n,
+            maxPerInvestor: 0n,
+            whitelistOnly: false,
+            ...overrides,
+        });
+        return roundId;
+    }
+
+    async function expectIssuanceError(promise: Promise<unknown>, reason: string) {
+        const error = await promise.catch(e => e);
+        expect(error).to.be.instanceOf(IssuanceError);
+        expect((error as IssuanceError).reason).to.equal(reason);
+    }
+
+    it("  1  --------------> Should run a successful round through the tasks and pay the issuer as the tokens are claimed", async function () {
+
+        const { usdt, assetToken, owner, appAddress } = fixture;
+        const app = appAddress;
+        const start = BigInt(await time.latest()) + 600n;
+
+        const roundId = await hre.run("issuance:create", {
+            asset: ASSET_ID, hardCap: 100n, softCap: 40n, duration: HOUR, start, price: PRICE, min: 0n, max: 60n, whitelistOnly: false, app,
+        });
+        expect(roundId).to.equal(1n);
+        expect((await hre.run("issuance:status", { round: roundId, app })).state).to.equal("PENDING");
+        await expectIssuanceError(investor(1).issuance.buy(roundId, 10n), "Round is not active");
+
+        await time.increaseTo(start);
+        await investor(1).issuance.buy(roundId, 30n);
+        await investor(2).issuance.buy(roundId, 20n);
+        await expectIssuanceError(investor(1).issuance.buy(roundId, 31n), "Above maximum investment");
+
+        const quote = await admin.issuance.quote(roundId, 30n);
+        expect(await admin.issuance.purchase(roundId, fixture.holders[1].address)).to.deep.equal({ tokenAmount: 30n, paid: quote.buyerPays });
+        expect(await usdt.balanceOf(appAddress)).to.equal(50n * PRICE + (50n * PRICE * 5n) / 1000n);
+
+        const early = await hre.run("issuance:finalize", { round: roundId, app }).catch((e: Error) => e);
+        expect(early.message).to.contain("Dry run failed: Round is not ended");
+
+        await time.increaseTo(start + HOUR);
+        const status = await hre.run("issuance:status", { round: roundId, app });
+        expect(status).to.include({ state: "ENDED", tokensSold: 50n, raised: 50n * PRICE, softCapReached: true });
+
+        const ownerUsdt = await usdt.balanceOf(owner);
+        await hre.run("issuance:finalize", { round: roundId, app });
+        expect(await usdt.balanceOf(owner)).to.equal(ownerUsdt);
+
+        // The issuer settles the second investor's purchase without waiting for its claim
+        const ownerTokens = await assetToken.balanceOf(owner, ASSET_ID);
+        await investor(1).issuance.claim(roundId);
+        expect(await usdt.balanceOf(owner) - ownerUsdt).to.equal(quote.buyerPays);
+        await admin.issuance.settle(roundId, fixture.holders[2].address);
+        expect(await usdt.balanceOf(owner) - ownerUsdt).to.equal(status.raised + status.fees);
+        expect(await usdt.balanceOf(appAddress)).to.equal(0n);
+        expect(await assetToken.balanceOf(fixture.holders[1], ASSET_ID)).to.equal(30n);
+        expect(await assetToken.balanceOf(fixture.holders[2], ASSET_ID)).to.equal(20n);
+        expect(ownerTokens - await assetToken.balanceOf(owner, ASSET_ID)).to.equal(50n);
+        await expectIssuanceError(investor(1).issuance.claim(roundId), "Nothing to claim");
+
+        log('INFO', `Round ${roundId}: ${status.tokensSold} tokens sold for ${status.raised} USDT`);
+        expect((await hre.run("issuance:status", { round: roundId, app })).state).to.equal("SUCCEEDED");
+    });
+
+    it("  2  --------------> Should refund every investor of a failed or cancelled round", async function () {
+
+        const { usdt, issuanceModule } = fixture;
+        const failed = await createRound();
+        const cancelled = await createRound();
+        const balances = await Promise.all([1, 2].map(i => usdt.balanceOf(fixture.holders[i])));
+
+        await investor(1).issuance.buy(failed, 25n);
+        await investor(2).issuance.buy(failed, 10n);
+        await investor(1).issuance.buy(cancelled, 15n);
+
+        await hre.run("issuance:cancel", { round: cancelled, app: fixture.appAddress });
+        await expectIssuanceError(investor(2).issuance.buy(cancelled, 1n), "Round is not active");
+        await expectIssuanceError(admin.issuance.finalize(cancelled), "Round is not ended");
+
+        // 35 of the 40 token soft cap when the window closes
+        await time.increase(HOUR);
+        await expect(issuanceModule.finalizeIssuanceRound(failed))
+            .to.emit(issuanceModule, "IssuanceRoundFinalized").withArgs(failed, false, 35n, 35n * PRICE);
+        expect((await admin.issuance.round(failed)).state).to.equal(IssuanceState.FAILED);
+        await expectIssuanceError(admin.issuance.finalize(failed), "Round is not ended");
+
+        for (const [i, round] of [[1, failed], [2, failed], [1, cancelled]] as [number, bigint][]) {
+            const { paid } = await admin.issuance.purchase(round, fixture.holders[i].address);
+            await expect(issuanceModule.connect(fixture.holders[i]).claimIssuance(round))
+                .to.emit(issuanceModule, "IssuanceRefunded").withArgs(round, fixture.holders[i].address, paid);
+        }
+
+        expect(await Promise.all([1, 2].map(i => usdt.balanceOf(fixture.holders[i])))).to.deep.equal(balances);
+        expect(await usdt.balanceOf(fixture.appAddress)).to.equal(0n);
+        expect(await fixture.assetToken.balanceOf(fixture.holders[1], ASSET_ID)).to.equal(0n);
+    });
+
+    it("  3  --------------> Should enforce the whitelist, investor limits and caps, and end when sold out", async function () {
+
+        const { compliance, owner } = fixture;
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), owner.address);
+
+        await expectIssuanceError(createRound({ softCap: 101n }), "Soft cap exceeds hard cap");
+        await expectIssuanceError(createRound({ hardCap: BigInt(params.TOTALTOKENS) + 1n }), "Issuer does not hold the hard cap");
+        const open = await createRound();
+        const error = await investor(1).issuance.create(await admin.issuance.round(open)).catch(e => e);
+        expect((error as Error).name).to.equal("UnauthorizedError");
+
+        const roundId = await createRound({ whitelistOnly: true, softCap: 20n, hardCap: 20n, minPerInvestor: 5n, maxPerInvestor: 15n });
+        await expectIssuanceError(investor(1).issuance.buy(roundId, 10n), "Investor is not whitelisted");
+
+        await compliance.whitelistAddress(fixture.holders[1]);
+        await compliance.whitelistAddress(fixture.holders[2]);
+        await expectIssuanceError(investor(1).issuance.buy(roundId, 4n), "Below minimum investment");
+        await investor(1).issuance.buy(roundId, 5n);
+        await investor(1).issuance.buy(roundId, 2n);
+        await expectIssuanceError(investor(1).issuance.buy(roundId, 9n), "Above maximum investment");
+        await expectIssuanceError(investor(2).issuance.buy(roundId, 14n), "Hard cap exceeded");
+
+        await compliance.blacklistAddress(fixture.holders[3]);
+        expect(await investor(3).issuance.buy(open, 5n).catch(e => e)).to.be.instanceOf(BlacklistedError);
+
+        // Selling out the hard cap ends the round before its window closes
+        await investor(2).issuance.buy(roundId, 13n);
+        expect((await admin.issuance.round(roundId)).state).to.equal(IssuanceState.ENDED);
+        await investor(2).issuance.finalize(roundId);
+        await investor(2).issuance.claim(roundId);
+        expect(await fixture.assetToken.balanceOf(fixture.holders[2], ASSET_ID)).to.equal(13n);
+        await expectIssuanceError(admin.issuance.cancel(roundId), "Round already settled");
+    });
+
+    it("  4  --------------> Should reserve the hard cap so other rounds and sales cannot spend the tokens before a claim", async function () {
+
+        const { usdt, assetToken, owner } = fixture;
+        const currency = await usdt.getAddress();
+        const total = BigInt(params.TOTALTOKENS);
+        const roundId = await createRound();
+        expect(await admin.issuance.reserved(ASSET_ID)).to.equal(100n);
+
+        // A second round only gets the tokens outside the first one's reservation
+        await expectIssuanceError(createRound({ hardCap: total - 99n }), "Issuer does not hold the hard cap");
+        const cancelled = await createRound({ softCap: 0n, hardCap: total - 100n });
+        await admin.issuance.cancel(cancelled);
+        expect(await admin.issuance.reserved(ASSET_ID)).to.equal(100n);
+
+        // Direct sales can take the deployer down to the reservation, not below
+        await investor(1).issuance.buy(roundId, 60n);
+        await investor(2).sales.buyTokens(ASSET_ID, total - 100n, currency);
+        await expectIssuanceError(investor(2).sales.buyTokens(ASSET_ID, 1n, currency), "Tokens reserved for issuance");
+
+        // Finalizing releases the 40 unsold tokens, the 60 sold stay reserved for the claim
+        await time.increase(HOUR);
+        await admin.issuance.finalize(roundId);
+        expect(await admin.issuance.reserved(ASSET_ID)).to.equal(60n);
+        await investor(2).sales.buyTokens(ASSET_ID, 40n, currency);
+        await expectIssuanceError(investor(2).sales.buyTokens(ASSET_ID, 1n, currency), "Tokens reserved for issuance");
+
+        await investor(1).issuance.claim(roundId);
+        expect(await assetToken.balanceOf(fixture.holders[1], ASSET_ID)).to.equal(60n);
+        expect(await assetToken.balanceOf(owner, ASSET_ID)).to.equal(0n);
+        expect(await admin.issuance.reserved(ASSET_ID)).to.equal(0n);
+    });
+
+    it("  5  --------------> Should refuse buyers the transfer restrictions of the asset would block at claim", async function () {
+
+        const { compliance, owner } = fixture;
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), owner.address);
+        const roundId = await createRound();
+
+        async function expectRestricted(i: number, reason: string) {
+            const error = await investor(i).issuance.buy(roundId, 10n).catch(e => e);
+            expect(error).to.be.instanceOf(TransferRestrictedError);
+            expect((error as TransferRestrictedError).reason).to.equal(reason);
+        }
+
+        // The round itself is open to everyone, the asset requires KYC'd holders
+        await admin.compliance.setRestrictionMode(ASSET_ID, TransferRestrictionMode.WHITELIST_REQUIRED);
+        await compliance.whitelistAddress(owner);
+        await expectRestricted(1, "Recipient is not whitelisted");
+
+        await compliance.whitelistAddress(fixture.holders[1]);
+        await admin.identity.register([{ account: fixture.holders[1].address, country: "US", investorClass: InvestorClass.RETAIL, kycExpiry: 0n }]);
+        await admin.identity.setBlockedCountries(ASSET_ID, ["US"], true);
+        await expectRestricted(1, "Recipient country is blocked");
+
+        await admin.identity.setBlockedCountries(ASSET_ID, ["US"], false);
+        await investor(1).issuance.buy(roundId, 10n);
+        expect((await admin.issuance.purchase(roundId, fixture.holders[1].address)).tokenAmount).to.equal(10n);
+    });
+
+    it("  6  --------------> Should hold a holder slot for new buyers and refund a claim the restrictions block", async function () {
+
+        const { usdt, compliance, owner, issuanceModule } = fixture;
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), owner.address);
+        const roundId = await createRound({ softCap: 20n });
+        const balance = await usdt.balanceOf(fixture.holders[2]);
+
+        // The deployer and two buyers waiting for their tokens fill the three holder slots
+        await admin.identity.setRules(ASSET_ID, { accreditedOnly: false, maxHolders: 3n });
+        await investor(1).issuance.buy(roundId, 10n);
+        await investor(2).issuance.buy(roundId, 10n);
+        const error = await investor(3).issuance.buy(roundId, 10n).catch(e => e);
+        expect(error).to.be.instanceOf(TransferRestrictedError);
+        expect((error as TransferRestrictedError).reason).to.equal("Maximum holder count reached");
+        await investor(1).issuance.buy(roundId, 5n);
+
+        // Blacklisted after paying, the second buyer is refunded instead of stuck
+        await compliance.blacklistAddress(fixture.holders[2]);
+        await time.increase(HOUR);
+        await admin.issuance.finalize(roundId);
+        const { paid } = await admin.issuance.purchase(roundId, fixture.holders[2].address);
+        await expect(issuanceModule.connect(fixture.holders[2]).claimIssuance(roundId))
+            .to.emit(issuanceModule, "IssuanceRefunded").withArgs(roundId, fixture.holders[2].address, paid);
+        expect(await usdt.balanceOf(fixture.holders[2])).to.equal(balance);
+        expect(await fixture.assetToken.balanceOf(fixture.holders[2], ASSET_ID)).to.equal(0n);
+
+        await investor(1).issuance.claim(roundId);
+        expect(await fixture.assetToken.balanceOf(fixture.holders[1], ASSET_ID)).to.equal(15n);
+        expect(await admin.issuance.reserved(ASSET_ID)).to.equal(0n);
+        expect(await usdt.balanceOf(fixture.appAddress)).to.equal(0n);
+
+        // The refund freed the second buyer's slot
+        await investor(3).issuance.buy(await createRound(), 10n);
+    });
+});
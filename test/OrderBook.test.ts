@@ -0,0 +1,210 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { RwaClient, TransferAssetParams } from "../sdk";
+import { LimitOrder, OrderBookService, OrderSide, signOrder } from "../services/orderbook";
+
+describe("Order Book Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const PRICE = 1000000n;
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+    let service: OrderBookService;
+    let seller: HardhatEthersSigner;
+    let usdt: string;
+    let statePath: string;
+    let nonce = 0n;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+        seller = fixture.holders[1];
+        usdt = await fixture.usdt.getAddress();
+        statePath = join(mkdtempSync(join(tmpdir(), "rwa-orderbook-")), "book.json");
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, seller, ASSET_ID, 20, "0x");
+        // Keeps the gas fee below the charging threshold, see GasFee.test.ts
+        await admin.marketplace.setGasFeeCap(usdt, 1n);
+    });
+
+    async function order(maker: HardhatEthersSigner, side: OrderSide, amount: bigint, price: bigint, expiresIn = 3600) {
+        const limitOrder: LimitOrder = {
+            maker: maker.address,
+            side,
+            assetId: ASSET_ID,
+            amount,
+            price,
+            saleCurrency: usdt,
+            nonce: nonce++,
+            expiry: BigInt(await time.latest() + expiresIn),
+        };
+        return signOrder(maker, service.book.domain, limitOrder);
+    }
+
+    it("  1  --------------> Should match in price-time priority, settle and fill on TransferExecuted", async function () {
+
+        // An id already used on chain is never handed out again
+        await admin.marketplace.transferAsset({
+            orderId: 41, seller: seller.address, buyer: fixture.buyer.address, assetId: ASSET_ID,
+            tokenAmount: 1n, tokenPrice: PRICE, saleCurrency: usdt,
+        });
+        service = await OrderBookService.create(admin, { statePath });
+        expect(service.book.nextOrderId).to.equal(42n);
+
+        const cheap = await service.submit(await order(seller, OrderSide.ASK, 6n, PRICE));
+        const dear = await service.submit(await order(seller, OrderSide.ASK, 10n, PRICE * 2n));
+        const bid = await service.submit(await order(fixture.buyer, OrderSide.BID, 8n, PRICE * 3n));
+
+        const buyerUsdt = await fixture.usdt.balanceOf(fixture.buyer);
+        const results = await service.matchAndSettle(ASSET_ID);
+        log('INFO', `Settled ${results.map(r => `${r.match.orderId}: ${r.match.tokenAmount} @ ${r.match.tokenPrice}`).join(", ")}`);
+
+        expect(results.map(r => r.status)).to.deep.equal(["submitted", "submitted"]);
+        expect(results.map(r => [r.match.orderId, r.match.ask, r.match.tokenAmount, r.match.tokenPrice])).to.deep.equal([
+            [42n, cheap.hash, 6n, PRICE],
+            [43n, dear.hash, 2n, PRICE * 2n],
+        ]);
+        expect(service.book.pendingMatches()).to.deep.equal([]);
+        expect(cheap).to.include({ status: "filled", filled: 6n, reserved: 0n });
+        expect(bid).to.include({ status: "filled", filled: 8n });
+        expect(dear).to.include({ status: "open", filled: 2n });
+
+        // Buyer pays the resting ask prices plus the service fee
+        const amount = 6n * PRICE + 2n * PRICE * 2n;
+        expect(buyerUsdt - await fixture.usdt.balanceOf(fixture.buyer)).to.equal(amount + (amount * 5n) / 1000n);
+        expect(await fixture.assetToken.balanceOf(fixture.buyer, ASSET_ID)).to.equal(9n);
+    });
+
+    it("  2  --------------> Should reject orders failing the pre-settlement checks and keep the counterparty open", async function () {
+
+        service = await OrderBookService.create(admin, { statePath });
+        const other = fixture.holders[2];
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, other, ASSET_ID, 5, "0x");
+
+        const unapproved = await service.submit(await order(seller, OrderSide.ASK, 5n, PRICE));
+        const bid = await service.submit(await order(fixture.buyer, OrderSide.BID, 5n, PRICE));
+        await fixture.assetToken.connect(seller).setApprovalForAll(fixture.appAddress, false);
+
+        const [rejected] = await service.matchAndSettle(ASSET_ID);
+        expect(rejected.status).to.equal("rejected");
+        expect(rejected.problems).to.deep.equal([{ order: unapproved.hash, reason: "asset is not approved" }]);
+        expect(unapproved).to.include({ status: "rejected", reserved: 0n });
+        expect(bid).to.include({ status: "open", reserved: 0n });
+
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), fixture.owner.address);
+        await admin.compliance.blacklist(fixture.buyer.address);
+        await service.submit(await order(other, OrderSide.ASK, 5n, PRICE));
+
+        const [blacklisted] = await service.matchAndSettle(ASSET_ID);
+        expect(blacklisted.problems).to.deep.equal([{ order: bid.hash, reason: "buyer is in blacklist" }]);
+        expect(bid.status).to.equal("rejected");
+        expect(await fixture.assetToken.balanceOf(fixture.buyer, ASSET_ID)).to.equal(0n);
+    });
+
+    it("  3  --------------> Should refuse forged and expired orders and prevent self-trades", async function () {
+
+        service = await OrderBookService.create(admin, { statePath });
+
+        const forged = await order(seller, OrderSide.ASK, 5n, PRICE);
+        forged.order = { ...forged.order, amount: 50n };
+        expect((await service.submit(forged).catch(e => e) as Error).message).to.match(/not by its maker/);
+
+        const signed = await order(seller, OrderSide.ASK, 5n, PRICE);
+        const ask = await service.submit(signed);
+        expect((await service.submit(signed).catch(e => e) as Error).message).to.match(/already in the book/);
+
+        const shortLived = await service.submit(await order(fixture.buyer, OrderSide.BID, 5n, PRICE, 60));
+        await time.increase(120);
+        expect(await service.matchAndSettle(ASSET_ID)).to.deep.equal([]);
+        expect(shortLived.status).to.equal("expired");
+
+        const selfBid = await service.submit(await order(seller, OrderSide.BID, 5n, PRICE));
+        expect(await service.matchAndSettle(ASSET_ID)).to.deep.equal([]);
+        expect(selfBid).to.include({ status: "cancelled", reason: "self-trade" });
+        expect(service.book.openOrders(ASSET_ID, OrderSide.ASK)).to.deep.equal([ask]);
+    });
+
+    it("  4  --------------> Should keep a match pending with its tx hash when waiting for the receipt fails", async function () {
+
+        service = await OrderBookService.create(admin, { statePath });
+        const { marketplace } = service.client;
+        const transferAsset = marketplace.transferAsset.bind(marketplace);
+
+        // The transaction is mined, then the wait for its receipt throws
+        marketplace.transferAsset = async (params: TransferAssetParams, onSent) => {
+            await transferAsset(params, onSent);
+            throw new Error("timeout waiting for the receipt");
+        };
+        const ask = await service.submit(await order(seller, OrderSide.ASK, 5n, PRICE));
+        const bid = await service.submit(await order(fixture.buyer, OrderSide.BID, 5n, PRICE));
+
+        const [mined] = await service.matchAndSettle(ASSET_ID);
+        expect(mined.status).to.equal("submitted");
+        expect(mined.txHash).to.equal(mined.match.txHash);
+        expect(ask).to.include({ status: "filled", reserved: 0n });
+        expect(bid).to.include({ status: "filled", filled: 5n });
+
+        // A transaction whose receipt cannot be found keeps its match and both reservations
+        marketplace.transferAsset = async (_params: TransferAssetParams, onSent) => {
+            onSent!({ hash: hre.ethers.id("never mined") } as never);
+            throw new Error("connection reset");
+        };
+        const otherAsk = await service.submit(await order(seller, OrderSide.ASK, 5n, PRICE));
+        const otherBid = await service.submit(await order(fixture.buyer, OrderSide.BID, 5n, PRICE));
+
+        const [unconfirmed] = await service.matchAndSettle(ASSET_ID);
+        log('INFO', `Order ${unconfirmed.match.orderId} ${unconfirmed.status}: ${unconfirmed.error}`);
+        expect(unconfirmed).to.include({ status: "unconfirmed", txHash: hre.ethers.id("never mined") });
+        expect(service.book.pendingMatches()).to.deep.equal([unconfirmed.match]);
+        expect(otherAsk).to.include({ status: "open", reserved: 5n });
+        expect(otherBid).to.include({ status: "open", reserved: 5n });
+        expect(await service.matchAndSettle(ASSET_ID)).to.deep.equal([]);
+    });
+
+    it("  5  --------------> Should keep a cancelled order cancelled when its pending match is filled", async function () {
+
+        service = await OrderBookService.create(admin, { statePath });
+        const ask = await service.submit(await order(seller, OrderSide.ASK, 5n, PRICE));
+        const bid = await service.submit(await order(fixture.buyer, OrderSide.BID, 5n, PRICE));
+
+        const [match] = service.book.match(ASSET_ID, BigInt(await time.latest()));
+        service.book.cancel(ask.hash, "withdrawn by maker");
+        expect((await service.settle(match)).status).to.equal("submitted");
+        expect(await service.sync()).to.deep.equal([match]);
+
+        expect(ask).to.include({ status: "cancelled", reason: "withdrawn by maker", filled: 5n, reserved: 0n });
+        expect(bid).to.include({ status: "filled", filled: 5n });
+    });
+
+    it("  6  --------------> Should not settle an order again after a restart", async function () {
+
+        service = await OrderBookService.create(admin, { statePath });
+        const ask = await order(seller, OrderSide.ASK, 10n, PRICE);
+        const bid = await order(fixture.buyer, OrderSide.BID, 4n, PRICE);
+        await service.submit(ask);
+        await service.submit(bid);
+        await service.matchAndSettle(ASSET_ID);
+
+        // A new service continues from the saved fills
+        service = await OrderBookService.create(admin, { statePath });
+        expect(service.book.nextOrderId).to.equal(2n);
+        expect((await service.submit(bid).catch(e => e) as Error).message).to.match(/already filled/);
+        const restored = await service.submit(ask);
+        expect(restored).to.include({ status: "open", filled: 4n, reserved: 0n });
+
+        await service.submit(await order(fixture.buyer, OrderSide.BID, 10n, PRICE));
+        const [rest] = await service.matchAndSettle(ASSET_ID);
+        expect(rest.match.tokenAmount).to.equal(6n);
+        expect(restored).to.include({ status: "filled", filled: 10n });
+        expect(await fixture.assetToken.balanceOf(fixture.buyer, ASSET_ID)).to.equal(10n);
+    });
+});
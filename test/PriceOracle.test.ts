@@ -0,0 +1,124 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, FEXSE_PRICE_USDT, deployAppFixture, params } from "./fixtures";
+import { PriceOracleError, PriceSource, RwaClient, UnauthorizedError, fexseToUsdt } from "../sdk";
+
+describe("Price Oracle Test", function () {
+
+    this.timeout(200000);
+
+    const TWAP_WINDOW = 1200n;
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner, { fexse: await fixture.fexse.getAddress() });
+    });
+
+    /**
+     * Tick of a FEXSE/USDT pool at `usdtPerFexse` (6 decimals per 1e18 FEXSE units). Pools
+     * sort their tokens by address, the tick is negated when FEXSE is token1.
+     */
+    function tickFor(usdtPerFexse: number, fexseIsToken0: boolean): number {
+        const tick = Math.round(Math.log(usdtPerFexse / 1e18) / Math.log(1.0001));
+        return fexseIsToken0 ? tick : -tick;
+    }
+
+    const priceAt = (tick: number, fexseIsToken0: boolean) => 1e18 * Math.pow(1.0001, fexseIsToken0 ? tick : -tick);
+
+    async function expectOracleError(promise: Promise<unknown>, reason: string) {
+        const error = await promise.catch(e => e);
+        expect(error).to.be.instanceOf(PriceOracleError);
+        expect((error as PriceOracleError).reason).to.equal(reason);
+    }
+
+    it("  1  --------------> Should serve the fixed price and let only admins change it", async function () {
+
+        expect(await admin.prices.fexsePrice()).to.equal(FEXSE_PRICE_USDT);
+        expect((await admin.prices.oracle()).source).to.equal(PriceSource.FIXED);
+
+        await expect(fixture.priceFetcher.setFexsePriceBounds(50000, 0))
+            .to.emit(fixture.priceFetcher, "FexsePriceBoundsUpdated").withArgs(50000, 0);
+        expect(await admin.prices.fexsePrice()).to.equal(50000n);
+
+        // SalesModule sells FEXSE at the oracle price
+        const buyer = admin.connect(fixture.buyer);
+        const amount = hre.ethers.parseEther("1234.5");
+        const before = await fixture.usdt.balanceOf(fixture.buyer);
+        await buyer.sales.buyFexse(amount, await fixture.usdt.getAddress());
+        expect(before - await fixture.usdt.balanceOf(fixture.buyer)).to.equal(fexseToUsdt(amount, 50000n));
+
+        const error = await buyer.prices.setSource(PriceSource.CHAINLINK, await fixture.aggregator!.getAddress(), 0n, 3600n).catch(e => e);
+        expect(error).to.be.instanceOf(UnauthorizedError);
+        await expect(fixture.priceFetcher.setFexsePriceBounds(0, 100)).to.be.revertedWith("Deviation check needs a reference price");
+    });
+
+    it("  2  --------------> Should price FEXSE at the Uniswap V3 TWAP within the deviation bound", async function () {
+
+        const fexse = await fixture.fexse.getAddress();
+        const usdt = await fixture.usdt.getAddress();
+        const fexseIsToken0 = BigInt(fexse) < BigInt(usdt);
+        const low = tickFor(45000, fexseIsToken0);
+        const high = low + (fexseIsToken0 ? 2000 : -2000);
+        const pool = await hre.ethers.deployContract("MockUniswapV3Pool", [fexse, usdt, low]);
+
+        // The pool must have a full window of history
+        await expectOracleError(admin.prices.setSource(PriceSource.UNISWAP_V3_TWAP, await pool.getAddress(), TWAP_WINDOW), "OLD");
+
+        await time.increase(TWAP_WINDOW);
+        await admin.prices.setBounds(45000n, 1500n);
+        await admin.prices.setSource(PriceSource.UNISWAP_V3_TWAP, await pool.getAddress(), TWAP_WINDOW);
+        expect(await admin.prices.oracle()).to.deep.include({ source: PriceSource.UNISWAP_V3_TWAP, twapWindow: TWAP_WINDOW });
+
+        const spot = await admin.prices.fexsePrice();
+        log('INFO', `TWAP price at tick ${low}: ${spot}`);
+        expect(Number(spot)).to.be.closeTo(priceAt(low, fexseIsToken0), 1);
+        expect(Number(spot)).to.be.closeTo(45000, 5);
+
+        // Half a window at the higher tick averages to the geometric mean of both prices
+        await pool.setTick(high);
+        await time.increase(TWAP_WINDOW / 2n);
+        const average = await admin.prices.fexsePrice();
+        const mean = Math.sqrt(priceAt(low, fexseIsToken0) * priceAt(high, fexseIsToken0));
+        expect(Number(average)).to.be.closeTo(mean, mean * 0.001);
+
+        // A full window at +22% is outside the 15% band around the reference price
+        await time.increase(TWAP_WINDOW);
+        await expectOracleError(admin.prices.fexsePrice(), "FEXSE price deviates from reference");
+        await expectOracleError(admin.connect(fixture.buyer).sales.buyFexse(hre.ethers.parseEther("10"), await fixture.usdt.getAddress()),
+            "FEXSE price deviates from reference");
+
+        const foreign = await hre.ethers.deployContract("MockUniswapV3Pool", [fexse, await fixture.weth.getAddress(), 0]);
+        await expectOracleError(admin.prices.setSource(PriceSource.UNISWAP_V3_TWAP, await foreign.getAddress(), TWAP_WINDOW),
+            "Pool is not a FEXSE pool");
+    });
+
+    it("  3  --------------> Should read a Chainlink feed and reject stale answers", async function () {
+
+        const feed = await hre.ethers.deployContract("MockAggregator", [8, 5000000]);
+        await expect(fixture.priceFetcher.setFexsePriceSource(PriceSource.CHAINLINK, feed, 0, 3600))
+            .to.emit(fixture.priceFetcher, "FexsePriceSourceUpdated").withArgs(PriceSource.CHAINLINK, await feed.getAddress(), 0, 3600);
+        expect(await admin.prices.fexsePrice()).to.equal(50000n);
+
+        const amount = hre.ethers.parseEther("100");
+        const quote = await admin.connect(fixture.buyer).sales.quote(params.ASSET_ID, 3n, await fixture.fexse.getAddress());
+        expect(quote.buyerPays).to.equal((3n * BigInt(params.TOKENPRICE) * 10n ** 18n) / 50000n);
+
+        const before = await fixture.usdt.balanceOf(fixture.buyer);
+        await admin.connect(fixture.buyer).sales.buyFexse(amount, await fixture.usdt.getAddress());
+        expect(before - await fixture.usdt.balanceOf(fixture.buyer)).to.equal(5000000n);
+
+        await feed.setAnswerWithTimestamp(5000000, (await time.latest()) - 3601);
+        await expectOracleError(admin.prices.fexsePrice(), "Stale FEXSE price");
+        await expectOracleError(admin.prices.setSource(PriceSource.CHAINLINK, await feed.getAddress(), 0n, 3600n), "Stale FEXSE price");
+
+        // Switching back to the fixed source always works
+        await admin.prices.setSource(PriceSource.FIXED, hre.ethers.ZeroAddress);
+        expect(await admin.prices.fexsePrice()).to.equal(FEXSE_PRICE_USDT);
+        expect((await admin.prices.oracle()).feed).to.equal(hre.ethers.ZeroAddress);
+    });
+});
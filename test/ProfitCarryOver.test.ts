@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { RwaClient } from "../sdk";
+
+describe("Profit Carry Over Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const PROFIT = hre.ethers.parseEther("25");
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+    });
+
+    const address = (i: number) => fixture.holders[i].address;
+
+    async function fund(holder: number, amount: number) {
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, fixture.holders[holder], ASSET_ID, amount, "0x");
+    }
+
+    async function distribute(holders: number[], amount: bigint) {
+        await fixture.profitModule.distributeProfit(ASSET_ID, holders.map(i => ({ holder: address(i), profitAmount: amount })));
+    }
+
+    it("  1  --------------> Should let a holder who sold their last token on the marketplace claim their profits", async function () {
+
+        const { rwaTokenization, profitModule, fexse, buyer } = fixture;
+        const seller = fixture.holders[1];
+        await fund(1, 8);
+        await distribute([1], PROFIT);
+
+        // Keeps the gas fee below the charging threshold, see GasFee.test.ts
+        const usdt = await fixture.usdt.getAddress();
+        await admin.marketplace.setGasFeeCap(usdt, 1n);
+
+        const receipt = await admin.marketplace.transferAsset({
+            orderId: 1, seller: seller.address, buyer: buyer.address, assetId: ASSET_ID, tokenAmount: 8n, tokenPrice: 1000000n, saleCurrency: usdt,
+        });
+        const carried = receipt.logs.map(l => rwaTokenization.interface.parseLog(l)).find(e => e?.name === "ProfitCarriedOver");
+        expect(carried!.args.toArray()).to.deep.equal([seller.address, ASSET_ID, PROFIT]);
+
+        expect(await admin.assets.holders(ASSET_ID)).to.not.include(seller.address);
+        expect(await admin.assets.holderBalance(ASSET_ID, seller.address)).to.equal(0n);
+        expect(await admin.profits.pending(ASSET_ID, seller.address)).to.equal(PROFIT);
+
+        const before = await fexse.balanceOf(seller);
+        await expect(profitModule.connect(seller).claimProfit([ASSET_ID]))
+            .to.emit(profitModule, "Claimed").withArgs(seller.address, [ASSET_ID], PROFIT);
+        expect(await fexse.balanceOf(seller) - before).to.equal(PROFIT);
+        expect(await admin.profits.pending(ASSET_ID, seller.address)).to.equal(0n);
+    });
+
+    it("  2  --------------> Should add new distributions to the profits kept from an earlier exit", async function () {
+
+        const { rwaTokenization, profitModule } = fixture;
+        await fund(1, 5);
+        await distribute([1], PROFIT);
+
+        // Exit by a plain transfer, then by a burn of the whole balance
+        await expect(fixture.assetToken.connect(fixture.holders[1]).safeTransferFrom(address(1), address(2), ASSET_ID, 5, "0x"))
+            .to.emit(rwaTokenization, "ProfitCarriedOver").withArgs(address(1), ASSET_ID, PROFIT);
+        await fund(1, 3);
+        await distribute([1, 2], PROFIT);
+        expect(await admin.profits.pending(ASSET_ID, address(1))).to.equal(2n * PROFIT);
+
+        await expect(admin.assets.sendToTheRealWorld(address(1), ASSET_ID, 3n))
+            .to.emit(rwaTokenization, "ProfitCarriedOver").withArgs(address(1), ASSET_ID, 2n * PROFIT);
+        expect(await admin.assets.holders(ASSET_ID)).to.deep.equal([fixture.owner.address, address(2)]);
+
+        await expect(profitModule.connect(fixture.holders[1]).claimProfit([ASSET_ID]))
+            .to.emit(profitModule, "Claimed").withArgs(address(1), [ASSET_ID], 2n * PROFIT);
+        log('INFO', `Exited holder claimed ${2n * PROFIT} after two distributions`);
+    });
+
+    it("  3  --------------> Should not emit a carry over for a holder leaving without profits", async function () {
+
+        const { rwaTokenization } = fixture;
+        await fund(1, 4);
+        await distribute([2], PROFIT);
+
+        const tx = fixture.assetToken.connect(fixture.holders[1]).safeTransferFrom(address(1), address(3), ASSET_ID, 4, "0x");
+        await expect(tx).to.not.emit(rwaTokenization, "ProfitCarriedOver");
+        await expect(tx).to.emit(rwaTokenization, "AssetHolderBalanceUpdated").withArgs(address(1), ASSET_ID, 0);
+
+        // Claimed profits leave nothing to carry over either
+        await fund(2, 1);
+        await fixture.profitModule.connect(fixture.holders[2]).claimProfit([ASSET_ID]);
+        await expect(fixture.assetToken.connect(fixture.holders[2]).safeTransferFrom(address(2), address(3), ASSET_ID, 1, "0x"))
+            .to.not.emit(rwaTokenization, "ProfitCarriedOver");
+        expect(await admin.profits.pending(ASSET_ID, address(2))).to.equal(0n);
+    });
+});
@@ -0,0 +1,150 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { RwaClient } from "../sdk";
+import {
+    AssetSnapshot,
+    batchFromJson,
+    batchToCsv,
+    batchToJson,
+    calculateDistribution,
+    submitDistribution,
+    takeHolderSnapshot,
+} from "../services/distribution";
+
+describe("Profit Distribution Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+
+    let fixture: AppFixture;
+    let client: RwaClient;
+    let journalDir: string;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        client = new RwaClient(fixture.appAddress, fixture.owner);
+        journalDir = mkdtempSync(join(tmpdir(), "rwa-distribution-"));
+    });
+
+    /**
+     * Sends asset tokens from the owner to the first holders, `amounts[i]` to `holders[i + 1]`.
+     */
+    async function spreadTokens(amounts: number[]) {
+        for (let i = 0; i < amounts.length; i++) {
+            await fixture.assetToken.connect(fixture.owner).safeTransferFrom(
+                fixture.owner,
+                fixture.holders[i + 1],
+                ASSET_ID,
+                amounts[i],
+                "0x");
+        }
+    }
+
+    const snapshotOf = (balances: [string, bigint][], tokenLowerLimit: bigint = 10n): AssetSnapshot => ({
+        assetId: ASSET_ID,
+        blockNumber: 1,
+        tokenLowerLimit,
+        holders: balances.map(([holder, balance]) => ({ holder, balance, blacklisted: false })),
+    });
+
+    it("  1  --------------> Should split revenue pro-rata and hand out the dust deterministically", async function () {
+
+        const [a, b, c] = fixture.holders.slice(1, 4).map(h => h.address);
+        const snapshot = snapshotOf([[a, 10n], [b, 10n], [c, 10n]]);
+
+        const batch = calculateDistribution(snapshot, 100n);
+        const total = batch.entries.reduce((sum, e) => sum + e.profitAmount, 0n);
+
+        expect(total).to.equal(100n);
+        expect(batch.dust).to.equal(1n);
+        expect(batch.entries.map(e => e.profitAmount).sort()).to.deep.equal([33n, 33n, 34n]);
+
+        // The holder order of the snapshot does not change the result
+        const reversed = calculateDistribution({ ...snapshot, holders: [...snapshot.holders].reverse() }, 100n);
+        expect(batchToJson(reversed)).to.equal(batchToJson(batch));
+    });
+
+    it("  2  --------------> Should exclude holders below the lower limit, blacklisted and excluded addresses", async function () {
+
+        const [a, b, c, d] = fixture.holders.slice(1, 5).map(h => h.address);
+        const snapshot = snapshotOf([[a, 30n], [b, 9n], [c, 10n], [d, 50n]]);
+        snapshot.holders[3].blacklisted = true;
+
+        const batch = calculateDistribution(snapshot, hre.ethers.parseEther("40"), { exclude: [c] });
+        log('INFO', batchToCsv(batch));
+
+        expect(batch.entries.map(e => e.holder)).to.deep.equal([a]);
+        expect(batch.entries[0].profitAmount).to.equal(hre.ethers.parseEther("40"));
+        expect(Object.fromEntries(batch.excluded.map(e => [e.holder, e.reason]))).to.deep.equal({
+            [b]: "below_lower_limit",
+            [c]: "excluded_address",
+            [d]: "blacklisted",
+        });
+
+        expect(batchFromJson(batchToJson(batch))).to.deep.equal(batch);
+    });
+
+    it("  3  --------------> Should snapshot, calculate and submit a distribution", async function () {
+
+        await spreadTokens([10, 20, 5, 30]);
+        const [h1, h2, h3, h4] = fixture.holders.slice(1, 5);
+
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), fixture.owner.address);
+        await client.compliance.blacklist(h4.address);
+
+        const snapshot = await takeHolderSnapshot(hre.ethers.provider, fixture.appAddress, ASSET_ID);
+        const revenue = hre.ethers.parseEther("100");
+        const batch = calculateDistribution(snapshot, revenue, { exclude: [fixture.owner.address] });
+
+        expect(snapshot.tokenLowerLimit).to.equal(params.TOKENLOWERLIMIT);
+        expect(batch.eligibleSupply).to.equal(30n);
+        expect(batch.excluded.map(e => e.holder)).to.have.members([fixture.owner.address, h3.address, h4.address]);
+
+        const result = await submitDistribution(client, batch, { journalPath: join(journalDir, "journal.json") });
+        expect(result.complete).to.equal(true);
+
+        // h2 has the larger remainder and receives the single wei of dust
+        expect(await client.profits.pending(ASSET_ID, h1.address)).to.equal(revenue / 3n);
+        expect(await client.profits.pending(ASSET_ID, h2.address)).to.equal((revenue * 2n) / 3n + 1n);
+        expect(await client.profits.pending(ASSET_ID, h3.address)).to.equal(0);
+        expect(await client.profits.pending(ASSET_ID, h4.address)).to.equal(0);
+        expect(await fixture.assetToken.paused()).to.equal(false);
+    });
+
+    it("  4  --------------> Should refuse to submit when holdings moved after the snapshot", async function () {
+
+        await spreadTokens([10, 20]);
+        const [h1, h2] = fixture.holders.slice(1, 3);
+
+        const snapshot = await takeHolderSnapshot(hre.ethers.provider, fixture.appAddress, ASSET_ID);
+        const batch = calculateDistribution(snapshot, hre.ethers.parseEther("30"), { exclude: [fixture.owner.address] });
+
+        await fixture.assetToken.connect(h1).safeTransferFrom(h1, h2, ASSET_ID, 5, "0x");
+
+        const error = await submitDistribution(client, batch, { journalPath: join(journalDir, "journal.json") }).catch(e => e);
+
+        expect(error.message).to.contain("changed since block");
+        expect(await client.profits.pending(ASSET_ID, h2.address)).to.equal(0);
+
+        // Unpausing would restart the distribution window, the asset stays paused for a new snapshot
+        expect(await fixture.assetToken.paused()).to.equal(true);
+
+        // The snapshot can still be taken at the original block
+        const again = await takeHolderSnapshot(hre.ethers.provider, fixture.appAddress, ASSET_ID, snapshot.blockNumber);
+        expect(again).to.deep.equal(snapshot);
+
+        const paused = await takeHolderSnapshot(hre.ethers.provider, fixture.appAddress, ASSET_ID);
+        const retry = calculateDistribution(paused, hre.ethers.parseEther("30"), { exclude: [fixture.owner.address] });
+        await submitDistribution(client, retry, { journalPath: join(journalDir, "retry.json") });
+
+        expect(await client.profits.pending(ASSET_ID, h2.address)).to.equal(hre.ethers.parseEther("30"));
+        expect(await fixture.assetToken.paused()).to.equal(false);
+    });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { loadFixture, setNextBlockBaseFeePerGas } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { IERC20 } from "../typechain-types";
+import { quoteBuyFexse, quoteBuyTokens, quoteTransferAsset, usdtToFexse } from "../sdk";
+
+describe("Settlement Quote Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const CASES = 12;
+
+    let fixture: AppFixture;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+    });
+
+    /**
+     * Deterministic pseudo random bigints in [min, max], so a failing case can be replayed.
+     */
+    function random(seed: number) {
+        let state = BigInt(seed);
+        return (min: bigint, max: bigint): bigint => {
+            state = (state * 6364136223846793005n + 1442695040888963407n) % (1n << 64n);
+            return min + (state >> 16n) % (max - min + 1n);
+        };
+    }
+
+    async function balances(token: IERC20, accounts: string[]): Promise<bigint[]> {
+        return Promise.all(accounts.map(a => token.balanceOf(a)));
+    }
+
+    it("  1  --------------> Should quote the transfers of transferAsset in USDT and FEXSE", async function () {
+
+        const { marketPlace, buyer, appAddress } = fixture;
+        const seller = fixture.holders[1];
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, seller, ASSET_ID, 400, "0x");
+
+        const currencies: [string, IERC20, bigint][] = [
+            ["USDT", fixture.usdt, 10n ** 7n],
+            ["FEXSE", fixture.fexse as unknown as IERC20, 10n ** 18n],
+        ];
+        const next = random(12);
+
+        // At 1 gwei every settlement costs far more than one unit of gas fee, so a one unit
+        // cap makes the gas fee deterministic: it is charged whenever it reaches the
+        // threshold, that is when the service fee rounds to three units or less
+        for (const [, token] of currencies) {
+            await marketPlace.setGasFeeCap(token, 1n);
+        }
+
+        for (const [name, token, maxPrice] of currencies) {
+            for (let i = 0; i < CASES; i++) {
+                const tokenAmount = next(1n, 15n);
+                // Every other case is priced low enough for the fee to round to a few units
+                const tokenPrice = i % 2 === 0 ? next(1n, 300n) : next(1n, maxPrice);
+                const quote = quoteTransferAsset(tokenAmount, tokenPrice, 1n);
+
+                await token.connect(buyer).approve(appAddress, quote.buyer.allowance);
+                const before = await balances(token, [buyer.address, seller.address, appAddress]);
+
+                await setNextBlockBaseFeePerGas(1);
+                await expect(marketPlace.transferAsset(i, seller, buyer, ASSET_ID, tokenAmount, tokenPrice, token, { gasPrice: 10n ** 9n, type: 0 }))
+                    .to.emit(marketPlace, "TransferExecuted")
+                    .withArgs(i, seller.address, buyer.address, ASSET_ID, tokenAmount, quote.amount, await token.getAddress());
+
+                const after = await balances(token, [buyer.address, seller.address, appAddress]);
+                expect([before[0] - after[0], after[1] - before[1], after[2] - before[2]], `${name} ${tokenAmount} @ ${tokenPrice}`)
+                    .to.deep.equal([quote.buyerPays, quote.sellerReceives, quote.appReceives]);
+                expect(await token.allowance(buyer, appAddress)).to.equal(0n);
+            }
+            log('INFO', `${CASES} ${name} settlements matched their quotes`);
+        }
+    });
+
+    it("  2  --------------> Should revert one unit below the quoted allowance and apply the gas fee threshold", async function () {
+
+        const { marketPlace, buyer, appAddress, usdt } = fixture;
+        const seller = fixture.holders[1];
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, seller, ASSET_ID, 10, "0x");
+        await marketPlace.setGasFeeCap(usdt, 1n);
+
+        const quote = quoteTransferAsset(7n, 1234567n);
+        await usdt.connect(buyer).approve(appAddress, quote.buyer.allowance - 1n);
+        await expect(marketPlace.transferAsset(1, seller, buyer, ASSET_ID, 7n, 1234567n, usdt))
+            .to.be.revertedWith("USDT allowance too low");
+
+        await usdt.connect(buyer).approve(appAddress, quote.buyer.allowance);
+        await expect(marketPlace.transferAsset(1, seller, buyer, ASSET_ID, 7n, 1234567n, usdt)).to.not.be.reverted;
+
+        // 30% of a 43,209 fee is 12,962: a smaller gas fee is waived, a larger one charged
+        expect(quote.serviceFee).to.equal(43209n);
+        expect(quoteTransferAsset(7n, 1234567n, 12961n)).to.include({ gasFee: 0n, buyerPays: quote.buyerPays });
+        expect(quoteTransferAsset(7n, 1234567n, 12962n)).to.include({ gasFee: 12962n, appReceives: 2n * 43209n + 12962n });
+        expect(quoteTransferAsset(1n, 100n, 0n)).to.include({ serviceFee: 0n, buyerPays: 100n, sellerReceives: 100n });
+    });
+
+    it("  3  --------------> Should quote buyTokens and buyFexse like SalesModule", async function () {
+
+        const { rwaTokenization, salesModule, buyer, owner, appAddress, usdt, fexse } = fixture;
+        const next = random(13);
+
+        for (let i = 0; i < CASES; i++) {
+            const tokenPrice = next(1n, 5n * 10n ** 6n);
+            const tokenAmount = next(1n, 20n);
+            await rwaTokenization.updateAsset(ASSET_ID, tokenPrice);
+
+            const quote = quoteBuyTokens(tokenPrice, tokenAmount, "USDT");
+            await usdt.connect(buyer).approve(appAddress, quote.buyer.allowance);
+            const before = await balances(usdt, [buyer.address, owner.address]);
+
+            await salesModule.connect(buyer).buyTokens(ASSET_ID, tokenAmount, usdt);
+
+            const after = await balances(usdt, [buyer.address, owner.address]);
+            expect([before[0] - after[0], after[1] - before[1]], `${tokenAmount} @ ${tokenPrice}`).to.deep.equal([quote.buyerPays, quote.buyerPays]);
+            expect(await usdt.allowance(buyer, appAddress)).to.equal(0n);
+        }
+
+        for (let i = 0; i < CASES; i++) {
+            const fexseAmount = next(10n ** 18n + 1n, 3000n * 10n ** 18n);
+            const quote = quoteBuyFexse(fexseAmount);
+            await usdt.connect(buyer).approve(appAddress, quote.buyer.allowance);
+            const before = await usdt.balanceOf(buyer);
+
+            await salesModule.connect(buyer).buyFexse(fexseAmount, usdt);
+            expect(before - await usdt.balanceOf(buyer), `${fexseAmount} FEXSE`).to.equal(quote.buyerPays);
+        }
+        log('INFO', `FEXSE balance of the buyer: ${await fexse.balanceOf(buyer)}`);
+
+        // FEXSE sells at 0.045 USDT: one token costs 45,000 units, rounding is downwards
+        expect(quoteBuyTokens(45000n, 2n, "FEXSE")).to.include({ serviceFee: 0n, buyerPays: 2n * 10n ** 18n });
+        expect(usdtToFexse(1n)).to.equal(22222222222222n);
+    });
+});
@@ -0,0 +1,88 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { impersonateAccount, loadFixture, setBalance } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { reconcile, reportToJson } from "../services/reconciliation";
+
+describe("Reconciliation Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+
+    let fixture: AppFixture;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+    });
+
+    /**
+     * Returns a signer for `address` with enough ETH to send transactions, used to write
+     * the bookkeeping directly and make it drift from the token.
+     */
+    async function impersonate(address: string) {
+        await impersonateAccount(address);
+        await setBalance(address, hre.ethers.parseEther("10"));
+        return hre.ethers.getSigner(address);
+    }
+
+    it("  1  --------------> Should report no issues for consistent bookkeeping", async function () {
+
+        const [h1, h2] = fixture.holders.slice(1, 3);
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, h1, ASSET_ID, 30, "0x");
+        await fixture.assetToken.connect(h1).safeTransferFrom(h1, h2, ASSET_ID, 30, "0x");
+
+        const report = await reconcile(hre.ethers.provider, fixture.appAddress);
+        log('INFO', reportToJson(report));
+
+        expect(report.issueCount).to.equal(0);
+        const asset = report.assets.find(a => a.assetId === ASSET_ID)!;
+        expect(asset.totalSupply).to.equal(params.TOTALTOKENS);
+        expect(asset.holderCount).to.equal(2);
+
+        // Fetching the events a few blocks at a time finds the same assets and holders
+        expect(await reconcile(hre.ethers.provider, fixture.appAddress, { batchSize: 3 })).to.deep.equal(report);
+    });
+
+    it("  2  --------------> Should flag drifted, stale and missing holders", async function () {
+
+        const [h1, h2, h3] = fixture.holders.slice(1, 4);
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, h1, ASSET_ID, 30, "0x");
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, h2, ASSET_ID, 20, "0x");
+
+        const token = await impersonate(await fixture.assetToken.getAddress());
+        await fixture.rwaTokenization.connect(token).updateHoldings(h1.address, ASSET_ID, 25);
+        await fixture.rwaTokenization.connect(token).updateHoldings(h2.address, ASSET_ID, 0);
+        await fixture.rwaTokenization.connect(token).updateHoldings(h3.address, ASSET_ID, 5);
+
+        const report = await reconcile(hre.ethers.provider, fixture.appAddress, { assetIds: [ASSET_ID] });
+        const issues = report.assets[0].issues;
+        log('INFO', reportToJson(report));
+
+        expect(issues).to.deep.include({ kind: "balance_drift", account: h1.address, expected: 30n, actual: 25n });
+        expect(issues).to.deep.include({ kind: "balance_drift", account: h2.address, expected: 20n, actual: 0n });
+        expect(issues).to.deep.include({ kind: "missing_holder", account: h2.address, expected: 20n, actual: 0n });
+        expect(issues).to.deep.include({ kind: "stale_holder", account: h3.address, expected: 0n, actual: 5n });
+        expect(issues.find(i => i.kind === "holdings_sum_drift")).to.deep.equal({
+            kind: "holdings_sum_drift",
+            expected: BigInt(params.TOTALTOKENS),
+            actual: BigInt(params.TOTALTOKENS) - 20n,
+        });
+    });
+
+    it("  3  --------------> Should flag a token supply that differs from totalTokens", async function () {
+
+        const app = await impersonate(fixture.appAddress);
+        await fixture.assetToken.connect(app).mint(fixture.holders[1], ASSET_ID, 10, "0x");
+
+        const report = await reconcile(hre.ethers.provider, fixture.appAddress, { assetIds: [ASSET_ID] });
+
+        expect(report.issueCount).to.equal(1);
+        expect(report.assets[0].issues[0]).to.deep.equal({
+            kind: "supply_drift",
+            expected: BigInt(params.TOTALTOKENS) + 10n,
+            actual: BigInt(params.TOTALTOKENS),
+        });
+    });
+});
@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import {
+    BlacklistedError,
+    ForcedTransferReason,
+    InsufficientBalanceError,
+    RecoveryError,
+    RwaClient,
+    TransferRestrictionMode,
+    UnauthorizedError,
+} from "../sdk";
+
+describe("Recovery Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+    const SECOND_ASSET_ID = ASSET_ID + 1n;
+    const PROFIT = hre.ethers.parseEther("12");
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), fixture.owner.address);
+    });
+
+    const address = (i: number) => fixture.holders[i].address;
+
+    async function fund(assetId: bigint, holder: number, amount: number) {
+        const token = await admin.assets.tokenContract(assetId);
+        await token.connect(fixture.owner).safeTransferFrom(fixture.owner, fixture.holders[holder], assetId, amount, "0x");
+    }
+
+    async function profits(assetId: bigint, holder: number): Promise<bigint> {
+        return fixture.profitModule.getPendingProfits(assetId, address(holder));
+    }
+
+    /**
+     * Checks that the holder list of the asset has exactly the accounts with a balance,
+     * each once, and that the recorded holdings match the token balances.
+     */
+    async function expectConsistentHolders(assetId: bigint) {
+        const token = await admin.assets.tokenContract(assetId);
+        const holders = await admin.assets.holders(assetId);
+        expect(new Set(holders).size).to.equal(holders.length);
+
+        for (const account of fixture.holders.map(h => h.address)) {
+            const balance = await token.balanceOf(account, assetId);
+            expect(holders.includes(account)).to.equal(balance > 0n);
+            expect(await admin.assets.holderBalance(assetId, account)).to.equal(balance);
+        }
+    }
+
+    it("  1  --------------> Should force transfer a court ordered amount and carry the profits with a full balance", async function () {
+
+        const { recoveryModule, assetToken, profitModule } = fixture;
+        await fund(ASSET_ID, 1, 30);
+        await profitModule.distributeProfit(ASSET_ID, [{ holder: address(1), profitAmount: PROFIT }]);
+
+        // Restrictions do not apply, holder 2 is not whitelisted
+        await admin.compliance.setRestrictionMode(ASSET_ID, TransferRestrictionMode.WHITELIST_REQUIRED);
+        await expect(recoveryModule.forceTransfer(ASSET_ID, address(1), address(2), 10, ForcedTransferReason.COURT_ORDER))
+            .to.emit(recoveryModule, "TokensForceTransferred")
+            .withArgs(ASSET_ID, address(1), address(2), 10, 0, ForcedTransferReason.COURT_ORDER, fixture.owner.address);
+
+        // A partial transfer leaves the profits with the holder
+        expect(await profits(ASSET_ID, 1)).to.equal(PROFIT);
+        expect(await profits(ASSET_ID, 2)).to.equal(0n);
+        await expectConsistentHolders(ASSET_ID);
+
+        await admin.recovery.forceTransfer({ assetId: ASSET_ID, from: address(1), to: address(2), amount: 20n, reason: ForcedTransferReason.COURT_ORDER });
+        expect(await assetToken.balanceOf(address(1), ASSET_ID)).to.equal(0n);
+        expect(await assetToken.balanceOf(address(2), ASSET_ID)).to.equal(30n);
+        expect(await profits(ASSET_ID, 1)).to.equal(0n);
+        expect(await profits(ASSET_ID, 2)).to.equal(PROFIT);
+        await expectConsistentHolders(ASSET_ID);
+
+        const events = await recoveryModule.queryFilter(recoveryModule.filters.TokensForceTransferred(ASSET_ID, address(1)));
+        expect(events.map(e => [e.args.amount, e.args.pendingProfits])).to.deep.equal([[10n, 0n], [20n, PROFIT]]);
+    });
+
+    it("  2  --------------> Should recover every asset and the unclaimed profits of a lost wallet", async function () {
+
+        const { recoveryModule, profitModule, fexse } = fixture;
+        await fixture.rwaTokenization.createAsset(SECOND_ASSET_ID, 1000, params.TOKENPRICE, params.TOKENPROFITPERIOD, params.TOKENLOWERLIMIT, params.ASSETURI, "Second", "SC");
+
+        await fund(ASSET_ID, 1, 40);
+        await fund(SECOND_ASSET_ID, 1, 15);
+        await fund(ASSET_ID, 2, 5);
+        await profitModule.distributeProfit(ASSET_ID, [{ holder: address(1), profitAmount: PROFIT }, { holder: address(2), profitAmount: 1n }]);
+        await profitModule.distributeProfit(SECOND_ASSET_ID, [{ holder: address(1), profitAmount: 3n }]);
+
+        // Holder 2 already holds the first asset, holder 1 never held a third one
+        const assetIds = [ASSET_ID, SECOND_ASSET_ID];
+        await expect(recoveryModule.recoverWallet(address(1), address(2), assetIds, ForcedTransferReason.LOST_WALLET))
+            .to.emit(recoveryModule, "WalletRecovered").withArgs(address(1), address(2), assetIds, ForcedTransferReason.LOST_WALLET);
+
+        for (const [assetId, balance, profit] of [[ASSET_ID, 45n, PROFIT + 1n], [SECOND_ASSET_ID, 15n, 3n]]) {
+            expect(await (await admin.assets.tokenContract(assetId)).balanceOf(address(2), assetId)).to.equal(balance);
+            expect(await profits(assetId, 1)).to.equal(0n);
+            expect(await profits(assetId, 2)).to.equal(profit);
+            await expectConsistentHolders(assetId);
+        }
+
+        // Recovering again moves nothing, the new wallet claims the recovered profits
+        const receipt = await admin.recovery.recoverWallet(address(1), address(2), assetIds, ForcedTransferReason.LOST_WALLET);
+        expect(receipt.logs.map(l => recoveryModule.interface.parseLog(l)?.name)).to.deep.equal(["WalletRecovered"]);
+
+        const before = await fexse.balanceOf(address(2));
+        await admin.connect(fixture.holders[2]).profits.claim(assetIds);
+        expect(await fexse.balanceOf(address(2)) - before).to.equal(PROFIT + 4n);
+        log('INFO', `Recovered ${assetIds.length} assets from ${address(1)} to ${address(2)}`);
+    });
+
+    it("  3  --------------> Should restrict forced transfers to compliance officers and validate the recipient", async function () {
+
+        await fund(ASSET_ID, 1, 10);
+        const move = (client: RwaClient, to: string, amount: bigint = 5n) =>
+            client.recovery.forceTransfer({ assetId: ASSET_ID, from: address(1), to, amount, reason: ForcedTransferReason.OTHER }).catch(e => e);
+
+        // ADMIN_ROLE alone does not allow forced transfers
+        await fixture.app.grantRole(hre.ethers.id("ADMIN_ROLE"), address(3));
+        expect(await move(admin.connect(fixture.holders[3]), address(3))).to.be.instanceOf(UnauthorizedError);
+        expect(await move(admin.connect(fixture.holders[1]), address(3))).to.be.instanceOf(UnauthorizedError);
+
+        expect(((await move(admin, hre.ethers.ZeroAddress)) as RecoveryError).reason).to.equal("Invalid recipient address");
+        expect(((await move(admin, address(1))) as RecoveryError).reason).to.equal("Recipient is the holder");
+        expect(await move(admin, address(2), 11n)).to.be.instanceOf(InsufficientBalanceError);
+        await expect(fixture.recoveryModule.forceTransfer(ASSET_ID, address(1), address(2), 11, ForcedTransferReason.OTHER))
+            .to.be.revertedWith("Insufficient token balance in sender");
+        await expect(fixture.recoveryModule.recoverWallet(address(1), address(2), [SECOND_ASSET_ID], ForcedTransferReason.OTHER))
+            .to.be.revertedWith("Asset does not exist");
+
+        // A sanctioned wallet is emptied into custody, never into another blacklisted one
+        await admin.compliance.blacklist(address(1));
+        await admin.compliance.blacklist(address(4));
+        expect(await move(admin, address(4))).to.be.instanceOf(BlacklistedError);
+        await admin.recovery.recoverWallet(address(1), fixture.owner.address, [ASSET_ID], ForcedTransferReason.SANCTIONS);
+        expect(await fixture.assetToken.balanceOf(address(1), ASSET_ID)).to.equal(0n);
+        expect(await admin.assets.holders(ASSET_ID)).to.deep.equal([fixture.owner.address]);
+    });
+});
@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import {
+    AssetExistsError,
+    AssetNotApprovedError,
+    AssetNotFoundError,
+    BlacklistedError,
+    InsufficientAllowanceError,
+    NoProfitToClaimError,
+    RwaClient,
+    RwaError,
+    UnauthorizedError,
+    decodeRwaError,
+} from "../sdk";
+
+describe("RwaClient Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = params.ASSET_ID;
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+    let USDT_ADDRESS: string;
+
+    /**
+     * Awaits `promise` and checks that it rejects with an instance of `errorClass`.
+     *
+     * @param promise - The SDK call that is expected to fail.
+     * @param errorClass - The typed error the SDK should throw.
+     * @param reason - Expected revert reason, if it should be checked.
+     */
+    async function expectRwaError(promise: Promise<unknown>, errorClass: new (...args: any[]) => RwaError, reason?: string) {
+        const error = await promise.then(() => undefined, e => e);
+
+        expect(error, "call did not fail").to.not.equal(undefined);
+        expect(error).to.be.instanceOf(errorClass);
+        if (reason !== undefined) {
+            expect(error.reason).to.equal(reason);
+        }
+        return error;
+    }
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        USDT_ADDRESS = await fixture.usdt.getAddress();
+        admin = new RwaClient(fixture.appAddress, fixture.owner, {
+            issuer: fixture.owner.address,
+            fexse: await fixture.fexse.getAddress(),
+        });
+    });
+
+    it("  1  --------------> Should read an asset through the assets namespace", async function () {
+
+        const asset = await admin.assets.get(ASSET_ID);
+        log('INFO', `asset ${asset.id}: ${asset.totalTokens} tokens at ${asset.tokenPrice}, holders ${asset.holders.join(", ")}`);
+
+        expect(asset.totalTokens).to.equal(params.TOTALTOKENS);
+        expect(asset.tokenPrice).to.equal(params.TOKENPRICE);
+        expect(asset.tokenContract).to.equal(await fixture.assetToken.getAddress());
+        expect(asset.holders).to.deep.equal([fixture.owner.address]);
+
+        await expectRwaError(admin.assets.get(ASSET_ID + 100), AssetNotFoundError);
+    });
+
+    it("  2  --------------> Should decode revert strings and custom errors into typed errors", async function () {
+
+        await expectRwaError(admin.assets.create({
+            assetId: ASSET_ID,
+            totalTokens: params.TOTALTOKENS,
+            tokenPrice: params.TOKENPRICE,
+            profitPeriod: params.TOKENPROFITPERIOD,
+            tokenLowerLimit: params.TOKENLOWERLIMIT,
+            uri: params.ASSETURI,
+            name: "Otel",
+            symbol: "OT",
+        }), AssetExistsError, "Asset already exists");
+
+        const outsider = admin.connect(fixture.holders[1]);
+        await expectRwaError(outsider.assets.updatePrice(ASSET_ID, 1), UnauthorizedError);
+
+        expect(decodeRwaError(new Error("socket hang up"))).to.not.be.instanceOf(UnauthorizedError);
+    });
+
+    it("  3  --------------> Should pre-flight the allowance of buyTokens", async function () {
+
+        const buyer = fixture.buyer;
+        await fixture.usdt.connect(buyer).approve(fixture.appAddress, 0);
+
+        const client = admin.connect(buyer);
+        const error = await client.sales.buyTokens(ASSET_ID, 5n, USDT_ADDRESS).catch(e => e);
+
+        expect(error).to.be.instanceOf(InsufficientAllowanceError);
+        expect(error.details.owner).to.equal(buyer.address);
+        expect(error.details.actual).to.equal(0n);
+
+        const autoApproving = new RwaClient(fixture.appAddress, buyer, { autoApprove: true });
+        await autoApproving.sales.buyTokens(ASSET_ID, 5n, USDT_ADDRESS);
+
+        expect(await fixture.assetToken.balanceOf(buyer, ASSET_ID)).to.equal(5);
+    });
+
+    it("  4  --------------> Should pre-flight setApprovalForAll of transferAsset", async function () {
+
+        const seller = fixture.holders[1];
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, seller, ASSET_ID, 3, "0x");
+        await fixture.assetToken.connect(seller).setApprovalForAll(fixture.appAddress, false);
+
+        const order = {
+            orderId: 1,
+            seller: seller.address,
+            buyer: fixture.buyer.address,
+            assetId: ASSET_ID,
+            tokenAmount: 3n,
+            tokenPrice: 1000000n,
+            saleCurrency: USDT_ADDRESS,
+        };
+
+        await expectRwaError(admin.marketplace.transferAsset(order), AssetNotApprovedError);
+
+        await fixture.assetToken.connect(seller).setApprovalForAll(fixture.appAddress, true);
+        const receipt = await admin.marketplace.transferAsset(order);
+        log('INFO', `transferAsset gas used: ${receipt.gasUsed}`);
+
+        expect(await fixture.assetToken.balanceOf(fixture.buyer, ASSET_ID)).to.equal(3);
+    });
+
+    it("  5  --------------> Should claim distributed profits", async function () {
+
+        const holder = fixture.holders[1];
+        const client = admin.connect(holder);
+        const profitAmount = hre.ethers.parseEther("10");
+
+        await expectRwaError(client.profits.claim([ASSET_ID]), NoProfitToClaimError);
+
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, holder, ASSET_ID, 10, "0x");
+        await admin.profits.distribute(ASSET_ID, [{ holder: holder.address, profitAmount }]);
+
+        expect(await client.profits.pending(ASSET_ID, holder.address)).to.equal(profitAmount);
+
+        const fexseBefore = await fixture.fexse.balanceOf(holder);
+        await client.profits.claim([ASSET_ID]);
+
+        expect(await fixture.fexse.balanceOf(holder) - fexseBefore).to.equal(profitAmount);
+        expect(await client.profits.pending(ASSET_ID, holder.address)).to.equal(0);
+    });
+
+    it("  6  --------------> Should surface blacklisting as BlacklistedError", async function () {
+
+        const buyer = fixture.buyer;
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), fixture.owner.address);
+        await admin.compliance.blacklist(buyer.address);
+
+        expect(await admin.compliance.isBlacklisted(buyer.address)).to.equal(true);
+        await expectRwaError(admin.compliance.checkTransfer(buyer.address, fixture.owner.address), BlacklistedError, "Sender address is blacklisted");
+        await expectRwaError(admin.connect(buyer).sales.buyTokens(ASSET_ID, 1n, USDT_ADDRESS), BlacklistedError, "Token buyer is in blacklist");
+    });
+});
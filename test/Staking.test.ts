@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture } from "./fixtures";
+import { RwaClient, StakingError, UnauthorizedError } from "../sdk";
+
+describe("Staking Test", function () {
+
+    this.timeout(200000);
+
+    const DAY = 24n * 3600n;
+    // 0.01 FEXSE per second, shared by all stakes
+    const RATE = hre.ethers.parseEther("0.01");
+    const TIERS = [
+        { lockDuration: 0n, multiplierBps: 10000n },
+        { lockDuration: 30n * DAY, multiplierBps: 15000n },
+        { lockDuration: 90n * DAY, multiplierBps: 20000n },
+    ];
+    const fexse = (amount: number | string) => hre.ethers.parseEther(amount.toString());
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+
+        await admin.staking.setTiers(TIERS);
+        await admin.staking.setRewardRate(RATE);
+    });
+
+    const address = (i: number) => fixture.holders[i].address;
+    const client = (i: number) => admin.connect(fixture.holders[i]);
+
+    async function reason(promise: Promise<unknown>): Promise<string> {
+        return ((await promise.catch(e => e)) as StakingError).reason;
+    }
+
+    it("  1  --------------> Should accrue rewards per second in proportion to the tier-weighted stakes", async function () {
+
+        const { stakingService } = fixture;
+        await admin.staking.fund(fexse(1000));
+        const start = BigInt(await time.latest()) + 10n;
+
+        // Holder 1 earns alone for 100 seconds, then shares with a 2x stake of the same size
+        await time.setNextBlockTimestamp(start);
+        await client(1).staking.stake(fexse(100), 0);
+        await time.setNextBlockTimestamp(start + 100n);
+        const { positionId } = await client(2).staking.stake(fexse(100), 2);
+        expect(positionId).to.equal(0n);
+
+        await time.setNextBlockTimestamp(start + 400n);
+        await expect(stakingService.connect(fixture.holders[1]).claimStakingRewards())
+            .to.emit(stakingService, "StakingRewardsClaimed").withArgs(address(1), fexse(2));
+        await time.setNextBlockTimestamp(start + 700n);
+        await expect(stakingService.connect(fixture.holders[2]).claimStakingRewards())
+            .to.emit(stakingService, "StakingRewardsClaimed").withArgs(address(2), fexse(4));
+
+        // Staking again opens a new position and keeps the lock of the first one
+        await client(2).staking.stake(fexse(50), 0);
+        const positions = await admin.staking.positions(address(2));
+        expect(positions.map(p => [p.amount, p.weightedAmount, p.tier])).to.deep.equal([
+            [fexse(100), fexse(200), 2n],
+            [fexse(50), fexse(50), 0n],
+        ]);
+        expect(positions[0].unlockTime).to.equal(start + 100n + 90n * DAY);
+        expect(await admin.staking.pool()).to.deep.equal({ rewardRate: RATE, totalStaked: fexse(250), totalWeighted: fexse(350) });
+        expect(await reason(client(3).staking.claim())).to.equal("No rewards to claim");
+    });
+
+    it("  2  --------------> Should unstake part of a position once unlocked and pay its rewards", async function () {
+
+        const { stakingService, fexse: token } = fixture;
+        await admin.staking.fund(fexse(50000));
+        await client(1).staking.stake(fexse(300), 1);
+        const [position] = await admin.staking.positions(address(1));
+
+        expect(await reason(client(1).staking.unstake(0n, fexse(100)))).to.equal("Tokens are still locked");
+
+        // 30 days at 0.01 FEXSE per second
+        const before = await token.balanceOf(address(1));
+        await time.setNextBlockTimestamp(position.unlockTime);
+        await expect(stakingService.connect(fixture.holders[1]).unstake(0n, fexse(100)))
+            .to.emit(stakingService, "Unstaked").withArgs(address(1), 0n, fexse(100), fexse(25920));
+        expect(await token.balanceOf(address(1)) - before).to.equal(fexse(26020));
+
+        const [rest] = await admin.staking.positions(address(1));
+        expect([rest.amount, rest.weightedAmount]).to.deep.equal([fexse(200), fexse(300)]);
+        expect(await reason(client(1).staking.unstake(0n, fexse(201)))).to.equal("Amount exceeds stake");
+        expect(await reason(client(1).staking.unstake(1n, fexse(1)))).to.equal("Position does not exist");
+
+        await client(1).staking.unstake(0n, fexse(200));
+        expect((await admin.staking.positions(address(1)))[0].amount).to.equal(0n);
+        expect((await admin.staking.pool()).totalStaked).to.equal(0n);
+
+        const solvency = await admin.staking.solvency();
+        expect(solvency.solvent).to.equal(true);
+        expect(solvency.rewardReserve + solvency.rewardsOwed).to.be.lessThan(fexse(50000 - 25920));
+        log('INFO', `Reserve left after 30 days: ${hre.ethers.formatEther(solvency.rewardReserve)} FEXSE`);
+    });
+
+    it("  3  --------------> Should stop accruing when the reserve runs out and let stakers exit in an emergency", async function () {
+
+        const { stakingService } = fixture;
+        await admin.staking.fund(fexse(5));
+        await client(1).staking.stake(fexse(100), 2);
+
+        // 5 FEXSE last 500 seconds, nothing accrues after
+        await time.increase(1000);
+        expect((await admin.staking.positions(address(1)))[0].rewards).to.equal(fexse(5));
+        expect(await admin.staking.solvency()).to.include({ rewardReserve: 0n, rewardsOwed: fexse(5), solvent: true });
+
+        expect(await reason(client(1).staking.unstake(0n, fexse(100)))).to.equal("Tokens are still locked");
+        await expect(stakingService.connect(fixture.holders[1]).emergencyWithdraw(0n))
+            .to.emit(stakingService, "EmergencyWithdrawn").withArgs(address(1), 0n, fexse(100), fexse(5));
+        expect(await reason(client(1).staking.emergencyWithdraw(0n))).to.equal("No tokens staked");
+
+        // The forfeited rewards are back in the reserve, where only the admin can take them
+        const solvency = await admin.staking.solvency();
+        expect(solvency).to.include({ rewardReserve: fexse(5), rewardsOwed: 0n, solvent: true });
+        expect(solvency.fundedUntil - BigInt(await time.latest())).to.be.closeTo(500n, 1n);
+        expect(await reason(admin.staking.withdrawReserve(fixture.owner.address, fexse(6)))).to.equal("Amount exceeds reward reserve");
+        await expect(stakingService.withdrawStakingRewards(fixture.owner.address, fexse(5)))
+            .to.emit(stakingService, "StakingRewardsWithdrawn").withArgs(fixture.owner.address, fexse(5));
+
+        expect(await client(2).staking.setRewardRate(1n).catch(e => e)).to.be.instanceOf(UnauthorizedError);
+        expect(await reason(admin.staking.setTiers([{ lockDuration: 0n, multiplierBps: 5000n }]))).to.equal("Tier multiplier below 1x");
+        expect(await reason(client(1).staking.stake(fexse(1), 3))).to.equal("Invalid staking tier");
+    });
+});
@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { LayoutSnapshot, MemberLayout, compareLayouts, loadBaseline } from "../scripts/deployment/storageLayout";
+
+describe("Storage Layout Test", function () {
+
+    this.timeout(200000);
+
+    let baseline: LayoutSnapshot;
+
+    beforeEach(function () {
+        baseline = loadBaseline()!;
+    });
+
+    const copy = (snapshot: LayoutSnapshot): LayoutSnapshot => JSON.parse(JSON.stringify(snapshot));
+
+    const member = (label: string, slot: string, type = "uint256"): MemberLayout => ({ label, slot, offset: 0, type, bytes: "32" });
+
+    it("  1  --------------> Should match the committed baseline", async function () {
+
+        expect(Object.keys(baseline.structs)).to.include.members(["AppStorage.Layout", "Asset", "UserTokenInfo", "Proposal", "Stake"]);
+        expect(await hre.run("storage:check")).to.deep.equal([]);
+    });
+
+    it("  2  --------------> Should accept appends and reject insertions, reorders and type changes", async function () {
+
+        const appended = copy(baseline);
+        const asset = appended.structs.Asset.members;
+        asset.push(member("feeBps", String(Number(asset[asset.length - 1].slot) + 1)));
+        appended.structs["AppStorage.Layout"].members.push(member("stakingPool", "13"));
+        expect(compareLayouts(baseline, appended)).to.deep.equal([]);
+
+        const inserted = copy(baseline);
+        inserted.structs.Asset.members.splice(2, 0, member("feeBps", "2"));
+        inserted.structs.Asset.members.slice(3).forEach(m => { m.slot = String(Number(m.slot) + 1); });
+        const insertIssues = compareLayouts(baseline, inserted);
+        expect(insertIssues[0]).to.include({ kind: "changed", struct: "Asset", member: "tokenPrice" });
+        expect(insertIssues.length).to.be.gte(inserted.structs.Asset.members.length - 3);
+
+        const reordered = copy(baseline);
+        const stake = reordered.structs.Stake.members;
+        [stake[0].label, stake[1].label] = [stake[1].label, stake[0].label];
+        expect(compareLayouts(baseline, reordered).map(i => i.member)).to.deep.equal(["amount", "rewardDebt"]);
+
+        const retyped = copy(baseline);
+        retyped.structs.Proposal.members.find(m => m.label === "governanceToken")!.type = "address";
+        expect(compareLayouts(baseline, retyped)).to.deep.equal([{
+            kind: "changed",
+            struct: "Proposal",
+            member: "governanceToken",
+            message: "Proposal member 1 changed from contract IERC20 governanceToken (slot 1, offset 0) to address governanceToken (slot 1, offset 0)",
+        }]);
+    });
+
+    it("  3  --------------> Should reject removed members, lost structs and appends to inline structs", async function () {
+
+        const removed = copy(baseline);
+        removed.structs.UserTokenInfo.members.pop();
+        delete removed.structs.Stake;
+        expect(compareLayouts(baseline, removed).map(i => i.kind)).to.deep.equal(["removed", "missing_struct"]);
+
+        // A struct stored inline in another one shifts the fields after it when it grows
+        const before = copy(baseline);
+        before.structs.Stake.embeddedIn = ["Asset"];
+        const grown = copy(before);
+        grown.structs.Stake.members.push(member("tier", "3"));
+        expect(compareLayouts(before, grown)).to.deep.equal([{
+            kind: "unsafe_append",
+            struct: "Stake",
+            member: "tier",
+            message: "Stake grew but is stored inline in Asset, appending moves the fields after it",
+        }]);
+    });
+});
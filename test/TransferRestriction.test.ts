@@ -0,0 +1,104 @@
+import { expect } from "chai";
+import hre from "hardhat";
+import { impersonateAccount, loadFixture, setBalance } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { log } from './logger';
+import { AppFixture, deployAppFixture, params } from "./fixtures";
+import { RwaClient, TransferRestrictionCode, TransferRestrictionMode, UnauthorizedError } from "../sdk";
+
+describe("Transfer Restriction Test", function () {
+
+    this.timeout(200000);
+
+    const ASSET_ID = BigInt(params.ASSET_ID);
+
+    let fixture: AppFixture;
+    let admin: RwaClient;
+
+    beforeEach(async function () {
+        fixture = await loadFixture(deployAppFixture);
+        admin = new RwaClient(fixture.appAddress, fixture.owner);
+        await fixture.app.grantRole(hre.ethers.id("COMPLIANCE_OFFICER_ROLE"), fixture.owner.address);
+        await fixture.assetToken.connect(fixture.owner).safeTransferFrom(fixture.owner, fixture.holders[1], ASSET_ID, 20, "0x");
+    });
+
+    const transfer = (from: number, to: number, amount: number = 1) =>
+        fixture.assetToken.connect(fixture.holders[from]).safeTransferFrom(fixture.holders[from], fixture.holders[to], ASSET_ID, amount, "0x");
+
+    it("  1  --------------> Should reject peer-to-peer transfers of blacklisted holders by default", async function () {
+
+        const { assetToken, holders } = fixture;
+        expect(await admin.compliance.restrictionMode(ASSET_ID)).to.equal(TransferRestrictionMode.BLACKLIST_ONLY);
+
+        // Neither party needs to be whitelisted
+        await transfer(1, 2, 5);
+
+        await admin.compliance.blacklist(holders[1].address);
+        await expect(transfer(1, 2)).to.be.revertedWith("Sender address is blacklisted");
+        await expect(transfer(2, 1)).to.be.revertedWith("Recipient address is blacklisted");
+        await expect(assetToken.connect(holders[1]).safeBatchTransferFrom(holders[1], holders[2], [ASSET_ID], [1], "0x"))
+            .to.be.revertedWith("Sender address is blacklisted");
+
+        expect(await assetToken.detectTransferRestriction(holders[1], holders[2], ASSET_ID, 1)).to.equal(TransferRestrictionCode.SENDER_BLACKLISTED);
+        expect(await assetToken.messageForTransferRestriction(2)).to.equal("Recipient address is blacklisted");
+        expect(await admin.compliance.detectRestriction(ASSET_ID, holders[2].address, holders[3].address, 1n))
+            .to.deep.equal({ code: TransferRestrictionCode.ALLOWED, message: "No restriction" });
+
+        await admin.compliance.removeFromBlacklist(holders[1].address);
+        await transfer(1, 2);
+        expect(await assetToken.balanceOf(holders[2], ASSET_ID)).to.equal(6n);
+    });
+
+    it("  2  --------------> Should require whitelisted parties in whitelist mode and nothing in open mode", async function () {
+
+        const { compliance, holders } = fixture;
+        await expect(compliance.setTransferRestrictionMode(ASSET_ID, TransferRestrictionMode.WHITELIST_REQUIRED))
+            .to.emit(compliance, "TransferRestrictionModeUpdated").withArgs(ASSET_ID, TransferRestrictionMode.WHITELIST_REQUIRED);
+
+        await expect(transfer(1, 2)).to.be.revertedWith("Sender is not whitelisted");
+        await admin.compliance.whitelist(holders[1].address);
+        await expect(transfer(1, 2)).to.be.revertedWith("Recipient is not whitelisted");
+        await admin.compliance.whitelist(holders[2].address);
+        await transfer(1, 2);
+
+        const restriction = await admin.compliance.detectRestriction(ASSET_ID, holders[2].address, holders[3].address, 1n);
+        expect(restriction).to.deep.equal({ code: TransferRestrictionCode.RECIPIENT_NOT_WHITELISTED, message: "Recipient is not whitelisted" });
+
+        // Open mode lets even blacklisted holders transfer
+        await admin.compliance.setRestrictionMode(ASSET_ID, TransferRestrictionMode.OPEN);
+        await admin.compliance.blacklist(holders[1].address);
+        await transfer(1, 3, 4);
+        expect(await fixture.assetToken.balanceOf(holders[3], ASSET_ID)).to.equal(4n);
+
+        const stranger = admin.connect(holders[4]);
+        const error = await stranger.compliance.setRestrictionMode(ASSET_ID, TransferRestrictionMode.BLACKLIST_ONLY).catch(e => e);
+        expect(error).to.be.instanceOf(UnauthorizedError);
+        await expect(compliance.setTransferRestrictionMode(ASSET_ID + 1n, TransferRestrictionMode.OPEN)).to.be.revertedWith("Asset does not exist");
+    });
+
+    it("  3  --------------> Should exempt burns and forced recovery transfers", async function () {
+
+        const { assetToken, holders, appAddress } = fixture;
+        await admin.compliance.setRestrictionMode(ASSET_ID, TransferRestrictionMode.WHITELIST_REQUIRED);
+        await admin.compliance.blacklist(holders[1].address);
+
+        // Burns from a blacklisted holder
+        await admin.assets.sendToTheRealWorld(holders[1].address, ASSET_ID, 5n);
+        expect(await assetToken.balanceOf(holders[1], ASSET_ID)).to.equal(15n);
+
+        // Recovery by the App, the admin of every asset token
+        await impersonateAccount(appAddress);
+        await setBalance(appAddress, hre.ethers.parseEther("10"));
+        const app = await hre.ethers.getSigner(appAddress);
+        await expect(assetToken.connect(app).forceTransfer(holders[1], holders[2], ASSET_ID, 15))
+            .to.emit(assetToken, "ForcedTransfer").withArgs(holders[1].address, holders[2].address, ASSET_ID, 15);
+        expect(await assetToken.balanceOf(holders[2], ASSET_ID)).to.equal(15n);
+        expect(await admin.assets.holderBalance(ASSET_ID, holders[2].address)).to.equal(15n);
+
+        await expect(assetToken.connect(holders[2]).forceTransfer(holders[2], holders[3], ASSET_ID, 1))
+            .to.be.revertedWithCustomError(assetToken, "AccessControlUnauthorizedAccount");
+
+        // The restriction applies again after the recovery
+        await expect(transfer(2, 3)).to.be.revertedWith("Sender is not whitelisted");
+        log('INFO', `Recovered 15 tokens of asset ${ASSET_ID} from a blacklisted holder`);
+    });
+});
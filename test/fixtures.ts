@@ -0,0 +1,239 @@
+import hre from "hardhat";
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { log } from './logger';
+import { getNetworkConfig } from "../config/networks";
+import { runDeployment } from "../scripts/deployment/engine";
+import { RWA_MANIFEST } from "../scripts/deployment/manifest";
+import { DeploymentState, statePath } from "../scripts/deployment/state";
+
+import {
+    App,
+    AssetToken,
+    Compliance,
+    FeeModule,
+    Fexse,
+    IERC20,
+    IdentityRegistry,
+    IssuanceModule,
+    MarketPlace,
+    MockAggregator,
+    MockSwapRouter,
+    MockyToken,
+    PriceFetcher,
+    ProfitModule,
+    RWATokenization,
+    RWA_DAO,
+    RecoveryModule,
+    SalesModule,
+    StakingService,
+    SwapModule,
+} from "../typechain-types";
+
+export const params = require(`${__dirname}/test_parameters.json`);
+
+/**
+ * "local" deploys mock USDT, WETH, a mock USDT/ETH aggregator and a mock swap router and
+ * needs no network access. "fork" runs against the mainnet fork configured through RPC_URL
+ * and funds the test accounts from an impersonated USDT holder.
+ */
+export type FixtureMode = "local" | "fork";
+
+export const FIXTURE_MODE: FixtureMode = process.env.RPC_URL ? "fork" : "local";
+
+// ERC20 ABI - Minimum required to interact with the fork tokens
+const ERC20_ABI = [
+    "function approve(address spender, uint256 amount) external returns (bool)",
+    "function allowance(address owner, address spender) external view returns (uint256)",
+    "function balanceOf(address account) external view returns (uint256)",
+    "function transfer(address recipient, uint256 amount) external returns (bool)",
+    "function transferFrom(address sender, address recipient, uint256 amount) external returns (bool)",
+    "function totalSupply() external view returns (uint256)",
+];
+
+export const USDT_PER_HOLDER = 150000000n; // 150 USDT
+export const USDT_FOR_BUYER = 10000000000n; // 10,000 USDT, only minted in local mode
+export const FEXSE_PER_ACCOUNT = hre.ethers.parseEther("1000");
+
+// 1 USDT = 0.0003 ETH, the USDT/ETH feed answers with 18 decimals
+export const USDT_ETH_PRICE = 300000000000000n;
+
+// FEXSE is sold at a fixed 0.045 USDT (45,000 in 6 decimals)
+export const FEXSE_PRICE_USDT = 45000n;
+
+export interface AppFixture {
+    mode: FixtureMode;
+    owner: HardhatEthersSigner;
+    holders: HardhatEthersSigner[];
+    buyer: HardhatEthersSigner;
+    app: App;
+    appAddress: string;
+    // Deployment state of the manifest run, `deploymentPath` is the state file on disk
+    deployment: DeploymentState;
+    deploymentPath: string;
+    rwaTokenization: RWATokenization;
+    profitModule: ProfitModule;
+    compliance: Compliance;
+    identityRegistry: IdentityRegistry;
+    recoveryModule: RecoveryModule;
+    marketPlace: MarketPlace;
+    rwaDAO: RWA_DAO;
+    swapModule: SwapModule;
+    priceFetcher: PriceFetcher;
+    salesModule: SalesModule;
+    feeModule: FeeModule;
+    issuanceModule: IssuanceModule;
+    stakingService: StakingService;
+    fexse: Fexse;
+    usdt: IERC20;
+    weth: IERC20;
+    assetToken: AssetToken;
+    usdtMock?: MockyToken;
+    aggregator?: MockAggregator;
+    swapRouter?: MockSwapRouter;
+}
+
+/**
+ * Deploys the full App diamond through the deployment manifest, creates the ASSET_ID asset
+ * and funds and approves the test accounts.
+ *
+ * Meant to be used with `loadFixture`, so the deployment runs once and every test starts
+ * from a snapshot of the resulting chain.
+ */
+export async function deployAppFixture(): Promise<AppFixture> {
+    const signers = await hre.ethers.getSigners();
+    const holders = signers.slice(0, params.ADDR_COUNT);
+    const owner = holders[0];
+
+    log('INFO', `--------------------------------FIXTURE (${FIXTURE_MODE})--------------------------------`);
+
+    let buyer: HardhatEthersSigner;
+    let usdt: IERC20;
+    let weth: IERC20;
+    let usdtMock: MockyToken | undefined;
+    let aggregator: MockAggregator | undefined;
+    let swapRouter: MockSwapRouter | undefined;
+    let deployParams: { [name: string]: string };
+
+    if (FIXTURE_MODE === "local") {
+        usdtMock = await hre.ethers.deployContract("MockyToken", ["Tether USD", "USDT", 0, 6]);
+        const wethMock = await hre.ethers.deployContract("MockyToken", ["Wrapped Ether", "WETH", 0, 18]);
+        aggregator = await hre.ethers.deployContract("MockAggregator", [18, USDT_ETH_PRICE]);
+        swapRouter = await hre.ethers.deployContract("MockSwapRouter");
+
+        usdt = usdtMock as unknown as IERC20;
+        weth = wethMock as unknown as IERC20;
+        buyer = signers[params.ADDR_COUNT];
+
+        deployParams = {
+            USDT_ADDRESS: await usdtMock.getAddress(),
+            WETH_ADDRESS: await wethMock.getAddress(),
+            USDTETH_AGGREGATOR: await aggregator.getAddress(),
+            UNISWAP_V3_ROUTER: await swapRouter.getAddress(),
+            GUARDIAN: holders[4].address,
+        };
+    } else {
+        const networkConfig = getNetworkConfig(params.TEST_CHAIN);
+        usdt = (await hre.ethers.getContractAt(ERC20_ABI, networkConfig.addresses.USDT_ADDRESS)) as unknown as IERC20;
+        weth = (await hre.ethers.getContractAt(ERC20_ABI, networkConfig.addresses.WETH_ADDRESS)) as unknown as IERC20;
+        buyer = await hre.ethers.getImpersonatedSigner(params.My_ADDRESS);
+
+        deployParams = { GUARDIAN: holders[4].address, ...networkConfig.addresses } as { [name: string]: string };
+    }
+
+    const stateDir = mkdtempSync(join(tmpdir(), "rwa-fixture-"));
+    const state = await runDeployment(RWA_MANIFEST, {
+        network: "hardhat",
+        signer: owner,
+        params: deployParams,
+        optIn: ["RWA_DAO", "SwapModule"],
+        confirmations: 1,
+        stateDir,
+    });
+
+    const appAddress = state.modules.App.address!;
+    const app = await hre.ethers.getContractAt("App", appAddress);
+    const rwaTokenization = await hre.ethers.getContractAt("RWATokenization", appAddress);
+    const fexse = await hre.ethers.getContractAt("Fexse", state.modules.Fexse.address!);
+
+    await rwaTokenization.createAsset(
+        params.ASSET_ID,
+        params.TOTALTOKENS,
+        params.TOKENPRICE,
+        params.TOKENPROFITPERIOD,
+        params.TOKENLOWERLIMIT,
+        params.ASSETURI,
+        "Otel",
+        "OT"
+    );
+    const assetToken = await hre.ethers.getContractAt(
+        "AssetToken",
+        await rwaTokenization.getTokenContractAddress(params.ASSET_ID)
+    );
+
+    if (usdtMock) {
+        for (const holder of holders) {
+            await usdtMock.mint(holder.address, USDT_PER_HOLDER);
+        }
+        await usdtMock.mint(buyer.address, USDT_FOR_BUYER);
+    } else {
+        for (const holder of holders) {
+            await usdt.connect(buyer).transfer(holder.address, USDT_PER_HOLDER);
+        }
+    }
+
+    if (swapRouter && usdtMock) {
+        const routerAddress = await swapRouter.getAddress();
+        const usdtAddress = await usdtMock.getAddress();
+        const fexseAddress = await fexse.getAddress();
+
+        await swapRouter.setRate(usdtAddress, fexseAddress, (10n ** 36n) / FEXSE_PRICE_USDT);
+        await swapRouter.setRate(fexseAddress, usdtAddress, FEXSE_PRICE_USDT);
+        await usdtMock.mint(routerAddress, USDT_FOR_BUYER);
+        await fexse.connect(owner).transfer(routerAddress, hre.ethers.parseEther("1000000"));
+    }
+
+    for (const account of [...holders, buyer]) {
+        if (account !== owner) {
+            await fexse.connect(owner).transfer(account.address, FEXSE_PER_ACCOUNT);
+        }
+        await usdt.connect(account).approve(appAddress, hre.ethers.MaxUint256);
+        await fexse.connect(account).approve(appAddress, hre.ethers.MaxUint256);
+        await assetToken.connect(account).setApprovalForAll(appAddress, true);
+    }
+
+    log('INFO', `App deployed at ${appAddress}, asset ${params.ASSET_ID} token at ${await assetToken.getAddress()}`);
+
+    return {
+        mode: FIXTURE_MODE,
+        owner,
+        holders,
+        buyer,
+        app,
+        appAddress,
+        deployment: state,
+        deploymentPath: statePath("hardhat", stateDir),
+        rwaTokenization,
+        profitModule: await hre.ethers.getContractAt("ProfitModule", appAddress),
+        compliance: await hre.ethers.getContractAt("Compliance", appAddress),
+        identityRegistry: await hre.ethers.getContractAt("IdentityRegistry", appAddress),
+        recoveryModule: await hre.ethers.getContractAt("RecoveryModule", appAddress),
+        marketPlace: await hre.ethers.getContractAt("MarketPlace", appAddress),
+        rwaDAO: await hre.ethers.getContractAt("RWA_DAO", appAddress),
+        swapModule: await hre.ethers.getContractAt("SwapModule", appAddress),
+        priceFetcher: await hre.ethers.getContractAt("PriceFetcher", appAddress),
+        salesModule: await hre.ethers.getContractAt("SalesModule", appAddress),
+        feeModule: await hre.ethers.getContractAt("FeeModule", appAddress),
+        issuanceModule: await hre.ethers.getContractAt("IssuanceModule", appAddress),
+        stakingService: await hre.ethers.getContractAt("StakingService", appAddress),
+        fexse,
+        usdt,
+        weth,
+        assetToken,
+        usdtMock,
+        aggregator,
+        swapRouter,
+    };
+}